@@ -0,0 +1,26 @@
+-- Shop search (src/lib/search.ts): stored full-text documents with GIN
+-- indexes, and trigram indexes for typo-tolerant name matches.
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN "search_document" tsvector
+  GENERATED ALWAYS AS (setweight(to_tsvector('english', "name"), 'A')) STORED;
+
+-- AlterTable
+ALTER TABLE "item_listings" ADD COLUMN "search_document" tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', "item_name"), 'A') ||
+    setweight(to_tsvector('english', "description"), 'B')
+  ) STORED;
+
+-- CreateIndex
+CREATE INDEX "products_search_document_idx" ON "products" USING GIN ("search_document");
+
+-- CreateIndex
+CREATE INDEX "products_name_idx" ON "products" USING GIN ("name" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "item_listings_search_document_idx" ON "item_listings" USING GIN ("search_document");
+
+-- CreateIndex
+CREATE INDEX "item_listings_item_name_idx" ON "item_listings" USING GIN ("item_name" gin_trgm_ops);
@@ -0,0 +1,20 @@
+// scripts/accrue-rentals.ts
+// Daily rental accrual, e.g. from cron: `npm run rentals:accrue`
+import { prisma } from '../src/lib/prisma'
+import { runRentalAccrual } from '../src/lib/rentalAccrual'
+import { expireSellerApprovals } from '../src/lib/rentalApproval'
+
+async function main() {
+  const summary = await runRentalAccrual()
+  const expiredRequestIds = await expireSellerApprovals()
+  console.log('📅 Rental accrual complete:', { ...summary, expiredRequestIds })
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Rental accrual failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,59 @@
+// scripts/assign-product-images.ts
+// Give products their pictures from a folder of images named after them, e.g. after seeding:
+// `npm run products:images -- ./photos/snacks "Snacks" [--overwrite]`
+import { readdir, readFile } from 'fs/promises'
+import path from 'path'
+import { prisma } from '../src/lib/prisma'
+import { assignProductImagesByName } from '../src/lib/productImages'
+
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp'
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+  const overwrite = args.includes('--overwrite')
+  const [folder, categoryName] = args.filter(arg => arg !== '--overwrite')
+
+  if (!folder) {
+    throw new Error('Usage: npm run products:images -- <folder> [category name] [--overwrite]')
+  }
+
+  let categoryId: string | undefined
+  if (categoryName) {
+    const category = await prisma.category.findFirst({ where: { name: categoryName } })
+    if (!category) {
+      throw new Error(`No category named "${categoryName}"`)
+    }
+    categoryId = category.id
+  }
+
+  const files: File[] = []
+  for (const name of await readdir(folder)) {
+    const type = MIME_TYPES[path.extname(name).toLowerCase()]
+    if (type) {
+      files.push(new File([new Uint8Array(await readFile(path.join(folder, name)))], name, { type }))
+    }
+  }
+
+  const result = await assignProductImagesByName(files, { categoryId, overwrite })
+
+  console.log(`🖼️ Assigned ${result.assigned.length} of ${files.length} images`)
+  result.assigned.forEach(a => console.log(`  ✅ ${a.fileName} → ${a.productName}`))
+  result.unmatched.forEach(name => console.log(`  ❓ ${name}: no product with this name`))
+  result.ambiguous.forEach(name => console.log(`  ⚠️ ${name}: matches more than one product`))
+  result.skipped.forEach(name => console.log(`  ⏭️ ${name}: product already has an image (use --overwrite)`))
+  result.failed.forEach(f => console.log(`  ❌ ${f.error}`))
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Assigning product images failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
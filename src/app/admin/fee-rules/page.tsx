@@ -0,0 +1,460 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { describeFeePolicy, resolveFeePolicy } from '@/lib/platformFees'
+
+interface Category {
+  id: string
+  name: string
+}
+
+interface FeeRuleSet {
+  id: string
+  version: number
+  defaultPercent: number
+  minFeePerDay: number
+  maxFeePerDay: number | null
+  note: string | null
+  createdAt: string
+  categoryRules: {
+    categoryId: string
+    percent: number
+    minFeePerDay: number | null
+    maxFeePerDay: number | null
+  }[]
+  promotions: {
+    name: string
+    categoryId: string | null
+    startsAt: string
+    endsAt: string
+  }[]
+  _count: {
+    itemListings: number
+    rentalTransactions: number
+  }
+}
+
+// Form rows keep every number as the raw input string
+interface CategoryRuleRow {
+  categoryId: string
+  percent: string
+  minFeePerDay: string
+  maxFeePerDay: string
+}
+
+interface PromotionRow {
+  name: string
+  categoryId: string
+  startsAt: string
+  endsAt: string
+}
+
+// ISO timestamp to the value a datetime-local input expects, in local time
+const toLocalInput = (iso: string) => {
+  const date = new Date(iso)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+const formatAmount = (value: number | null) => value === null ? '' : String(value)
+
+export default function AdminFeeRulesPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [versions, setVersions] = useState<FeeRuleSet[]>([])
+  const [categories, setCategories] = useState<Category[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [defaultPercent, setDefaultPercent] = useState('')
+  const [minFeePerDay, setMinFeePerDay] = useState('')
+  const [maxFeePerDay, setMaxFeePerDay] = useState('')
+  const [note, setNote] = useState('')
+  const [categoryRules, setCategoryRules] = useState<CategoryRuleRow[]>([])
+  const [promotions, setPromotions] = useState<PromotionRow[]>([])
+
+  useEffect(() => {
+    if (status === 'loading') return
+    if (!session || session.user.role !== 'ADMIN') {
+      router.push('/')
+      return
+    }
+    fetchData()
+  }, [session, status, router])
+
+  // Start the form from the current version
+  const loadForm = (ruleSet: FeeRuleSet) => {
+    setDefaultPercent(String(ruleSet.defaultPercent))
+    setMinFeePerDay(formatAmount(ruleSet.minFeePerDay || null))
+    setMaxFeePerDay(formatAmount(ruleSet.maxFeePerDay))
+    setNote('')
+    setCategoryRules(ruleSet.categoryRules.map(rule => ({
+      categoryId: rule.categoryId,
+      percent: String(rule.percent),
+      minFeePerDay: formatAmount(rule.minFeePerDay),
+      maxFeePerDay: formatAmount(rule.maxFeePerDay)
+    })))
+    setPromotions(ruleSet.promotions.map(promotion => ({
+      name: promotion.name,
+      categoryId: promotion.categoryId || '',
+      startsAt: toLocalInput(promotion.startsAt),
+      endsAt: toLocalInput(promotion.endsAt)
+    })))
+  }
+
+  const fetchData = async () => {
+    try {
+      const [versionsRes, categoriesRes] = await Promise.all([
+        fetch('/api/admin/fee-rules'),
+        fetch('/api/admin/categories')
+      ])
+
+      if (versionsRes.ok) {
+        const data: FeeRuleSet[] = await versionsRes.json()
+        setVersions(data)
+        if (data.length > 0) loadForm(data[0])
+      }
+      if (categoriesRes.ok) {
+        setCategories(await categoriesRes.json())
+      }
+    } catch (error) {
+      console.error('Error fetching fee rules:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const categoryName = (categoryId: string | null) =>
+    categoryId ? categories.find(category => category.id === categoryId)?.name || 'Unknown category' : 'All categories'
+
+  const updateCategoryRule = (index: number, field: keyof CategoryRuleRow, value: string) => {
+    setCategoryRules(rows => rows.map((row, i) => i === index ? { ...row, [field]: value } : row))
+  }
+
+  const updatePromotion = (index: number, field: keyof PromotionRow, value: string) => {
+    setPromotions(rows => rows.map((row, i) => i === index ? { ...row, [field]: value } : row))
+  }
+
+  const publish = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const nextVersion = (versions[0]?.version || 0) + 1
+    if (!confirm(`Publish these rules as version ${nextVersion}? Only listings created from now on use them; existing listings keep their fees.`)) return
+
+    setSaving(true)
+    try {
+      const response = await fetch('/api/admin/fee-rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          defaultPercent,
+          minFeePerDay,
+          maxFeePerDay,
+          note,
+          categoryRules,
+          promotions: promotions.map(promotion => ({
+            ...promotion,
+            startsAt: promotion.startsAt ? new Date(promotion.startsAt).toISOString() : '',
+            endsAt: promotion.endsAt ? new Date(promotion.endsAt).toISOString() : ''
+          }))
+        })
+      })
+
+      const data = await response.json()
+      if (response.ok) {
+        alert(`Fee rules v${data.version} published`)
+        fetchData()
+      } else {
+        alert(data.error || 'Failed to publish fee rules')
+      }
+    } catch (error) {
+      console.error('Error publishing fee rules:', error)
+      alert('Failed to publish fee rules')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="text-lg">Loading...</div>
+      </div>
+    )
+  }
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-md text-gray-900 text-sm'
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Navigation */}
+      <nav className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <button
+                onClick={() => router.push('/admin')}
+                className="text-blue-600 hover:text-blue-800 mr-4 font-medium"
+              >
+                ← Back to Dashboard
+              </button>
+              <h1 className="text-xl font-semibold text-gray-900">Platform Fee Rules</h1>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {/* Editor */}
+        <form onSubmit={publish} className="bg-white rounded-lg shadow p-6 space-y-6">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Edit Rules</h2>
+            <p className="text-sm text-gray-600">
+              The fee is added on top of the owner&apos;s rate. Caps are per rental day, so weekly and monthly
+              rates get 7× and 30× the daily caps. Publishing creates a new version; listings and rentals keep
+              the version they were priced with.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <label className="text-sm text-gray-700">
+              Default fee (%) *
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="0.1"
+                required
+                value={defaultPercent}
+                onChange={(e) => setDefaultPercent(e.target.value)}
+                className={`${inputClass} w-full mt-1`}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Minimum fee (₹/day)
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={minFeePerDay}
+                onChange={(e) => setMinFeePerDay(e.target.value)}
+                placeholder="No minimum"
+                className={`${inputClass} w-full mt-1`}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Maximum fee (₹/day)
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={maxFeePerDay}
+                onChange={(e) => setMaxFeePerDay(e.target.value)}
+                placeholder="No maximum"
+                className={`${inputClass} w-full mt-1`}
+              />
+            </label>
+          </div>
+
+          {/* Category overrides */}
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <h3 className="font-medium text-gray-900">Category Overrides</h3>
+              <button
+                type="button"
+                onClick={() => setCategoryRules(rows => [...rows, { categoryId: '', percent: '', minFeePerDay: '', maxFeePerDay: '' }])}
+                className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+              >
+                + Add override
+              </button>
+            </div>
+            {categoryRules.length === 0 ? (
+              <p className="text-sm text-gray-500">Every category uses the default fee.</p>
+            ) : (
+              <div className="space-y-2">
+                {categoryRules.map((rule, index) => (
+                  <div key={index} className="grid grid-cols-2 sm:grid-cols-5 gap-2 items-center">
+                    <select
+                      value={rule.categoryId}
+                      onChange={(e) => updateCategoryRule(index, 'categoryId', e.target.value)}
+                      required
+                      className={inputClass}
+                    >
+                      <option value="">Category...</option>
+                      {categories.map(category => (
+                        <option key={category.id} value={category.id}>{category.name}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.1"
+                      required
+                      value={rule.percent}
+                      onChange={(e) => updateCategoryRule(index, 'percent', e.target.value)}
+                      placeholder="Fee %"
+                      className={inputClass}
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={rule.minFeePerDay}
+                      onChange={(e) => updateCategoryRule(index, 'minFeePerDay', e.target.value)}
+                      placeholder="Min ₹/day (default)"
+                      className={inputClass}
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={rule.maxFeePerDay}
+                      onChange={(e) => updateCategoryRule(index, 'maxFeePerDay', e.target.value)}
+                      placeholder="Max ₹/day (default)"
+                      className={inputClass}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setCategoryRules(rows => rows.filter((_, i) => i !== index))}
+                      className="text-sm text-red-600 hover:text-red-800"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Promotions */}
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <h3 className="font-medium text-gray-900">Zero-Fee Promotions</h3>
+              <button
+                type="button"
+                onClick={() => setPromotions(rows => [...rows, { name: '', categoryId: '', startsAt: '', endsAt: '' }])}
+                className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+              >
+                + Add promotion
+              </button>
+            </div>
+            {promotions.length === 0 ? (
+              <p className="text-sm text-gray-500">No promotions.</p>
+            ) : (
+              <div className="space-y-2">
+                {promotions.map((promotion, index) => (
+                  <div key={index} className="grid grid-cols-2 sm:grid-cols-5 gap-2 items-center">
+                    <input
+                      type="text"
+                      required
+                      value={promotion.name}
+                      onChange={(e) => updatePromotion(index, 'name', e.target.value)}
+                      placeholder="Name, e.g. Freshers week"
+                      className={inputClass}
+                    />
+                    <select
+                      value={promotion.categoryId}
+                      onChange={(e) => updatePromotion(index, 'categoryId', e.target.value)}
+                      className={inputClass}
+                    >
+                      <option value="">All categories</option>
+                      {categories.map(category => (
+                        <option key={category.id} value={category.id}>{category.name}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="datetime-local"
+                      required
+                      value={promotion.startsAt}
+                      onChange={(e) => updatePromotion(index, 'startsAt', e.target.value)}
+                      className={inputClass}
+                    />
+                    <input
+                      type="datetime-local"
+                      required
+                      value={promotion.endsAt}
+                      onChange={(e) => updatePromotion(index, 'endsAt', e.target.value)}
+                      className={inputClass}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setPromotions(rows => rows.filter((_, i) => i !== index))}
+                      className="text-sm text-red-600 hover:text-red-800"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-3 sm:items-end">
+            <label className="text-sm text-gray-700 flex-1">
+              Note
+              <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Why the rules changed"
+                className={`${inputClass} w-full mt-1`}
+              />
+            </label>
+            <button
+              type="submit"
+              disabled={saving}
+              className="bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 font-medium"
+            >
+              {saving ? 'Publishing...' : 'Publish New Version'}
+            </button>
+          </div>
+        </form>
+
+        {/* Version history */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Versions</h2>
+          <div className="space-y-4">
+            {versions.map((ruleSet, index) => (
+              <div key={ruleSet.id} className="border rounded-lg p-4">
+                <div className="flex justify-between items-start mb-2">
+                  <div>
+                    <h3 className="font-semibold text-gray-900">
+                      v{ruleSet.version}
+                      {index === 0 && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                          CURRENT
+                        </span>
+                      )}
+                    </h3>
+                    <p className="text-xs text-gray-500">
+                      {new Date(ruleSet.createdAt).toLocaleString('en-IN')}
+                      {ruleSet.note && ` · ${ruleSet.note}`}
+                    </p>
+                  </div>
+                  <p className="text-xs text-gray-600 text-right">
+                    {ruleSet._count.itemListings} listing{ruleSet._count.itemListings === 1 ? '' : 's'} ·{' '}
+                    {ruleSet._count.rentalTransactions} rental{ruleSet._count.rentalTransactions === 1 ? '' : 's'}
+                  </p>
+                </div>
+                <div className="text-sm text-gray-700 space-y-1">
+                  <p>Default: {describeFeePolicy(resolveFeePolicy(ruleSet, ''))}</p>
+                  {ruleSet.categoryRules.map(rule => (
+                    <p key={rule.categoryId}>
+                      {categoryName(rule.categoryId)}: {describeFeePolicy(resolveFeePolicy(ruleSet, rule.categoryId))}
+                    </p>
+                  ))}
+                  {ruleSet.promotions.map((promotion, i) => (
+                    <p key={i} className="text-green-700">
+                      🎉 {promotion.name} ({categoryName(promotion.categoryId)}):{' '}
+                      {new Date(promotion.startsAt).toLocaleString('en-IN')} – {new Date(promotion.endsAt).toLocaleString('en-IN')}
+                    </p>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
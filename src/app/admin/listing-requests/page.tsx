@@ -3,14 +3,22 @@
 import { useSession } from 'next-auth/react'
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
+import { useInfiniteList } from '@/hooks/useInfiniteList'
 
 interface Listing {
   id: string
+  listingType: string
   itemName: string
   description: string
   rentPerDay: number
   platformFee: number
   finalRent: number
+  salePrice: number | null
+  saleFee: number | null
+  finalSalePrice: number | null
+  feeRuleSet: { version: number } | null
+  wantedPost: { id: string; title: string; requesterName: string } | null
+  _count: { versions: number }
   securityDeposit: number | null
   quantity: number
   status: string
@@ -31,40 +39,106 @@ interface Listing {
   }
 }
 
+interface ListingVersion {
+  id: string
+  version: number
+  snapshot: Record<string, unknown>
+  changedFields: string[]
+  requiresReview: boolean
+  createdAt: string
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  itemName: 'Item name',
+  description: 'Description',
+  categoryId: 'Category',
+  images: 'Images',
+  acceptsOffers: 'Open to offers',
+  quantity: 'Quantity',
+  salePrice: 'Sale price',
+  rentPerDay: 'Rent per day',
+  weeklyRent: 'Weekly rent',
+  monthlyRent: 'Monthly rent',
+  minRentalDays: 'Minimum days',
+  maxRentalDays: 'Maximum days',
+  securityDeposit: 'Security deposit',
+  lateFeePerDay: 'Late fee per day',
+  requiresSellerApproval: 'Seller approves rentals',
+  finalRent: 'Customer pays per day',
+  finalSalePrice: 'Buyer pays'
+}
+
+const formatVersionValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—'
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (Array.isArray(value)) return value.length === 0 ? 'None' : value.join(', ')
+  return String(value)
+}
+
 export default function AdminListingRequests() {
   const { data: session, status } = useSession()
   const router = useRouter()
-  const [listings, setListings] = useState<Listing[]>([])
-  const [loading, setLoading] = useState(true)
   const [statusFilter, setStatusFilter] = useState('PENDING')
   const [selectedListing, setSelectedListing] = useState<Listing | null>(null)
   const [showRejectModal, setShowRejectModal] = useState(false)
   const [rejectionReason, setRejectionReason] = useState('')
   const [actionLoading, setActionLoading] = useState(false)
+  const [versions, setVersions] = useState<Record<string, ListingVersion[]>>({})
+  const [categoryNames, setCategoryNames] = useState<Record<string, string>>({})
+
+  // Newest first; older listings load as the admin scrolls down
+  const {
+    items: listings,
+    loading,
+    loadingMore,
+    hasMore,
+    reload: fetchListings,
+    sentinelRef
+  } = useInfiniteList<Listing>(
+    session?.user.role === 'ADMIN' ? `/api/admin/listings?status=${statusFilter}` : null
+  )
 
   useEffect(() => {
     if (status === 'loading') return
     if (!session || session.user.role !== 'ADMIN') {
       router.push('/')
+    }
+  }, [session, status, router])
+
+  // Load a listing's history on first open; clicking again hides it
+  const toggleVersions = async (listingId: string) => {
+    if (versions[listingId]) {
+      setVersions(current => {
+        const next = { ...current }
+        delete next[listingId]
+        return next
+      })
       return
     }
-    fetchListings()
-  }, [session, status, router, statusFilter])
 
-  const fetchListings = async () => {
     try {
-      const response = await fetch(`/api/admin/listings?status=${statusFilter}`)
-      if (response.ok) {
-        const data = await response.json()
-        setListings(data)
+      const [versionsResponse, categoriesResponse] = await Promise.all([
+        fetch(`/api/admin/listings/${listingId}/versions`),
+        Object.keys(categoryNames).length === 0 ? fetch('/api/categories') : null
+      ])
+      if (versionsResponse.ok) {
+        const data = await versionsResponse.json()
+        setVersions(current => ({ ...current, [listingId]: data }))
+      }
+      if (categoriesResponse?.ok) {
+        const categories: { id: string; name: string }[] = await categoriesResponse.json()
+        setCategoryNames(Object.fromEntries(categories.map(category => [category.id, category.name])))
       }
     } catch (error) {
-      console.error('Error fetching listings:', error)
-    } finally {
-      setLoading(false)
+      console.error('Error fetching versions:', error)
     }
   }
 
+  const describeVersionValue = (field: string, value: unknown) =>
+    field === 'categoryId' && typeof value === 'string'
+      ? categoryNames[value] || value
+      : formatVersionValue(value)
+
   const handleApprove = async (listingId: string) => {
     if (!confirm('Approve this listing?')) return
 
@@ -207,7 +281,7 @@ export default function AdminListingRequests() {
               <option value="RENTED">Rented</option>
             </select>
             <span className="text-sm text-gray-600">
-              {listings.length} listing{listings.length !== 1 ? 's' : ''} found
+              {listings.length}{hasMore && '+'} listing{listings.length !== 1 || hasMore ? 's' : ''} found
             </span>
           </div>
         </div>
@@ -233,6 +307,21 @@ export default function AdminListingRequests() {
                         <span className={`px-3 py-1 rounded-full text-xs font-medium ${getStatusColor(listing.status)}`}>
                           {listing.status}
                         </span>
+                        {listing.listingType === 'SELL' && (
+                          <span className="px-3 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                            💰 For Sale
+                          </span>
+                        )}
+                        {listing._count.versions > 1 && (
+                          <span className="px-3 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                            ✏️ Edited
+                          </span>
+                        )}
+                        {listing.wantedPost && (
+                          <span className="px-3 py-1 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                            📣 For {listing.wantedPost.requesterName}&apos;s request: {listing.wantedPost.title}
+                          </span>
+                        )}
                         <span className="text-sm text-gray-500">
                           {listing.category.name}
                         </span>
@@ -240,10 +329,10 @@ export default function AdminListingRequests() {
                     </div>
                     <div className="text-right">
                       <div className="text-2xl font-bold text-green-600">
-                        ₹{listing.finalRent}/day
+                        {listing.listingType === 'SELL' ? `₹${listing.finalSalePrice}` : `₹${listing.finalRent}/day`}
                       </div>
                       <div className="text-xs text-gray-500">
-                        Seller gets: ₹{listing.rentPerDay}
+                        Seller gets: ₹{listing.listingType === 'SELL' ? listing.salePrice : listing.rentPerDay}
                       </div>
                     </div>
                   </div>
@@ -268,7 +357,12 @@ export default function AdminListingRequests() {
                     </div>
                     <div>
                       <span className="text-gray-500">Platform Fee:</span>
-                      <p className="font-medium text-gray-900">₹{listing.platformFee}</p>
+                      <p className="font-medium text-gray-900">
+                        ₹{listing.listingType === 'SELL' ? listing.saleFee : listing.platformFee}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {listing.feeRuleSet ? `Fee rules v${listing.feeRuleSet.version}` : 'Original 20% fee'}
+                      </p>
                     </div>
                     <div>
                       <span className="text-gray-500">Submitted:</span>
@@ -301,6 +395,63 @@ export default function AdminListingRequests() {
                     </div>
                   </div>
 
+                  {/* Version History */}
+                  {listing._count.versions > 1 && (
+                    <div className="mb-4">
+                      <button
+                        onClick={() => toggleVersions(listing.id)}
+                        className="text-sm text-purple-700 hover:text-purple-900 font-medium"
+                      >
+                        🕘 {versions[listing.id] ? 'Hide' : 'Show'} edit history ({listing._count.versions} versions)
+                      </button>
+
+                      {versions[listing.id] && (
+                        <div className="mt-3 space-y-3">
+                          {versions[listing.id].slice(1).reverse().map(version => {
+                            const previous = versions[listing.id].find(v => v.version === version.version - 1)
+                            return (
+                              <div key={version.id} className="border border-purple-200 rounded-lg p-3">
+                                <div className="flex justify-between text-xs text-gray-500 mb-2">
+                                  <span className="font-medium text-gray-700">
+                                    Version {version.version}
+                                    {version.requiresReview && ' · sent for review'}
+                                  </span>
+                                  <span>{new Date(version.createdAt).toLocaleString()}</span>
+                                </div>
+                                <table className="w-full text-sm">
+                                  <tbody>
+                                    {version.changedFields.map(field => (
+                                      <tr key={field} className="align-top">
+                                        <td className="py-1 pr-3 text-gray-500 whitespace-nowrap">{FIELD_LABELS[field] || field}</td>
+                                        <td className="py-1 pr-3 text-red-700 line-through break-all">
+                                          {describeVersionValue(field, previous?.snapshot[field])}
+                                        </td>
+                                        <td className="py-1 text-green-700 break-all">
+                                          {describeVersionValue(field, version.snapshot[field])}
+                                        </td>
+                                      </tr>
+                                    ))}
+                                    {['finalRent', 'finalSalePrice']
+                                      .filter(field => previous && previous.snapshot[field] !== version.snapshot[field])
+                                      .map(field => (
+                                        <tr key={field} className="align-top text-xs">
+                                          <td className="py-1 pr-3 text-gray-500 whitespace-nowrap">{FIELD_LABELS[field]}</td>
+                                          <td className="py-1 pr-3 text-red-700 line-through">
+                                            {formatVersionValue(previous?.snapshot[field])}
+                                          </td>
+                                          <td className="py-1 text-green-700">{formatVersionValue(version.snapshot[field])}</td>
+                                        </tr>
+                                      ))}
+                                  </tbody>
+                                </table>
+                              </div>
+                            )
+                          })}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   {/* Actions */}
                   {listing.status === 'PENDING' && (
                     <div className="flex gap-3">
@@ -338,6 +489,11 @@ export default function AdminListingRequests() {
                 </div>
               </div>
             ))}
+            {hasMore && (
+              <div ref={sentinelRef} className="text-center py-4 text-sm text-gray-500">
+                {loadingMore ? 'Loading more listings...' : ''}
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -4,6 +4,7 @@
 import { useSession } from 'next-auth/react'
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
+import { useInfiniteList } from '@/hooks/useInfiniteList'
 import bgimg from '../../bgimg.jpg'
 import OrderChat from '@/components/OrderChat'
 
@@ -52,48 +53,44 @@ interface Order {
 export default function AdminOrdersPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
-  const [orders, setOrders] = useState<Order[]>([])
-  const [loading, setLoading] = useState(true)
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null)
   const [statusFilter, setStatusFilter] = useState('all')
   const [paymentFilter, setPaymentFilter] = useState('all')
   const [updating, setUpdating] = useState<string | null>(null)
 
+  const queryParams = new URLSearchParams()
+  if (statusFilter !== 'all') queryParams.append('status', statusFilter)
+  if (paymentFilter !== 'all') queryParams.append('paymentMethod', paymentFilter)
+
+  // Starts again from the first page whenever a filter changes
+  const {
+    items: orders,
+    setItems: setOrders,
+    loading,
+    loadingMore,
+    hasMore,
+    reload: fetchOrders,
+    sentinelRef
+  } = useInfiniteList<Order>(
+    session?.user.role === 'ADMIN' ? `/api/admin/orders?${queryParams.toString()}` : null
+  )
+
   // Redirect if not admin
   useEffect(() => {
     if (status === 'loading') return
     if (!session || session.user.role !== 'ADMIN') {
       router.push('/')
-      return
     }
-    fetchOrders()
   }, [session, status, router])
 
-  const fetchOrders = async () => {
-    try {
-      const queryParams = new URLSearchParams()
-      if (statusFilter !== 'all') queryParams.append('status', statusFilter)
-      if (paymentFilter !== 'all') queryParams.append('paymentMethod', paymentFilter)
-      
-      const response = await fetch(`/api/admin/orders?${queryParams.toString()}`)
-      if (!response.ok) throw new Error('Failed to fetch orders')
-      
-      const ordersData = await response.json()
-      setOrders(ordersData)
-    } catch (error) {
-      console.error('Error fetching orders:', error)
-    } finally {
-      setLoading(false)
+  // Swap in the updated order so the list keeps its scroll position
+  const replaceOrder = (updatedOrder: Order) => {
+    setOrders(current => current.map(order => order.id === updatedOrder.id ? updatedOrder : order))
+    if (selectedOrder?.id === updatedOrder.id) {
+      setSelectedOrder(updatedOrder)
     }
   }
 
-  // Refetch when filters change
-  useEffect(() => {
-    if (session?.user.role === 'ADMIN') {
-      fetchOrders()
-    }
-  }, [statusFilter, paymentFilter])
-
   const updateOrderStatus = async (orderId: string, status: string) => {
     setUpdating(orderId)
     try {
@@ -104,11 +101,11 @@ export default function AdminOrdersPage() {
       })
       
       if (response.ok) {
+        replaceOrder(await response.json())
+      } else {
+        const data = await response.json()
+        alert(data.error || 'Failed to update order status')
         fetchOrders()
-        if (selectedOrder?.id === orderId) {
-          const updatedOrder = await response.json()
-          setSelectedOrder(updatedOrder)
-        }
       }
     } catch (error) {
       console.error('Error updating order status:', error)
@@ -127,11 +124,7 @@ export default function AdminOrdersPage() {
       })
       
       if (response.ok) {
-        fetchOrders()
-        if (selectedOrder?.id === orderId) {
-          const updatedOrder = await response.json()
-          setSelectedOrder(updatedOrder)
-        }
+        replaceOrder(await response.json())
       }
     } catch (error) {
       console.error('Error updating payment status:', error)
@@ -150,11 +143,7 @@ export default function AdminOrdersPage() {
       })
       
       if (response.ok) {
-        fetchOrders()
-        if (selectedOrder?.id === orderId) {
-          const updatedOrder = await response.json()
-          setSelectedOrder(updatedOrder)
-        }
+        replaceOrder(await response.json())
       }
     } catch (error) {
       console.error('Error adding admin note:', error)
@@ -260,7 +249,7 @@ export default function AdminOrdersPage() {
     return actions
   }
 
-  if (loading) {
+  if (status === 'loading' || (loading && orders.length === 0)) {
     return <div className="flex justify-center items-center min-h-screen text-gray-400 text-lg">Loading...</div>
   }
 
@@ -324,7 +313,7 @@ export default function AdminOrdersPage() {
 
               <div className="flex items-end">
                 <div className="text-sm text-gray-600">
-                  <strong>{orders.length}</strong> orders found
+                  <strong>{orders.length}{hasMore && '+'}</strong> orders found
                 </div>
               </div>
             </div>
@@ -414,6 +403,11 @@ export default function AdminOrdersPage() {
                       </div>
                     </div>
                   ))}
+                  {hasMore && (
+                    <div ref={sentinelRef} className="text-center py-4 text-sm text-gray-500">
+                      {loadingMore ? 'Loading more orders...' : ''}
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -4,6 +4,10 @@ import { useSession } from 'next-auth/react'
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import bgimg from '../bgimg.jpg'
+import ImageUploader from '@/components/ImageUploader'
+import ProductImageBulkUpload from '@/components/ProductImageBulkUpload'
+import { getThumbnailUrl } from '@/lib/imageUrls'
+import { useInfiniteList } from '@/hooks/useInfiniteList'
 
 interface Product {
   id: string
@@ -18,9 +22,16 @@ interface Product {
   }
 }
 
+interface ProductStats {
+  total: number
+  available: number
+  lowStock: number
+}
+
 interface Category {
   id: string
   name: string
+  lateFeePerDay: number | null
 }
 
 interface ShopSettings {
@@ -31,14 +42,15 @@ interface ShopSettings {
 export default function AdminDashboard() {
   const { data: session, status } = useSession()
   const router = useRouter()
-  const [products, setProducts] = useState<Product[]>([])
   const [categories, setCategories] = useState<Category[]>([])
   const [loading, setLoading] = useState(true)
   const [shopSettings, setShopSettings] = useState<ShopSettings>({ isOpen: false })
   const [showAddProduct, setShowAddProduct] = useState(false)
   const [showAddCategory, setShowAddCategory] = useState(false)
+  const [showBulkImages, setShowBulkImages] = useState(false)
   const [editingProduct, setEditingProduct] = useState<Product | null>(null)
   const [newCategory, setNewCategory] = useState('')
+  const [newCategoryLateFee, setNewCategoryLateFee] = useState('')
   const [showMobileMenu, setShowMobileMenu] = useState(false)
   const [newProduct, setNewProduct] = useState({
     name: '',
@@ -48,6 +60,19 @@ export default function AdminDashboard() {
     imageUrl: ''
   })
 
+  // Products load by name as the admin scrolls; the stats cover the whole catalogue
+  const {
+    items: products,
+    meta: productStats,
+    loading: loadingProducts,
+    loadingMore,
+    hasMore,
+    reload: reloadProducts,
+    sentinelRef
+  } = useInfiniteList<Product, { stats: ProductStats }>(
+    session?.user.role === 'ADMIN' ? '/api/admin/products' : null
+  )
+
   // Redirect if not admin
   useEffect(() => {
     if (status === 'loading') return
@@ -60,17 +85,14 @@ export default function AdminDashboard() {
 
   const fetchData = async () => {
     try {
-      const [productsRes, categoriesRes, shopRes] = await Promise.all([
-        fetch('/api/admin/products'),
+      const [categoriesRes, shopRes] = await Promise.all([
         fetch('/api/admin/categories'),
         fetch('/api/admin/shop-settings')
       ])
 
-      const productsData = await productsRes.json()
       const categoriesData = await categoriesRes.json()
       const shopData = await shopRes.json()
 
-      setProducts(productsData)
       setCategories(categoriesData)
       setShopSettings(shopData)
     } catch (error) {
@@ -103,7 +125,7 @@ export default function AdminDashboard() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ isAvailable: !currentStatus })
       })
-      fetchData()
+      reloadProducts()
     } catch (error) {
       console.error('Error updating product:', error)
     }
@@ -121,7 +143,7 @@ export default function AdminDashboard() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ stockQuantity: newStock })
       })
-      fetchData()
+      reloadProducts()
     } catch (error) {
       console.error('Error updating stock:', error)
     }
@@ -135,10 +157,11 @@ export default function AdminDashboard() {
       await fetch('/api/admin/categories', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name: newCategory.trim() })
+        body: JSON.stringify({ name: newCategory.trim(), lateFeePerDay: newCategoryLateFee })
       })
       setShowAddCategory(false)
       setNewCategory('')
+      setNewCategoryLateFee('')
       fetchData()
     } catch (error) {
       console.error('Error adding category:', error)
@@ -159,7 +182,7 @@ export default function AdminDashboard() {
       })
       setShowAddProduct(false)
       setNewProduct({ name: '', price: '', categoryId: '', stockQuantity: '', imageUrl: '' })
-      fetchData()
+      reloadProducts()
     } catch (error) {
       console.error('Error adding product:', error)
     }
@@ -183,7 +206,7 @@ export default function AdminDashboard() {
       })
       setEditingProduct(null)
       setNewProduct({ name: '', price: '', categoryId: '', stockQuantity: '', imageUrl: '' })
-      fetchData()
+      reloadProducts()
     } catch (error) {
       console.error('Error updating product:', error)
     }
@@ -207,13 +230,13 @@ export default function AdminDashboard() {
       await fetch(`/api/admin/products/${productId}`, {
         method: 'DELETE'
       })
-      fetchData()
+      reloadProducts()
     } catch (error) {
       console.error('Error deleting product:', error)
     }
   }
 
-  if (loading) {
+  if (loading || (loadingProducts && !productStats)) {
     return (
       <div className="flex justify-center items-center min-h-screen bg-gray-50">
         <div className="text-lg text-gray-600">Loading...</div>
@@ -265,6 +288,13 @@ export default function AdminDashboard() {
                 🏷️ Listing Requests
               </button>
 
+              <button
+                onClick={() => router.push('/admin/wanted-requests')}
+                className="text-blue-600 hover:text-blue-800 font-medium text-sm"
+              >
+                📣 Wanted Requests
+              </button>
+
               <button
                 onClick={() => router.push('/admin/rentals')}
                 className="text-blue-600 hover:text-blue-800 font-medium"
@@ -278,6 +308,20 @@ export default function AdminDashboard() {
               >
                 📦 Orders
               </button>
+
+              <button
+                onClick={() => router.push('/admin/sales')}
+                className="text-blue-600 hover:text-blue-800 font-medium text-sm"
+              >
+                💰 Sales
+              </button>
+
+              <button
+                onClick={() => router.push('/admin/fee-rules')}
+                className="text-blue-600 hover:text-blue-800 font-medium text-sm"
+              >
+                🧾 Fee Rules
+              </button>
               <button
                 onClick={() => router.push('/')}
                 className="text-blue-600 hover:text-blue-800 text-sm"
@@ -324,6 +368,33 @@ export default function AdminDashboard() {
                 >
                   📦 Orders
                 </button>
+                <button
+                  onClick={() => {
+                    router.push('/admin/sales')
+                    setShowMobileMenu(false)
+                  }}
+                  className="text-left text-blue-600 hover:text-blue-800 font-medium text-sm py-2"
+                >
+                  💰 Sales
+                </button>
+                <button
+                  onClick={() => {
+                    router.push('/admin/wanted-requests')
+                    setShowMobileMenu(false)
+                  }}
+                  className="text-left text-blue-600 hover:text-blue-800 font-medium text-sm py-2"
+                >
+                  📣 Wanted Requests
+                </button>
+                <button
+                  onClick={() => {
+                    router.push('/admin/fee-rules')
+                    setShowMobileMenu(false)
+                  }}
+                  className="text-left text-blue-600 hover:text-blue-800 font-medium text-sm py-2"
+                >
+                  🧾 Fee Rules
+                </button>
                 <button
                   onClick={() => {
                     router.push('/')
@@ -350,7 +421,7 @@ export default function AdminDashboard() {
               </div>
               <div className="ml-2 sm:ml-4 min-w-0 flex-1">
                 <div className="text-lg sm:text-xl lg:text-2xl font-bold text-gray-900 truncate">
-                  {products.length}
+                  {productStats?.stats.total ?? 0}
                 </div>
                 <div className="text-xs sm:text-sm text-gray-600">Total Products</div>
               </div>
@@ -364,7 +435,7 @@ export default function AdminDashboard() {
               </div>
               <div className="ml-2 sm:ml-4 min-w-0 flex-1">
                 <div className="text-lg sm:text-xl lg:text-2xl font-bold text-green-600 truncate">
-                  {products.filter(p => p.isAvailable).length}
+                  {productStats?.stats.available ?? 0}
                 </div>
                 <div className="text-xs sm:text-sm text-gray-600">Available</div>
               </div>
@@ -378,7 +449,7 @@ export default function AdminDashboard() {
               </div>
               <div className="ml-2 sm:ml-4 min-w-0 flex-1">
                 <div className="text-lg sm:text-xl lg:text-2xl font-bold text-yellow-600 truncate">
-                  {products.filter(p => p.stockQuantity < 3 && p.isAvailable).length}
+                  {productStats?.stats.lowStock ?? 0}
                 </div>
                 <div className="text-xs sm:text-sm text-gray-600">Low Stock</div>
               </div>
@@ -422,6 +493,13 @@ export default function AdminDashboard() {
                 <span>+</span>
                 <span>Add Product</span>
               </button>
+              <button
+                onClick={() => setShowBulkImages(true)}
+                className="bg-purple-600 text-white px-4 py-2.5 sm:py-2 rounded-lg hover:bg-purple-700 flex items-center justify-center space-x-2 text-sm font-medium"
+              >
+                <span>🖼️</span>
+                <span>Bulk Images</span>
+              </button>
             </div>
           </div>
         </div>
@@ -454,7 +532,7 @@ export default function AdminDashboard() {
         <div className="bg-white shadow rounded-lg overflow-hidden">
           <div className="px-4 py-4 sm:px-6 sm:py-5 border-b border-gray-200">
             <h3 className="text-lg font-medium text-gray-900">
-              Products ({products.length})
+              Products ({productStats?.stats.total ?? 0})
             </h3>
           </div>
 
@@ -469,6 +547,9 @@ export default function AdminDashboard() {
                 {products.map((product) => (
                   <div key={product.id} className="p-4 hover:bg-gray-50">
                     <div className="flex justify-between items-start mb-3">
+                      {product.imageUrl && (
+                        <img src={getThumbnailUrl(product.imageUrl)} alt={product.name} className="w-12 h-12 rounded object-cover mr-3 flex-shrink-0" />
+                      )}
                       <div className="min-w-0 flex-1">
                         <h4 className="text-sm font-medium text-gray-900 truncate">{product.name}</h4>
                         <p className="text-xs text-gray-500 mt-1">ID: {product.id.slice(-8)}</p>
@@ -565,9 +646,14 @@ export default function AdminDashboard() {
                 {products.map((product) => (
                   <tr key={product.id} className="hover:bg-gray-50">
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <div>
-                        <div className="text-sm font-medium text-gray-900">{product.name}</div>
-                        <div className="text-sm text-gray-500">ID: {product.id.slice(-8)}</div>
+                      <div className="flex items-center">
+                        {product.imageUrl && (
+                          <img src={getThumbnailUrl(product.imageUrl)} alt={product.name} className="w-10 h-10 rounded object-cover mr-3" />
+                        )}
+                        <div>
+                          <div className="text-sm font-medium text-gray-900">{product.name}</div>
+                          <div className="text-sm text-gray-500">ID: {product.id.slice(-8)}</div>
+                        </div>
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
@@ -640,6 +726,12 @@ export default function AdminDashboard() {
               </div>
             )}
           </div>
+
+          {hasMore && (
+            <div ref={sentinelRef} className="text-center py-4 text-sm text-gray-500">
+              {loadingMore ? 'Loading more products...' : ''}
+            </div>
+          )}
         </div>
 
         {/* Add/Edit Product Modal - Mobile Responsive */}
@@ -689,12 +781,11 @@ export default function AdminDashboard() {
                     className="w-full px-3 py-2.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900 placeholder-gray-400"
                     required
                   />
-                  <input
-                    type="url"
-                    placeholder="Image URL (optional)"
-                    value={newProduct.imageUrl}
-                    onChange={(e) => setNewProduct({ ...newProduct, imageUrl: e.target.value })}
-                    className="w-full px-3 py-2.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900 placeholder-gray-400"
+                  <ImageUploader
+                    images={newProduct.imageUrl ? [newProduct.imageUrl] : []}
+                    onChange={(images) => setNewProduct({ ...newProduct, imageUrl: images[0] || '' })}
+                    max={1}
+                    purpose="product"
                   />
                   <div className="flex flex-col sm:flex-row gap-3 pt-4">
                     <button
@@ -736,6 +827,15 @@ export default function AdminDashboard() {
                     className="w-full px-3 py-2.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 text-gray-900 placeholder-gray-400"
                     required
                   />
+                  <input
+                    type="number"
+                    placeholder="Rental late fee per day (optional)"
+                    value={newCategoryLateFee}
+                    onChange={(e) => setNewCategoryLateFee(e.target.value)}
+                    min="0"
+                    step="1"
+                    className="w-full px-3 py-2.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 text-gray-900 placeholder-gray-400"
+                  />
                   <div className="flex flex-col sm:flex-row gap-3 pt-4">
                     <button
                       type="submit"
@@ -748,6 +848,7 @@ export default function AdminDashboard() {
                       onClick={() => {
                         setShowAddCategory(false)
                         setNewCategory('')
+                        setNewCategoryLateFee('')
                       }}
                       className="flex-1 bg-gray-300 text-gray-700 py-3 px-4 rounded-md hover:bg-gray-400 font-medium"
                     >
@@ -759,6 +860,14 @@ export default function AdminDashboard() {
             </div>
           </div>
         )}
+
+        {showBulkImages && (
+          <ProductImageBulkUpload
+            categories={categories}
+            onClose={() => setShowBulkImages(false)}
+            onAssigned={reloadProducts}
+          />
+        )}
       </main>
     </div>
   )
@@ -1,11 +1,25 @@
 // FILE 1: src/app/admin/rentals/page.tsx
-// FIXED: Shows correct 80% payout calculations
+// FIXED: Shows correct payout calculations
 // ============================================
 'use client'
 
 import { useState, useEffect } from 'react'
 import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
+import { ConditionReport } from '@/components/ConditionReportForm'
+import ConditionReportComparison from '@/components/ConditionReportComparison'
+import { describePricingLine, getPlatformCutCharged, getRentCharged, PricingLine } from '@/lib/rentalPricing'
+import { useInfiniteList } from '@/hooks/useInfiniteList'
+
+interface RentalExtension {
+  id: string
+  extraDays: number
+  amount: number
+  paymentPin: string
+  startDate: string
+  endDate: string
+  status: string
+}
 
 interface RentalTransaction {
   id: string
@@ -13,6 +27,11 @@ interface RentalTransaction {
   status: string
   paymentStatus: string
   rentPerDay: number
+  dailyRate: number
+  pricedDays: number
+  pricedRent: number
+  pricedPlatformFee: number
+  pricingBreakdown: PricingLine[] | null
   platformFee: number
   sellerEarning: number
   daysRented: number
@@ -28,7 +47,62 @@ interface RentalTransaction {
   sellerRoom: string
   paymentPin: string | null
   startDate: string
+  endDate: string | null
   returnedAt: string | null
+  prepaidExhausted: boolean
+  lateFeePerDay: number
+  overdueSince: string | null
+  lateFee: number
+  lateFeeFromDeposit: number
+  lateFeeDue: number
+  depositStatus: string
+  depositWithheld: number
+  depositWithheldReason: string | null
+  depositRefunded: number
+  depositRefundMethod: string | null
+  depositRefundReference: string | null
+  depositRefundedAt: string | null
+  damageAward: number
+  handoverCode: string | null
+  handedOverAt: string | null
+  returnCode: string | null
+  sellerApproval: string
+  sellerApprovalDueAt: string | null
+  sellerDeclineReason: string | null
+  cancellationReason: string | null
+  cancellationFee: number
+  refundAmount: number
+  cancelledAt: string | null
+  feePromotion: string | null
+  feeRuleSet: { version: number } | null
+  extensions: RentalExtension[]
+  disputes: { id: string; status: string }[]
+  conditionReports: ConditionReport[]
+}
+
+interface DisputeQueueItem {
+  id: string
+  openedBy: 'RENTER' | 'SELLER'
+  description: string
+  photos: string[]
+  claimedAmount: number
+  status: string
+  infoRequest: string | null
+  infoResponse: string | null
+  createdAt: string
+  rental: {
+    id: string
+    itemName: string
+    status: string
+    renterName: string
+    renterEmail: string
+    sellerName: string
+    sellerEmail: string
+    securityDeposit: number | null
+    depositWithheld: number
+    depositRefunded: number
+    conditionReports: ConditionReport[]
+  }
 }
 
 interface PayoutSummary {
@@ -40,22 +114,70 @@ interface PayoutSummary {
   pendingRentals: number
 }
 
+type RentalView = 'pending' | 'active' | 'overdue' | 'completed' | 'deposits' | 'refunds'
+
+// Sent with the first page of any rental view
+interface RentalListMeta {
+  counts: Record<RentalView, number>
+  payoutSummary: PayoutSummary[]
+}
+
 export default function AdminRentalsPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
-  const [rentals, setRentals] = useState<RentalTransaction[]>([])
-  const [payouts, setPayouts] = useState<PayoutSummary[]>([])
-  const [loading, setLoading] = useState(true)
-  const [activeTab, setActiveTab] = useState<'pending' | 'active' | 'completed' | 'payouts'>('pending')
+  const [activeTab, setActiveTab] = useState<RentalView | 'disputes' | 'payouts'>('pending')
   const [updating, setUpdating] = useState<string | null>(null)
+  const [accruing, setAccruing] = useState(false)
+  const [reviewingDisputeId, setReviewingDisputeId] = useState<string | null>(null)
+  const [disputeForm, setDisputeForm] = useState({
+    infoRequest: '',
+    sellerAward: '',
+    resolutionNotes: ''
+  })
+  const [settlingDepositId, setSettlingDepositId] = useState<string | null>(null)
+  const [refundingId, setRefundingId] = useState<string | null>(null)
+  const [refundReference, setRefundReference] = useState('')
+  const [depositForm, setDepositForm] = useState({
+    withheldAmount: '',
+    withheldReason: '',
+    refundMethod: 'UPI',
+    refundReference: ''
+  })
+
+  // Each rental tab pages through its own view. The disputes and payouts tabs
+  // still load the pending view for the tab counts and payout summary.
+  const rentalView: RentalView = activeTab === 'disputes' || activeTab === 'payouts' ? 'pending' : activeTab
+  const {
+    items: rentals,
+    meta,
+    loading,
+    loadingMore,
+    hasMore,
+    reload: reloadRentals,
+    sentinelRef
+  } = useInfiniteList<RentalTransaction, RentalListMeta>(
+    session?.user.role === 'ADMIN' ? `/api/admin/rentals?view=${rentalView}` : null
+  )
+  const counts = meta?.counts
+  const payouts = meta?.payoutSummary || []
+
+  // Loaded on every tab for the count on the disputes tab
+  const {
+    items: disputes,
+    meta: disputeMeta,
+    loadingMore: loadingMoreDisputes,
+    hasMore: hasMoreDisputes,
+    reload: fetchDisputes,
+    sentinelRef: disputeSentinelRef
+  } = useInfiniteList<DisputeQueueItem, { total: number }>(
+    session?.user.role === 'ADMIN' ? '/api/admin/disputes' : null
+  )
 
   useEffect(() => {
     if (status === 'loading') return
     if (!session || session.user.role !== 'ADMIN') {
       router.push('/')
-      return
     }
-    fetchRentals()
   }, [session, status, router])
 
   const calculateDaysElapsed = (startDate: string, returnedAt: string | null) => {
@@ -68,33 +190,38 @@ export default function AdminRentalsPage() {
     return Math.max(0, diffDays)
   }
 
-  const calculateReturnDate = (startDate: string, daysRented: number) => {
+  const calculateReturnDate = (startDate: string, daysRented: number, endDate: string | null = null) => {
+    // Booked end, if recorded, stays put while overdue days accrue
+    if (endDate) return new Date(endDate)
     const start = new Date(startDate)
     const returnDate = new Date(start)
     returnDate.setDate(start.getDate() + daysRented)
     return returnDate
   }
 
-  // Calculate what seller will actually earn (80% of rent)
+  const isAwaitingHandover = (rental: RentalTransaction) =>
+    rental.status === 'ACTIVE' && !!rental.handoverCode && !rental.handedOverAt
+
+  // Whole UTC days past the booked end; returning on the end date is on time
+  const calculateDaysLate = (rental: RentalTransaction) => {
+    if (isAwaitingHandover(rental)) return 0
+    const returnDate = calculateReturnDate(rental.startDate, rental.daysRented, rental.endDate)
+    const dueDay = Date.UTC(returnDate.getUTCFullYear(), returnDate.getUTCMonth(), returnDate.getUTCDate())
+    const now = new Date()
+    const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+    return Math.max(0, Math.round((today - dueDay) / (1000 * 60 * 60 * 24)))
+  }
+
+  // Calculate what seller will actually earn (rent after the platform fee plus the late fee collected)
   const calculateSellerPayout = (rental: RentalTransaction) => {
-    const totalRent = rental.rentPerDay * rental.daysRented
-    const platformCut = rental.platformFee * rental.daysRented
-    return totalRent - platformCut // 80% of rent
+    const totalRent = getRentCharged(rental)
+    const platformCut = getPlatformCutCharged(rental)
+    return totalRent - platformCut + rental.lateFee - rental.lateFeeDue
   }
 
-  const fetchRentals = async () => {
-    try {
-      const response = await fetch('/api/admin/rentals')
-      if (response.ok) {
-        const data = await response.json()
-        setRentals(data.rentals || [])
-        setPayouts(data.payoutSummary || [])
-      }
-    } catch (error) {
-      console.error('Error fetching rentals:', error)
-    } finally {
-      setLoading(false)
-    }
+  const fetchRentals = () => {
+    reloadRentals()
+    fetchDisputes()
   }
 
   const approvePayment = async (rentalId: string) => {
@@ -108,6 +235,9 @@ export default function AdminRentalsPage() {
       
       if (response.ok) {
         fetchRentals()
+      } else {
+        const data = await response.json()
+        alert(data.error || 'Failed to activate rental')
       }
     } catch (error) {
       console.error('Error approving payment:', error)
@@ -126,9 +256,15 @@ export default function AdminRentalsPage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ status: 'RETURNED' })
       })
-      
+      const data = await response.json()
+
       if (response.ok) {
+        if (data.lateCharge?.lateFee > 0) {
+          alert(`Returned ${data.lateCharge.daysLate} day(s) late. Late fee ₹${data.lateCharge.lateFee.toFixed(2)}: ₹${data.lateCharge.fromDeposit.toFixed(2)} taken from the deposit, ₹${data.lateCharge.due.toFixed(2)} still due from the customer`)
+        }
         fetchRentals()
+      } else {
+        alert(data.error || 'Failed to mark as returned')
       }
     } catch (error) {
       console.error('Error marking as returned:', error)
@@ -137,6 +273,126 @@ export default function AdminRentalsPage() {
     }
   }
 
+  const reviewExtension = async (extensionId: string, decision: 'APPROVED' | 'REJECTED') => {
+    const label = decision === 'APPROVED' ? 'Approve' : 'Reject'
+    if (!confirm(`${label} this extension request?`)) return
+
+    setUpdating(extensionId)
+    try {
+      const response = await fetch(`/api/admin/rentals/extensions/${extensionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: decision })
+      })
+
+      if (response.ok) {
+        fetchRentals()
+      } else {
+        const data = await response.json()
+        alert(data.error || 'Failed to review extension')
+      }
+    } catch (error) {
+      console.error('Error reviewing extension:', error)
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  const settleDeposit = async (rental: RentalTransaction) => {
+    const refund = (rental.securityDeposit || 0) - rental.depositWithheld - rental.depositRefunded - (parseFloat(depositForm.withheldAmount) || 0)
+    if (!confirm(`Refund ₹${Math.max(0, refund).toFixed(2)} to ${rental.renterName}?`)) return
+
+    setUpdating(rental.id)
+    try {
+      const response = await fetch(`/api/admin/rentals/${rental.id}/deposit`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(depositForm)
+      })
+
+      if (response.ok) {
+        setSettlingDepositId(null)
+        fetchRentals()
+      } else {
+        const data = await response.json()
+        alert(data.error || 'Failed to settle deposit')
+      }
+    } catch (error) {
+      console.error('Error settling deposit:', error)
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  const markRefunded = async (rental: RentalTransaction) => {
+    if (!confirm(`Mark ₹${rental.refundAmount.toFixed(2)} as refunded to ${rental.renterName}?`)) return
+
+    setUpdating(rental.id)
+    try {
+      const response = await fetch(`/api/admin/rentals/${rental.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ paymentStatus: 'REFUNDED', refundReference })
+      })
+
+      if (response.ok) {
+        setRefundingId(null)
+        fetchRentals()
+      } else {
+        const data = await response.json()
+        alert(data.error || 'Failed to record refund')
+      }
+    } catch (error) {
+      console.error('Error recording refund:', error)
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  const updateDispute = async (disputeId: string, action: 'REQUEST_INFO' | 'RESOLVE') => {
+    if (action === 'RESOLVE' && !confirm(`Award ₹${parseFloat(disputeForm.sellerAward) || 0} of the deposit to the owner and close this claim?`)) return
+
+    setUpdating(disputeId)
+    try {
+      const response = await fetch(`/api/admin/disputes/${disputeId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, ...disputeForm })
+      })
+
+      if (response.ok) {
+        setReviewingDisputeId(null)
+        fetchRentals()
+      } else {
+        const data = await response.json()
+        alert(data.error || 'Failed to update claim')
+      }
+    } catch (error) {
+      console.error('Error updating dispute:', error)
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  const runAccrual = async () => {
+    setAccruing(true)
+    try {
+      const response = await fetch('/api/admin/rentals/accrue', { method: 'POST' })
+      const data = await response.json()
+
+      if (response.ok) {
+        alert(`Accrual complete: ${data.summary.accrued} rental(s) charged ₹${data.summary.amountAccrued.toFixed(2)} for ${data.summary.daysAccrued} extra day(s)`)
+        fetchRentals()
+      } else {
+        alert(data.error || 'Failed to run accrual')
+      }
+    } catch (error) {
+      console.error('Error running accrual:', error)
+    } finally {
+      setAccruing(false)
+    }
+  }
+
   const markPaidOut = async (sellerId: string, amount: number) => {
     if (!confirm(`Mark ₹${amount.toFixed(2)} as paid out to seller?`)) return
     
@@ -155,11 +411,18 @@ export default function AdminRentalsPage() {
     }
   }
 
+  // Only the current view is loaded; these keep a tab from showing the last view's rows while it switches
   const pendingRentals = rentals.filter(r => r.status === 'PENDING')
   const activeRentals = rentals.filter(r => r.status === 'ACTIVE')
   const completedRentals = rentals.filter(r => r.status === 'RETURNED')
+  const depositsToRefund = rentals.filter(r => r.depositStatus === 'REFUND_DUE')
+  const paymentsToRefund = rentals.filter(r => r.paymentStatus === 'REFUND_DUE')
+  // Already ordered most days late first
+  const overdueRentals = activeRentals
+    .map(rental => ({ rental, daysLate: calculateDaysLate(rental) }))
+    .filter(({ daysLate }) => daysLate > 0)
 
-  if (loading) {
+  if (status === 'loading' || (loading && !meta)) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-lg">Loading...</div>
@@ -181,6 +444,15 @@ export default function AdminRentalsPage() {
               </button>
               <h1 className="text-xl font-semibold text-gray-900">🏷️ Rental Management</h1>
             </div>
+            <div className="flex items-center">
+              <button
+                onClick={runAccrual}
+                disabled={accruing}
+                className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 disabled:opacity-50 text-sm font-medium"
+              >
+                {accruing ? 'Running...' : '📅 Run Daily Accrual'}
+              </button>
+            </div>
           </div>
         </div>
       </nav>
@@ -189,15 +461,15 @@ export default function AdminRentalsPage() {
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
           <div className="bg-white rounded-lg shadow p-6">
-            <div className="text-2xl font-bold text-yellow-600">{pendingRentals.length}</div>
+            <div className="text-2xl font-bold text-yellow-600">{counts?.pending ?? 0}</div>
             <div className="text-sm text-gray-600">Pending Verification</div>
           </div>
           <div className="bg-white rounded-lg shadow p-6">
-            <div className="text-2xl font-bold text-blue-600">{activeRentals.length}</div>
+            <div className="text-2xl font-bold text-blue-600">{counts?.active ?? 0}</div>
             <div className="text-sm text-gray-600">Active Rentals</div>
           </div>
           <div className="bg-white rounded-lg shadow p-6">
-            <div className="text-2xl font-bold text-green-600">{completedRentals.length}</div>
+            <div className="text-2xl font-bold text-green-600">{counts?.completed ?? 0}</div>
             <div className="text-sm text-gray-600">Completed</div>
           </div>
           <div className="bg-white rounded-lg shadow p-6">
@@ -219,7 +491,7 @@ export default function AdminRentalsPage() {
                   : 'text-gray-600 hover:text-gray-900'
               }`}
             >
-              Pending ({pendingRentals.length})
+              Pending ({counts?.pending ?? 0})
             </button>
             <button
               onClick={() => setActiveTab('active')}
@@ -229,7 +501,17 @@ export default function AdminRentalsPage() {
                   : 'text-gray-600 hover:text-gray-900'
               }`}
             >
-              Active ({activeRentals.length})
+              Active ({counts?.active ?? 0})
+            </button>
+            <button
+              onClick={() => setActiveTab('overdue')}
+              className={`px-6 py-3 font-medium ${
+                activeTab === 'overdue'
+                  ? 'border-b-2 border-red-600 text-red-600'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              Overdue ({counts?.overdue ?? 0})
             </button>
             <button
               onClick={() => setActiveTab('completed')}
@@ -239,7 +521,37 @@ export default function AdminRentalsPage() {
                   : 'text-gray-600 hover:text-gray-900'
               }`}
             >
-              Completed ({completedRentals.length})
+              Completed ({counts?.completed ?? 0})
+            </button>
+            <button
+              onClick={() => setActiveTab('deposits')}
+              className={`px-6 py-3 font-medium ${
+                activeTab === 'deposits'
+                  ? 'border-b-2 border-blue-600 text-blue-600'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              Deposits to Refund ({counts?.deposits ?? 0})
+            </button>
+            <button
+              onClick={() => setActiveTab('refunds')}
+              className={`px-6 py-3 font-medium ${
+                activeTab === 'refunds'
+                  ? 'border-b-2 border-blue-600 text-blue-600'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              Cancelled Refunds ({counts?.refunds ?? 0})
+            </button>
+            <button
+              onClick={() => setActiveTab('disputes')}
+              className={`px-6 py-3 font-medium ${
+                activeTab === 'disputes'
+                  ? 'border-b-2 border-orange-600 text-orange-600'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              Disputes ({disputeMeta?.total ?? 0})
             </button>
             <button
               onClick={() => setActiveTab('payouts')}
@@ -263,9 +575,9 @@ export default function AdminRentalsPage() {
               </div>
             ) : (
               pendingRentals.map(rental => {
-                // ✅ CORRECT CALCULATION: 80% of rent only
-                const totalRent = rental.rentPerDay * rental.daysRented
-                const platformCut = rental.platformFee * rental.daysRented
+                // ✅ CORRECT CALCULATION: rent after the platform fee only
+                const totalRent = getRentCharged(rental)
+                const platformCut = getPlatformCutCharged(rental)
                 const sellerEarning = totalRent - platformCut
 
                 return (
@@ -277,6 +589,16 @@ export default function AdminRentalsPage() {
                           <span className="px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800 inline-block mt-2">
                             ⏳ PAYMENT PENDING
                           </span>
+                          {rental.sellerApproval === 'PENDING' && (
+                            <span className="px-2 py-1 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800 inline-block mt-2 ml-2">
+                              📥 AWAITING OWNER
+                            </span>
+                          )}
+                          {rental.sellerApproval === 'ACCEPTED' && (
+                            <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800 inline-block mt-2 ml-2">
+                              👍 OWNER ACCEPTED
+                            </span>
+                          )}
                         </div>
                         <div className="text-right">
                           <div className="text-2xl font-bold text-purple-600">₹{rental.totalPaid}</div>
@@ -308,7 +630,9 @@ export default function AdminRentalsPage() {
                             <span className="font-bold text-blue-900">₹{rental.totalPaid}</span>
                           </div>
                           <div className="flex justify-between">
-                            <span className="text-gray-600">├─ Rent ({rental.daysRented} days):</span>
+                            <span className="text-gray-600">
+                              ├─ Rent ({rental.daysRented} days{rental.pricingBreakdown && `: ${rental.pricingBreakdown.map(describePricingLine).join(' + ')}`}):
+                            </span>
                             <span className="font-medium text-gray-900">₹{totalRent}</span>
                           </div>
                           <div className="flex justify-between">
@@ -317,22 +641,37 @@ export default function AdminRentalsPage() {
                           </div>
                           <div className="border-t pt-2 mt-2"></div>
                           <div className="flex justify-between">
-                            <span className="text-gray-600">Platform Fee (20%):</span>
+                            <span className="text-gray-600">
+                              Platform Fee ({rental.feePromotion
+                                ? `waived: ${rental.feePromotion}`
+                                : rental.feeRuleSet ? `rules v${rental.feeRuleSet.version}` : 'original 20%'}):
+                            </span>
                             <span className="font-medium text-orange-900">-₹{platformCut}</span>
                           </div>
                           <div className="flex justify-between">
-                            <span className="text-gray-600 font-semibold">Owner Will Earn (80%):</span>
+                            <span className="text-gray-600 font-semibold">Owner Will Earn:</span>
                             <span className="font-bold text-green-900">₹{sellerEarning}</span>
                           </div>
                         </div>
                         <p className="text-xs text-gray-600 mt-3">
-                          💡 Security deposit will be returned to customer. Owner gets 80% of rent only.
+                          💡 Security deposit will be returned to customer. Owner gets rent after the platform fee only.
                         </p>
                       </div>
 
+                      {rental.sellerApproval === 'PENDING' && rental.sellerApprovalDueAt && (
+                        <p className="text-sm text-indigo-700 mb-3">
+                          Owner has until {new Date(rental.sellerApprovalDueAt).toLocaleString('en-IN', {
+                            day: 'numeric',
+                            month: 'short',
+                            hour: '2-digit',
+                            minute: '2-digit'
+                          })} to accept. Activate after they do.
+                        </p>
+                      )}
+
                       <button
                         onClick={() => approvePayment(rental.id)}
-                        disabled={updating === rental.id}
+                        disabled={updating === rental.id || rental.sellerApproval === 'PENDING'}
                         className="w-full bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 font-medium"
                       >
                         ✅ Verify Payment & Activate Rental
@@ -361,10 +700,10 @@ export default function AdminRentalsPage() {
             ) : (
               activeRentals.map(rental => {
                 const daysElapsed = calculateDaysElapsed(rental.startDate, null)
-                const returnDate = calculateReturnDate(rental.startDate, rental.daysRented)
-                const isOverdue = daysElapsed >= rental.daysRented
+                const returnDate = calculateReturnDate(rental.startDate, rental.daysRented, rental.endDate)
+                const isOverdue = calculateDaysLate(rental) > 0
                 
-                // ✅ CORRECT: Show 80% of rent as seller payout
+                // ✅ CORRECT: Show rent after the platform fee as seller payout
                 const sellerPayout = calculateSellerPayout(rental)
 
                 return (
@@ -382,6 +721,16 @@ export default function AdminRentalsPage() {
                                 OVERDUE
                               </span>
                             )}
+                            {isAwaitingHandover(rental) && (
+                              <span className="px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                                AWAITING HANDOVER
+                              </span>
+                            )}
+                            {rental.prepaidExhausted && (
+                              <span className="px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+                                PREPAID EXHAUSTED
+                              </span>
+                            )}
                           </div>
                         </div>
                         <div className="text-right">
@@ -421,7 +770,7 @@ export default function AdminRentalsPage() {
                           <div>
                             <span className="text-gray-600">Owner Will Earn:</span>
                             <p className="font-bold text-green-900">₹{sellerPayout}</p>
-                            <p className="text-xs text-gray-500">(80% of rent)</p>
+                            <p className="text-xs text-gray-500">(Rent after platform fee)</p>
                           </div>
                         </div>
                         <p className="text-xs text-gray-600 mt-2">
@@ -429,6 +778,136 @@ export default function AdminRentalsPage() {
                         </p>
                       </div>
 
+                      {(rental.handoverCode || rental.returnCode) && (
+                        <p className="text-xs text-gray-500 mb-4">
+                          Handover code: <span className="font-mono">{rental.handoverCode || '—'}</span>
+                          {rental.handedOverAt && ` · handed over ${new Date(rental.handedOverAt).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })}`}
+                          {' · '}Return code: <span className="font-mono">{rental.returnCode || '—'}</span>
+                        </p>
+                      )}
+
+                      {rental.conditionReports.length > 0 && (
+                        <div className="mb-4">
+                          <ConditionReportComparison reports={rental.conditionReports} />
+                        </div>
+                      )}
+
+                      {rental.extensions.map(extension => (
+                        <div key={extension.id} className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-4">
+                          <div className="flex justify-between items-start">
+                            <div className="text-sm">
+                              <p className="font-semibold text-yellow-900">
+                                📆 Extension requested: +{extension.extraDays} days
+                              </p>
+                              <p className="text-gray-700">
+                                Until {new Date(extension.endDate).toLocaleDateString('en-IN', {
+                                  day: 'numeric',
+                                  month: 'short'
+                                })} · ₹{extension.amount} · UPI PIN: {extension.paymentPin}
+                              </p>
+                            </div>
+                            <div className="flex gap-2">
+                              <button
+                                onClick={() => reviewExtension(extension.id, 'APPROVED')}
+                                disabled={updating === extension.id}
+                                className="bg-green-600 text-white px-3 py-1 rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm font-medium"
+                              >
+                                Approve
+                              </button>
+                              <button
+                                onClick={() => reviewExtension(extension.id, 'REJECTED')}
+                                disabled={updating === extension.id}
+                                className="bg-red-600 text-white px-3 py-1 rounded-lg hover:bg-red-700 disabled:opacity-50 text-sm font-medium"
+                              >
+                                Reject
+                              </button>
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+
+                      <button
+                        onClick={() => markReturned(rental.id)}
+                        disabled={updating === rental.id}
+                        className="w-full bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 font-medium"
+                      >
+                        📦 Mark as Returned
+                      </button>
+                    </div>
+                  </div>
+                )
+              })
+            )}
+          </div>
+        )}
+
+        {/* Overdue Rentals - most days late first */}
+        {activeTab === 'overdue' && (
+          <div className="space-y-4">
+            {overdueRentals.length === 0 ? (
+              <div className="bg-white rounded-lg shadow p-8 text-center">
+                <p className="text-gray-500">No overdue rentals</p>
+              </div>
+            ) : (
+              overdueRentals.map(({ rental, daysLate }) => {
+                const returnDate = calculateReturnDate(rental.startDate, rental.daysRented, rental.endDate)
+                const projectedLateFee = daysLate * rental.lateFeePerDay
+                const fromDeposit = Math.min(projectedLateFee, rental.securityDeposit || 0)
+
+                return (
+                  <div key={rental.id} className="bg-white rounded-lg shadow border border-red-200">
+                    <div className="p-6">
+                      <div className="flex justify-between items-start mb-4">
+                        <div>
+                          <h3 className="text-lg font-semibold text-gray-900">{rental.itemName}</h3>
+                          <span className="px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800 inline-block mt-2">
+                            ⏰ {daysLate} DAY{daysLate === 1 ? '' : 'S'} LATE
+                          </span>
+                        </div>
+                        <div className="text-right">
+                          <p className="text-sm text-gray-600">
+                            Was due {returnDate.toLocaleDateString('en-IN', {
+                              day: 'numeric',
+                              month: 'short'
+                            })}
+                          </p>
+                        </div>
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-4 mb-4">
+                        <div className="bg-gray-50 rounded-lg p-3 text-sm">
+                          <span className="text-gray-500 font-medium">Customer:</span>
+                          <p className="font-semibold text-gray-900">{rental.renterName}</p>
+                          <p className="text-gray-600">{rental.renterEmail}</p>
+                          <p className="text-gray-600">Room: {rental.renterRoom || 'N/A'}</p>
+                        </div>
+                        <div className="bg-gray-50 rounded-lg p-3 text-sm">
+                          <span className="text-gray-500 font-medium">Owner:</span>
+                          <p className="font-semibold text-gray-900">{rental.sellerName}</p>
+                          <p className="text-gray-600">{rental.sellerRoom}</p>
+                        </div>
+                      </div>
+
+                      <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+                        <div className="space-y-2 text-sm">
+                          <div className="flex justify-between">
+                            <span className="text-gray-600">Late fee so far ({daysLate} × ₹{rental.lateFeePerDay}):</span>
+                            <span className="font-bold text-red-900">₹{projectedLateFee.toFixed(2)}</span>
+                          </div>
+                          <div className="flex justify-between">
+                            <span className="text-gray-600">├─ From security deposit:</span>
+                            <span className="font-medium text-gray-900">₹{fromDeposit.toFixed(2)}</span>
+                          </div>
+                          <div className="flex justify-between">
+                            <span className="text-gray-600">└─ Still due from customer:</span>
+                            <span className="font-medium text-gray-900">₹{(projectedLateFee - fromDeposit).toFixed(2)}</span>
+                          </div>
+                        </div>
+                        <p className="text-xs text-gray-600 mt-2">
+                          💡 Charged when the item is marked as returned
+                        </p>
+                      </div>
+
                       <button
                         onClick={() => markReturned(rental.id)}
                         disabled={updating === rental.id}
@@ -487,11 +966,15 @@ export default function AdminRentalsPage() {
                         </div>
                       </div>
 
-                      {/* ✅ CORRECT: Shows 80% payout */}
+                      <div className="mb-4">
+                        <ConditionReportComparison reports={rental.conditionReports} />
+                      </div>
+
+                      {/* ✅ CORRECT: Shows payout after the platform fee */}
                       <div className="bg-purple-50 border border-purple-200 rounded-lg p-4">
                         <div className="flex justify-between items-center">
                           <div>
-                            <span className="text-sm text-gray-600">Owner Payout (80% of rent):</span>
+                            <span className="text-sm text-gray-600">Owner Payout (rent after fee):</span>
                             <p className="text-2xl font-bold text-purple-900">
                               ₹{rental.amountOwedToSeller.toFixed(2)}
                             </p>
@@ -504,10 +987,365 @@ export default function AdminRentalsPage() {
                             {rental.paymentStatus === 'SETTLED' ? '✅ Paid' : '⏳ Pending'}
                           </div>
                         </div>
-                        <p className="text-xs text-gray-500 mt-2">
-                          Security deposit (₹{rental.securityDeposit}) returned to customer
+                        {rental.damageAward > 0 && (
+                          <p className="text-xs text-orange-700 mt-2">
+                            Includes ₹{rental.damageAward.toFixed(2)} of the deposit awarded for damage
+                          </p>
+                        )}
+                        {rental.lateFee > 0 && (
+                          <p className="text-xs text-red-700 mt-2">
+                            Includes late fee of ₹{rental.lateFeeFromDeposit.toFixed(2)} from the deposit
+                            {rental.lateFeeDue > 0 && `; ₹${rental.lateFeeDue.toFixed(2)} more still to collect from the renter`}
+                          </p>
+                        )}
+                        {rental.securityDeposit > 0 && (
+                          <p className="text-xs text-gray-500 mt-2">
+                            Security deposit (₹{rental.securityDeposit}): {rental.depositStatus.replace(/_/g, ' ').toLowerCase()}
+                            {rental.depositRefunded > 0 && ` · ₹${rental.depositRefunded.toFixed(2)} refunded via ${rental.depositRefundMethod}`}
+                            {rental.depositRefundReference && ` (ref ${rental.depositRefundReference})`}
+                            {rental.depositWithheld > 0 && ` · ₹${rental.depositWithheld.toFixed(2)} withheld: ${rental.depositWithheldReason}`}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                )
+              })
+            )}
+          </div>
+        )}
+
+        {/* Deposits to Refund */}
+        {activeTab === 'deposits' && (
+          <div className="space-y-4">
+            {depositsToRefund.length === 0 ? (
+              <div className="bg-white rounded-lg shadow p-8 text-center">
+                <p className="text-gray-500">No deposits waiting to be refunded</p>
+              </div>
+            ) : (
+              depositsToRefund.map(rental => {
+                const balance = (rental.securityDeposit || 0) - rental.depositWithheld - rental.depositRefunded
+
+                return (
+                  <div key={rental.id} className="bg-white rounded-lg shadow border border-green-200">
+                    <div className="p-6">
+                      <div className="flex justify-between items-start mb-4">
+                        <div>
+                          <h3 className="text-lg font-semibold text-gray-900">{rental.itemName}</h3>
+                          <p className="text-sm text-gray-600 mt-1">
+                            {rental.renterName} · {rental.renterEmail} · Room: {rental.renterRoom || 'N/A'}
+                          </p>
+                        </div>
+                        <div className="text-right">
+                          <div className="text-2xl font-bold text-green-700">₹{balance.toFixed(2)}</div>
+                          <p className="text-sm text-gray-600">of ₹{rental.securityDeposit} deposit</p>
+                        </div>
+                      </div>
+
+                      {rental.disputes.length > 0 && (
+                        <p className="text-sm text-orange-700 mb-4">
+                          ⚠️ Damage claim open. Resolve it in the Disputes tab before refunding.
+                        </p>
+                      )}
+
+                      {rental.depositWithheld > 0 && (
+                        <p className="text-sm text-red-700 mb-4">
+                          Already withheld ₹{rental.depositWithheld.toFixed(2)}: {rental.depositWithheldReason}
                         </p>
+                      )}
+
+                      {settlingDepositId === rental.id ? (
+                        <>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+                            <input
+                              type="number"
+                              min="0"
+                              max={balance}
+                              placeholder="Withhold amount (optional)"
+                              value={depositForm.withheldAmount}
+                              onChange={(e) => setDepositForm({ ...depositForm, withheldAmount: e.target.value })}
+                              className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900 text-sm"
+                            />
+                            <input
+                              type="text"
+                              placeholder="Reason for withholding"
+                              value={depositForm.withheldReason}
+                              onChange={(e) => setDepositForm({ ...depositForm, withheldReason: e.target.value })}
+                              className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900 text-sm"
+                            />
+                            <select
+                              value={depositForm.refundMethod}
+                              onChange={(e) => setDepositForm({ ...depositForm, refundMethod: e.target.value })}
+                              className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900 text-sm"
+                            >
+                              <option value="UPI">UPI</option>
+                              <option value="CASH">Cash</option>
+                              <option value="BANK_TRANSFER">Bank Transfer</option>
+                            </select>
+                            <input
+                              type="text"
+                              placeholder="Refund reference (UPI txn ID etc.)"
+                              value={depositForm.refundReference}
+                              onChange={(e) => setDepositForm({ ...depositForm, refundReference: e.target.value })}
+                              className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900 text-sm"
+                            />
+                          </div>
+
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => settleDeposit(rental)}
+                              disabled={updating === rental.id}
+                              className="flex-1 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 font-medium"
+                            >
+                              💵 Record Deposit Refund
+                            </button>
+                            <button
+                              onClick={() => setSettlingDepositId(null)}
+                              className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        </>
+                      ) : (
+                        <button
+                          onClick={() => {
+                            setSettlingDepositId(rental.id)
+                            setDepositForm({ withheldAmount: '', withheldReason: '', refundMethod: 'UPI', refundReference: '' })
+                          }}
+                          className="w-full bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 font-medium"
+                        >
+                          💵 Settle Deposit
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )
+              })
+            )}
+          </div>
+        )}
+
+        {/* Payments to refund on cancelled rentals */}
+        {activeTab === 'refunds' && (
+          <div className="space-y-4">
+            {paymentsToRefund.length === 0 ? (
+              <div className="bg-white rounded-lg shadow p-8 text-center">
+                <p className="text-gray-500">No cancelled rentals waiting for a refund</p>
+              </div>
+            ) : (
+              paymentsToRefund.map(rental => (
+                <div key={rental.id} className="bg-white rounded-lg shadow border border-red-200">
+                  <div className="p-6">
+                    <div className="flex justify-between items-start mb-4">
+                      <div>
+                        <h3 className="text-lg font-semibold text-gray-900">{rental.itemName}</h3>
+                        <p className="text-sm text-gray-600 mt-1">
+                          {rental.renterName} · {rental.renterEmail} · Room: {rental.renterRoom || 'N/A'}
+                        </p>
+                        <p className="text-sm text-gray-700 mt-2">
+                          {rental.sellerApproval === 'DECLINED'
+                            ? `Declined by the owner: ${rental.sellerDeclineReason}`
+                            : rental.sellerApproval === 'EXPIRED'
+                              ? 'Owner did not respond in time'
+                              : `Cancelled by the renter${rental.cancellationReason ? `: ${rental.cancellationReason}` : ''}`}
+                          {rental.cancelledAt && ` · ${new Date(rental.cancelledAt).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })}`}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <div className="text-2xl font-bold text-red-700">₹{rental.refundAmount.toFixed(2)}</div>
+                        <p className="text-sm text-gray-600">of ₹{rental.totalPaid} paid</p>
+                        {rental.cancellationFee > 0 && (
+                          <p className="text-xs text-gray-500">Cancellation fee kept: ₹{rental.cancellationFee.toFixed(2)}</p>
+                        )}
+                        {rental.paymentPin && (
+                          <p className="text-xs text-gray-500">UPI PIN: {rental.paymentPin}</p>
+                        )}
+                      </div>
+                    </div>
+
+                    {refundingId === rental.id ? (
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          placeholder="Refund reference (UPI txn ID etc.)"
+                          value={refundReference}
+                          onChange={(e) => setRefundReference(e.target.value)}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-900 text-sm"
+                        />
+                        <button
+                          onClick={() => markRefunded(rental)}
+                          disabled={updating === rental.id}
+                          className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 font-medium"
+                        >
+                          💸 Record Refund
+                        </button>
+                        <button
+                          onClick={() => setRefundingId(null)}
+                          className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    ) : (
+                      <button
+                        onClick={() => {
+                          setRefundingId(rental.id)
+                          setRefundReference('')
+                        }}
+                        className="w-full bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 font-medium"
+                      >
+                        💸 Refund Payment
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+
+        {/* Dispute Queue - oldest first */}
+        {activeTab === 'disputes' && (
+          <div className="space-y-4">
+            {disputes.length === 0 ? (
+              <div className="bg-white rounded-lg shadow p-8 text-center">
+                <p className="text-gray-500">No open damage claims</p>
+              </div>
+            ) : (
+              disputes.map(dispute => {
+                const depositLeft = (dispute.rental.securityDeposit || 0) - dispute.rental.depositWithheld - dispute.rental.depositRefunded
+
+                return (
+                  <div key={dispute.id} className="bg-white rounded-lg shadow border border-orange-200">
+                    <div className="p-6">
+                      <div className="flex justify-between items-start mb-4">
+                        <div>
+                          <h3 className="text-lg font-semibold text-gray-900">{dispute.rental.itemName}</h3>
+                          <div className="flex gap-2 mt-2">
+                            <span className="px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+                              {dispute.status.replace('_', ' ')}
+                            </span>
+                            <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                              Rental {dispute.rental.status}
+                            </span>
+                          </div>
+                        </div>
+                        <div className="text-right">
+                          <div className="text-2xl font-bold text-orange-600">₹{dispute.claimedAmount}</div>
+                          <p className="text-sm text-gray-600">claimed by {dispute.openedBy === 'RENTER' ? 'renter' : 'owner'}</p>
+                          <p className="text-xs text-gray-500">Deposit left: ₹{depositLeft.toFixed(2)}</p>
+                        </div>
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-4 mb-4">
+                        <div className="bg-gray-50 rounded-lg p-3 text-sm">
+                          <span className="text-gray-500 font-medium">Customer:</span>
+                          <p className="font-semibold text-gray-900">{dispute.rental.renterName}</p>
+                          <p className="text-gray-600">{dispute.rental.renterEmail}</p>
+                        </div>
+                        <div className="bg-gray-50 rounded-lg p-3 text-sm">
+                          <span className="text-gray-500 font-medium">Owner:</span>
+                          <p className="font-semibold text-gray-900">{dispute.rental.sellerName}</p>
+                          <p className="text-gray-600">{dispute.rental.sellerEmail}</p>
+                        </div>
+                      </div>
+
+                      <p className="text-sm text-gray-700 whitespace-pre-wrap mb-3">{dispute.description}</p>
+
+                      {dispute.photos.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mb-3">
+                          {dispute.photos.map(photo => (
+                            <a key={photo} href={photo} target="_blank" rel="noopener noreferrer">
+                              <img src={photo} alt="Claim photo" className="w-24 h-24 object-cover rounded border" />
+                            </a>
+                          ))}
+                        </div>
+                      )}
+
+                      <div className="mb-3">
+                        <ConditionReportComparison reports={dispute.rental.conditionReports} />
                       </div>
+
+                      {dispute.infoRequest && (
+                        <p className="text-sm text-yellow-900 mb-1">
+                          <span className="font-medium">You asked:</span> {dispute.infoRequest}
+                        </p>
+                      )}
+                      {dispute.infoResponse && (
+                        <p className="text-sm text-gray-700 whitespace-pre-wrap mb-3">{dispute.infoResponse}</p>
+                      )}
+
+                      {reviewingDisputeId === dispute.id ? (
+                        <div className="space-y-3 mt-4">
+                          <div className="flex gap-2">
+                            <input
+                              type="text"
+                              placeholder="What do you need to know?"
+                              value={disputeForm.infoRequest}
+                              onChange={(e) => setDisputeForm({ ...disputeForm, infoRequest: e.target.value })}
+                              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-900 text-sm"
+                            />
+                            <button
+                              onClick={() => updateDispute(dispute.id, 'REQUEST_INFO')}
+                              disabled={updating === dispute.id || !disputeForm.infoRequest.trim()}
+                              className="bg-yellow-600 text-white px-4 py-2 rounded-lg hover:bg-yellow-700 disabled:opacity-50 text-sm font-medium"
+                            >
+                              Request Info
+                            </button>
+                          </div>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                            <input
+                              type="number"
+                              min="0"
+                              max={depositLeft}
+                              placeholder="Deposit to owner (₹)"
+                              value={disputeForm.sellerAward}
+                              onChange={(e) => setDisputeForm({ ...disputeForm, sellerAward: e.target.value })}
+                              className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900 text-sm"
+                            />
+                            <input
+                              type="text"
+                              placeholder="Resolution notes"
+                              value={disputeForm.resolutionNotes}
+                              onChange={(e) => setDisputeForm({ ...disputeForm, resolutionNotes: e.target.value })}
+                              className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900 text-sm"
+                            />
+                          </div>
+                          <p className="text-xs text-gray-600">
+                            Renter gets back ₹{Math.max(0, depositLeft - (parseFloat(disputeForm.sellerAward) || 0)).toFixed(2)} of the deposit
+                          </p>
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => updateDispute(dispute.id, 'RESOLVE')}
+                              disabled={updating === dispute.id || !disputeForm.resolutionNotes.trim()}
+                              className="flex-1 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 font-medium"
+                            >
+                              ⚖️ Resolve Claim
+                            </button>
+                            <button
+                              onClick={() => setReviewingDisputeId(null)}
+                              className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => {
+                            setReviewingDisputeId(dispute.id)
+                            setDisputeForm({
+                              infoRequest: '',
+                              sellerAward: String(Math.min(dispute.claimedAmount, Math.max(0, depositLeft))),
+                              resolutionNotes: ''
+                            })
+                          }}
+                          className="w-full bg-orange-600 text-white px-4 py-2 rounded-lg hover:bg-orange-700 font-medium mt-2"
+                        >
+                          ⚖️ Review Claim
+                        </button>
+                      )}
                     </div>
                   </div>
                 )
@@ -540,7 +1378,7 @@ export default function AdminRentalsPage() {
                         <div className="text-3xl font-bold text-purple-600">
                           ₹{payout.totalOwed.toFixed(2)}
                         </div>
-                        <div className="text-sm text-gray-500">To Pay (80% of rent)</div>
+                        <div className="text-sm text-gray-500">To Pay (rent after fee)</div>
                       </div>
                     </div>
 
@@ -556,6 +1394,18 @@ export default function AdminRentalsPage() {
             )}
           </div>
         )}
+
+        {activeTab === rentalView && hasMore && (
+          <div ref={sentinelRef} className="text-center py-4 text-sm text-gray-500">
+            {loadingMore ? 'Loading more rentals...' : ''}
+          </div>
+        )}
+
+        {activeTab === 'disputes' && hasMoreDisputes && (
+          <div ref={disputeSentinelRef} className="text-center py-4 text-sm text-gray-500">
+            {loadingMoreDisputes ? 'Loading more claims...' : ''}
+          </div>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,449 @@
+// FILE: src/app/admin/sales/page.tsx
+// Verify purchase payments and pay sellers once items are handed over
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useInfiniteList } from '@/hooks/useInfiniteList'
+
+interface Sale {
+  id: string
+  itemName: string
+  buyerName: string
+  buyerEmail: string
+  buyerRoom: string | null
+  sellerName: string
+  sellerEmail: string
+  sellerRoom: string
+  salePrice: number
+  platformFee: number
+  totalPaid: number
+  feePromotion: string | null
+  feeRuleSet: { version: number } | null
+  status: string
+  paymentPin: string | null
+  handedOverAt: string | null
+  amountOwedToSeller: number
+  sellerPaidOut: number
+  cancellationReason: string | null
+  adminNotes: string | null
+  refundAmount: number
+  refundReference: string | null
+  refundedAt: string | null
+  createdAt: string
+}
+
+type SaleView = 'pending' | 'paid' | 'payouts' | 'refunds' | 'closed'
+
+interface SaleListMeta {
+  counts: Record<SaleView, number>
+  platformFees: number
+  pendingPayouts: number
+}
+
+export default function AdminSalesPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [activeTab, setActiveTab] = useState<SaleView>('pending')
+  const [updating, setUpdating] = useState<string | null>(null)
+  const [rejectingId, setRejectingId] = useState<string | null>(null)
+  const [rejectReason, setRejectReason] = useState('')
+  const [refundingId, setRefundingId] = useState<string | null>(null)
+  const [refundReference, setRefundReference] = useState('')
+
+  // Each tab pages through its own view; the first page carries the counts and totals
+  const {
+    items: shown,
+    meta,
+    loading,
+    loadingMore,
+    hasMore,
+    reload: fetchSales,
+    sentinelRef
+  } = useInfiniteList<Sale, SaleListMeta>(
+    session?.user.role === 'ADMIN' ? `/api/admin/sales?view=${activeTab}` : null
+  )
+  const counts = meta?.counts || { pending: 0, paid: 0, payouts: 0, refunds: 0, closed: 0 }
+
+  useEffect(() => {
+    if (status === 'loading') return
+    if (!session || session.user.role !== 'ADMIN') {
+      router.push('/')
+    }
+  }, [session, status, router])
+
+  const updateSale = async (saleId: string, body: Record<string, unknown>) => {
+    setUpdating(saleId)
+    try {
+      const response = await fetch(`/api/admin/sales/${saleId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+
+      if (response.ok) {
+        setRejectingId(null)
+        setRejectReason('')
+        setRefundingId(null)
+        setRefundReference('')
+        fetchSales()
+      } else {
+        const data = await response.json()
+        alert(data.error || 'Failed to update sale')
+      }
+    } catch (error) {
+      console.error('Error updating sale:', error)
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  // The item never changed hands: put it back on sale and owe the buyer a refund
+  const cancelPaidSale = async (sale: Sale) => {
+    if (!confirm(`Cancel this sale and refund ₹${sale.totalPaid} to ${sale.buyerName}?`)) return
+
+    setUpdating(sale.id)
+    try {
+      const response = await fetch(`/api/sales/${sale.id}/cancel`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: rejectReason })
+      })
+
+      if (response.ok) {
+        setRejectingId(null)
+        setRejectReason('')
+        fetchSales()
+      } else {
+        const data = await response.json()
+        alert(data.error || 'Failed to cancel sale')
+      }
+    } catch (error) {
+      console.error('Error cancelling sale:', error)
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  const markPaidOut = async (sale: Sale) => {
+    const amount = sale.amountOwedToSeller - sale.sellerPaidOut
+    if (!confirm(`Mark ₹${amount.toFixed(2)} as paid out to ${sale.sellerName}?`)) return
+
+    setUpdating(sale.id)
+    try {
+      const response = await fetch('/api/admin/sales/payout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ saleId: sale.id, amountPaid: amount, paymentMethod: 'UPI' })
+      })
+
+      if (response.ok) {
+        fetchSales()
+      } else {
+        const data = await response.json()
+        alert(data.error || 'Failed to record payout')
+      }
+    } catch (error) {
+      console.error('Error processing payout:', error)
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  const tabs: { key: SaleView; label: string; count: number }[] = [
+    { key: 'pending', label: 'Pending Verification', count: counts.pending },
+    { key: 'paid', label: 'Awaiting Handover', count: counts.paid },
+    { key: 'payouts', label: 'Payouts', count: counts.payouts },
+    { key: 'refunds', label: 'Refunds Due', count: counts.refunds },
+    { key: 'closed', label: 'Closed', count: counts.closed }
+  ]
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <button
+                onClick={() => router.push('/admin')}
+                className="text-blue-600 hover:text-blue-800 mr-4 font-medium"
+              >
+                ← Back to Dashboard
+              </button>
+              <h1 className="text-xl font-semibold text-gray-900">💰 Sales Management</h1>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {/* Stats Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="text-2xl font-bold text-yellow-600">{counts.pending}</div>
+            <div className="text-sm text-gray-600">Pending Verification</div>
+          </div>
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="text-2xl font-bold text-blue-600">{counts.paid}</div>
+            <div className="text-sm text-gray-600">Awaiting Handover</div>
+          </div>
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="text-2xl font-bold text-green-600">
+              ₹{(meta?.platformFees ?? 0).toFixed(2)}
+            </div>
+            <div className="text-sm text-gray-600">Platform Fees</div>
+          </div>
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="text-2xl font-bold text-purple-600">
+              ₹{(meta?.pendingPayouts ?? 0).toFixed(2)}
+            </div>
+            <div className="text-sm text-gray-600">Pending Payouts</div>
+          </div>
+        </div>
+
+        {/* Tabs */}
+        <div className="bg-white rounded-lg shadow mb-6">
+          <div className="flex border-b overflow-x-auto">
+            {tabs.map(tab => (
+              <button
+                key={tab.key}
+                onClick={() => setActiveTab(tab.key)}
+                className={`px-6 py-3 font-medium whitespace-nowrap ${
+                  activeTab === tab.key
+                    ? 'border-b-2 border-amber-600 text-amber-600'
+                    : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {tab.label} ({tab.count})
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {shown.length === 0 ? (
+          <div className="bg-white rounded-lg shadow p-8 text-center">
+            <p className="text-gray-500">No sales here</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {shown.map(sale => (
+              <div key={sale.id} className="bg-white rounded-lg shadow border p-6">
+                <div className="flex justify-between items-start mb-4">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900">{sale.itemName}</h3>
+                    <p className="text-sm text-gray-600">
+                      Bought {new Date(sale.createdAt).toLocaleString('en-IN')} · {sale.status}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <div className="text-2xl font-bold text-amber-600">₹{sale.totalPaid}</div>
+                    <div className="text-xs text-gray-500">
+                      ₹{sale.salePrice} + ₹{sale.platformFee} fee
+                      {sale.feeRuleSet ? ` (v${sale.feeRuleSet.version})` : ''}
+                    </div>
+                    {sale.feePromotion && (
+                      <div className="text-xs text-green-700">🎉 {sale.feePromotion}</div>
+                    )}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm mb-4">
+                  <div className="bg-gray-50 rounded-lg p-3">
+                    <p className="text-gray-500">Buyer</p>
+                    <p className="font-medium text-gray-900">{sale.buyerName}</p>
+                    <p className="text-gray-600">{sale.buyerEmail} · Room {sale.buyerRoom || 'N/A'}</p>
+                  </div>
+                  <div className="bg-gray-50 rounded-lg p-3">
+                    <p className="text-gray-500">Seller</p>
+                    <p className="font-medium text-gray-900">{sale.sellerName}</p>
+                    <p className="text-gray-600">{sale.sellerEmail} · Room {sale.sellerRoom}</p>
+                  </div>
+                </div>
+
+                {sale.status === 'PENDING' && (
+                  <div className="space-y-3">
+                    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+                      Look for a UPI payment of ₹{sale.totalPaid} ending in <span className="font-mono font-bold">{sale.paymentPin}</span>
+                    </div>
+                    {rejectingId === sale.id ? (
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          value={rejectReason}
+                          onChange={(e) => setRejectReason(e.target.value)}
+                          placeholder="Reason (shown to the buyer)"
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                        />
+                        <button
+                          onClick={() => updateSale(sale.id, { status: 'CANCELLED', reason: rejectReason })}
+                          disabled={updating === sale.id}
+                          className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 disabled:opacity-50 text-sm font-medium"
+                        >
+                          Reject
+                        </button>
+                        <button
+                          onClick={() => setRejectingId(null)}
+                          className="bg-gray-200 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-300 text-sm font-medium"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => updateSale(sale.id, { status: 'PAID' })}
+                          disabled={updating === sale.id}
+                          className="flex-1 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 font-medium"
+                        >
+                          ✅ Payment Received
+                        </button>
+                        <button
+                          onClick={() => {
+                            setRejectingId(sale.id)
+                            setRejectReason('')
+                          }}
+                          className="flex-1 bg-red-100 text-red-800 px-4 py-2 rounded-lg hover:bg-red-200 font-medium"
+                        >
+                          ❌ Payment Not Found
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {sale.status === 'PAID' && (
+                  <div className="space-y-3">
+                    <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm text-blue-800">
+                      Waiting for the seller to enter the buyer&apos;s pickup code
+                    </div>
+                    {rejectingId === sale.id ? (
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          value={rejectReason}
+                          onChange={(e) => setRejectReason(e.target.value)}
+                          placeholder="Reason (shown to the buyer)"
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                        />
+                        <button
+                          onClick={() => cancelPaidSale(sale)}
+                          disabled={updating === sale.id}
+                          className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 disabled:opacity-50 text-sm font-medium"
+                        >
+                          Cancel Sale
+                        </button>
+                        <button
+                          onClick={() => setRejectingId(null)}
+                          className="bg-gray-200 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-300 text-sm font-medium"
+                        >
+                          Back
+                        </button>
+                      </div>
+                    ) : (
+                      <button
+                        onClick={() => {
+                          setRejectingId(sale.id)
+                          setRejectReason('')
+                        }}
+                        className="bg-red-100 text-red-800 px-4 py-2 rounded-lg hover:bg-red-200 text-sm font-medium"
+                      >
+                        ❌ Never Handed Over - Cancel &amp; Refund
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {sale.status === 'COMPLETED' && (
+                  <div className="flex justify-between items-center bg-purple-50 border border-purple-200 rounded-lg p-3">
+                    <div className="text-sm text-purple-900">
+                      Handed over {sale.handedOverAt && new Date(sale.handedOverAt).toLocaleDateString('en-IN')} ·
+                      Paid ₹{sale.sellerPaidOut.toFixed(2)} of ₹{sale.amountOwedToSeller.toFixed(2)}
+                    </div>
+                    {sale.amountOwedToSeller - sale.sellerPaidOut > 0.01 && (
+                      <button
+                        onClick={() => markPaidOut(sale)}
+                        disabled={updating === sale.id}
+                        className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm font-medium"
+                      >
+                        💰 Mark as Paid Out
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {sale.status === 'CANCELLED' && (
+                  <div className="space-y-3">
+                    <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">
+                      Cancelled{sale.cancellationReason && `: ${sale.cancellationReason}`}
+                      {sale.refundAmount > 0 && (
+                        <span>
+                          {' '}· {sale.refundedAt
+                            ? `₹${sale.refundAmount} refunded ${new Date(sale.refundedAt).toLocaleDateString('en-IN')}${sale.refundReference ? ` (ref ${sale.refundReference})` : ''}`
+                            : `₹${sale.refundAmount} to refund to the buyer`}
+                        </span>
+                      )}
+                    </div>
+                    {sale.refundAmount > 0 && !sale.refundedAt && (
+                      refundingId === sale.id ? (
+                        <div className="flex gap-2">
+                          <input
+                            type="text"
+                            placeholder="Refund reference (UPI txn ID etc.)"
+                            value={refundReference}
+                            onChange={(e) => setRefundReference(e.target.value)}
+                            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-900 text-sm"
+                          />
+                          <button
+                            onClick={() => updateSale(sale.id, { status: 'REFUNDED', refundReference })}
+                            disabled={updating === sale.id}
+                            className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm font-medium"
+                          >
+                            💸 Record Refund
+                          </button>
+                          <button
+                            onClick={() => setRefundingId(null)}
+                            className="bg-gray-200 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-300 text-sm font-medium"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => {
+                            setRefundingId(sale.id)
+                            setRefundReference('')
+                          }}
+                          className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 text-sm font-medium"
+                        >
+                          💸 Mark as Refunded
+                        </button>
+                      )
+                    )}
+                  </div>
+                )}
+
+                {sale.adminNotes && (
+                  <p className="text-xs text-gray-500 whitespace-pre-line mt-3">{sale.adminNotes}</p>
+                )}
+              </div>
+            ))}
+            {hasMore && (
+              <div ref={sentinelRef} className="text-center py-4 text-sm text-gray-500">
+                {loadingMore ? 'Loading more sales...' : ''}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
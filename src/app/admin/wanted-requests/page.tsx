@@ -0,0 +1,404 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { useInfiniteList } from '@/hooks/useInfiniteList'
+
+interface WantedPost {
+  id: string
+  title: string
+  description: string
+  listingType: string
+  neededFrom: string | null
+  neededUntil: string | null
+  budget: number
+  status: string
+  rejectionReason: string | null
+  submittedAt: string
+  requesterName: string
+  requesterRoom: string | null
+  category: {
+    id: string
+    name: string
+  }
+  requester: {
+    id: string
+    name: string
+    email: string
+    phone: string | null
+    roomNumber: string | null
+  }
+  _count: {
+    listings: number
+  }
+}
+
+export default function AdminWantedRequests() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [statusFilter, setStatusFilter] = useState('PENDING')
+  const [selectedPost, setSelectedPost] = useState<WantedPost | null>(null)
+  const [showRejectModal, setShowRejectModal] = useState(false)
+  const [rejectionReason, setRejectionReason] = useState('')
+  const [actionLoading, setActionLoading] = useState(false)
+
+  // Newest first; older requests load as the admin scrolls down
+  const {
+    items: posts,
+    loading,
+    loadingMore,
+    hasMore,
+    reload: fetchPosts,
+    sentinelRef
+  } = useInfiniteList<WantedPost>(
+    session?.user.role === 'ADMIN' ? `/api/admin/wanted?status=${statusFilter}` : null
+  )
+
+  useEffect(() => {
+    if (status === 'loading') return
+    if (!session || session.user.role !== 'ADMIN') {
+      router.push('/')
+    }
+  }, [session, status, router])
+
+  const updateStatus = async (postId: string, newStatus: 'APPROVED' | 'CLOSED', prompt: string) => {
+    if (!confirm(prompt)) return
+
+    setActionLoading(true)
+    try {
+      const response = await fetch(`/api/admin/wanted/${postId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: newStatus })
+      })
+
+      if (response.ok) {
+        fetchPosts()
+      } else {
+        alert('Failed to update request')
+      }
+    } catch (error) {
+      console.error('Error updating:', error)
+      alert('Error updating request')
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
+  const handleReject = async () => {
+    if (!selectedPost || !rejectionReason.trim()) {
+      alert('Please provide a rejection reason')
+      return
+    }
+
+    setActionLoading(true)
+    try {
+      const response = await fetch(`/api/admin/wanted/${selectedPost.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          status: 'REJECTED',
+          rejectionReason
+        })
+      })
+
+      if (response.ok) {
+        alert('Request rejected')
+        setShowRejectModal(false)
+        setRejectionReason('')
+        setSelectedPost(null)
+        fetchPosts()
+      } else {
+        alert('Failed to reject request')
+      }
+    } catch (error) {
+      console.error('Error rejecting:', error)
+      alert('Error rejecting request')
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
+  const handleDelete = async (postId: string) => {
+    if (!confirm('Permanently delete this request? Listings made for it stay up.')) return
+
+    setActionLoading(true)
+    try {
+      const response = await fetch(`/api/admin/wanted/${postId}`, {
+        method: 'DELETE'
+      })
+
+      if (response.ok) {
+        alert('Request deleted successfully')
+        fetchPosts()
+      } else {
+        alert('Failed to delete request')
+      }
+    } catch (error) {
+      console.error('Error deleting:', error)
+      alert('Error deleting request')
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'PENDING':
+        return 'bg-yellow-100 text-yellow-800'
+      case 'LIVE':
+        return 'bg-green-100 text-green-800'
+      case 'REJECTED':
+        return 'bg-red-100 text-red-800'
+      case 'FULFILLED':
+        return 'bg-blue-100 text-blue-800'
+      default:
+        return 'bg-gray-100 text-gray-800'
+    }
+  }
+
+  const formatDate = (date: string | null) =>
+    date ? new Date(date).toLocaleDateString() : 'Any'
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <div className="text-lg">Loading...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Navigation */}
+      <nav className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <button
+                onClick={() => router.push('/admin')}
+                className="text-blue-600 hover:text-blue-800 mr-4 font-medium"
+              >
+                ← Back to Dashboard
+              </button>
+              <h1 className="text-xl font-semibold text-gray-900">Wanted Requests</h1>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {/* Filters */}
+        <div className="bg-white rounded-lg shadow p-4 mb-6">
+          <div className="flex items-center space-x-4">
+            <label className="text-sm font-medium text-gray-700">Filter by status:</label>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-gray-900"
+            >
+              <option value="all">All</option>
+              <option value="PENDING">Pending</option>
+              <option value="LIVE">Live</option>
+              <option value="REJECTED">Rejected</option>
+              <option value="FULFILLED">Fulfilled</option>
+              <option value="CLOSED">Closed</option>
+            </select>
+            <span className="text-sm text-gray-600">
+              {posts.length}{hasMore && '+'} request{posts.length !== 1 || hasMore ? 's' : ''} found
+            </span>
+          </div>
+        </div>
+
+        {/* Posts */}
+        {posts.length === 0 ? (
+          <div className="bg-white rounded-lg shadow p-8 text-center">
+            <div className="text-gray-400 text-4xl mb-4">📣</div>
+            <p className="text-gray-500">No wanted requests found with current filter</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {posts.map((post) => (
+              <div key={post.id} className="bg-white rounded-lg shadow border">
+                <div className="p-6">
+                  {/* Header */}
+                  <div className="flex justify-between items-start mb-4">
+                    <div className="flex-1">
+                      <h3 className="text-xl font-semibold text-gray-900">
+                        {post.title}
+                      </h3>
+                      <div className="flex items-center gap-2 mt-2">
+                        <span className={`px-3 py-1 rounded-full text-xs font-medium ${getStatusColor(post.status)}`}>
+                          {post.status}
+                        </span>
+                        <span className="px-3 py-1 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                          {post.listingType === 'SELL' ? '💰 To Buy' : '🏷️ To Borrow'}
+                        </span>
+                        <span className="text-sm text-gray-500">
+                          {post.category.name}
+                        </span>
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <div className="text-2xl font-bold text-green-600">
+                        ₹{post.budget}{post.listingType === 'RENT' ? '/day' : ''}
+                      </div>
+                      <div className="text-xs text-gray-500">Budget</div>
+                    </div>
+                  </div>
+
+                  {/* Description */}
+                  <div className="mb-4">
+                    <h4 className="font-medium text-gray-900 mb-2">Description:</h4>
+                    <p className="text-gray-600 text-sm">{post.description}</p>
+                  </div>
+
+                  {/* Details Grid */}
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4 text-sm">
+                    <div>
+                      <span className="text-gray-500">Needed From:</span>
+                      <p className="font-medium text-gray-900">{formatDate(post.neededFrom)}</p>
+                    </div>
+                    <div>
+                      <span className="text-gray-500">Needed Until:</span>
+                      <p className="font-medium text-gray-900">{formatDate(post.neededUntil)}</p>
+                    </div>
+                    <div>
+                      <span className="text-gray-500">Responses:</span>
+                      <p className="font-medium text-gray-900">{post._count.listings}</p>
+                    </div>
+                    <div>
+                      <span className="text-gray-500">Submitted:</span>
+                      <p className="font-medium text-gray-900">
+                        {new Date(post.submittedAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                  </div>
+
+                  {/* Requester Info */}
+                  <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4">
+                    <h4 className="font-medium text-gray-900 mb-2">Requester Information:</h4>
+                    <div className="grid grid-cols-2 gap-2 text-sm">
+                      <div>
+                        <span className="text-gray-500">Name:</span>
+                        <p className="font-medium text-gray-900">{post.requesterName}</p>
+                      </div>
+                      <div>
+                        <span className="text-gray-500">Email:</span>
+                        <p className="font-medium text-gray-900">{post.requester.email}</p>
+                      </div>
+                      <div>
+                        <span className="text-gray-500">Phone:</span>
+                        <p className="font-medium text-gray-900">{post.requester.phone || 'N/A'}</p>
+                      </div>
+                      <div>
+                        <span className="text-gray-500">Room:</span>
+                        <p className="font-medium text-gray-900">{post.requesterRoom || 'N/A'}</p>
+                      </div>
+                    </div>
+                  </div>
+
+                  {post.status === 'REJECTED' && post.rejectionReason && (
+                    <p className="text-sm text-red-700 bg-red-50 rounded-lg p-3 mb-4">
+                      Rejected: {post.rejectionReason}
+                    </p>
+                  )}
+
+                  {/* Actions */}
+                  {post.status === 'PENDING' && (
+                    <div className="flex gap-3">
+                      <button
+                        onClick={() => updateStatus(post.id, 'APPROVED', 'Put this request on the wanted board?')}
+                        disabled={actionLoading}
+                        className="flex-1 bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700 font-medium disabled:opacity-50"
+                      >
+                        ✅ Approve
+                      </button>
+                      <button
+                        onClick={() => {
+                          setSelectedPost(post)
+                          setShowRejectModal(true)
+                        }}
+                        disabled={actionLoading}
+                        className="flex-1 bg-red-600 text-white py-2 px-4 rounded-lg hover:bg-red-700 font-medium disabled:opacity-50"
+                      >
+                        ❌ Reject
+                      </button>
+                    </div>
+                  )}
+
+                  {post.status !== 'PENDING' && (
+                    <div className="flex gap-3">
+                      {post.status === 'LIVE' && (
+                        <button
+                          onClick={() => updateStatus(post.id, 'CLOSED', 'Take this request off the board?')}
+                          disabled={actionLoading}
+                          className="bg-gray-600 text-white py-2 px-4 rounded-lg hover:bg-gray-700 font-medium disabled:opacity-50"
+                        >
+                          🚫 Close
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleDelete(post.id)}
+                        disabled={actionLoading}
+                        className="bg-red-600 text-white py-2 px-4 rounded-lg hover:bg-red-700 font-medium disabled:opacity-50"
+                      >
+                        🗑️ Delete
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+            {hasMore && (
+              <div ref={sentinelRef} className="text-center py-4 text-sm text-gray-500">
+                {loadingMore ? 'Loading more requests...' : ''}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Reject Modal */}
+      {showRejectModal && selectedPost && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-lg max-w-md w-full p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              Reject Request: {selectedPost.title}
+            </h3>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Reason for rejection:
+            </label>
+            <textarea
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+              placeholder="Please explain why this request is being rejected..."
+              rows={4}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 text-gray-900"
+            />
+            <div className="flex gap-3 mt-4">
+              <button
+                onClick={() => {
+                  setShowRejectModal(false)
+                  setRejectionReason('')
+                  setSelectedPost(null)
+                }}
+                className="flex-1 bg-gray-200 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-300"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleReject}
+                disabled={actionLoading || !rejectionReason.trim()}
+                className="flex-1 bg-red-600 text-white py-2 px-4 rounded-lg hover:bg-red-700 disabled:opacity-50"
+              >
+                {actionLoading ? 'Rejecting...' : 'Reject'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -37,10 +37,22 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const { name } = await request.json()
+    const { name, lateFeePerDay } = await request.json()
+
+    // Listings in this category charge this per late day unless they set their own
+    const parsedLateFee = lateFeePerDay !== undefined && lateFeePerDay !== null && lateFeePerDay !== ''
+      ? parseFloat(lateFeePerDay)
+      : null
+
+    if (parsedLateFee !== null && (isNaN(parsedLateFee) || parsedLateFee < 0)) {
+      return NextResponse.json(
+        { error: 'Late fee must be zero or more' },
+        { status: 400 }
+      )
+    }
 
     const category = await prisma.category.create({
-      data: { name }
+      data: { name, lateFeePerDay: parsedLateFee }
     })
 
     return NextResponse.json(category)
@@ -0,0 +1,111 @@
+// src/app/api/admin/disputes/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { awardDepositToSeller, getDepositBalance } from "@/lib/rentalDeposits"
+
+// PATCH - Ask the parties for more information, or resolve with a split of the deposit
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { action, infoRequest, sellerAward, resolutionNotes } = await request.json()
+
+    const dispute = await prisma.rentalDispute.findUnique({
+      where: { id },
+      include: { rental: true }
+    })
+
+    if (!dispute) {
+      return NextResponse.json({ error: 'Claim not found' }, { status: 404 })
+    }
+
+    if (dispute.status === 'RESOLVED') {
+      return NextResponse.json({ error: 'Claim already resolved' }, { status: 409 })
+    }
+
+    // ❓ REQUEST INFO
+    if (action === 'REQUEST_INFO') {
+      if (!infoRequest?.trim()) {
+        return NextResponse.json({ error: 'Please say what information is needed' }, { status: 400 })
+      }
+
+      const updated = await prisma.rentalDispute.update({
+        where: { id },
+        data: {
+          status: 'INFO_REQUESTED',
+          infoRequest: infoRequest.trim()
+        }
+      })
+
+      return NextResponse.json(updated)
+    }
+
+    if (action !== 'RESOLVE') {
+      return NextResponse.json({ error: 'Action must be REQUEST_INFO or RESOLVE' }, { status: 400 })
+    }
+
+    // ⚖️ RESOLVE - seller gets sellerAward from the deposit, the renter keeps the rest
+    const balance = getDepositBalance(dispute.rental)
+    const award = sellerAward ? Number(sellerAward) : 0
+
+    if (!Number.isFinite(award) || award < 0 || award > balance + 0.01) {
+      return NextResponse.json({
+        error: `Seller award must be between ₹0 and ₹${balance.toFixed(2)} (deposit remaining)`
+      }, { status: 400 })
+    }
+
+    if (!resolutionNotes?.trim()) {
+      return NextResponse.json({ error: 'Resolution notes are required' }, { status: 400 })
+    }
+
+    const resolved = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.rentalDispute.updateMany({
+        where: { id, status: { not: 'RESOLVED' } },
+        data: {
+          status: 'RESOLVED',
+          sellerAward: award,
+          renterRefund: balance - award,
+          resolutionNotes: resolutionNotes.trim(),
+          resolvedAt: new Date()
+        }
+      })
+
+      if (count === 0) {
+        return null
+      }
+
+      await awardDepositToSeller(tx, dispute.rental, award, `Damage claim: ${resolutionNotes.trim()}`)
+
+      return tx.rentalDispute.findUniqueOrThrow({ where: { id } })
+    })
+
+    if (!resolved) {
+      return NextResponse.json({ error: 'Claim already resolved' }, { status: 409 })
+    }
+
+    console.log('⚖️ Damage claim resolved:', {
+      disputeId: id,
+      rentalId: dispute.rentalId,
+      sellerAward: award,
+      renterRefund: balance - award
+    })
+
+    return NextResponse.json(resolved)
+  } catch (error) {
+    console.error('Error updating dispute:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
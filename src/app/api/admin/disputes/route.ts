@@ -0,0 +1,55 @@
+// src/app/api/admin/disputes/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { findPage, getPageParams } from "@/lib/pagination"
+
+// GET - Dispute queue: unresolved claims, oldest first. The first page also carries the total.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const where = { status: { not: 'RESOLVED' as const } }
+    const { searchParams } = new URL(request.url)
+    const pageParams = getPageParams(searchParams)
+    const page = await findPage(pageParams, args => prisma.rentalDispute.findMany({
+      ...args,
+      where,
+      include: {
+        rental: {
+          select: {
+            id: true,
+            itemName: true,
+            status: true,
+            renterName: true,
+            renterEmail: true,
+            sellerName: true,
+            sellerEmail: true,
+            securityDeposit: true,
+            depositStatus: true,
+            depositWithheld: true,
+            depositRefunded: true,
+            conditionReports: {
+              orderBy: { createdAt: 'asc' }
+            }
+          }
+        }
+      },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+    }))
+
+    if (pageParams.cursor) {
+      return NextResponse.json(page)
+    }
+
+    return NextResponse.json({ ...page, total: await prisma.rentalDispute.count({ where }) })
+  } catch (error) {
+    console.error('Error fetching disputes:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,68 @@
+// src/app/api/admin/fee-rules/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { FEE_RULES_INCLUDE, FeeRuleError, getCurrentFeeRuleSet, parseFeeRulesInput, publishFeeRuleSet } from "@/lib/feeRules"
+
+// GET /api/admin/fee-rules - All fee rule versions, newest first
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Makes sure version 1 exists
+    await getCurrentFeeRuleSet()
+
+    const versions = await prisma.platformFeeRuleSet.findMany({
+      orderBy: { version: 'desc' },
+      include: {
+        ...FEE_RULES_INCLUDE,
+        _count: {
+          select: { itemListings: true, rentalTransactions: true }
+        }
+      }
+    })
+
+    return NextResponse.json(versions)
+  } catch (error) {
+    console.error('Error fetching fee rules:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST /api/admin/fee-rules - Publish a new version for listings created from now on
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const input = parseFeeRulesInput(await request.json())
+    const ruleSet = await publishFeeRuleSet(input, session.user.id)
+
+    console.log('🧾 Fee rules published:', {
+      version: ruleSet.version,
+      defaultPercent: ruleSet.defaultPercent,
+      categoryRules: ruleSet.categoryRules.length,
+      promotions: ruleSet.promotions.length
+    })
+
+    return NextResponse.json(ruleSet, { status: 201 })
+  } catch (error) {
+    if (error instanceof FeeRuleError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error publishing fee rules:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
 import { Prisma } from "@prisma/client"
+import { notifyWantedPostResponse } from "@/lib/wanted"
 
 // PATCH - Approve/Reject listing
 export async function PATCH(
@@ -28,6 +29,15 @@ export async function PATCH(
       }, { status: 400 })
     }
 
+    const existing = await prisma.itemListing.findUnique({
+      where: { id },
+      select: { listedAt: true }
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Listing not found' }, { status: 404 })
+    }
+
     const updateData: Prisma.ItemListingUpdateInput = {
       status,
       reviewedAt: new Date()
@@ -63,6 +73,12 @@ export async function PATCH(
       }
     })
 
+    // Listing answers a wanted post: let the requester know it's up.
+    // Re-approving after a seller edit doesn't notify them again.
+    if (listing.status === 'LIVE' && listing.wantedPostId && !existing.listedAt) {
+      await notifyWantedPostResponse(listing.id)
+    }
+
     return NextResponse.json(listing)
   } catch (error) {
     console.error('Error updating listing:', error)
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+
+// GET - Version history of a listing, oldest first
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await context.params
+
+    const versions = await prisma.listingVersion.findMany({
+      where: { listingId: id },
+      orderBy: { version: 'asc' }
+    })
+
+    return NextResponse.json(versions)
+  } catch (error) {
+    console.error('Error fetching listing versions:', error)
+    return NextResponse.json({
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { findPage, getPageParams } from "@/lib/pagination"
 import { ListingStatus } from '@prisma/client'
 
 // GET - Fetch all listings (admin only)
@@ -21,7 +22,8 @@ export async function GET(request: NextRequest) {
       
       : {}
 
-    const listings = await prisma.itemListing.findMany({
+    const page = await findPage(getPageParams(searchParams), args => prisma.itemListing.findMany({
+      ...args,
       where: whereClause,
       include: {
         seller: {
@@ -38,14 +40,21 @@ export async function GET(request: NextRequest) {
             id: true,
             name: true
           }
+        },
+        feeRuleSet: {
+          select: { version: true }
+        },
+        wantedPost: {
+          select: { id: true, title: true, requesterName: true }
+        },
+        _count: {
+          select: { versions: true }
         }
       },
-      orderBy: {
-        submittedAt: 'desc'
-      }
-    })
+      orderBy: [{ submittedAt: 'desc' }, { id: 'desc' }]
+    }))
 
-    return NextResponse.json(listings)
+    return NextResponse.json(page)
   } catch (error) {
     console.error('Error fetching admin listings:', error)
     return NextResponse.json({ 
@@ -3,19 +3,16 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { OrderTransitionError, orderTransitionErrorResponse, transitionOrder } from "@/lib/orderLifecycle"
 
 import { OrderStatus, PaymentStatus, DeliveryMethod } from "@prisma/client"
 
 // Define proper types for order updates
 interface OrderUpdateData {
-  status?: OrderStatus
   paymentStatus?: PaymentStatus
   adminNotes?: string
   deliveryMethod?: DeliveryMethod
   roomNumber?: string
-  confirmedAt?: Date
-  readyAt?: Date
-  completedAt?: Date
 }
 
 // GET - Fetch specific order details for admin
@@ -96,6 +93,7 @@ export async function PATCH(
     }
 
     const orderUpdates: OrderUpdateData = {}
+    let nextStatus: OrderStatus | undefined
 
     // Handle order status updates
     if (updates.status) {
@@ -104,18 +102,7 @@ export async function PATCH(
         return NextResponse.json({ error: 'Invalid order status' }, { status: 400 })
       }
 
-      orderUpdates.status = updates.status as OrderStatus
-
-      // Set appropriate timestamps
-      if (updates.status === OrderStatus.CONFIRMED && !currentOrder.confirmedAt) {
-        orderUpdates.confirmedAt = new Date()
-      }
-      if (updates.status === OrderStatus.READY && !currentOrder.readyAt) {
-        orderUpdates.readyAt = new Date()
-      }
-      if (updates.status === OrderStatus.COMPLETED) {
-        orderUpdates.completedAt = new Date()
-      }
+      nextStatus = updates.status as OrderStatus
     }
 
     // Handle payment status updates
@@ -128,9 +115,8 @@ export async function PATCH(
       orderUpdates.paymentStatus = updates.paymentStatus as PaymentStatus
 
       // Auto-confirm order when payment is completed for pending orders
-      if (updates.paymentStatus === PaymentStatus.COMPLETED && currentOrder.status === OrderStatus.PENDING) {
-        orderUpdates.status = OrderStatus.CONFIRMED
-        orderUpdates.confirmedAt = new Date()
+      if (!nextStatus && updates.paymentStatus === PaymentStatus.COMPLETED && currentOrder.status === OrderStatus.PENDING) {
+        nextStatus = OrderStatus.CONFIRMED
       }
     }
 
@@ -139,32 +125,46 @@ export async function PATCH(
     if (updates.deliveryMethod) orderUpdates.deliveryMethod = updates.deliveryMethod
     if (updates.roomNumber) orderUpdates.roomNumber = updates.roomNumber
 
-    const result = await prisma.order.update({
-      where: { id },
-      data: orderUpdates,
-      include: {
-        user: {
-          select: {
-            name: true,
-            email: true,
-            phone: true,
-            roomNumber: true
-          }
-        },
-        orderItems: {
-          include: {
-            product: {
-              include: {
-                category: true
+    const result = await prisma.$transaction(async (tx) => {
+      // Status changes go through the order state machine
+      if (nextStatus && nextStatus !== currentOrder.status) {
+        await transitionOrder(tx, id, nextStatus, orderUpdates)
+      } else {
+        await tx.order.update({
+          where: { id },
+          data: orderUpdates
+        })
+      }
+
+      return tx.order.findUniqueOrThrow({
+        where: { id },
+        include: {
+          user: {
+            select: {
+              name: true,
+              email: true,
+              phone: true,
+              roomNumber: true
+            }
+          },
+          orderItems: {
+            include: {
+              product: {
+                include: {
+                  category: true
+                }
               }
             }
           }
         }
-      }
+      })
     })
 
     return NextResponse.json(result)
   } catch (error) {
+    if (error instanceof OrderTransitionError) {
+      return orderTransitionErrorResponse(error)
+    }
     console.error('Error updating order:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -188,54 +188,27 @@ export async function DELETE(
     const { id } = await context.params
 
     const existingOrder = await prisma.order.findUnique({
-      where: { id },
-      include: {
-        orderItems: {
-          include: {
-            product: true
-          }
-        }
-      }
+      where: { id }
     })
 
     if (!existingOrder) {
       return NextResponse.json({ error: 'Order not found' }, { status: 404 })
     }
 
-    // Can't cancel completed orders
-    if (existingOrder.status === OrderStatus.COMPLETED) {
-      return NextResponse.json({ error: 'Cannot cancel completed orders' }, { status: 400 })
-    }
-
     // Cancel order and restore stock
     await prisma.$transaction(async (tx) => {
-      // Restore product stock
-      for (const item of existingOrder.orderItems) {
-        await tx.product.update({
-          where: { id: item.productId },
-          data: {
-            stockQuantity: {
-              increment: item.quantity
-            }
-          }
-        })
-      }
-
-      // Cancel the order
-      await tx.order.update({
-        where: { id },
-        data: {
-          status: OrderStatus.CANCELLED,
-          completedAt: new Date(),
-          adminNotes: existingOrder.adminNotes 
-            ? `${existingOrder.adminNotes}\n\nCancelled by admin on ${new Date().toLocaleString()}`
-            : `Cancelled by admin on ${new Date().toLocaleString()}`
-        }
+      await transitionOrder(tx, id, OrderStatus.CANCELLED, {
+        adminNotes: existingOrder.adminNotes 
+          ? `${existingOrder.adminNotes}\n\nCancelled by admin on ${new Date().toLocaleString()}`
+          : `Cancelled by admin on ${new Date().toLocaleString()}`
       })
     })
 
     return NextResponse.json({ message: 'Order cancelled successfully' })
   } catch (error) {
+    if (error instanceof OrderTransitionError) {
+      return orderTransitionErrorResponse(error)
+    }
     console.error('Error cancelling order:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
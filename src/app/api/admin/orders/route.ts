@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { findPage, getPageParams } from "@/lib/pagination"
 
 import { OrderStatus, PaymentMethod } from "@prisma/client"
 
@@ -42,7 +43,8 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    const orders = await prisma.order.findMany({
+    const page = await findPage(getPageParams(searchParams), args => prisma.order.findMany({
+      ...args,
       where: whereClause,
       include: {
         user: {
@@ -63,12 +65,10 @@ export async function GET(request: NextRequest) {
           }
         }
       },
-      orderBy: {
-        createdAt: 'desc'
-      }
-    })
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }]
+    }))
 
-    return NextResponse.json(orders)
+    return NextResponse.json(page)
   } catch (error) {
     console.error('Error fetching admin orders:', error)
     return NextResponse.json(
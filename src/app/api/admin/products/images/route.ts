@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { assignProductImagesByName } from "@/lib/productImages"
+import { readUploadForm, UploadTooLargeError } from "@/lib/imageUploads"
+
+const MAX_BULK_IMAGES = 50
+
+// POST - Bulk-assign product images by file name (multipart: "files", optional
+// "categoryId" to match only that category, "overwrite" to replace existing images)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const formData = await readUploadForm(request, MAX_BULK_IMAGES)
+    const files = formData?.getAll('files').filter((entry): entry is File => entry instanceof File) ?? []
+
+    if (files.length === 0) {
+      return NextResponse.json({ error: 'No images uploaded' }, { status: 400 })
+    }
+
+    if (files.length > MAX_BULK_IMAGES) {
+      return NextResponse.json({
+        error: `Upload at most ${MAX_BULK_IMAGES} images at a time`
+      }, { status: 400 })
+    }
+
+    const categoryId = formData?.get('categoryId')
+    const result = await assignProductImagesByName(files, {
+      categoryId: typeof categoryId === 'string' && categoryId ? categoryId : undefined,
+      overwrite: formData?.get('overwrite') === 'true'
+    })
+
+    console.log('🖼️ Product images assigned:', {
+      assigned: result.assigned.length,
+      unmatched: result.unmatched.length,
+      skipped: result.skipped.length
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof UploadTooLargeError) {
+      return NextResponse.json({ error: error.message }, { status: 413 })
+    }
+
+    console.error('Error assigning product images:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
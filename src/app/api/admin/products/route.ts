@@ -2,9 +2,10 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"  // ✅ Named import
+import { findPage, getPageParams } from "@/lib/pagination"
 
-// GET - Fetch all products
-export async function GET() {
+// GET - Products by name. The first page also carries the catalogue stats.
+export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
     
@@ -12,16 +13,27 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const products = await prisma.product.findMany({
+    const { searchParams } = new URL(request.url)
+    const pageParams = getPageParams(searchParams)
+    const page = await findPage(pageParams, args => prisma.product.findMany({
+      ...args,
       include: {
         category: true
       },
-      orderBy: {
-        name: 'asc'
-      }
-    })
+      orderBy: [{ name: 'asc' }, { id: 'asc' }]
+    }))
+
+    if (pageParams.cursor) {
+      return NextResponse.json(page)
+    }
+
+    const [total, available, lowStock] = await Promise.all([
+      prisma.product.count(),
+      prisma.product.count({ where: { isAvailable: true } }),
+      prisma.product.count({ where: { isAvailable: true, stockQuantity: { lt: 3 } } })
+    ])
 
-    return NextResponse.json(products)
+    return NextResponse.json({ ...page, stats: { total, available, lowStock } })
   } catch (error) {
     console.error('Error fetching products:', error)
     return NextResponse.json(
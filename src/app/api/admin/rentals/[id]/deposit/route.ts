@@ -0,0 +1,138 @@
+// src/app/api/admin/rentals/[id]/deposit/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { appendReason, DEPOSIT_REFUND_METHODS, getDepositBalance, getSettledDepositStatus } from "@/lib/rentalDeposits"
+
+// POST - Settle a returned rental's deposit: withhold part of it (with a reason) and refund the rest
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { withheldAmount, withheldReason, refundMethod, refundReference } = await request.json()
+
+    const rental = await prisma.rentalTransaction.findUnique({
+      where: { id },
+      include: {
+        disputes: {
+          where: { status: { not: 'RESOLVED' } },
+          select: { id: true }
+        }
+      }
+    })
+
+    if (!rental) {
+      return NextResponse.json({ error: 'Rental not found' }, { status: 404 })
+    }
+
+    if (rental.depositStatus !== 'REFUND_DUE') {
+      return NextResponse.json({
+        error: `Deposit is not awaiting refund (status: ${rental.depositStatus})`
+      }, { status: 409 })
+    }
+
+    if (rental.disputes.length > 0) {
+      return NextResponse.json({
+        error: 'Resolve the open damage claim before refunding the deposit'
+      }, { status: 409 })
+    }
+
+    const balance = getDepositBalance(rental)
+    const withheld = withheldAmount ? Number(withheldAmount) : 0
+
+    if (!Number.isFinite(withheld) || withheld < 0 || withheld > balance + 0.01) {
+      return NextResponse.json({
+        error: `Withheld amount must be between ₹0 and ₹${balance.toFixed(2)}`
+      }, { status: 400 })
+    }
+
+    if (withheld > 0 && !withheldReason?.trim()) {
+      return NextResponse.json({ error: 'A reason is required when withholding part of the deposit' }, { status: 400 })
+    }
+
+    const refund = Math.max(0, balance - withheld)
+
+    if (refund > 0 && !DEPOSIT_REFUND_METHODS.includes(refundMethod)) {
+      return NextResponse.json({
+        error: `Refund method must be one of ${DEPOSIT_REFUND_METHODS.join(', ')}`
+      }, { status: 400 })
+    }
+
+    const totalWithheld = rental.depositWithheld + withheld
+    const totalRefunded = rental.depositRefunded + refund
+
+    const updated = await prisma.$transaction(async (tx) => {
+      // Only one admin can settle a deposit
+      const { count } = await tx.rentalTransaction.updateMany({
+        where: { id, depositStatus: 'REFUND_DUE' },
+        data: {
+          depositStatus: getSettledDepositStatus(totalWithheld, totalRefunded),
+          depositWithheld: totalWithheld,
+          depositWithheldReason: withheld > 0
+            ? appendReason(rental.depositWithheldReason, withheldReason.trim())
+            : rental.depositWithheldReason,
+          depositRefunded: totalRefunded,
+          depositRefundMethod: refund > 0 ? refundMethod : null,
+          depositRefundReference: refund > 0 ? refundReference?.trim() || null : null,
+          depositRefundedAt: new Date()
+        }
+      })
+
+      if (count === 0) {
+        return null
+      }
+
+      if (withheld > 0) {
+        await tx.rentalLedgerEntry.create({
+          data: {
+            rentalId: id,
+            type: 'DEPOSIT_WITHHELD',
+            amount: withheld,
+            note: `₹${withheld} of the deposit withheld: ${withheldReason.trim()}`
+          }
+        })
+      }
+
+      if (refund > 0) {
+        await tx.rentalLedgerEntry.create({
+          data: {
+            rentalId: id,
+            type: 'DEPOSIT_REFUND',
+            amount: refund,
+            note: `₹${refund} refunded via ${refundMethod}${refundReference ? ` (ref ${refundReference.trim()})` : ''}`
+          }
+        })
+      }
+
+      return tx.rentalTransaction.findUniqueOrThrow({ where: { id } })
+    })
+
+    if (!updated) {
+      return NextResponse.json({ error: 'Deposit was already settled' }, { status: 409 })
+    }
+
+    console.log('💵 Deposit settled:', {
+      rentalId: id,
+      refunded: refund,
+      withheld,
+      status: updated.depositStatus
+    })
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    console.error('Error settling deposit:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
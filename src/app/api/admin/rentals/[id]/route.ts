@@ -5,6 +5,11 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { isSellerApprovalExpired } from "@/lib/rentalApproval"
+import { holdDeposit } from "@/lib/rentalDeposits"
+import { generateConfirmationCode } from "@/lib/rentalHandover"
+import { calculateSellerPayout } from "@/lib/rentalPayout"
+import { completeRentalReturn, RentalReturnError } from "@/lib/rentalReturn"
 
 export async function PATCH(
   request: NextRequest,
@@ -30,64 +35,97 @@ export async function PATCH(
 
     // ✅ APPROVE PAYMENT & ACTIVATE
     if (body.paymentStatus === 'PAID' && body.status === 'ACTIVE') {
-      // Calculate what seller will earn (80% of rent, excluding security deposit)
-      const totalRent = rental.rentPerDay * rental.daysRented
-      const platformCut = rental.platformFee * rental.daysRented // 20%
-      const sellerEarning = totalRent - platformCut // 80%
+      if (rental.status !== 'PENDING') {
+        return NextResponse.json({ error: `Rental is already ${rental.status.toLowerCase()}` }, { status: 409 })
+      }
+
+      if (isSellerApprovalExpired(rental)) {
+        return NextResponse.json({ error: 'The owner did not answer this request in time' }, { status: 409 })
+      }
+
+      if (rental.sellerApproval === 'PENDING') {
+        return NextResponse.json({ error: 'Waiting for the owner to accept this request' }, { status: 409 })
+      }
+
+      // Calculate what seller will earn (rent after the platform fee, excluding security deposit)
+      const { totalRent, platformCut, sellerEarning } = calculateSellerPayout(rental)
       
       console.log('💰 Activating rental:', {
         totalRent,
         platformCut,
         sellerEarning,
         securityDeposit: rental.securityDeposit,
-        note: 'Security deposit will be returned to customer, not included in seller payout'
-      })
-      
-      const updated = await prisma.rentalTransaction.update({
-        where: { id },
-        data: {
-          paymentStatus: 'PAID',
-          status: 'ACTIVE',
-          // Seller gets 80% of rent only (NOT security deposit)
-          amountOwedToSeller: sellerEarning
-        }
+        note: 'Security deposit is held until return, not included in seller payout'
       })
       
-      return NextResponse.json(updated)
-    }
-
-    // ✅ MARK AS RETURNED
-    if (body.status === 'RETURNED') {
       const updated = await prisma.$transaction(async (tx) => {
-        const updatedRental = await tx.rentalTransaction.update({
-          where: { id },
+        // A decline, expiry or renter cancel may have landed since the checks above
+        const { count } = await tx.rentalTransaction.updateMany({
+          where: { id, status: 'PENDING', sellerApproval: { in: ['NOT_REQUIRED', 'ACCEPTED'] } },
           data: {
-            status: 'RETURNED',
-            returnedAt: new Date()
-            // amountOwedToSeller stays as calculated during activation (80% of rent)
+            paymentStatus: 'PAID',
+            status: 'ACTIVE',
+            // Seller gets rent after the platform fee only (NOT security deposit)
+            amountOwedToSeller: sellerEarning,
+            // Renter shows this to the seller at pickup; days count from the handover
+            handoverCode: generateConfirmationCode()
           }
         })
+        if (count === 0) return null
 
-        // Free up inventory
-        await tx.itemListing.update({
-          where: { id: rental.listingId },
-          data: { currentlyRented: { decrement: 1 } }
-        })
+        await holdDeposit(tx, rental)
+        return tx.rentalTransaction.findUniqueOrThrow({ where: { id } })
+      })
+
+      if (!updated) {
+        return NextResponse.json({ error: 'Rental was updated by someone else. Reload and try again.' }, { status: 409 })
+      }
 
-        return updatedRental
+      return NextResponse.json(updated)
+    }
+
+    // 💸 MARK CANCELLED RENTAL AS REFUNDED
+    if (body.paymentStatus === 'REFUNDED') {
+      const { count } = await prisma.rentalTransaction.updateMany({
+        where: { id, paymentStatus: 'REFUND_DUE' },
+        data: {
+          paymentStatus: 'REFUNDED',
+          refundReference: body.refundReference || null,
+          refundedAt: new Date()
+        }
       })
 
+      if (count === 0) {
+        return NextResponse.json({ error: 'No refund is due on this rental' }, { status: 409 })
+      }
+
+      console.log('💸 Rental refunded:', { rentalId: id, refundAmount: rental.refundAmount })
+
+      return NextResponse.json(await prisma.rentalTransaction.findUniqueOrThrow({ where: { id } }))
+    }
+
+    // ✅ MARK AS RETURNED (admin override when the return code can't be used)
+    if (body.status === 'RETURNED') {
+      const updated = await completeRentalReturn(rental)
+
       console.log('📦 Item returned. Seller payout ready:', {
-        amountOwedToSeller: updated.amountOwedToSeller,
-        securityDepositReturnedToCustomer: rental.securityDeposit
+        amountOwedToSeller: updated.updatedRental.amountOwedToSeller,
+        daysLate: updated.lateCharge.daysLate,
+        lateFee: updated.lateCharge.lateFee,
+        depositStatus: updated.updatedRental.depositStatus,
+        depositToRefund: (rental.securityDeposit || 0) - updated.lateCharge.fromDeposit
       })
 
-      return NextResponse.json(updated)
+      return NextResponse.json({ ...updated.updatedRental, lateCharge: updated.lateCharge })
     }
 
     return NextResponse.json({ error: 'Invalid request' }, { status: 400 })
 
   } catch (error) {
+    if (error instanceof RentalReturnError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
     console.error('Error updating rental:', error)
     return NextResponse.json({ 
       error: 'Internal server error',
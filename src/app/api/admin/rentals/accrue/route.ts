@@ -0,0 +1,30 @@
+// src/app/api/admin/rentals/accrue/route.ts
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { runRentalAccrual } from "@/lib/rentalAccrual"
+import { expireSellerApprovals } from "@/lib/rentalApproval"
+
+// POST - Run the daily rental accrual now (safe to repeat)
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const summary = await runRentalAccrual()
+    const expiredRequestIds = await expireSellerApprovals()
+
+    console.log('📅 Rental accrual run:', { ...summary, expiredRequestIds })
+
+    return NextResponse.json({ message: 'Accrual complete', summary: { ...summary, expiredRequestIds } })
+  } catch (error) {
+    console.error('Error running rental accrual:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,193 @@
+// src/app/api/admin/rentals/extensions/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { getPrepaidRent } from "@/lib/rentalAccrual"
+import { assertUnitAvailable, daysBetween, getBookedEnd, RentalUnavailableError } from "@/lib/rentalAvailability"
+import { getOverdueSince } from "@/lib/rentalLateFees"
+import { getPlatformCutCharged, getRentCharged } from "@/lib/rentalPricing"
+
+// The rental changed under the approval (returned, cancelled or accrued)
+class RentalChangedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RentalChangedError'
+  }
+}
+
+// PATCH - Approve or reject a rental extension
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { status, adminNotes } = await request.json()
+
+    if (status !== 'APPROVED' && status !== 'REJECTED') {
+      return NextResponse.json({ error: 'Status must be APPROVED or REJECTED' }, { status: 400 })
+    }
+
+    const extension = await prisma.rentalExtension.findUnique({
+      where: { id },
+      include: {
+        rental: {
+          include: {
+            listing: {
+              select: { id: true, quantity: true }
+            }
+          }
+        }
+      }
+    })
+
+    if (!extension) {
+      return NextResponse.json({ error: 'Extension not found' }, { status: 404 })
+    }
+
+    if (extension.status !== 'PENDING') {
+      return NextResponse.json({ error: `Extension already ${extension.status.toLowerCase()}` }, { status: 409 })
+    }
+
+    // ❌ REJECT
+    if (status === 'REJECTED') {
+      const updated = await prisma.rentalExtension.update({
+        where: { id },
+        data: {
+          status: 'REJECTED',
+          adminNotes: adminNotes || null,
+          reviewedAt: new Date()
+        }
+      })
+
+      return NextResponse.json(updated)
+    }
+
+    // ✅ APPROVE - verify payment and extend the rental in one go
+    if (extension.rental.status !== 'ACTIVE') {
+      return NextResponse.json({ error: 'Rental is no longer active' }, { status: 400 })
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Touching the listing row serialises this with concurrent bookings
+      await tx.itemListing.update({
+        where: { id: extension.rental.listingId },
+        data: { updatedAt: new Date() }
+      })
+
+      // A return or accrual may have landed since the rental was loaded
+      const rental = await tx.rentalTransaction.findUniqueOrThrow({ where: { id: extension.rentalId } })
+      if (rental.status !== 'ACTIVE') {
+        throw new RentalChangedError('Rental is no longer active')
+      }
+
+      await assertUnitAvailable(tx, extension.rental.listing, extension.startDate, extension.endDate, rental.id)
+
+      const { count } = await tx.rentalExtension.updateMany({
+        where: { id, status: 'PENDING' },
+        data: {
+          status: 'APPROVED',
+          adminNotes: adminNotes || null,
+          reviewedAt: new Date()
+        }
+      })
+
+      if (count === 0) {
+        return null
+      }
+
+      // Days already charged by the accrual job count towards the extension
+      const newBookedEnd = extension.endDate
+      const bookedDays = daysBetween(rental.startDate, newBookedEnd)
+      const newDaysRented = Math.max(rental.daysRented, bookedDays)
+      const newTotalPaid = rental.totalPaid + extension.amount
+
+      // A tiered extension joins the priced period, so its days are charged at
+      // the extension's price rather than the daily rate. Requests from before
+      // tiered extensions, and rentals from before tiered pricing, stay daily.
+      const repriced = rental.pricedDays > 0 && extension.pricingBreakdown !== null
+        ? {
+            ...rental,
+            pricedDays: rental.pricedDays + extension.extraDays,
+            pricedRent: rental.pricedRent + extension.amount,
+            pricedPlatformFee: rental.pricedPlatformFee + extension.platformFee
+          }
+        : rental
+      const sellerShare =
+        (getRentCharged(repriced, newDaysRented) - getPlatformCutCharged(repriced, newDaysRented)) -
+        (getRentCharged(rental) - getPlatformCutCharged(rental))
+
+      const { count: rentalCount } = await tx.rentalTransaction.updateMany({
+        where: { id: rental.id, status: 'ACTIVE', daysRented: rental.daysRented },
+        data: {
+          endDate: newBookedEnd,
+          daysRented: newDaysRented,
+          totalPaid: newTotalPaid,
+          pricedDays: repriced.pricedDays,
+          pricedRent: repriced.pricedRent,
+          pricedPlatformFee: repriced.pricedPlatformFee,
+          overdueSince: getOverdueSince({ ...rental, endDate: newBookedEnd, daysRented: newDaysRented }),
+          amountOwedToSeller: { increment: sellerShare },
+          prepaidExhausted: getRentCharged(repriced, newDaysRented) >
+            getPrepaidRent({ totalPaid: newTotalPaid, securityDeposit: rental.securityDeposit }) + 0.01
+        }
+      })
+
+      if (rentalCount === 0) {
+        throw new RentalChangedError('Rental was updated while reviewing. Reload and try again.')
+      }
+
+      await tx.rentalLedgerEntry.create({
+        data: {
+          rentalId: rental.id,
+          type: 'EXTENSION',
+          days: extension.extraDays,
+          amount: extension.amount,
+          sellerAmount: sellerShare,
+          periodStart: getBookedEnd(rental),
+          periodEnd: newBookedEnd,
+          note: `Extension of ${extension.extraDays} day(s), UPI ref ${extension.paymentPin}`
+        }
+      })
+
+      return tx.rentalTransaction.findUniqueOrThrow({ where: { id: rental.id } })
+    })
+
+    if (!result) {
+      return NextResponse.json({ error: 'Extension was already reviewed' }, { status: 409 })
+    }
+
+    console.log('📆 Rental extended:', {
+      rentalId: result.id,
+      extraDays: extension.extraDays,
+      amount: extension.amount,
+      newEndDate: result.endDate
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof RentalChangedError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    if (error instanceof RentalUnavailableError) {
+      return NextResponse.json({
+        error: 'Item is booked by someone else for some of those days',
+        unavailableDates: error.unavailableDates
+      }, { status: 409 })
+    }
+
+    console.error('Error reviewing extension:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -6,6 +6,7 @@ import { NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { calculateSellerPayout, PENDING_PAYOUT_WHERE } from '@/lib/rentalPayout'
 
 export async function GET() {
   try {
@@ -14,21 +15,9 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    // Get all returned rentals where seller hasn't been fully paid
+    // Get all returned or cancelled rentals where seller hasn't been fully paid
     const pendingPayouts = await prisma.rentalTransaction.findMany({
-      where: {
-        status: 'RETURNED',
-        // Only show rentals where seller still needs payment
-        OR: [
-          { amountOwedToSeller: { gt: 0 } },
-          {
-            AND: [
-              { amountOwedToSeller: { lte: 0 } },
-              { sellerPaidOut: { lt: prisma.rentalTransaction.fields.amountOwedToSeller } }
-            ]
-          }
-        ]
-      },
+      where: PENDING_PAYOUT_WHERE,
       include: {
         listing: {
           select: {
@@ -49,6 +38,10 @@ export async function GET() {
             name: true,
             email: true
           }
+        },
+        disputes: {
+          where: { status: { not: 'RESOLVED' } },
+          select: { id: true }
         }
       },
       orderBy: {
@@ -59,9 +52,7 @@ export async function GET() {
     // Calculate correct breakdown for each payout
     const payoutsWithCalculations = pendingPayouts
       .map(rental => {
-        const totalRent = rental.rentPerDay * rental.daysRented
-        const platformCut = rental.platformFee * rental.daysRented
-        const sellerEarning = totalRent - platformCut // 80% of rent
+        const { totalRent, platformCut, lateFee, damageAward, cancellationShare, sellerEarning } = calculateSellerPayout(rental)
         
         const remainingOwed = sellerEarning - rental.sellerPaidOut
         
@@ -71,11 +62,17 @@ export async function GET() {
             totalCustomerPaid: rental.totalPaid, // Rent + Security
             rentPortion: totalRent,
             securityDeposit: rental.securityDeposit || 0,
-            platformFee: platformCut, // 20%
-            sellerEarning: sellerEarning, // 80%
+            platformFee: platformCut, // Under the rental's fee rules
+            lateFee,
+            lateFeeFromDeposit: rental.lateFeeFromDeposit,
+            damageAward, // Deposit awarded by resolved damage claims
+            cancellationShare, // Seller's part of a cancellation fee
+            sellerEarning: sellerEarning, // Rent after fee + late fee + damage award + cancellation share
             alreadyPaidToSeller: rental.sellerPaidOut,
             remainingOwed: Math.max(0, remainingOwed)
-          }
+          },
+          // Payout waits until open damage claims are resolved
+          hasOpenDispute: rental.disputes.length > 0
         }
       })
       .filter(p => p.calculations.remainingOwed > 0) // Only show if money is owed
@@ -103,17 +100,27 @@ export async function POST(request: Request) {
     }
 
     const rental = await prisma.rentalTransaction.findUnique({
-      where: { id: transactionId }
+      where: { id: transactionId },
+      include: {
+        disputes: {
+          where: { status: { not: 'RESOLVED' } },
+          select: { id: true }
+        }
+      }
     })
 
     if (!rental) {
       return NextResponse.json({ error: 'Rental not found' }, { status: 404 })
     }
 
-    // Calculate total seller earning (80% of rent only, NOT security deposit)
-    const totalRent = rental.rentPerDay * rental.daysRented
-    const platformCut = rental.platformFee * rental.daysRented
-    const totalSellerEarning = totalRent - platformCut
+    if (rental.disputes.length > 0) {
+      return NextResponse.json({
+        error: 'This rental has an open damage claim. Resolve it before paying the seller.'
+      }, { status: 409 })
+    }
+
+    // Calculate total seller earning (rent after the platform fee plus late fee and damage award, NOT the refundable deposit)
+    const { sellerEarning: totalSellerEarning } = calculateSellerPayout(rental)
     const remainingOwed = totalSellerEarning - rental.sellerPaidOut
 
     if (amountPaid > remainingOwed + 0.01) { // Small buffer for floating point
@@ -136,7 +143,10 @@ export async function POST(request: Request) {
       data: {
         sellerPaidOut: newPaidAmount,
         amountOwedToSeller: Math.max(0, newRemainingOwed),
-        paymentStatus: newRemainingOwed <= 0.01 ? 'SETTLED' : 'PAID',
+        // A cancelled rental keeps tracking the renter's refund instead
+        paymentStatus: rental.status === 'CANCELLED'
+          ? rental.paymentStatus
+          : newRemainingOwed <= 0.01 ? 'SETTLED' : 'PAID',
         adminNotes: notes 
           ? `${rental.adminNotes || ''}\n[${new Date().toLocaleString('en-IN')}] Paid ₹${amountPaid} via ${paymentMethod}. ${notes}`.trim()
           : rental.adminNotes
@@ -2,12 +2,95 @@
 // FILE 3: src/app/api/admin/rentals/route.ts
 // FIXED: Returns correct payout summary
 // ============================================
-import { NextResponse } from "next/server"
+import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
+import { Prisma } from "@prisma/client"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { findPage, getPageParams } from "@/lib/pagination"
+import { expireSellerApprovals } from "@/lib/rentalApproval"
+import { calculateSellerPayout, PENDING_PAYOUT_WHERE } from "@/lib/rentalPayout"
 
-export async function GET() {
+type RentalView = 'pending' | 'active' | 'overdue' | 'completed' | 'deposits' | 'refunds'
+
+// One admin tab each. Overdue rentals are past their booked end and already
+// handed over; open-ended legacy rentals are never late.
+function getRentalViews(): Record<RentalView, {
+  where: Prisma.RentalTransactionWhereInput
+  orderBy: Prisma.RentalTransactionOrderByWithRelationInput[]
+}> {
+  const now = new Date()
+  const startOfToday = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+  const newestFirst = [{ rentedAt: 'desc' as const }, { id: 'desc' as const }]
+
+  return {
+    pending: { where: { status: 'PENDING' }, orderBy: newestFirst },
+    active: { where: { status: 'ACTIVE' }, orderBy: newestFirst },
+    overdue: {
+      where: {
+        status: 'ACTIVE',
+        endDate: { lt: startOfToday },
+        OR: [{ handoverCode: null }, { handedOverAt: { not: null } }]
+      },
+      // Most days late first
+      orderBy: [{ endDate: 'asc' }, { id: 'asc' }]
+    },
+    completed: { where: { status: 'RETURNED' }, orderBy: newestFirst },
+    deposits: { where: { depositStatus: 'REFUND_DUE' }, orderBy: newestFirst },
+    refunds: { where: { paymentStatus: 'REFUND_DUE' }, orderBy: newestFirst }
+  }
+}
+
+// What each seller is owed across rentals without an open damage claim
+async function getPayoutSummary() {
+  const rentals = await prisma.rentalTransaction.findMany({
+    where: {
+      ...PENDING_PAYOUT_WHERE,
+      disputes: { none: { status: { not: 'RESOLVED' } } }
+    }
+  })
+
+  const payoutMap = new Map<string, {
+    sellerId: string
+    sellerName: string
+    sellerEmail: string
+    sellerRoom: string
+    totalOwed: number
+    pendingRentals: number
+  }>()
+
+  for (const rental of rentals) {
+    // Calculate seller's earning (rent after the platform fee plus late fees, NOT including security deposit)
+    const { sellerEarning } = calculateSellerPayout(rental)
+
+    const amountToPay = sellerEarning - rental.sellerPaidOut
+
+    // Only include if there's money to pay
+    if (amountToPay > 0.01) {
+      const existing = payoutMap.get(rental.sellerId)
+
+      if (existing) {
+        existing.totalOwed += amountToPay
+        existing.pendingRentals += 1
+      } else {
+        payoutMap.set(rental.sellerId, {
+          sellerId: rental.sellerId,
+          sellerName: rental.sellerName,
+          sellerEmail: rental.sellerEmail,
+          sellerRoom: rental.sellerRoom,
+          totalOwed: amountToPay,
+          pendingRentals: 1
+        })
+      }
+    }
+  }
+
+  return Array.from(payoutMap.values())
+}
+
+// GET - One tab of rentals (?view=pending|active|overdue|completed|deposits|refunds).
+// The first page also carries the count for every tab and the payout summary.
+export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
     
@@ -15,55 +98,52 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const rentals = await prisma.rentalTransaction.findMany({
-      orderBy: { rentedAt: 'desc' }
-    })
+    await expireSellerApprovals()
 
-    // Calculate payout summary for RETURNED rentals
-    const returnedRentals = rentals.filter(r => r.status === 'RETURNED')
-    
-    const payoutMap = new Map<string, {
-      sellerId: string
-      sellerName: string
-      sellerEmail: string
-      sellerRoom: string
-      totalOwed: number
-      pendingRentals: number
-    }>()
-
-    for (const rental of returnedRentals) {
-      // Calculate seller's earning (80% of rent, NOT including security deposit)
-      const totalRent = rental.rentPerDay * rental.daysRented
-      const platformCut = rental.platformFee * rental.daysRented
-      const sellerEarning = totalRent - platformCut
-      
-      const amountToPay = sellerEarning - rental.sellerPaidOut
-      
-      if (amountToPay > 0.01) { // Only include if there's money to pay
-        const existing = payoutMap.get(rental.sellerId)
-        
-        if (existing) {
-          existing.totalOwed += amountToPay
-          existing.pendingRentals += 1
-        } else {
-          payoutMap.set(rental.sellerId, {
-            sellerId: rental.sellerId,
-            sellerName: rental.sellerName,
-            sellerEmail: rental.sellerEmail,
-            sellerRoom: rental.sellerRoom,
-            totalOwed: amountToPay,
-            pendingRentals: 1
-          })
+    const { searchParams } = new URL(request.url)
+    const views = getRentalViews()
+    const viewName = searchParams.get('view') || 'pending'
+    if (!(viewName in views)) {
+      return NextResponse.json({ error: 'Unknown view' }, { status: 400 })
+    }
+    const view = views[viewName as RentalView]
+
+    const pageParams = getPageParams(searchParams)
+    const page = await findPage(pageParams, args => prisma.rentalTransaction.findMany({
+      ...args,
+      where: view.where,
+      include: {
+        extensions: {
+          where: { status: 'PENDING' }
+        },
+        disputes: {
+          where: { status: { not: 'RESOLVED' } },
+          select: { id: true, status: true }
+        },
+        conditionReports: {
+          orderBy: { createdAt: 'asc' }
+        },
+        feeRuleSet: {
+          select: { version: true }
         }
-      }
+      },
+      orderBy: view.orderBy
+    }))
+
+    if (pageParams.cursor) {
+      return NextResponse.json(page)
     }
 
-    const payoutSummary = Array.from(payoutMap.values())
+    const viewNames = Object.keys(views) as RentalView[]
+    const [viewCounts, payoutSummary] = await Promise.all([
+      Promise.all(viewNames.map(name => prisma.rentalTransaction.count({ where: views[name].where }))),
+      getPayoutSummary()
+    ])
+    const counts = Object.fromEntries(viewNames.map((name, i) => [name, viewCounts[i]]))
 
-    return NextResponse.json({ rentals, payoutSummary })
+    return NextResponse.json({ ...page, counts, payoutSummary })
   } catch (error) {
     console.error('Error fetching rentals:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
 }
-
@@ -0,0 +1,75 @@
+// src/app/api/admin/sales/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { markSaleRefunded, rejectSalePayment, SaleError, verifySalePayment } from "@/lib/sales"
+
+// PATCH - Verify the buyer's payment ({ status: 'PAID' }), reject it ({ status: 'CANCELLED', reason })
+// or record the refund of a cancelled sale ({ status: 'REFUNDED', refundReference })
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    const sale = await prisma.saleTransaction.findUnique({
+      where: { id }
+    })
+
+    if (!sale) {
+      return NextResponse.json({ error: 'Sale not found' }, { status: 404 })
+    }
+
+    // ✅ APPROVE PAYMENT
+    if (body.status === 'PAID') {
+      const updated = await verifySalePayment(sale)
+
+      console.log('💰 Sale payment verified:', { saleId: id, totalPaid: sale.totalPaid })
+
+      return NextResponse.json(updated)
+    }
+
+    // ❌ PAYMENT NOT FOUND - the unit goes back on sale
+    if (body.status === 'CANCELLED') {
+      const reason = typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim() : null
+      const updated = await rejectSalePayment(sale, reason)
+
+      console.log('🚫 Sale payment rejected:', { saleId: id, reason })
+
+      return NextResponse.json(updated)
+    }
+
+    // 💸 MARK CANCELLED SALE AS REFUNDED
+    if (body.status === 'REFUNDED') {
+      const reference = typeof body.refundReference === 'string' && body.refundReference.trim()
+        ? body.refundReference.trim()
+        : null
+      const updated = await markSaleRefunded(sale, reference)
+
+      console.log('💸 Sale refunded:', { saleId: id, refundAmount: sale.refundAmount })
+
+      return NextResponse.json(updated)
+    }
+
+    return NextResponse.json({ error: 'Invalid request' }, { status: 400 })
+  } catch (error) {
+    if (error instanceof SaleError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    console.error('Error updating sale:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,81 @@
+// src/app/api/admin/sales/payout/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+
+// POST - Record money paid to the seller of a completed sale
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { saleId, amountPaid, paymentMethod, notes } = await request.json()
+
+    if (!saleId || !amountPaid) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 })
+    }
+
+    const sale = await prisma.saleTransaction.findUnique({
+      where: { id: saleId }
+    })
+
+    if (!sale) {
+      return NextResponse.json({ error: 'Sale not found' }, { status: 404 })
+    }
+
+    if (sale.status !== 'COMPLETED') {
+      return NextResponse.json({ error: 'The item has not been handed over yet' }, { status: 409 })
+    }
+
+    const remainingOwed = sale.amountOwedToSeller - sale.sellerPaidOut
+
+    if (amountPaid > remainingOwed + 0.01) { // Small buffer for floating point
+      return NextResponse.json({
+        error: `Cannot pay more than owed. Remaining: ₹${remainingOwed.toFixed(2)}`
+      }, { status: 400 })
+    }
+
+    const now = new Date()
+    const newPaidAmount = sale.sellerPaidOut + amountPaid
+
+    // Guard against two payouts recorded at once
+    const { count } = await prisma.saleTransaction.updateMany({
+      where: { id: saleId, sellerPaidOut: sale.sellerPaidOut },
+      data: {
+        sellerPaidOut: newPaidAmount,
+        sellerPaidAt: now,
+        adminNotes: notes
+          ? `${sale.adminNotes || ''}\n[${now.toLocaleString('en-IN')}] Paid ₹${amountPaid} via ${paymentMethod}. ${notes}`.trim()
+          : sale.adminNotes
+      }
+    })
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Payout was already updated. Reload and try again.' }, { status: 409 })
+    }
+
+    console.log('💸 Sale payout recorded:', {
+      seller: sale.sellerName,
+      amountPaid,
+      remaining: sale.amountOwedToSeller - newPaidAmount
+    })
+
+    return NextResponse.json({
+      message: 'Payout recorded successfully',
+      sale: await prisma.saleTransaction.findUniqueOrThrow({ where: { id: saleId } }),
+      summary: {
+        paidNow: amountPaid,
+        totalPaid: newPaidAmount,
+        remaining: Math.max(0, sale.amountOwedToSeller - newPaidAmount),
+        isFullyPaid: sale.amountOwedToSeller - newPaidAmount <= 0.01
+      }
+    })
+  } catch (error) {
+    console.error('Error recording sale payout:', error)
+    return NextResponse.json({ error: 'Failed to record payout' }, { status: 500 })
+  }
+}
@@ -0,0 +1,84 @@
+// src/app/api/admin/sales/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { Prisma } from "@prisma/client"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { findPage, getPageParams } from "@/lib/pagination"
+
+type SaleView = 'pending' | 'paid' | 'payouts' | 'refunds' | 'closed'
+
+// One admin tab each. Completed sales wait on the payouts tab until the seller is fully paid,
+// and paid sales cancelled before pickup wait on the refunds tab until the buyer is refunded.
+const SALE_VIEWS: Record<SaleView, Prisma.SaleTransactionWhereInput> = {
+  pending: { status: 'PENDING' },
+  paid: { status: 'PAID' },
+  payouts: {
+    status: 'COMPLETED',
+    sellerPaidOut: { lt: prisma.saleTransaction.fields.amountOwedToSeller }
+  },
+  refunds: { status: 'CANCELLED', refundAmount: { gt: 0 }, refundedAt: null },
+  closed: {
+    OR: [
+      { status: 'CANCELLED', OR: [{ refundAmount: { lte: 0 } }, { refundedAt: { not: null } }] },
+      { status: 'COMPLETED', sellerPaidOut: { gte: prisma.saleTransaction.fields.amountOwedToSeller } }
+    ]
+  }
+}
+
+// GET /api/admin/sales - One tab of sales (?view=pending|paid|payouts|refunds|closed), newest first.
+// The first page also carries the count for every tab and the fee and payout totals.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const viewName = searchParams.get('view') || 'pending'
+    if (!(viewName in SALE_VIEWS)) {
+      return NextResponse.json({ error: 'Unknown view' }, { status: 400 })
+    }
+
+    const pageParams = getPageParams(searchParams)
+    const page = await findPage(pageParams, args => prisma.saleTransaction.findMany({
+      ...args,
+      where: SALE_VIEWS[viewName as SaleView],
+      include: {
+        feeRuleSet: {
+          select: { version: true }
+        }
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }]
+    }))
+
+    if (pageParams.cursor) {
+      return NextResponse.json(page)
+    }
+
+    const viewNames = Object.keys(SALE_VIEWS) as SaleView[]
+    const [viewCounts, fees, payouts] = await Promise.all([
+      Promise.all(viewNames.map(name => prisma.saleTransaction.count({ where: SALE_VIEWS[name] }))),
+      prisma.saleTransaction.aggregate({
+        where: { status: { notIn: ['CANCELLED', 'PENDING'] } },
+        _sum: { platformFee: true }
+      }),
+      prisma.saleTransaction.aggregate({
+        where: SALE_VIEWS.payouts,
+        _sum: { amountOwedToSeller: true, sellerPaidOut: true }
+      })
+    ])
+
+    return NextResponse.json({
+      ...page,
+      counts: Object.fromEntries(viewNames.map((name, i) => [name, viewCounts[i]])),
+      platformFees: fees._sum.platformFee ?? 0,
+      pendingPayouts: (payouts._sum.amountOwedToSeller ?? 0) - (payouts._sum.sellerPaidOut ?? 0)
+    })
+  } catch (error) {
+    console.error('Error fetching sales:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { Prisma } from "@prisma/client"
+
+// PATCH - Approve/Reject wanted post
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const body = await request.json()
+    const { status, rejectionReason } = body
+
+    // Validate status
+    const validStatuses = ['APPROVED', 'REJECTED', 'CLOSED']
+    if (!validStatuses.includes(status)) {
+      return NextResponse.json({
+        error: 'Invalid status'
+      }, { status: 400 })
+    }
+
+    const updateData: Prisma.WantedPostUpdateInput = {
+      status,
+      reviewedAt: new Date()
+    }
+
+    // If approving, put it on the board
+    if (status === 'APPROVED') {
+      updateData.status = 'LIVE'
+    }
+
+    // If rejecting, require reason
+    if (status === 'REJECTED') {
+      if (!rejectionReason) {
+        return NextResponse.json({
+          error: 'Rejection reason is required'
+        }, { status: 400 })
+      }
+      updateData.rejectionReason = rejectionReason
+    }
+
+    if (status === 'CLOSED') {
+      updateData.closedAt = new Date()
+    }
+
+    const post = await prisma.wantedPost.update({
+      where: { id },
+      data: updateData,
+      include: {
+        category: true
+      }
+    })
+
+    return NextResponse.json(post)
+  } catch (error) {
+    console.error('Error updating wanted post:', error)
+    return NextResponse.json({
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
+
+// DELETE - Delete wanted post; listings made in response stay up
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await context.params
+
+    await prisma.wantedPost.delete({
+      where: { id }
+    })
+
+    return NextResponse.json({ message: 'Wanted post deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting wanted post:', error)
+    return NextResponse.json({
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
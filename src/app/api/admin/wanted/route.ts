@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { findPage, getPageParams } from "@/lib/pagination"
+import { WantedStatus } from '@prisma/client'
+import { closeLapsedWantedPosts } from "@/lib/wanted"
+
+// GET - Fetch all wanted posts (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    await closeLapsedWantedPosts()
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+
+    const whereClause = status && status !== 'all'
+      ? { status: status as WantedStatus }
+      : {}
+
+    const page = await findPage(getPageParams(searchParams), args => prisma.wantedPost.findMany({
+      ...args,
+      where: whereClause,
+      include: {
+        requester: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            roomNumber: true,
+            phone: true
+          }
+        },
+        category: {
+          select: {
+            id: true,
+            name: true
+          }
+        },
+        _count: {
+          select: { listings: true }
+        }
+      },
+      orderBy: [{ submittedAt: 'desc' }, { id: 'desc' }]
+    }))
+
+    return NextResponse.json(page)
+  } catch (error) {
+    console.error('Error fetching admin wanted posts:', error)
+    return NextResponse.json({
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,30 @@
+// src/app/api/cart/merge/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { CartInputError, getCart, mergeCart, parseCartLines } from "@/lib/cart"
+
+// POST - Fold the cart kept on this device before sign-in into the saved cart
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const lines = parseCartLines(await request.json())
+    await mergeCart(session.user.id, lines)
+
+    return NextResponse.json(await getCart(session.user.id))
+  } catch (error) {
+    if (error instanceof CartInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error merging cart:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,49 @@
+// src/app/api/cart/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { CartInputError, getCart, parseCartLines, saveCart } from "@/lib/cart"
+
+// GET - The signed-in user's cart, rechecked against current prices and stock
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json(await getCart(session.user.id))
+  } catch (error) {
+    console.error('Error fetching cart:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT - Replace the cart with the client's copy ({ items: [{ productId, quantity, price }] })
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const lines = parseCartLines(await request.json())
+    await saveCart(session.user.id, lines)
+
+    return NextResponse.json(await getCart(session.user.id))
+  } catch (error) {
+    if (error instanceof CartInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error saving cart:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
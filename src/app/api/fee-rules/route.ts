@@ -0,0 +1,23 @@
+// src/app/api/fee-rules/route.ts
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { getCurrentFeeRuleSet } from "@/lib/feeRules"
+
+// GET - Fee rules new listings are priced with (for the listing form preview)
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const ruleSet = await getCurrentFeeRuleSet()
+
+    return NextResponse.json(ruleSet)
+  } catch (error) {
+    console.error('Error fetching fee rules:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,78 @@
+// src/app/api/listings/[id]/availability/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import {
+  addDays,
+  daysBetween,
+  getDailyAvailability,
+  MAX_AVAILABILITY_RANGE_DAYS,
+  parseDateKey,
+  startOfUtcDay,
+  toDateKey
+} from "@/lib/rentalAvailability"
+
+const DEFAULT_RANGE_DAYS = 60
+
+// GET - Free units per day, ?from=YYYY-MM-DD&to=YYYY-MM-DD (both inclusive)
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await context.params
+    const { searchParams } = new URL(request.url)
+
+    const fromParam = searchParams.get('from')
+    const toParam = searchParams.get('to')
+
+    const from = fromParam ? parseDateKey(fromParam) : startOfUtcDay(new Date())
+    const to = toParam ? parseDateKey(toParam) : addDays(from || new Date(), DEFAULT_RANGE_DAYS - 1)
+
+    if (!from || !to) {
+      return NextResponse.json({ error: 'Invalid date. Use YYYY-MM-DD' }, { status: 400 })
+    }
+
+    if (to < from) {
+      return NextResponse.json({ error: '"to" must not be before "from"' }, { status: 400 })
+    }
+
+    if (daysBetween(from, to) + 1 > MAX_AVAILABILITY_RANGE_DAYS) {
+      return NextResponse.json({
+        error: `Date range cannot exceed ${MAX_AVAILABILITY_RANGE_DAYS} days`
+      }, { status: 400 })
+    }
+
+    const listing = await prisma.itemListing.findUnique({
+      where: { id },
+      select: { id: true, quantity: true, status: true }
+    })
+
+    if (!listing || listing.status !== 'LIVE') {
+      return NextResponse.json({ error: 'Listing not found' }, { status: 404 })
+    }
+
+    const days = await getDailyAvailability(prisma, listing, from, addDays(to, 1))
+
+    return NextResponse.json({
+      listingId: listing.id,
+      quantity: listing.quantity,
+      from: toDateKey(from),
+      to: toDateKey(to),
+      days
+    })
+  } catch (error) {
+    console.error('Error fetching availability:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -3,6 +3,21 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { ListingStatus, Prisma } from "@prisma/client"
+import { FEE_RULES_INCLUDE, getCurrentFeeRuleSet } from "@/lib/feeRules"
+import { resolveFeePolicy } from "@/lib/platformFees"
+import {
+  getChangedListingFields,
+  ListingInputError,
+  parseListingTerms,
+  priceListing,
+  recordListingVersion,
+  REVIEWED_LISTING_FIELDS,
+  snapshotListing
+} from "@/lib/listings"
+
+// Sold-out listings are closed for good
+const EDITABLE_STATUSES: ListingStatus[] = ['PENDING', 'LIVE', 'REJECTED', 'INACTIVE']
 
 export async function GET(
   request: NextRequest,
@@ -23,6 +38,9 @@ export async function GET(
       where: { id },
       include: {
         category: true,
+        feeRuleSet: {
+          include: FEE_RULES_INCLUDE
+        },
         seller: {
           select: {
             id: true,
@@ -41,18 +59,14 @@ export async function GET(
       return NextResponse.json({ error: 'Listing not found' }, { status: 404 })
     }
 
-    if (listing.status !== 'LIVE') {
+    // Sellers can open their own listing in any state to edit it
+    if (listing.status !== 'LIVE' && listing.sellerId !== session.user.id) {
       return NextResponse.json({ 
         error: 'This listing is not currently available' 
       }, { status: 400 })
     }
 
-    const availableQuantity = listing.quantity - (listing.currentlyRented || 0)
-    if (availableQuantity <= 0) {
-      return NextResponse.json({ 
-        error: 'This item is currently not available for rent' 
-      }, { status: 400 })
-    }
+    // Units may still be free on later dates - see /availability
 
     return NextResponse.json(listing)
   } catch (error) {
@@ -62,4 +76,118 @@ export async function GET(
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
-}
\ No newline at end of file
+}
+
+// PATCH - Seller edits their listing. Price, category and image changes go
+// back to PENDING for review; other edits apply straight away. Rentals and
+// sales already made keep the terms they were booked with.
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await context.params
+
+    const listing = await prisma.itemListing.findUnique({
+      where: { id }
+    })
+
+    if (!listing || listing.sellerId !== session.user.id) {
+      return NextResponse.json({ error: 'Listing not found' }, { status: 404 })
+    }
+
+    if (!EDITABLE_STATUSES.includes(listing.status)) {
+      return NextResponse.json({ error: 'Sold listings cannot be edited' }, { status: 400 })
+    }
+
+    // Fields left out of the body keep their current value
+    const body = await request.json()
+    const terms = parseListingTerms({ ...snapshotListing(listing), ...body }, listing.listingType)
+
+    const changedFields = getChangedListingFields(listing, terms)
+    if (changedFields.length === 0) {
+      return NextResponse.json(listing)
+    }
+
+    // Units already booked or sold can't be taken away
+    const unitsTaken = listing.listingType === 'SELL' ? listing.quantitySold : listing.currentlyRented
+    if (terms.quantity < unitsTaken) {
+      return NextResponse.json({
+        error: `Quantity cannot go below the ${unitsTaken} unit(s) already ${listing.listingType === 'SELL' ? 'sold' : 'booked'}`
+      }, { status: 400 })
+    }
+
+    if (changedFields.includes('categoryId')) {
+      const category = await prisma.category.findUnique({
+        where: { id: terms.categoryId }
+      })
+
+      if (!category) {
+        return NextResponse.json({ error: 'Category not found' }, { status: 400 })
+      }
+    }
+
+    const requiresReview = changedFields.some(field => REVIEWED_LISTING_FIELDS.includes(field))
+
+    const data: Prisma.ItemListingUncheckedUpdateManyInput = { ...terms }
+
+    // A new price or category is charged under the fee rules in force now
+    if (changedFields.some(field => field === 'salePrice' || field === 'rentPerDay' || field === 'categoryId')) {
+      const feeRuleSet = await getCurrentFeeRuleSet()
+      Object.assign(data, priceListing(terms, resolveFeePolicy(feeRuleSet, terms.categoryId)))
+      data.feeRuleSetId = feeRuleSet.id
+    }
+
+    // Editing a rejected listing resubmits it
+    if (requiresReview || listing.status === 'REJECTED') {
+      data.status = 'PENDING'
+      data.rejectionReason = null
+      data.reviewedAt = null
+      data.submittedAt = new Date()
+    } else if (listing.listingType === 'SELL' && terms.quantity === listing.quantitySold) {
+      data.status = 'SOLD'
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      // Someone booked, bought or reviewed it since we read it
+      const { count } = await tx.itemListing.updateMany({
+        where: { id, updatedAt: listing.updatedAt },
+        data
+      })
+
+      if (count === 0) {
+        return null
+      }
+
+      const after = await tx.itemListing.findUniqueOrThrow({ where: { id } })
+      await recordListingVersion(tx, listing, after, session.user.id, changedFields, requiresReview)
+      return after
+    })
+
+    if (!updated) {
+      return NextResponse.json({
+        error: 'This listing changed while you were editing it. Please reload and try again'
+      }, { status: 409 })
+    }
+
+    console.log('✏️ Listing edited:', { listingId: id, changedFields, requiresReview })
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    if (error instanceof ListingInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error editing listing:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
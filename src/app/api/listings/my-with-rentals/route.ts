@@ -1,10 +1,11 @@
 // src/app/api/listings/my-with-rentals/route.ts
-import { NextResponse } from "next/server"
+import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { findPage, getPageParams } from "@/lib/pagination"
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
     
@@ -13,7 +14,9 @@ export async function GET() {
     }
 
     // Get user's listings
-    const listings = await prisma.itemListing.findMany({
+    const { searchParams } = new URL(request.url)
+    const page = await findPage(getPageParams(searchParams), args => prisma.itemListing.findMany({
+      ...args,
       where: {
         sellerId: session.user.id
       },
@@ -28,13 +31,11 @@ export async function GET() {
           }
         }
       },
-      orderBy: {
-        submittedAt: 'desc'
-      }
-    })
+      orderBy: [{ submittedAt: 'desc' }, { id: 'desc' }]
+    }))
 
     // Calculate rental info for each listing
-    const listingsWithRentalInfo = listings.map(listing => {
+    const listingsWithRentalInfo = page.items.map(listing => {
       const activeRentals = listing.rentalTransactions.filter(r => 
         r.status === 'ACTIVE' || r.status === 'PENDING'
       )
@@ -59,7 +60,7 @@ export async function GET() {
       }
     })
 
-    return NextResponse.json(listingsWithRentalInfo)
+    return NextResponse.json({ ...page, items: listingsWithRentalInfo })
   } catch (error) {
     console.error('Error fetching listings with rentals:', error)
     return NextResponse.json({ 
@@ -1,11 +1,15 @@
 // src/app/api/listings/my/route.ts
 // ============================================
-import { NextResponse } from "next/server"
+import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { findPage, getPageParams } from "@/lib/pagination"
+import { expireSellerApprovals } from "@/lib/rentalApproval"
+import { isAwaitingHandover } from "@/lib/rentalHandover"
 
-export async function GET() {
+// GET - The seller's listings, newest first. The first page also carries the stats.
+export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
     
@@ -13,20 +17,84 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    // Lapsed requests must not show up as still waiting for an answer
+    await expireSellerApprovals()
+
     // Fetch seller's listings - simple, no complex calculations
-    const listings = await prisma.itemListing.findMany({
-      where: {
-        sellerId: session.user.id
-      },
+    const where = { sellerId: session.user.id }
+    const { searchParams } = new URL(request.url)
+    const pageParams = getPageParams(searchParams)
+    const page = await findPage(pageParams, args => prisma.itemListing.findMany({
+      ...args,
+      where,
       include: {
-        category: true
+        category: true,
+        feeRuleSet: {
+          select: { version: true }
+        },
+        // Rentals the owner may need to act on, e.g. to report damage
+        rentalTransactions: {
+          where: {
+            OR: [
+              { status: { in: ['ACTIVE', 'RETURNED'] } },
+              { status: 'PENDING', sellerApproval: 'PENDING' }
+            ]
+          },
+          select: {
+            id: true,
+            renterName: true,
+            status: true,
+            daysRented: true,
+            sellerApproval: true,
+            sellerApprovalDueAt: true,
+            startDate: true,
+            endDate: true,
+            returnedAt: true,
+            handoverCode: true,
+            handedOverAt: true,
+            returnCode: true,
+            disputes: {
+              orderBy: { createdAt: 'desc' }
+            },
+            conditionReports: {
+              where: { uploadedBy: 'SELLER' }
+            }
+          },
+          orderBy: { rentedAt: 'desc' },
+          take: 5
+        }
       },
-      orderBy: {
-        createdAt: 'desc'
-      }
-    })
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }]
+    }))
+
+    // The renter's handover code must not reach the seller
+    const body = {
+      ...page,
+      items: page.items.map(listing => ({
+        ...listing,
+        rentalTransactions: listing.rentalTransactions.map(({ handoverCode, ...rental }) => ({
+          ...rental,
+          awaitingHandover: isAwaitingHandover({ ...rental, handoverCode })
+        }))
+      }))
+    }
 
-    return NextResponse.json(listings)
+    if (pageParams.cursor) {
+      return NextResponse.json(body)
+    }
+
+    const [total, pending, live, rejected, rented] = await Promise.all([
+      prisma.itemListing.count({ where }),
+      prisma.itemListing.count({ where: { ...where, status: 'PENDING' } }),
+      prisma.itemListing.count({ where: { ...where, status: 'LIVE' } }),
+      prisma.itemListing.count({ where: { ...where, status: 'REJECTED' } }),
+      prisma.itemListing.aggregate({ where, _sum: { currentlyRented: true } })
+    ])
+
+    return NextResponse.json({
+      ...body,
+      stats: { total, pending, live, rejected, currentlyRented: rented._sum.currentlyRented ?? 0 }
+    })
   } catch (error) {
     console.error('Error fetching listings:', error)
     return NextResponse.json({ 
@@ -5,7 +5,11 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { findPage, getPageParams } from '@/lib/pagination'
 import { ListingStatus } from '@prisma/client'
+import { resolveFeePolicy } from '@/lib/platformFees'
+import { FEE_RULES_INCLUDE, getCurrentFeeRuleSet } from '@/lib/feeRules'
+import { ListingInputError, parseListingTerms, priceListing, recordListingVersion } from '@/lib/listings'
 
 // GET - Fetch listings with optional status filter
 export async function GET(request: NextRequest) {
@@ -31,7 +35,8 @@ export async function GET(request: NextRequest) {
       ? whereClause 
       : { status: 'LIVE' as ListingStatus, isAvailable: true }
 
-    const listings = await prisma.itemListing.findMany({
+    const page = await findPage(getPageParams(searchParams), args => prisma.itemListing.findMany({
+      ...args,
       where: finalWhereClause,
       include: {
         seller: {
@@ -49,6 +54,9 @@ export async function GET(request: NextRequest) {
             name: true
           }
         },
+        feeRuleSet: {
+          include: FEE_RULES_INCLUDE
+        },
         rentalTransactions: {
           where: {
             status: 'ACTIVE'
@@ -61,12 +69,10 @@ export async function GET(request: NextRequest) {
           }
         }
       },
-      orderBy: {
-        submittedAt: 'desc'
-      }
-    })
+      orderBy: [{ submittedAt: 'desc' }, { id: 'desc' }]
+    }))
 
-    return NextResponse.json(listings)
+    return NextResponse.json(page)
   } catch (error) {
     console.error('Error fetching listings:', error)
     return NextResponse.json(
@@ -110,60 +116,74 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const {
-      itemName,
-      description,
-      categoryId,
-      images,
-      rentPerDay,
-      securityDeposit,
-      quantity
-    } = body
-
-    // Validate required fields
-    if (!itemName || !description || !categoryId || !rentPerDay) {
-      return NextResponse.json(
-        { error: 'Missing required fields' },
-        { status: 400 }
-      )
+    const { listingType, wantedPostId } = body
+
+    const terms = parseListingTerms(body, listingType)
+
+    // Answering a wanted post: the requester is told once the listing is approved
+    if (wantedPostId) {
+      const wantedPost = await prisma.wantedPost.findUnique({
+        where: { id: wantedPostId }
+      })
+
+      if (!wantedPost || wantedPost.status !== 'LIVE') {
+        return NextResponse.json(
+          { error: 'This wanted post is no longer open' },
+          { status: 400 }
+        )
+      }
+
+      if (wantedPost.requesterId === session.user.id) {
+        return NextResponse.json(
+          { error: 'You cannot answer your own wanted post' },
+          { status: 400 }
+        )
+      }
     }
 
-    // Calculate platform fee (20%) and final rent
-    const platformFee = Math.round(rentPerDay * 0.20 * 100) / 100
-    const finalRent = rentPerDay + platformFee
-
-    // Create listing
-    const listing = await prisma.itemListing.create({
-      data: {
-        sellerId: session.user.id,
-        itemName,
-        description,
-        categoryId,
-        images: images || [],
-        rentPerDay: parseFloat(rentPerDay),
-        platformFee,
-        finalRent,
-        securityDeposit: securityDeposit ? parseFloat(securityDeposit) : null,
-        quantity: quantity || 1,
-        sellerName: user.name,
-        sellerRoom: user.roomNumber || 'N/A',
-        sellerPhone: user.phone || 'N/A',
-        status: 'PENDING' as ListingStatus
-      },
-      include: {
-        category: true,
-        seller: {
-          select: {
-            id: true,
-            name: true,
-            email: true
+    // Price with the current fee rules and keep their version, so later
+    // rule changes don't change this listing's fee
+    const feeRuleSet = await getCurrentFeeRuleSet()
+    const feePolicy = resolveFeePolicy(feeRuleSet, terms.categoryId)
+
+    // Create listing, with its first version for the edit history
+    const listing = await prisma.$transaction(async (tx) => {
+      const created = await tx.itemListing.create({
+        data: {
+          sellerId: session.user.id,
+          listingType: terms.salePrice !== null ? 'SELL' : 'RENT',
+          ...terms,
+          ...priceListing(terms, feePolicy),
+          feeRuleSetId: feeRuleSet.id,
+          wantedPostId: wantedPostId || null,
+          sellerName: user.name,
+          sellerRoom: user.roomNumber || 'N/A',
+          sellerPhone: user.phone || 'N/A',
+          status: 'PENDING' as ListingStatus
+        },
+        include: {
+          category: true,
+          seller: {
+            select: {
+              id: true,
+              name: true,
+              email: true
+            }
           }
         }
-      }
+      })
+
+      await recordListingVersion(tx, null, created, session.user.id)
+
+      return created
     })
 
     return NextResponse.json(listing, { status: 201 })
   } catch (error) {
+    if (error instanceof ListingInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
     console.error('Error creating listing:', error)
     return NextResponse.json(
       { error: 'Failed to create listing' },
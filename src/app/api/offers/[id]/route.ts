@@ -0,0 +1,107 @@
+// src/app/api/offers/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { expireOffers, OfferError, parseOfferAmount, respondToOffer, withdrawOffer } from "@/lib/offers"
+
+// GET - One offer, for its buyer or seller
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    await expireOffers()
+
+    const offer = await prisma.listingOffer.findUnique({
+      where: { id }
+    })
+
+    if (!offer || (offer.buyerId !== session.user.id && offer.sellerId !== session.user.id)) {
+      return NextResponse.json({ error: 'Offer not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(offer)
+  } catch (error) {
+    console.error('Error fetching offer:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PATCH - Answer an offer ({ action: 'ACCEPT' | 'REJECT' | 'COUNTER', amount })
+// or withdraw it as the buyer ({ action: 'WITHDRAW' })
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { action, amount } = await request.json()
+
+    await expireOffers()
+
+    const offer = await prisma.listingOffer.findUnique({
+      where: { id }
+    })
+
+    if (!offer) {
+      return NextResponse.json({ error: 'Offer not found' }, { status: 404 })
+    }
+
+    const party = offer.buyerId === session.user.id
+      ? 'BUYER'
+      : offer.sellerId === session.user.id ? 'SELLER' : null
+
+    if (!party) {
+      return NextResponse.json({ error: 'Offer not found' }, { status: 404 })
+    }
+
+    if (action === 'WITHDRAW') {
+      if (party !== 'BUYER') {
+        return NextResponse.json({ error: 'Only the buyer can withdraw an offer' }, { status: 403 })
+      }
+
+      const updated = await withdrawOffer(offer)
+      return NextResponse.json(updated)
+    }
+
+    if (action !== 'ACCEPT' && action !== 'REJECT' && action !== 'COUNTER') {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 })
+    }
+
+    const counterAmount = action === 'COUNTER' ? parseOfferAmount(amount) : null
+    if (action === 'COUNTER' && counterAmount === null) {
+      return NextResponse.json({ error: 'A counter-offer needs a positive amount' }, { status: 400 })
+    }
+
+    const updated = await respondToOffer(offer, party, action, counterAmount)
+
+    console.log('🏷️ Offer answered:', { offerId: id, party, action, amount: updated.amount })
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    if (error instanceof OfferError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    console.error('Error answering offer:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,113 @@
+// src/app/api/offers/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { findPage, getPageParams } from "@/lib/pagination"
+import { expireOffers, makeOffer, OfferError, parseOfferAmount } from "@/lib/offers"
+
+const OFFER_LISTING_SELECT = {
+  id: true,
+  itemName: true,
+  listingType: true,
+  images: true,
+  salePrice: true,
+  rentPerDay: true,
+  status: true,
+  sellerName: true
+}
+
+// GET - Offers the user made, or offers on their listings with ?role=seller.
+// The first page also carries, for both, the total and how many await the user.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'CUSTOMER') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Lapsed offers must not show up as still open
+    await expireOffers()
+
+    const { searchParams } = new URL(request.url)
+    const asSeller = searchParams.get('role') === 'seller'
+
+    const pageParams = getPageParams(searchParams)
+    const page = await findPage(pageParams, args => prisma.listingOffer.findMany({
+      ...args,
+      where: asSeller ? { sellerId: session.user.id } : { buyerId: session.user.id },
+      include: { listing: { select: OFFER_LISTING_SELECT } },
+      orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }]
+    }))
+
+    if (pageParams.cursor) {
+      return NextResponse.json(page)
+    }
+
+    const made = { buyerId: session.user.id }
+    const received = { sellerId: session.user.id }
+    const [madeCount, receivedCount, madeWaiting, receivedWaiting] = await Promise.all([
+      prisma.listingOffer.count({ where: made }),
+      prisma.listingOffer.count({ where: received }),
+      prisma.listingOffer.count({ where: { ...made, status: 'PENDING', awaiting: 'BUYER' } }),
+      prisma.listingOffer.count({ where: { ...received, status: 'PENDING', awaiting: 'SELLER' } })
+    ])
+
+    return NextResponse.json({
+      ...page,
+      counts: { made: madeCount, received: receivedCount },
+      waiting: { made: madeWaiting, received: receivedWaiting }
+    })
+  } catch (error) {
+    console.error('Error fetching offers:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Make an offer on a listing ({ listingId, amount, message })
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'CUSTOMER') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { listingId, amount, message } = await request.json()
+    const parsedAmount = parseOfferAmount(amount)
+
+    if (!listingId || parsedAmount === null) {
+      return NextResponse.json({ error: 'Listing and a positive amount are required' }, { status: 400 })
+    }
+
+    const listing = await prisma.itemListing.findUnique({
+      where: { id: listingId }
+    })
+
+    if (!listing) {
+      return NextResponse.json({ error: 'Listing not found' }, { status: 404 })
+    }
+
+    const offer = await makeOffer(
+      listing,
+      { id: session.user.id, name: session.user.name || '' },
+      parsedAmount,
+      typeof message === 'string' && message.trim() ? message.trim() : null
+    )
+
+    console.log('🏷️ Offer made:', { offerId: offer.id, listingId, amount: parsedAmount })
+
+    return NextResponse.json(offer, { status: 201 })
+  } catch (error) {
+    if (error instanceof OfferError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    console.error('Error making offer:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -3,8 +3,10 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { findPage, getPageParams } from "@/lib/pagination"
 
-// GET - Fetch all messages for an order
+// GET - Messages for an order, oldest first. ?order=newest pages back from the
+// latest message instead, and its first page also carries the total.
 export async function GET(
   request: NextRequest,
   context: { params: Promise<{ id: string }> }
@@ -34,7 +36,12 @@ export async function GET(
     }
 
     // Fetch messages
-    const messages = await prisma.message.findMany({
+    const { searchParams } = new URL(request.url)
+    const newestFirst = searchParams.get('order') === 'newest'
+    const direction = newestFirst ? 'desc' : 'asc'
+    const pageParams = getPageParams(searchParams)
+    const page = await findPage(pageParams, args => prisma.message.findMany({
+      ...args,
       where: { orderId },
       include: {
         sender: {
@@ -45,10 +52,15 @@ export async function GET(
           }
         }
       },
-      orderBy: { createdAt: 'asc' }
-    })
+      orderBy: [{ createdAt: direction }, { id: direction }]
+    }))
+
+    if (!newestFirst || pageParams.cursor) {
+      return NextResponse.json(page)
+    }
 
-    return NextResponse.json(messages)
+    const total = await prisma.message.count({ where: { orderId } })
+    return NextResponse.json({ ...page, total })
   } catch (error) {
     console.error('Error fetching messages:', error)
     return NextResponse.json(
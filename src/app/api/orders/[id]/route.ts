@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { OrderTransitionError, orderTransitionErrorResponse, transitionOrder } from "@/lib/orderLifecycle"
 
 import { OrderStatus, PaymentStatus, DeliveryMethod } from "@prisma/client"
 
@@ -14,14 +15,10 @@ interface OrderWhereClause {
 
 // Define proper type for order updates
 interface OrderUpdateData {
-  status?: OrderStatus
   paymentStatus?: PaymentStatus
   adminNotes?: string
   deliveryMethod?: DeliveryMethod
   roomNumber?: string
-  confirmedAt?: Date
-  readyAt?: Date
-  completedAt?: Date
 }
 
 // GET - Fetch specific order details
@@ -121,6 +118,7 @@ export async function PATCH(
 
     // Prepare the update object
     const updateData: OrderUpdateData = {}
+    let nextStatus: OrderStatus | undefined
 
     // Handle order status transitions - use NEW schema statuses
     if (updates.status) {
@@ -129,18 +127,7 @@ export async function PATCH(
         return NextResponse.json({ error: 'Invalid order status' }, { status: 400 })
       }
 
-      updateData.status = updates.status as OrderStatus
-
-      // Set appropriate timestamps
-      if (updates.status === OrderStatus.CONFIRMED && !currentOrder.confirmedAt) {
-        updateData.confirmedAt = new Date()
-      }
-      if (updates.status === OrderStatus.READY && !currentOrder.readyAt) {
-        updateData.readyAt = new Date()
-      }
-      if (updates.status === OrderStatus.COMPLETED) {
-        updateData.completedAt = new Date()
-      }
+      nextStatus = updates.status as OrderStatus
     }
 
     // Handle payment status updates - use NEW schema statuses
@@ -153,9 +140,8 @@ export async function PATCH(
       updateData.paymentStatus = updates.paymentStatus as PaymentStatus
 
       // Auto-confirm order when payment is completed for pending orders
-      if (updates.paymentStatus === PaymentStatus.COMPLETED && currentOrder.status === OrderStatus.PENDING) {
-        updateData.status = OrderStatus.CONFIRMED
-        updateData.confirmedAt = new Date()
+      if (!nextStatus && updates.paymentStatus === PaymentStatus.COMPLETED && currentOrder.status === OrderStatus.PENDING) {
+        nextStatus = OrderStatus.CONFIRMED
       }
     }
 
@@ -164,32 +150,46 @@ export async function PATCH(
     if (updates.deliveryMethod) updateData.deliveryMethod = updates.deliveryMethod as DeliveryMethod
     if (updates.roomNumber) updateData.roomNumber = updates.roomNumber
 
-    const updatedOrder = await prisma.order.update({
-      where: { id },
-      data: updateData,
-      include: {
-        user: {
-          select: {
-            name: true,
-            email: true,
-            phone: true,
-            roomNumber: true
-          }
-        },
-        orderItems: {
-          include: {
-            product: {
-              include: {
-                category: true
+    const updatedOrder = await prisma.$transaction(async (tx) => {
+      // Status changes go through the order state machine
+      if (nextStatus && nextStatus !== currentOrder.status) {
+        await transitionOrder(tx, id, nextStatus, updateData)
+      } else {
+        await tx.order.update({
+          where: { id },
+          data: updateData
+        })
+      }
+
+      return tx.order.findUniqueOrThrow({
+        where: { id },
+        include: {
+          user: {
+            select: {
+              name: true,
+              email: true,
+              phone: true,
+              roomNumber: true
+            }
+          },
+          orderItems: {
+            include: {
+              product: {
+                include: {
+                  category: true
+                }
               }
             }
           }
         }
-      }
+      })
     })
 
     return NextResponse.json(updatedOrder)
   } catch (error) {
+    if (error instanceof OrderTransitionError) {
+      return orderTransitionErrorResponse(error)
+    }
     console.error('Error updating order:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -212,16 +212,9 @@ export async function DELETE(
 
     const { id } = await context.params
 
-    // Get the order first to check permissions and status
+    // Get the order first to check permissions
     const order = await prisma.order.findUnique({
-      where: { id },
-      include: {
-        orderItems: {
-          include: {
-            product: true
-          }
-        }
-      }
+      where: { id }
     })
 
     if (!order) {
@@ -233,41 +226,15 @@ export async function DELETE(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 403 })
     }
 
-    // Check if order can be cancelled - use NEW schema statuses
-    const nonCancellableStatuses: OrderStatus[] = [OrderStatus.COMPLETED, OrderStatus.CANCELLED]
-    if (nonCancellableStatuses.includes(order.status)) {
-      return NextResponse.json({ 
-        error: `Cannot cancel order with status ${order.status}` 
-      }, { status: 400 })
-    }
-
     // Cancel the order and restore stock
     const cancelledOrder = await prisma.$transaction(async (tx) => {
-      // Update order status
-      const updatedOrder = await tx.order.update({
-        where: { id },
-        data: {
-          status: OrderStatus.CANCELLED,
-          completedAt: new Date(),
-          adminNotes: session.user.role === 'CUSTOMER' 
-            ? (order.adminNotes ? `${order.adminNotes}\n\nCancelled by customer on ${new Date().toLocaleString()}` : `Cancelled by customer on ${new Date().toLocaleString()}`)
-            : order.adminNotes || undefined
-        }
+      await transitionOrder(tx, id, OrderStatus.CANCELLED, {
+        adminNotes: session.user.role === 'CUSTOMER' 
+          ? (order.adminNotes ? `${order.adminNotes}\n\nCancelled by customer on ${new Date().toLocaleString()}` : `Cancelled by customer on ${new Date().toLocaleString()}`)
+          : order.adminNotes || undefined
       })
 
-      // Restore product stock
-      for (const item of order.orderItems) {
-        await tx.product.update({
-          where: { id: item.productId },
-          data: {
-            stockQuantity: {
-              increment: item.quantity
-            }
-          }
-        })
-      }
-
-      return updatedOrder
+      return tx.order.findUniqueOrThrow({ where: { id } })
     })
 
     return NextResponse.json({ 
@@ -275,6 +242,9 @@ export async function DELETE(
       order: cancelledOrder 
     })
   } catch (error) {
+    if (error instanceof OrderTransitionError) {
+      return orderTransitionErrorResponse(error)
+    }
     console.error('Error cancelling order:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -3,7 +3,11 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
-import { PaymentMethod, DeliveryMethod, OrderStatus, PaymentStatus } from "@prisma/client"
+import { findPage, getPageParams } from "@/lib/pagination"
+import { OrderTransitionError, orderTransitionErrorResponse, transitionOrder } from "@/lib/orderLifecycle"
+import { reserveStock, StockShortageError } from "@/lib/inventory"
+import { getIdempotencyKey, idempotentReplay, isWithinIdempotencyWindow } from "@/lib/idempotency"
+import { PaymentMethod, DeliveryMethod, OrderStatus, PaymentStatus, Prisma } from "@prisma/client"
 
 // Define proper type for where clause
 interface OrderWhereClause {
@@ -14,38 +18,82 @@ interface OrderWhereClause {
 
 // Define proper type for order update data
 interface OrderUpdateData {
-  status?: OrderStatus
   paymentStatus?: PaymentStatus
   adminNotes?: string
-  confirmedAt?: Date
-  readyAt?: Date
-  completedAt?: Date
 }
 
+// Order creation is retried when two checkouts race for the same number
+const MAX_ORDER_ATTEMPTS = 5
+
 // Helper function to generate order number
-async function generateOrderNumber(): Promise<string> {
+// Increments today's counter inside the order transaction, so the row lock
+// serialises concurrent checkouts. Sequences past 999 simply grow a digit.
+async function generateOrderNumber(tx: Prisma.TransactionClient): Promise<string> {
   const today = new Date()
   const dateStr = today.toISOString().slice(0, 10).replace(/-/g, '') // YYYYMMDD
-  
-  // Find the latest order number for today
-  const latestOrder = await prisma.order.findFirst({
-    where: {
-      orderNumber: {
-        startsWith: `ORD-${dateStr}`
+
+  // Seed a new day's counter from the highest number already used for it.
+  // Counting instead would reuse a number after a gap. Compared as integers,
+  // since "1000" sorts before "999" as text.
+  let seed = 0
+  const existing = await tx.orderSequence.findUnique({
+    where: { date: dateStr }
+  })
+  if (!existing) {
+    const [{ highest }] = await tx.$queryRaw<{ highest: number | null }[]>`
+      SELECT MAX(split_part(order_number, '-', 3)::int) AS highest
+      FROM orders
+      WHERE order_number ~ ${`^ORD-${dateStr}-[0-9]+$`}
+    `
+    seed = highest ?? 0
+  }
+
+  const counter = await tx.orderSequence.upsert({
+    where: { date: dateStr },
+    create: { date: dateStr, lastValue: seed + 1 },
+    update: { lastValue: { increment: 1 } }
+  })
+
+  return `ORD-${dateStr}-${counter.lastValue.toString().padStart(3, '0')}`
+}
+
+// Unique violations (P2002) and write conflicts (P2034) are safe to retry
+function isRetryableOrderError(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError &&
+    (error.code === 'P2002' || error.code === 'P2034')
+}
+
+// Look up the order created earlier with this Idempotency-Key.
+// Keys older than the replay window are released so they can be reused.
+async function findOrderByIdempotencyKey(userId: string, idempotencyKey: string) {
+  const existing = await prisma.order.findUnique({
+    where: { userId_idempotencyKey: { userId, idempotencyKey } },
+    include: {
+      orderItems: {
+        include: {
+          product: {
+            include: {
+              category: true
+            }
+          }
+        }
       }
-    },
-    orderBy: {
-      createdAt: 'desc'
     }
   })
 
-  let sequence = 1
-  if (latestOrder && latestOrder.orderNumber) {
-    const lastSequence = parseInt(latestOrder.orderNumber.split('-').pop() || '0')
-    sequence = lastSequence + 1
+  if (!existing) {
+    return null
   }
 
-  return `ORD-${dateStr}-${sequence.toString().padStart(3, '0')}`
+  if (!isWithinIdempotencyWindow(existing.createdAt)) {
+    await prisma.order.update({
+      where: { id: existing.id },
+      data: { idempotencyKey: null }
+    })
+    return null
+  }
+
+  return existing
 }
 
 // GET - Fetch orders (Customer: own orders, Admin: all orders)
@@ -88,7 +136,8 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    const orders = await prisma.order.findMany({
+    const page = await findPage(getPageParams(searchParams), args => prisma.order.findMany({
+      ...args,
       where: whereClause,
       include: {
         user: {
@@ -109,12 +158,10 @@ export async function GET(request: NextRequest) {
           }
         }
       },
-      orderBy: {
-        createdAt: 'desc'
-      }
-    })
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }]
+    }))
 
-    return NextResponse.json(orders)
+    return NextResponse.json(page)
   } catch (error) {
     console.error('Error fetching orders:', error)
     return NextResponse.json(
@@ -133,6 +180,19 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    const idempotencyKey = getIdempotencyKey(request)
+    if (idempotencyKey === false) {
+      return NextResponse.json({ error: 'Invalid Idempotency-Key header' }, { status: 400 })
+    }
+
+    // A repeated submission returns the order it already created
+    if (idempotencyKey) {
+      const existingOrder = await findOrderByIdempotencyKey(session.user.id, idempotencyKey)
+      if (existingOrder) {
+        return idempotentReplay(existingOrder, 201)
+      }
+    }
+
     const body = await request.json()
     const { 
       items, 
@@ -194,17 +254,23 @@ export async function POST(request: NextRequest) {
     }> = []
 
     for (const item of items) {
+      if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+        return NextResponse.json({ error: 'Invalid item quantity' }, { status: 400 })
+      }
+
       const product = await prisma.product.findUnique({
         where: { id: item.productId }
       })
 
-      if (!product || !product.isAvailable || product.stockQuantity < item.quantity) {
+      if (!product) {
         return NextResponse.json(
-          { error: `Product ${item.productName || product?.name || 'unknown'} is not available in requested quantity` },
+          { error: `Product ${item.productName || 'unknown'} is no longer sold` },
           { status: 400 }
         )
       }
 
+      // Stock itself is checked atomically when the order is created
+
       const itemSubtotal = product.price * item.quantity
       calculatedSubtotal += itemSubtotal
 
@@ -231,11 +297,10 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Total amount mismatch' }, { status: 400 })
     }
 
-    // Generate order number
-    const orderNumber = await generateOrderNumber()
+    // Create order with transaction, retrying if the order number collides
+    const createOrder = () => prisma.$transaction(async (tx) => {
+      const orderNumber = await generateOrderNumber(tx)
 
-    // Create order with transaction
-    const order = await prisma.$transaction(async (tx) => {
       // Create the order using proper Prisma enums
       const newOrder = await tx.order.create({
         data: {
@@ -252,6 +317,7 @@ export async function POST(request: NextRequest) {
           subtotal,
           deliveryFee,
           totalAmount,
+          idempotencyKey,
           orderItems: {
             create: orderItemsData
           }
@@ -269,23 +335,41 @@ export async function POST(request: NextRequest) {
         }
       })
 
-      // Update product stock quantities
-      for (const item of items) {
-        await tx.product.update({
-          where: { id: item.productId },
-          data: {
-            stockQuantity: {
-              decrement: item.quantity
-            }
-          }
-        })
-      }
+      // Reserve stock; throws and rolls back the order if any line is short
+      await reserveStock(tx, orderItemsData)
 
       return newOrder
     })
 
+    let order
+    for (let attempt = 1; ; attempt++) {
+      try {
+        order = await createOrder()
+        break
+      } catch (error) {
+        // A concurrent request with the same key created the order first
+        if (idempotencyKey && isRetryableOrderError(error)) {
+          const existingOrder = await findOrderByIdempotencyKey(user.id, idempotencyKey)
+          if (existingOrder) {
+            return idempotentReplay(existingOrder, 201)
+          }
+        }
+
+        if (attempt >= MAX_ORDER_ATTEMPTS || !isRetryableOrderError(error)) {
+          throw error
+        }
+      }
+    }
+
     return NextResponse.json(order, { status: 201 })
   } catch (error) {
+    if (error instanceof StockShortageError) {
+      return NextResponse.json({
+        error: 'Some items in your cart are out of stock',
+        shortages: error.shortages
+      }, { status: 409 })
+    }
+
     console.error('Error creating order:', error)
     
     // Log the full error details for debugging
@@ -332,19 +416,6 @@ export async function PATCH(request: NextRequest) {
     }
 
     const updateData: OrderUpdateData = {}
-    
-    if (status) {
-      updateData.status = status as OrderStatus
-      
-      // Set timestamps based on status
-      if (status === OrderStatus.CONFIRMED) {
-        updateData.confirmedAt = new Date()
-      } else if (status === OrderStatus.READY) {
-        updateData.readyAt = new Date()
-      } else if (status === OrderStatus.COMPLETED) {
-        updateData.completedAt = new Date()
-      }
-    }
 
     if (paymentStatus) {
       updateData.paymentStatus = paymentStatus as PaymentStatus
@@ -354,32 +425,58 @@ export async function PATCH(request: NextRequest) {
       updateData.adminNotes = adminNotes
     }
 
-    const updatedOrder = await prisma.order.update({
-      where: { id: orderId },
-      data: updateData,
-      include: {
-        user: {
-          select: {
-            name: true,
-            email: true,
-            phone: true,
-            roomNumber: true
-          }
-        },
-        orderItems: {
-          include: {
-            product: {
-              include: {
-                category: true
+    const updatedOrder = await prisma.$transaction(async (tx) => {
+      const currentOrder = await tx.order.findUnique({
+        where: { id: orderId }
+      })
+
+      if (!currentOrder) {
+        return null
+      }
+
+      // Status changes go through the order state machine
+      if (status && status !== currentOrder.status) {
+        await transitionOrder(tx, orderId, status as OrderStatus, updateData)
+      } else {
+        await tx.order.update({
+          where: { id: orderId },
+          data: updateData
+        })
+      }
+
+      return tx.order.findUniqueOrThrow({
+        where: { id: orderId },
+        include: {
+          user: {
+            select: {
+              name: true,
+              email: true,
+              phone: true,
+              roomNumber: true
+            }
+          },
+          orderItems: {
+            include: {
+              product: {
+                include: {
+                  category: true
+                }
               }
             }
           }
         }
-      }
+      })
     })
 
+    if (!updatedOrder) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+    }
+
     return NextResponse.json(updatedOrder)
   } catch (error) {
+    if (error instanceof OrderTransitionError) {
+      return orderTransitionErrorResponse(error)
+    }
     console.error('Error updating order:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
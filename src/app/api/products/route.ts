@@ -1,9 +1,10 @@
-import { NextResponse } from "next/server"
+import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { findPage, getPageParams } from "@/lib/pagination"
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
     
@@ -11,16 +12,16 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const products = await prisma.product.findMany({
+    const { searchParams } = new URL(request.url)
+    const page = await findPage(getPageParams(searchParams), args => prisma.product.findMany({
+      ...args,
       include: {
         category: true
       },
-      orderBy: {
-        name: 'asc'
-      }
-    })
+      orderBy: [{ name: 'asc' }, { id: 'asc' }]
+    }))
 
-    return NextResponse.json(products)
+    return NextResponse.json(page)
   } catch (error) {
     console.error('Error fetching products:', error)
     return NextResponse.json(
@@ -0,0 +1,98 @@
+// src/app/api/rentals/[id]/cancel/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { cancelRental, getCancellationQuote, RentalCancellationError } from "@/lib/rentalCancellation"
+
+// GET - What the renter would get back if they cancelled now
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const rental = await prisma.rentalTransaction.findUnique({
+      where: { id }
+    })
+
+    if (!rental) {
+      return NextResponse.json({ error: 'Rental not found' }, { status: 404 })
+    }
+
+    if (rental.renterId !== session.user.id && session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 })
+    }
+
+    const quote = getCancellationQuote(rental)
+
+    return NextResponse.json({ cancellable: quote !== null, quote })
+  } catch (error) {
+    console.error('Error fetching cancellation quote:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Renter cancels before the item is handed over ({ reason })
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { reason } = await request.json()
+
+    const rental = await prisma.rentalTransaction.findUnique({
+      where: { id }
+    })
+
+    if (!rental) {
+      return NextResponse.json({ error: 'Rental not found' }, { status: 404 })
+    }
+
+    if (rental.renterId !== session.user.id) {
+      return NextResponse.json({ error: 'Only the renter can cancel this rental' }, { status: 403 })
+    }
+
+    const { updatedRental, quote } = await cancelRental(
+      rental,
+      typeof reason === 'string' && reason.trim() ? reason.trim() : null
+    )
+
+    console.log('🚫 Rental cancelled by renter:', {
+      rentalId: id,
+      stage: quote.stage,
+      refundAmount: updatedRental.refundAmount,
+      cancellationFee: quote.cancellationFee
+    })
+
+    return NextResponse.json({
+      message: 'Rental cancelled',
+      rental: updatedRental,
+      quote
+    })
+  } catch (error) {
+    if (error instanceof RentalCancellationError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    console.error('Error cancelling rental:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,106 @@
+// src/app/api/rentals/[id]/condition/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { parseConditionReport, saveConditionReport } from "@/lib/rentalCondition"
+import { getRentalParty, isAwaitingHandover } from "@/lib/rentalHandover"
+
+// GET - Condition reports from both parties, handover first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const rental = await prisma.rentalTransaction.findUnique({
+      where: { id },
+      select: { renterId: true, sellerId: true }
+    })
+
+    if (!rental) {
+      return NextResponse.json({ error: 'Rental not found' }, { status: 404 })
+    }
+
+    if (!getRentalParty(rental, session.user.id) && session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 })
+    }
+
+    const reports = await prisma.rentalConditionReport.findMany({
+      where: { rentalId: id },
+      orderBy: [{ stage: 'asc' }, { createdAt: 'asc' }]
+    })
+
+    return NextResponse.json(reports)
+  } catch (error) {
+    console.error('Error fetching condition reports:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Renter or seller records photos and a checklist at handover or return
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    if (body.stage !== 'HANDOVER' && body.stage !== 'RETURN') {
+      return NextResponse.json({ error: 'Stage must be HANDOVER or RETURN' }, { status: 400 })
+    }
+
+    const report = parseConditionReport(body)
+    if (typeof report === 'string') {
+      return NextResponse.json({ error: report }, { status: 400 })
+    }
+
+    const rental = await prisma.rentalTransaction.findUnique({
+      where: { id }
+    })
+
+    if (!rental) {
+      return NextResponse.json({ error: 'Rental not found' }, { status: 404 })
+    }
+
+    const party = getRentalParty(rental, session.user.id)
+    if (!party) {
+      return NextResponse.json({ error: 'Only the renter or owner can add condition photos' }, { status: 403 })
+    }
+
+    // Handover evidence while the item is out; return evidence once it has been handed over
+    const stageOpen = body.stage === 'HANDOVER'
+      ? rental.status === 'ACTIVE'
+      : (rental.status === 'ACTIVE' && !isAwaitingHandover(rental)) || rental.status === 'RETURNED'
+
+    if (!stageOpen) {
+      return NextResponse.json({
+        error: `${body.stage === 'HANDOVER' ? 'Handover' : 'Return'} photos can't be added at this stage of the rental`
+      }, { status: 400 })
+    }
+
+    const saved = await saveConditionReport(prisma, id, body.stage, party, session.user.id, report)
+
+    return NextResponse.json(saved, { status: 201 })
+  } catch (error) {
+    console.error('Error saving condition report:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
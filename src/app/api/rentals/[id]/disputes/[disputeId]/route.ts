@@ -0,0 +1,77 @@
+// src/app/api/rentals/[id]/disputes/[disputeId]/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { parsePhotoUrls } from "@/lib/rentalCondition"
+import { MAX_DISPUTE_PHOTOS } from "@/lib/rentalDisputes"
+import { getRentalParty } from "@/lib/rentalHandover"
+
+// PATCH - Either party answers the admin's request for more information
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; disputeId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, disputeId } = await params
+    const { infoResponse, photos } = await request.json()
+
+    if (!infoResponse?.trim()) {
+      return NextResponse.json({ error: 'Response is required' }, { status: 400 })
+    }
+
+    const extraPhotos = parsePhotoUrls(photos, MAX_DISPUTE_PHOTOS)
+    if (!extraPhotos) {
+      return NextResponse.json({
+        error: `Photos must be up to ${MAX_DISPUTE_PHOTOS} image URLs`
+      }, { status: 400 })
+    }
+
+    const dispute = await prisma.rentalDispute.findFirst({
+      where: { id: disputeId, rentalId: id },
+      include: {
+        rental: {
+          select: { renterId: true, sellerId: true }
+        }
+      }
+    })
+
+    if (!dispute) {
+      return NextResponse.json({ error: 'Claim not found' }, { status: 404 })
+    }
+
+    const party = getRentalParty(dispute.rental, session.user.id)
+    if (!party) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 })
+    }
+
+    if (dispute.status !== 'INFO_REQUESTED') {
+      return NextResponse.json({ error: 'No information has been requested on this claim' }, { status: 409 })
+    }
+
+    const response = `${party === 'RENTER' ? 'Renter' : 'Owner'}: ${infoResponse.trim()}`
+
+    const updated = await prisma.rentalDispute.update({
+      where: { id: disputeId },
+      data: {
+        status: 'OPEN',
+        infoResponse: dispute.infoResponse ? `${dispute.infoResponse}\n${response}` : response,
+        photos: [...dispute.photos, ...extraPhotos].slice(0, MAX_DISPUTE_PHOTOS * 2)
+      }
+    })
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    console.error('Error responding to dispute:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,133 @@
+// src/app/api/rentals/[id]/disputes/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { parsePhotoUrls } from "@/lib/rentalCondition"
+import { DISPUTABLE_RENTAL_STATUSES, MAX_DISPUTE_PHOTOS } from "@/lib/rentalDisputes"
+import { getRentalParty } from "@/lib/rentalHandover"
+
+// GET - Damage claims on a rental
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const rental = await prisma.rentalTransaction.findUnique({
+      where: { id },
+      select: { renterId: true, sellerId: true }
+    })
+
+    if (!rental) {
+      return NextResponse.json({ error: 'Rental not found' }, { status: 404 })
+    }
+
+    if (!getRentalParty(rental, session.user.id) && session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 })
+    }
+
+    const disputes = await prisma.rentalDispute.findMany({
+      where: { rentalId: id },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return NextResponse.json(disputes)
+  } catch (error) {
+    console.error('Error fetching disputes:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Renter or seller opens a damage claim
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { description, photos, claimedAmount } = await request.json()
+
+    if (!description?.trim()) {
+      return NextResponse.json({ error: 'Please describe the problem' }, { status: 400 })
+    }
+
+    const amount = Number(claimedAmount)
+    if (!Number.isFinite(amount) || amount < 0) {
+      return NextResponse.json({ error: 'Claimed amount must be zero or more' }, { status: 400 })
+    }
+
+    const photoUrls = parsePhotoUrls(photos, MAX_DISPUTE_PHOTOS)
+    if (!photoUrls) {
+      return NextResponse.json({
+        error: `Photos must be up to ${MAX_DISPUTE_PHOTOS} image URLs`
+      }, { status: 400 })
+    }
+
+    const rental = await prisma.rentalTransaction.findUnique({
+      where: { id },
+      include: {
+        disputes: {
+          where: { status: { not: 'RESOLVED' } },
+          select: { id: true }
+        }
+      }
+    })
+
+    if (!rental) {
+      return NextResponse.json({ error: 'Rental not found' }, { status: 404 })
+    }
+
+    const party = getRentalParty(rental, session.user.id)
+    if (!party) {
+      return NextResponse.json({ error: 'Only the renter or owner can open a claim' }, { status: 403 })
+    }
+
+    if (!DISPUTABLE_RENTAL_STATUSES.includes(rental.status)) {
+      return NextResponse.json({ error: 'Claims can only be opened on active or returned rentals' }, { status: 400 })
+    }
+
+    if (rental.disputes.length > 0) {
+      return NextResponse.json({ error: 'A claim on this rental is already open' }, { status: 409 })
+    }
+
+    const dispute = await prisma.rentalDispute.create({
+      data: {
+        rentalId: id,
+        openedById: session.user.id,
+        openedBy: party,
+        description: description.trim(),
+        photos: photoUrls,
+        claimedAmount: amount
+      }
+    })
+
+    console.log('⚠️ Damage claim opened:', {
+      rentalId: id,
+      disputeId: dispute.id,
+      openedBy: party,
+      claimedAmount: amount
+    })
+
+    return NextResponse.json(dispute, { status: 201 })
+  } catch (error) {
+    console.error('Error opening dispute:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,53 @@
+// src/app/api/rentals/[id]/extend/quote/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { MAX_EXTENSION_DAYS, priceExtension } from "@/lib/rentalExtensions"
+
+// GET - What the renter would pay to keep the item for ?extraDays=N more days
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const extraDays = Number(searchParams.get('extraDays'))
+
+    if (!Number.isInteger(extraDays) || extraDays < 1 || extraDays > MAX_EXTENSION_DAYS) {
+      return NextResponse.json({
+        error: `Extra days must be a whole number between 1 and ${MAX_EXTENSION_DAYS}`
+      }, { status: 400 })
+    }
+
+    const rental = await prisma.rentalTransaction.findUnique({
+      where: { id }
+    })
+
+    if (!rental) {
+      return NextResponse.json({ error: 'Rental not found' }, { status: 404 })
+    }
+
+    if (rental.renterId !== session.user.id) {
+      return NextResponse.json({ error: 'Only the renter can extend this rental' }, { status: 403 })
+    }
+
+    const price = await priceExtension(rental, extraDays)
+
+    return NextResponse.json({
+      extraDays,
+      total: price.total,
+      lines: price.lines
+    })
+  } catch (error) {
+    console.error('Error quoting extension:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,160 @@
+// src/app/api/rentals/[id]/extend/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { addDays, assertUnitAvailable, daysBetween, getBookedEnd, RentalUnavailableError } from "@/lib/rentalAvailability"
+import { MAX_EXTENSION_DAYS, priceExtension } from "@/lib/rentalExtensions"
+import { isAwaitingHandover } from "@/lib/rentalHandover"
+
+// GET - Extension requests for a rental
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const rental = await prisma.rentalTransaction.findUnique({
+      where: { id },
+      select: { renterId: true, sellerId: true }
+    })
+
+    if (!rental) {
+      return NextResponse.json({ error: 'Rental not found' }, { status: 404 })
+    }
+
+    const hasAccess =
+      session.user.id === rental.renterId ||
+      session.user.id === rental.sellerId ||
+      session.user.role === 'ADMIN'
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 })
+    }
+
+    const extensions = await prisma.rentalExtension.findMany({
+      where: { rentalId: id },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return NextResponse.json(extensions)
+  } catch (error) {
+    console.error('Error fetching extensions:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Renter asks to keep the item for extra days
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { extraDays, paymentPin } = await request.json()
+
+    if (!Number.isInteger(extraDays) || extraDays < 1 || extraDays > MAX_EXTENSION_DAYS) {
+      return NextResponse.json({
+        error: `Extra days must be a whole number between 1 and ${MAX_EXTENSION_DAYS}`
+      }, { status: 400 })
+    }
+
+    if (!paymentPin) {
+      return NextResponse.json({ error: 'Payment PIN is required' }, { status: 400 })
+    }
+
+    const rental = await prisma.rentalTransaction.findUnique({
+      where: { id },
+      include: {
+        listing: {
+          select: { id: true, quantity: true }
+        },
+        extensions: {
+          where: { status: 'PENDING' }
+        }
+      }
+    })
+
+    if (!rental) {
+      return NextResponse.json({ error: 'Rental not found' }, { status: 404 })
+    }
+
+    if (rental.renterId !== session.user.id) {
+      return NextResponse.json({ error: 'Only the renter can extend this rental' }, { status: 403 })
+    }
+
+    if (rental.status !== 'ACTIVE') {
+      return NextResponse.json({ error: 'Only active rentals can be extended' }, { status: 400 })
+    }
+
+    // The booked period moves to the handover day, so extend only after pickup
+    if (isAwaitingHandover(rental)) {
+      return NextResponse.json({ error: 'Rentals can be extended once the item has been handed over' }, { status: 400 })
+    }
+
+    if (rental.extensions.length > 0) {
+      return NextResponse.json({
+        error: 'An extension request is already awaiting approval'
+      }, { status: 409 })
+    }
+
+    // Extra days run on from the current booked end
+    const startDate = getBookedEnd(rental)
+    const endDate = addDays(startDate, extraDays)
+
+    // Limit the rental was booked under, even if the listing has been edited since
+    if (rental.maxRentalDays && daysBetween(rental.startDate, endDate) > rental.maxRentalDays) {
+      return NextResponse.json({
+        error: `This item can be rented for at most ${rental.maxRentalDays} day(s) in total`
+      }, { status: 400 })
+    }
+
+    await assertUnitAvailable(prisma, rental.listing, startDate, endDate, rental.id)
+
+    const price = await priceExtension(rental, extraDays)
+
+    const extension = await prisma.rentalExtension.create({
+      data: {
+        rentalId: rental.id,
+        extraDays,
+        amount: price.total,
+        platformFee: price.platformFee,
+        pricingBreakdown: price.lines,
+        paymentPin,
+        startDate,
+        endDate
+      }
+    })
+
+    return NextResponse.json({
+      message: 'Extension request submitted',
+      extension
+    }, { status: 201 })
+  } catch (error) {
+    if (error instanceof RentalUnavailableError) {
+      return NextResponse.json({
+        error: 'Item is booked by someone else for some of those days',
+        unavailableDates: error.unavailableDates
+      }, { status: 409 })
+    }
+
+    console.error('Error requesting extension:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
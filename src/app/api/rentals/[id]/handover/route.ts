@@ -0,0 +1,200 @@
+// src/app/api/rentals/[id]/handover/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import {
+  addDays,
+  assertUnitAvailable,
+  daysBetween,
+  getBookedEnd,
+  RentalUnavailableError,
+  startOfUtcDay
+} from "@/lib/rentalAvailability"
+import { parseConditionReport, saveConditionReport } from "@/lib/rentalCondition"
+import {
+  clearCodeAttempts,
+  CODE_LOCKED_MESSAGE,
+  generateConfirmationCode,
+  isAwaitingHandover,
+  reserveCodeAttempt
+} from "@/lib/rentalHandover"
+
+// GET - Handover state; the code itself is only returned to the renter
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const rental = await prisma.rentalTransaction.findUnique({
+      where: { id }
+    })
+
+    if (!rental) {
+      return NextResponse.json({ error: 'Rental not found' }, { status: 404 })
+    }
+
+    const isRenter = session.user.id === rental.renterId
+    const hasAccess = isRenter || session.user.id === rental.sellerId || session.user.role === 'ADMIN'
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 })
+    }
+
+    return NextResponse.json({
+      awaitingHandover: isAwaitingHandover(rental),
+      handedOverAt: rental.handedOverAt,
+      handoverCode: isRenter || session.user.role === 'ADMIN' ? rental.handoverCode : null
+    })
+  } catch (error) {
+    console.error('Error fetching handover:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Seller enters the renter's code when handing the item over,
+// optionally with condition photos and checklist ({ code, condition })
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { code, condition } = await request.json()
+
+    const report = condition ? parseConditionReport(condition) : null
+    if (typeof report === 'string') {
+      return NextResponse.json({ error: report }, { status: 400 })
+    }
+
+    const rental = await prisma.rentalTransaction.findUnique({
+      where: { id },
+      include: {
+        listing: {
+          select: { id: true, quantity: true }
+        }
+      }
+    })
+
+    if (!rental) {
+      return NextResponse.json({ error: 'Rental not found' }, { status: 404 })
+    }
+
+    if (rental.sellerId !== session.user.id) {
+      return NextResponse.json({ error: 'Only the owner can confirm the handover' }, { status: 403 })
+    }
+
+    if (!isAwaitingHandover(rental)) {
+      return NextResponse.json({ error: 'This rental is not waiting for a handover' }, { status: 409 })
+    }
+
+    const now = new Date()
+    const today = startOfUtcDay(now)
+
+    if (today < startOfUtcDay(rental.startDate)) {
+      return NextResponse.json({ error: 'The rental has not started yet' }, { status: 400 })
+    }
+
+    const attemptKey = `rental-handover:${id}`
+    if (!await reserveCodeAttempt(attemptKey, now)) {
+      return NextResponse.json({ error: CODE_LOCKED_MESSAGE }, { status: 429 })
+    }
+
+    if (typeof code !== 'string' || code.trim() !== rental.handoverCode) {
+      return NextResponse.json({ error: 'Incorrect handover code' }, { status: 400 })
+    }
+
+    await clearCodeAttempts(attemptKey)
+
+    // The booked days start from the actual handover, so a late pickup does not
+    // eat into them - unless the later days are booked by someone else, in
+    // which case the rental keeps its original dates and the missed days are
+    // the renter's. Accrual counts from the start and late fees from the end,
+    // so the two always move together.
+    const bookedEnd = getBookedEnd(rental)
+    const bookedDays = daysBetween(rental.startDate, bookedEnd)
+
+    const count = await prisma.$transaction(async (tx) => {
+      // Locks the listing row, so a booking made meanwhile is checked after this
+      await tx.$queryRaw`SELECT id FROM item_listings WHERE id = ${rental.listingId} FOR UPDATE`
+
+      let startDate = today > rental.startDate ? today : startOfUtcDay(rental.startDate)
+      let endDate = addDays(startDate, bookedDays)
+      if (endDate > bookedEnd) {
+        try {
+          await assertUnitAvailable(tx, rental.listing, bookedEnd, endDate, rental.id)
+        } catch (error) {
+          // Nothing of the booked period left to fall back on
+          if (!(error instanceof RentalUnavailableError) || bookedEnd <= startDate) throw error
+          startDate = rental.startDate
+          endDate = bookedEnd
+        }
+      }
+
+      const result = await tx.rentalTransaction.updateMany({
+        where: { id, status: 'ACTIVE', handedOverAt: null },
+        data: {
+          handedOverAt: now,
+          startDate,
+          endDate,
+          lastCalculated: now,
+          // Seller shows this to the renter when the item comes back
+          returnCode: generateConfirmationCode()
+        }
+      })
+      return result.count
+    })
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Handover was already confirmed' }, { status: 409 })
+    }
+
+    if (report) {
+      await saveConditionReport(prisma, id, 'HANDOVER', 'SELLER', session.user.id, report)
+    }
+
+    const updated = await prisma.rentalTransaction.findUniqueOrThrow({ where: { id } })
+
+    console.log('🤝 Item handed over:', {
+      rentalId: id,
+      handedOverAt: now,
+      startDate: updated.startDate,
+      endDate: updated.endDate
+    })
+
+    return NextResponse.json({
+      message: 'Handover confirmed',
+      handedOverAt: updated.handedOverAt,
+      startDate: updated.startDate,
+      endDate: updated.endDate,
+      returnCode: updated.returnCode
+    })
+  } catch (error) {
+    if (error instanceof RentalUnavailableError) {
+      return NextResponse.json({
+        error: 'The booked dates have passed and the item is booked by someone else now',
+        unavailableDates: error.unavailableDates
+      }, { status: 409 })
+    }
+
+    console.error('Error confirming handover:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
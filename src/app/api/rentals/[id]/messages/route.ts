@@ -3,8 +3,10 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { findPage, getPageParams } from "@/lib/pagination"
 
-// GET - Fetch messages for a rental
+// GET - Messages for a rental, oldest first. ?order=newest pages back from the
+// latest message instead, and its first page also carries the total.
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -38,7 +40,12 @@ export async function GET(
     }
 
     // Fetch messages
-    const messages = await prisma.rentalMessage.findMany({
+    const { searchParams } = new URL(request.url)
+    const newestFirst = searchParams.get('order') === 'newest'
+    const direction = newestFirst ? 'desc' : 'asc'
+    const pageParams = getPageParams(searchParams)
+    const page = await findPage(pageParams, args => prisma.rentalMessage.findMany({
+      ...args,
       where: { rentalId },
       include: {
         sender: {
@@ -49,12 +56,15 @@ export async function GET(
           }
         }
       },
-      orderBy: {
-        createdAt: 'asc'
-      }
-    })
+      orderBy: [{ createdAt: direction }, { id: direction }]
+    }))
+
+    if (!newestFirst || pageParams.cursor) {
+      return NextResponse.json(page)
+    }
 
-    return NextResponse.json(messages)
+    const total = await prisma.rentalMessage.count({ where: { rentalId } })
+    return NextResponse.json({ ...page, total })
   } catch (error) {
     console.error('Error fetching rental messages:', error)
     return NextResponse.json({ 
@@ -0,0 +1,92 @@
+// src/app/api/rentals/[id]/respond/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { isSellerApprovalExpired, releaseRentalRequest } from "@/lib/rentalApproval"
+
+// POST - Owner accepts or declines a rental request ({ decision, reason })
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { decision, reason } = await request.json()
+
+    if (decision !== 'ACCEPT' && decision !== 'DECLINE') {
+      return NextResponse.json({ error: 'Decision must be ACCEPT or DECLINE' }, { status: 400 })
+    }
+
+    const declineReason = typeof reason === 'string' ? reason.trim() : ''
+    if (decision === 'DECLINE' && !declineReason) {
+      return NextResponse.json({ error: 'Please give the renter a reason' }, { status: 400 })
+    }
+
+    const rental = await prisma.rentalTransaction.findUnique({
+      where: { id }
+    })
+
+    if (!rental) {
+      return NextResponse.json({ error: 'Rental not found' }, { status: 404 })
+    }
+
+    if (rental.sellerId !== session.user.id) {
+      return NextResponse.json({ error: 'Only the owner can respond to this request' }, { status: 403 })
+    }
+
+    if (rental.status !== 'PENDING' || rental.sellerApproval !== 'PENDING') {
+      return NextResponse.json({ error: 'This request is not waiting for your answer' }, { status: 409 })
+    }
+
+    const now = new Date()
+
+    // Too late to accept; release it now rather than waiting for the next sweep
+    if (isSellerApprovalExpired(rental, now)) {
+      await prisma.$transaction(tx => releaseRentalRequest(tx, rental, 'EXPIRED', null, now))
+      return NextResponse.json({ error: 'This request has expired' }, { status: 409 })
+    }
+
+    if (decision === 'DECLINE') {
+      const released = await prisma.$transaction(tx =>
+        releaseRentalRequest(tx, rental, 'DECLINED', declineReason, now)
+      )
+
+      if (!released) {
+        return NextResponse.json({ error: 'This request was already answered' }, { status: 409 })
+      }
+
+      console.log('🙅 Rental request declined:', { rentalId: id, refundAmount: rental.totalPaid })
+
+      return NextResponse.json({ message: 'Request declined. The renter will be refunded.' })
+    }
+
+    const { count } = await prisma.rentalTransaction.updateMany({
+      where: { id, status: 'PENDING', sellerApproval: 'PENDING' },
+      data: {
+        sellerApproval: 'ACCEPTED',
+        sellerRespondedAt: now
+      }
+    })
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'This request was already answered' }, { status: 409 })
+    }
+
+    console.log('👍 Rental request accepted:', { rentalId: id })
+
+    return NextResponse.json({ message: 'Request accepted. Waiting for payment verification.' })
+  } catch (error) {
+    console.error('Error responding to rental request:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
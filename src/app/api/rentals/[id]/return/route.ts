@@ -0,0 +1,128 @@
+// src/app/api/rentals/[id]/return/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { parseConditionReport, saveConditionReport } from "@/lib/rentalCondition"
+import { clearCodeAttempts, CODE_LOCKED_MESSAGE, isAwaitingHandover, reserveCodeAttempt } from "@/lib/rentalHandover"
+import { completeRentalReturn, RentalReturnError } from "@/lib/rentalReturn"
+
+// GET - Return state; the code itself is only returned to the seller
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const rental = await prisma.rentalTransaction.findUnique({
+      where: { id }
+    })
+
+    if (!rental) {
+      return NextResponse.json({ error: 'Rental not found' }, { status: 404 })
+    }
+
+    const isSeller = session.user.id === rental.sellerId
+    const hasAccess = isSeller || session.user.id === rental.renterId || session.user.role === 'ADMIN'
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 })
+    }
+
+    return NextResponse.json({
+      returned: rental.status === 'RETURNED',
+      returnedAt: rental.returnedAt,
+      returnCode: isSeller || session.user.role === 'ADMIN' ? rental.returnCode : null
+    })
+  } catch (error) {
+    console.error('Error fetching return:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Renter enters the seller's code when giving the item back,
+// optionally with condition photos and checklist ({ code, condition })
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { code, condition } = await request.json()
+
+    const report = condition ? parseConditionReport(condition) : null
+    if (typeof report === 'string') {
+      return NextResponse.json({ error: report }, { status: 400 })
+    }
+
+    const rental = await prisma.rentalTransaction.findUnique({
+      where: { id }
+    })
+
+    if (!rental) {
+      return NextResponse.json({ error: 'Rental not found' }, { status: 404 })
+    }
+
+    if (rental.renterId !== session.user.id) {
+      return NextResponse.json({ error: 'Only the renter can confirm the return' }, { status: 403 })
+    }
+
+    if (rental.status !== 'ACTIVE' || isAwaitingHandover(rental) || !rental.returnCode) {
+      return NextResponse.json({ error: 'This rental is not waiting for a return' }, { status: 409 })
+    }
+
+    const attemptKey = `rental-return:${id}`
+    if (!await reserveCodeAttempt(attemptKey)) {
+      return NextResponse.json({ error: CODE_LOCKED_MESSAGE }, { status: 429 })
+    }
+
+    if (typeof code !== 'string' || code.trim() !== rental.returnCode) {
+      return NextResponse.json({ error: 'Incorrect return code' }, { status: 400 })
+    }
+
+    await clearCodeAttempts(attemptKey)
+
+    const { updatedRental, lateCharge } = await completeRentalReturn(rental)
+
+    if (report) {
+      await saveConditionReport(prisma, id, 'RETURN', 'RENTER', session.user.id, report)
+    }
+
+    console.log('📦 Return confirmed by code:', {
+      rentalId: id,
+      returnedAt: updatedRental.returnedAt,
+      daysRented: updatedRental.daysRented,
+      daysLate: lateCharge.daysLate
+    })
+
+    return NextResponse.json({
+      message: 'Return confirmed',
+      returnedAt: updatedRental.returnedAt,
+      daysRented: updatedRental.daysRented,
+      lateCharge
+    })
+  } catch (error) {
+    if (error instanceof RentalReturnError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    console.error('Error confirming return:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -4,6 +4,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { redactRentalCodes } from "@/lib/rentalHandover"
 
 export async function GET(
   request: NextRequest,
@@ -43,7 +44,7 @@ export async function GET(
       return NextResponse.json({ error: 'Access denied' }, { status: 403 })
     }
 
-    return NextResponse.json(rental)
+    return NextResponse.json(redactRentalCodes(rental, session.user.id, session.user.role === 'ADMIN'))
   } catch (error) {
     console.error('Error fetching rental:', error)
     return NextResponse.json({ 
@@ -4,6 +4,47 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { getIdempotencyKey, idempotentReplay, isWithinIdempotencyWindow } from "@/lib/idempotency"
+import { getSellerApprovalDueAt } from "@/lib/rentalApproval"
+import { addDays, assertUnitAvailable, parseDateKey, RentalUnavailableError, startOfUtcDay } from "@/lib/rentalAvailability"
+import { resolveLateFeePerDay } from "@/lib/rentalLateFees"
+import { getCustomerRate, getDurationError, getPlatformFee, priceRental } from "@/lib/rentalPricing"
+import { LEGACY_FEE_RULES, resolveFeePolicy } from "@/lib/platformFees"
+import { FEE_RULES_INCLUDE, getCurrentFeeRuleSet } from "@/lib/feeRules"
+import { claimAcceptedOffer, findCheckoutOffer, OfferError } from "@/lib/offers"
+import { ListingOffer, Prisma, RentalTransaction } from "@prisma/client"
+
+// Look up the rental created earlier with this Idempotency-Key.
+// Keys older than the replay window are released so they can be reused.
+async function findRentalByIdempotencyKey(renterId: string, idempotencyKey: string) {
+  const existing = await prisma.rentalTransaction.findUnique({
+    where: { renterId_idempotencyKey: { renterId, idempotencyKey } }
+  })
+
+  if (!existing) {
+    return null
+  }
+
+  if (!isWithinIdempotencyWindow(existing.rentedAt)) {
+    await prisma.rentalTransaction.update({
+      where: { id: existing.id },
+      data: { idempotencyKey: null }
+    })
+    return null
+  }
+
+  return existing
+}
+
+function rentalCreatedBody(rental: RentalTransaction) {
+  return {
+    message: rental.sellerApproval === 'PENDING'
+      ? 'Rental request sent to the owner for approval'
+      : 'Rental request submitted',
+    rental,
+    totalAmount: rental.totalPaid
+  }
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -13,8 +54,21 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    const idempotencyKey = getIdempotencyKey(request)
+    if (idempotencyKey === false) {
+      return NextResponse.json({ error: 'Invalid Idempotency-Key header' }, { status: 400 })
+    }
+
+    // A repeated submission returns the rental it already created
+    if (idempotencyKey) {
+      const existingRental = await findRentalByIdempotencyKey(session.user.id, idempotencyKey)
+      if (existingRental) {
+        return idempotentReplay(rentalCreatedBody(existingRental), 201)
+      }
+    }
+
     const body = await request.json()
-    const { listingId, rentalDays, paymentPin, startDate } = body
+    const { listingId, rentalDays, paymentPin, startDate, offerId } = body
 
     if (!listingId || !rentalDays || !paymentPin || !startDate) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 })
@@ -23,6 +77,12 @@ export async function POST(request: NextRequest) {
     const listing = await prisma.itemListing.findUnique({
       where: { id: listingId },
       include: {
+        category: {
+          select: { lateFeePerDay: true }
+        },
+        feeRuleSet: {
+          include: FEE_RULES_INCLUDE
+        },
         seller: {
           select: {
             id: true,
@@ -35,15 +95,31 @@ export async function POST(request: NextRequest) {
       }
     })
 
-    if (!listing || listing.status !== 'LIVE') {
+    if (!listing || listing.status !== 'LIVE' || listing.listingType !== 'RENT') {
       return NextResponse.json({ error: 'Listing not available' }, { status: 400 })
     }
 
-    const availableQuantity = listing.quantity - listing.currentlyRented
-    if (availableQuantity <= 0) {
-      return NextResponse.json({ error: 'Item unavailable' }, { status: 400 })
+    // Booked period is [start, start + rentalDays)
+    const start = parseDateKey(startDate)
+    if (!start) {
+      return NextResponse.json({ error: 'Invalid start date' }, { status: 400 })
     }
 
+    if (start < startOfUtcDay(new Date())) {
+      return NextResponse.json({ error: 'Start date cannot be in the past' }, { status: 400 })
+    }
+
+    if (!Number.isInteger(rentalDays) || rentalDays < 1) {
+      return NextResponse.json({ error: 'Rental days must be a whole number of at least 1' }, { status: 400 })
+    }
+
+    const durationError = getDurationError(listing, rentalDays)
+    if (durationError) {
+      return NextResponse.json({ error: durationError }, { status: 400 })
+    }
+
+    const end = addDays(start, rentalDays)
+
     const renter = await prisma.user.findUnique({
       where: { id: session.user.id }
     })
@@ -52,63 +128,123 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 })
     }
 
+    // An accepted offer replaces the listing's rates with the agreed daily rent
+    let offer: ListingOffer | null = null
+    if (offerId) {
+      offer = await findCheckoutOffer(offerId, renter.id, listing.id)
+    }
+    const rates = offer ? { rentPerDay: offer.amount } : listing
+
+    // Fee rules the listing was priced with; a promotion running now waives the fee
+    const currentRules = await getCurrentFeeRuleSet()
+    const feePolicy = resolveFeePolicy(listing.feeRuleSet || LEGACY_FEE_RULES, listing.categoryId, {
+      promotions: currentRules.promotions,
+      at: new Date()
+    })
+    const dailyPlatformFee = getPlatformFee(rates.rentPerDay, feePolicy)
+    const dailyRent = getCustomerRate(rates.rentPerDay, feePolicy)
+
+    // Cheapest mix of the listing's monthly, weekly and daily rates
+    const price = priceRental(rates, rentalDays, feePolicy)
     const securityDeposit = listing.securityDeposit || 0
-    const totalRent = listing.finalRent * rentalDays
-    const totalAmount = totalRent + securityDeposit
-
-    const rental = await prisma.$transaction(async (tx) => {
-      const newRental = await tx.rentalTransaction.create({
-        data: {
-          listingId: listing.id,
-          itemName: listing.itemName,
+    const totalAmount = price.total + securityDeposit
+
+    let rental: RentalTransaction
+    try {
+      rental = await prisma.$transaction(async (tx) => {
+        // Bumping the counter first locks the listing row, so concurrent
+        // bookings for the same item are checked one after another
+        await tx.itemListing.update({
+          where: { id: listing.id },
+          data: { currentlyRented: { increment: 1 } }
+        })
+
+        await assertUnitAvailable(tx, listing, start, end)
+
+        if (offer) {
+          await claimAcceptedOffer(tx, offer)
+        }
+
+        const newRental = await tx.rentalTransaction.create({
+          data: {
+            listingId: listing.id,
+            itemName: listing.itemName,
           
-          renterId: renter.id,
-          renterName: renter.name || '',
-          renterEmail: renter.email,
-          renterPhone: renter.phone || null,
-          renterRoom: renter.roomNumber || null,
+            renterId: renter.id,
+            renterName: renter.name || '',
+            renterEmail: renter.email,
+            renterPhone: renter.phone || null,
+            renterRoom: renter.roomNumber || null,
           
-          sellerId: listing.seller.id,
-          sellerName: listing.seller.name || '',
-          sellerEmail: listing.seller.email,
-          sellerPhone: listing.seller.phone || '',
-          sellerRoom: listing.seller.roomNumber || '',
+            sellerId: listing.seller.id,
+            sellerName: listing.seller.name || '',
+            sellerEmail: listing.seller.email,
+            sellerPhone: listing.seller.phone || '',
+            sellerRoom: listing.seller.roomNumber || '',
           
-          rentPerDay: listing.finalRent,
-          platformFee: listing.platformFee,
-          sellerEarning: listing.rentPerDay,
-          securityDeposit: securityDeposit,
+            rentPerDay: dailyRent,
+            platformFee: dailyPlatformFee,
+            sellerEarning: rates.rentPerDay,
+            securityDeposit: securityDeposit,
+            lateFeePerDay: resolveLateFeePerDay(listing, listing.category),
+            maxRentalDays: listing.maxRentalDays,
+
+            pricedDays: rentalDays,
+            pricedRent: price.total,
+            pricedPlatformFee: price.platformFee,
+            pricingBreakdown: price.lines,
+            feeRuleSetId: listing.feeRuleSetId,
+            feePromotion: feePolicy.promotion,
+            offerId: offer?.id ?? null,
           
-          startDate: new Date(startDate),
-          daysRented: rentalDays,
+            startDate: start,
+            endDate: end,
+            daysRented: rentalDays,
           
-          totalPaid: totalAmount,
-          dailyRate: listing.finalRent,
-          amountOwedToSeller: 0,
-          sellerPaidOut: 0,
+            totalPaid: totalAmount,
+            dailyRate: dailyRent,
+            amountOwedToSeller: 0,
+            sellerPaidOut: 0,
           
-          status: 'PENDING',
-          paymentStatus: 'PENDING',
-          paymentMethod: 'UPI',
-          paymentPin: paymentPin
-        }
-      })
+            status: 'PENDING',
+            paymentStatus: 'PENDING',
+            ...(listing.requiresSellerApproval && {
+              sellerApproval: 'PENDING',
+              sellerApprovalDueAt: getSellerApprovalDueAt()
+            }),
+            paymentMethod: 'UPI',
+            paymentPin: paymentPin,
+            idempotencyKey
+          }
+        })
 
-      await tx.itemListing.update({
-        where: { id: listing.id },
-        data: { currentlyRented: { increment: 1 } }
+        return newRental
       })
+    } catch (error) {
+      // A concurrent request with the same key created the rental first
+      if (idempotencyKey && error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const existingRental = await findRentalByIdempotencyKey(renter.id, idempotencyKey)
+        if (existingRental) {
+          return idempotentReplay(rentalCreatedBody(existingRental), 201)
+        }
+      }
+      throw error
+    }
 
-      return newRental
-    })
-
-    return NextResponse.json({
-      message: 'Rental request submitted',
-      rental,
-      totalAmount
-    }, { status: 201 })
+    return NextResponse.json(rentalCreatedBody(rental), { status: 201 })
 
   } catch (error) {
+    if (error instanceof OfferError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    if (error instanceof RentalUnavailableError) {
+      return NextResponse.json({
+        error: 'Item is fully booked for some of the selected dates',
+        unavailableDates: error.unavailableDates
+      }, { status: 409 })
+    }
+
     console.error('Error processing rental:', error)
     return NextResponse.json({ 
       error: 'Internal server error',
@@ -1,11 +1,23 @@
 // src/app/api/rentals/my/route.ts
 // ============================================
-import { NextResponse } from "next/server"
+import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { findPage, getPageParams } from "@/lib/pagination"
+import { expireSellerApprovals } from "@/lib/rentalApproval"
+import { redactRentalCodes } from "@/lib/rentalHandover"
+import { RentalStatus } from "@prisma/client"
 
-export async function GET() {
+// Statuses on each tab of the renter's page
+const RENTAL_VIEWS = {
+  active: ['ACTIVE', 'PENDING'],
+  completed: ['RETURNED', 'CANCELLED']
+} satisfies Record<string, RentalStatus[]>
+
+// GET - The renter's rentals on one tab (?view=active|completed), newest first.
+// The first page also carries the count for both tabs.
+export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
     
@@ -13,12 +25,47 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const rentals = await prisma.rentalTransaction.findMany({
-      where: { renterId: session.user.id },
-      orderBy: { rentedAt: 'desc' }
-    })
+    await expireSellerApprovals()
+
+    const { searchParams } = new URL(request.url)
+    const view = searchParams.get('view') || 'active'
+    if (!(view in RENTAL_VIEWS)) {
+      return NextResponse.json({ error: 'Unknown view' }, { status: 400 })
+    }
+    const statusesFor = (name: string) => RENTAL_VIEWS[name as keyof typeof RENTAL_VIEWS]
+
+    const pageParams = getPageParams(searchParams)
+    const page = await findPage(pageParams, args => prisma.rentalTransaction.findMany({
+      ...args,
+      where: { renterId: session.user.id, status: { in: statusesFor(view) } },
+      include: {
+        extensions: {
+          orderBy: { createdAt: 'desc' }
+        },
+        disputes: {
+          orderBy: { createdAt: 'desc' }
+        },
+        conditionReports: {
+          where: { uploadedBy: 'RENTER' }
+        }
+      },
+      orderBy: [{ rentedAt: 'desc' }, { id: 'desc' }]
+    }))
+
+    const body = {
+      ...page,
+      items: page.items.map(rental => redactRentalCodes(rental, session.user.id))
+    }
+
+    if (pageParams.cursor) {
+      return NextResponse.json(body)
+    }
+
+    const [active, completed] = await Promise.all(['active', 'completed'].map(name =>
+      prisma.rentalTransaction.count({ where: { renterId: session.user.id, status: { in: statusesFor(name) } } })
+    ))
 
-    return NextResponse.json(rentals)
+    return NextResponse.json({ ...body, counts: { active, completed } })
   } catch (error) {
     console.error('Error fetching rentals:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
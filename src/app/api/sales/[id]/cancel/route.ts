@@ -0,0 +1,53 @@
+// src/app/api/sales/[id]/cancel/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { cancelPaidSale, SaleError } from "@/lib/sales"
+
+// POST - Seller or admin cancels a paid sale that was never handed over ({ reason }).
+// The unit goes back on sale and the buyer's payment is queued for refund.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const reason = typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim() : null
+
+    const sale = await prisma.saleTransaction.findUnique({
+      where: { id }
+    })
+
+    if (!sale) {
+      return NextResponse.json({ error: 'Sale not found' }, { status: 404 })
+    }
+
+    if (sale.sellerId !== session.user.id && session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Only the seller or an admin can cancel this sale' }, { status: 403 })
+    }
+
+    const updated = await cancelPaidSale(sale, reason)
+
+    console.log('🚫 Paid sale cancelled:', { saleId: id, refundAmount: updated.refundAmount, reason })
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    if (error instanceof SaleError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    console.error('Error cancelling sale:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
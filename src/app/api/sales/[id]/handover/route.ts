@@ -0,0 +1,65 @@
+// src/app/api/sales/[id]/handover/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { confirmSaleHandover, SaleCodeIncorrectError, SaleCodeLockedError, SaleError } from "@/lib/sales"
+
+// POST - Seller enters the buyer's code when handing the item over ({ code })
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { code } = await request.json()
+
+    const sale = await prisma.saleTransaction.findUnique({
+      where: { id }
+    })
+
+    if (!sale) {
+      return NextResponse.json({ error: 'Sale not found' }, { status: 404 })
+    }
+
+    if (sale.sellerId !== session.user.id) {
+      return NextResponse.json({ error: 'Only the seller can confirm the handover' }, { status: 403 })
+    }
+
+    const updated = await confirmSaleHandover(sale, code)
+
+    console.log('🤝 Sold item handed over:', {
+      saleId: id,
+      amountOwedToSeller: updated.amountOwedToSeller
+    })
+
+    return NextResponse.json({
+      message: 'Handover confirmed',
+      handedOverAt: updated.handedOverAt,
+      amountOwedToSeller: updated.amountOwedToSeller
+    })
+  } catch (error) {
+    // Same statuses as the rental handover, so clients treat both alike
+    if (error instanceof SaleCodeLockedError) {
+      return NextResponse.json({ error: error.message }, { status: 429 })
+    }
+    if (error instanceof SaleCodeIncorrectError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof SaleError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    console.error('Error confirming sale handover:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
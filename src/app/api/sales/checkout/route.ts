@@ -0,0 +1,188 @@
+// src/app/api/sales/checkout/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { getIdempotencyKey, idempotentReplay, isWithinIdempotencyWindow } from "@/lib/idempotency"
+import { calculateSaleFee, LEGACY_FEE_RULES, resolveFeePolicy } from "@/lib/platformFees"
+import { FEE_RULES_INCLUDE, getCurrentFeeRuleSet } from "@/lib/feeRules"
+import { reserveSaleUnit, SaleError } from "@/lib/sales"
+import { claimAcceptedOffer, findCheckoutOffer, OfferError } from "@/lib/offers"
+import { ListingOffer, Prisma, SaleTransaction } from "@prisma/client"
+
+// Look up the purchase created earlier with this Idempotency-Key.
+// Keys older than the replay window are released so they can be reused.
+async function findSaleByIdempotencyKey(buyerId: string, idempotencyKey: string) {
+  const existing = await prisma.saleTransaction.findUnique({
+    where: { buyerId_idempotencyKey: { buyerId, idempotencyKey } }
+  })
+
+  if (!existing) {
+    return null
+  }
+
+  if (!isWithinIdempotencyWindow(existing.createdAt)) {
+    await prisma.saleTransaction.update({
+      where: { id: existing.id },
+      data: { idempotencyKey: null }
+    })
+    return null
+  }
+
+  return existing
+}
+
+function saleCreatedBody(sale: SaleTransaction) {
+  return {
+    message: 'Purchase submitted. We will verify your payment shortly.',
+    sale,
+    totalAmount: sale.totalPaid
+  }
+}
+
+// POST - Buy one unit of a SELL listing ({ listingId, paymentPin, offerId? })
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'CUSTOMER') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const idempotencyKey = getIdempotencyKey(request)
+    if (idempotencyKey === false) {
+      return NextResponse.json({ error: 'Invalid Idempotency-Key header' }, { status: 400 })
+    }
+
+    if (idempotencyKey) {
+      const existingSale = await findSaleByIdempotencyKey(session.user.id, idempotencyKey)
+      if (existingSale) {
+        return idempotentReplay(saleCreatedBody(existingSale), 201)
+      }
+    }
+
+    const { listingId, paymentPin, offerId } = await request.json()
+
+    if (!listingId || !paymentPin) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 })
+    }
+
+    const listing = await prisma.itemListing.findUnique({
+      where: { id: listingId },
+      include: {
+        feeRuleSet: {
+          include: FEE_RULES_INCLUDE
+        },
+        seller: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            phone: true,
+            roomNumber: true
+          }
+        }
+      }
+    })
+
+    if (!listing || listing.listingType !== 'SELL' || listing.salePrice === null) {
+      return NextResponse.json({ error: 'Listing not available' }, { status: 400 })
+    }
+
+    if (listing.sellerId === session.user.id) {
+      return NextResponse.json({ error: 'You cannot buy your own item' }, { status: 400 })
+    }
+
+    const buyer = await prisma.user.findUnique({
+      where: { id: session.user.id }
+    })
+
+    if (!buyer) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    // An accepted offer replaces the listing price
+    let offer: ListingOffer | null = null
+    if (offerId) {
+      offer = await findCheckoutOffer(offerId, buyer.id, listing.id)
+    }
+    const salePrice = offer ? offer.amount : listing.salePrice
+
+    // Fee rules the listing was priced with; a promotion running now waives the fee
+    const currentRules = await getCurrentFeeRuleSet()
+    const feePolicy = resolveFeePolicy(listing.feeRuleSet || LEGACY_FEE_RULES, listing.categoryId, {
+      promotions: currentRules.promotions,
+      at: new Date()
+    })
+    const platformFee = calculateSaleFee(salePrice, feePolicy)
+
+    let sale: SaleTransaction
+    try {
+      sale = await prisma.$transaction(async (tx) => {
+        await reserveSaleUnit(tx, listing.id)
+        if (offer) {
+          await claimAcceptedOffer(tx, offer)
+        }
+
+        return tx.saleTransaction.create({
+          data: {
+            listingId: listing.id,
+            itemName: listing.itemName,
+
+            buyerId: buyer.id,
+            buyerName: buyer.name || '',
+            buyerEmail: buyer.email,
+            buyerPhone: buyer.phone || null,
+            buyerRoom: buyer.roomNumber || null,
+
+            sellerId: listing.seller.id,
+            sellerName: listing.seller.name || '',
+            sellerEmail: listing.seller.email,
+            sellerPhone: listing.seller.phone || '',
+            sellerRoom: listing.seller.roomNumber || '',
+
+            salePrice,
+            platformFee,
+            totalPaid: salePrice + platformFee,
+            feeRuleSetId: listing.feeRuleSetId,
+            feePromotion: feePolicy.promotion,
+            offerId: offer?.id ?? null,
+
+            status: 'PENDING',
+            paymentMethod: 'UPI',
+            paymentPin,
+            idempotencyKey
+          }
+        })
+      })
+    } catch (error) {
+      // A concurrent request with the same key created the purchase first
+      if (idempotencyKey && error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const existingSale = await findSaleByIdempotencyKey(buyer.id, idempotencyKey)
+        if (existingSale) {
+          return idempotentReplay(saleCreatedBody(existingSale), 201)
+        }
+      }
+      throw error
+    }
+
+    console.log('🛍️ Purchase submitted:', {
+      saleId: sale.id,
+      listingId: listing.id,
+      totalPaid: sale.totalPaid,
+      offerId: sale.offerId
+    })
+
+    return NextResponse.json(saleCreatedBody(sale), { status: 201 })
+  } catch (error) {
+    if (error instanceof SaleError || error instanceof OfferError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+
+    console.error('Error processing purchase:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,47 @@
+// src/app/api/sales/my/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { findPage, getPageParams } from "@/lib/pagination"
+import { redactSaleCode } from "@/lib/sales"
+
+// GET - Items the user bought, or items they sold with ?role=seller.
+// The first page also carries the count for both.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'CUSTOMER') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const asSeller = searchParams.get('role') === 'seller'
+
+    const pageParams = getPageParams(searchParams)
+    const page = await findPage(pageParams, args => prisma.saleTransaction.findMany({
+      ...args,
+      where: asSeller ? { sellerId: session.user.id } : { buyerId: session.user.id },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }]
+    }))
+
+    const body = asSeller
+      ? { ...page, items: page.items.map(sale => redactSaleCode(sale, session.user.id)) }
+      : page
+
+    if (pageParams.cursor) {
+      return NextResponse.json(body)
+    }
+
+    const [bought, sold] = await Promise.all([
+      prisma.saleTransaction.count({ where: { buyerId: session.user.id } }),
+      prisma.saleTransaction.count({ where: { sellerId: session.user.id } })
+    ])
+
+    return NextResponse.json({ ...body, counts: { bought, sold } })
+  } catch (error) {
+    console.error('Error fetching sales:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
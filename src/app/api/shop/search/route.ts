@@ -0,0 +1,31 @@
+// src/app/api/shop/search/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { parseSearchParams, searchCatalog, SearchInputError } from "@/lib/search"
+
+// GET - Search products and live listings together
+// ?q=&type=PRODUCT,RENT,SELL&categoryId=&minPrice=&maxPrice=&inStock=true&sort=&limit=&offset=
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const filters = parseSearchParams(new URL(request.url).searchParams)
+    const result = await searchCatalog(filters)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof SearchInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error searching shop:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,78 @@
+// src/app/api/uploads/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { PRODUCT_IMAGE_UPLOAD } from "@/lib/productImages"
+import {
+  MAX_FILES_PER_UPLOAD,
+  processImageUpload,
+  readUploadForm,
+  UploadedImage,
+  UploadError,
+  UploadOptions,
+  UploadTooLargeError
+} from "@/lib/imageUploads"
+
+// Where each kind of upload goes, and who may make it
+const UPLOAD_PURPOSES: Record<string, UploadOptions & { adminOnly: boolean }> = {
+  listing: { folder: 'listings', adminOnly: false },
+  product: { ...PRODUCT_IMAGE_UPLOAD, adminOnly: true }
+}
+
+// POST - Upload images as multipart form data: "files" (one or more) and an
+// optional "purpose" ("listing" by default, or "product" for the shop catalog)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const formData = await readUploadForm(request, MAX_FILES_PER_UPLOAD)
+    const purpose = UPLOAD_PURPOSES[String(formData?.get('purpose') || 'listing')]
+
+    if (!purpose) {
+      return NextResponse.json({ error: 'Invalid upload purpose' }, { status: 400 })
+    }
+
+    if (purpose.adminOnly && session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const files = formData?.getAll('files').filter((entry): entry is File => entry instanceof File) ?? []
+
+    if (files.length === 0) {
+      return NextResponse.json({ error: 'No images uploaded' }, { status: 400 })
+    }
+
+    if (files.length > MAX_FILES_PER_UPLOAD) {
+      return NextResponse.json({
+        error: `Upload at most ${MAX_FILES_PER_UPLOAD} images at a time`
+      }, { status: 400 })
+    }
+
+    // One at a time, to keep memory use down on large photos
+    const images: UploadedImage[] = []
+    for (const file of files) {
+      images.push(await processImageUpload(file, purpose))
+    }
+
+    console.log('🖼️ Images uploaded:', { userId: session.user.id, count: images.length })
+
+    return NextResponse.json({ images }, { status: 201 })
+  } catch (error) {
+    if (error instanceof UploadTooLargeError) {
+      return NextResponse.json({ error: error.message }, { status: 413 })
+    }
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error uploading images:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
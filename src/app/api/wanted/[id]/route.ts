@@ -0,0 +1,82 @@
+// src/app/api/wanted/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+
+// GET - One post: live posts for anyone, any post for its requester
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const post = await prisma.wantedPost.findUnique({
+      where: { id },
+      include: {
+        category: {
+          select: { id: true, name: true }
+        }
+      }
+    })
+
+    if (!post || (post.status !== 'LIVE' && post.requesterId !== session.user.id && session.user.role !== 'ADMIN')) {
+      return NextResponse.json({ error: 'Wanted post not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(post)
+  } catch (error) {
+    console.error('Error fetching wanted post:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PATCH - Requester takes the post off the board ({ status: 'FULFILLED' | 'CLOSED' })
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { status } = await request.json()
+
+    if (status !== 'FULFILLED' && status !== 'CLOSED') {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 })
+    }
+
+    const post = await prisma.wantedPost.findUnique({
+      where: { id }
+    })
+
+    if (!post || post.requesterId !== session.user.id) {
+      return NextResponse.json({ error: 'Wanted post not found' }, { status: 404 })
+    }
+
+    const { count } = await prisma.wantedPost.updateMany({
+      where: { id, status: { in: ['PENDING', 'LIVE'] } },
+      data: { status, closedAt: new Date() }
+    })
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'This post is already closed' }, { status: 409 })
+    }
+
+    return NextResponse.json(await prisma.wantedPost.findUniqueOrThrow({ where: { id } }))
+  } catch (error) {
+    console.error('Error closing wanted post:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
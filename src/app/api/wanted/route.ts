@@ -0,0 +1,147 @@
+// src/app/api/wanted/route.ts
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { findPage, getPageParams } from "@/lib/pagination"
+import { closeLapsedWantedPosts, parseWantedPostInput, WantedPostError } from "@/lib/wanted"
+
+// GET - The wanted board (live posts), or the user's own posts with their responses (?mine=true).
+// The first page also carries the count for both.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Posts whose dates have passed must not stay on the board
+    await closeLapsedWantedPosts()
+
+    const { searchParams } = new URL(request.url)
+    const pageParams = getPageParams(searchParams)
+
+    const withCounts = async <T>(page: T) => {
+      if (pageParams.cursor) return page
+      const [board, mine] = await Promise.all([
+        prisma.wantedPost.count({ where: { status: 'LIVE' } }),
+        prisma.wantedPost.count({ where: { requesterId: session.user.id } })
+      ])
+      return { ...page, counts: { board, mine } }
+    }
+
+    if (searchParams.get('mine') === 'true') {
+      const page = await findPage(pageParams, args => prisma.wantedPost.findMany({
+        ...args,
+        where: { requesterId: session.user.id },
+        include: {
+          category: {
+            select: { id: true, name: true }
+          },
+          // Responses the requester can act on; pending ones are still being reviewed
+          listings: {
+            where: { status: { in: ['LIVE', 'SOLD'] } },
+            select: {
+              id: true,
+              itemName: true,
+              listingType: true,
+              status: true,
+              finalRent: true,
+              finalSalePrice: true,
+              sellerName: true,
+              sellerRoom: true
+            },
+            orderBy: { listedAt: 'desc' }
+          }
+        },
+        orderBy: [{ submittedAt: 'desc' }, { id: 'desc' }]
+      }))
+
+      return NextResponse.json(await withCounts(page))
+    }
+
+    const categoryId = searchParams.get('categoryId')
+
+    const page = await findPage(pageParams, args => prisma.wantedPost.findMany({
+      ...args,
+      where: {
+        status: 'LIVE',
+        ...(categoryId && { categoryId })
+      },
+      include: {
+        category: {
+          select: { id: true, name: true }
+        },
+        _count: {
+          select: {
+            listings: { where: { status: 'LIVE' } }
+          }
+        }
+      },
+      orderBy: [{ submittedAt: 'desc' }, { id: 'desc' }]
+    }))
+
+    return NextResponse.json(await withCounts(page))
+  } catch (error) {
+    console.error('Error fetching wanted posts:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Ask for an item; the post goes live once an admin approves it
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session || session.user.role !== 'CUSTOMER') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const input = parseWantedPostInput(await request.json())
+
+    const category = await prisma.category.findUnique({
+      where: { id: input.categoryId }
+    })
+
+    if (!category) {
+      return NextResponse.json({ error: 'Category not found' }, { status: 400 })
+    }
+
+    const requester = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { name: true, roomNumber: true }
+    })
+
+    if (!requester) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    const post = await prisma.wantedPost.create({
+      data: {
+        ...input,
+        requesterId: session.user.id,
+        requesterName: requester.name,
+        requesterRoom: requester.roomNumber,
+        status: 'PENDING'
+      },
+      include: {
+        category: true
+      }
+    })
+
+    console.log('📣 Wanted post submitted:', { postId: post.id, title: post.title })
+
+    return NextResponse.json(post, { status: 201 })
+  } catch (error) {
+    if (error instanceof WantedPostError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Error creating wanted post:', error)
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
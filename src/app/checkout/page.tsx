@@ -5,6 +5,8 @@ import { useState, useEffect } from 'react'
 import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import { useCart } from '@/contexts/CartContext'
+import type { StockShortage } from '@/lib/inventory'
+import CartChangesNotice from '@/components/CartChangesNotice'
 import Image from 'next/image'
 import bgimg from '../bgimg.jpg'
 
@@ -18,13 +20,15 @@ interface ShopSettings {
 }
 
 interface OrderError {
-  message: string
+  error?: string
+  message?: string
+  shortages?: StockShortage[]
 }
 
 export default function CheckoutPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
-  const { cart, clearCart, getCartTotal } = useCart()
+  const { cart, clearCart, applyStockShortages, getCartTotal, refreshCart } = useCart()
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('UPI')
   const [deliveryMethod, setDeliveryMethod] = useState<DeliveryMethod>('PICKUP')
   const [customRoomNumber, setCustomRoomNumber] = useState('')
@@ -34,6 +38,8 @@ export default function CheckoutPage() {
   const [error, setError] = useState('')
   const [shopSettings, setShopSettings] = useState<ShopSettings>({ isOpen: false })
   const [shopLoading, setShopLoading] = useState(true)
+  // One key per checkout so a double-tap or retry can't create a second order
+  const [idempotencyKey] = useState(() => crypto.randomUUID())
 
   // Auto-switch to UPI if delivery is selected and cash was chosen
   useEffect(() => {
@@ -49,6 +55,11 @@ export default function CheckoutPage() {
     }
   }, [status, router])
 
+  // Pick up current prices and stock before the order is placed
+  useEffect(() => {
+    refreshCart()
+  }, [refreshCart])
+
   useEffect(() => {
     if (status === 'loading') return
     if (!session) return
@@ -127,13 +138,26 @@ export default function CheckoutPage() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Idempotency-Key': idempotencyKey
         },
         body: JSON.stringify(orderData)
       })
 
       if (!response.ok) {
         const errorData: OrderError = await response.json()
-        throw new Error(errorData.message || 'Failed to place order')
+
+        // Stock ran out while checking out - trim the cart to what is left
+        if (response.status === 409 && errorData.shortages) {
+          applyStockShortages(errorData.shortages)
+          const details = errorData.shortages
+            .map(s => s.available > 0
+              ? `${s.productName}: only ${s.available} left (${s.shortBy} short)`
+              : `${s.productName}: out of stock`)
+            .join('; ')
+          throw new Error(`Your cart was updated to match available stock. ${details}`)
+        }
+
+        throw new Error(errorData.error || errorData.message || 'Failed to place order')
       }
 
       const order = await response.json()
@@ -219,6 +243,7 @@ export default function CheckoutPage() {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
+          <CartChangesNotice />
           <div className="text-6xl mb-4">🛒</div>
           <h2 className="text-2xl font-bold text-gray-900 mb-4">Your cart is empty</h2>
           <p className="text-gray-600 mb-6">Add some items to your cart before checking out</p>
@@ -256,6 +281,8 @@ export default function CheckoutPage() {
 
         {adminNotice}
 
+        <CartChangesNotice />
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* Order Summary */}
           <div className="bg-white rounded-lg shadow p-6">
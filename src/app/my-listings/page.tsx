@@ -1,19 +1,45 @@
 // FILE 3: src/app/my-listings/page.tsx
-// FIXED: Shows correct seller earnings (80%)
+// FIXED: Shows correct seller earnings
 // ============================================
 'use client'
 
 import { useSession } from 'next-auth/react'
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
+import { useInfiniteList } from '@/hooks/useInfiniteList'
+import RentalDisputePanel, { RentalDispute } from '@/components/RentalDisputePanel'
+import ConditionReportForm, { ConditionReport } from '@/components/ConditionReportForm'
+
+interface ListingRental {
+  id: string
+  renterName: string
+  status: string
+  startDate: string
+  endDate: string | null
+  daysRented: number
+  sellerApproval: 'NOT_REQUIRED' | 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'EXPIRED'
+  sellerApprovalDueAt: string | null
+  returnedAt: string | null
+  handedOverAt: string | null
+  returnCode: string | null
+  awaitingHandover: boolean
+  disputes: RentalDispute[]
+  conditionReports: ConditionReport[]
+}
 
 interface Listing {
   id: string
+  listingType: string
   itemName: string
   description: string
   rentPerDay: number
   platformFee: number
   finalRent: number
+  salePrice: number | null
+  saleFee: number | null
+  finalSalePrice: number | null
+  quantitySold: number
+  feeRuleSet: { version: number } | null
   securityDeposit: number | null
   quantity: number
   currentlyRented: number
@@ -25,51 +51,90 @@ interface Listing {
     id: string
     name: string
   }
+  rentalTransactions: ListingRental[]
+}
+
+interface ListingStats {
+  total: number
+  pending: number
+  live: number
+  rejected: number
+  currentlyRented: number
 }
 
 export default function MyListingsPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
-  const [listings, setListings] = useState<Listing[]>([])
-  const [loading, setLoading] = useState(true)
-  const [stats, setStats] = useState({
-    total: 0,
-    pending: 0,
-    live: 0,
-    rejected: 0,
-    currentlyRented: 0
-  })
+  const [handoverCodes, setHandoverCodes] = useState<Record<string, string>>({})
+  const [confirmingHandover, setConfirmingHandover] = useState<string | null>(null)
+  const [respondingId, setRespondingId] = useState<string | null>(null)
+  const [decliningId, setDecliningId] = useState<string | null>(null)
+  const [declineReason, setDeclineReason] = useState('')
+
+  // Newest first; the stats cover every listing, not just the pages loaded
+  const {
+    items: listings,
+    meta,
+    loading,
+    loadingMore,
+    hasMore,
+    reload: fetchListings,
+    sentinelRef
+  } = useInfiniteList<Listing, { stats: ListingStats }>(session ? '/api/listings/my' : null)
+  const stats = meta?.stats || { total: 0, pending: 0, live: 0, rejected: 0, currentlyRented: 0 }
 
   useEffect(() => {
     if (status === 'unauthenticated') {
       router.push('/auth/signin')
-      return
     }
-    if (session) {
+  }, [status, router])
+
+  const confirmHandover = async (rentalId: string) => {
+    setConfirmingHandover(rentalId)
+    try {
+      const response = await fetch(`/api/rentals/${rentalId}/handover`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: handoverCodes[rentalId] || '' })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        alert(data.error || 'Failed to confirm handover')
+        return
+      }
+
+      alert('Handover confirmed! Rental days start today.')
       fetchListings()
+    } catch (error) {
+      console.error('Error confirming handover:', error)
+    } finally {
+      setConfirmingHandover(null)
     }
-  }, [status, session, router])
+  }
 
-  const fetchListings = async () => {
+  const respondToRequest = async (rentalId: string, decision: 'ACCEPT' | 'DECLINE') => {
+    setRespondingId(rentalId)
     try {
-      const response = await fetch('/api/listings/my')
-      if (response.ok) {
-        const data: Listing[] = await response.json()
-        setListings(data)
-        
-        const stats = {
-          total: data.length,
-          pending: data.filter(l => l.status === 'PENDING').length,
-          live: data.filter(l => l.status === 'LIVE').length,
-          rejected: data.filter(l => l.status === 'REJECTED').length,
-          currentlyRented: data.reduce((sum, l) => sum + (l.currentlyRented || 0), 0)
-        }
-        setStats(stats)
+      const response = await fetch(`/api/rentals/${rentalId}/respond`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, reason: declineReason })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        alert(data.error || 'Failed to respond to request')
+      } else {
+        alert(data.message)
+        setDecliningId(null)
+        setDeclineReason('')
       }
+      fetchListings()
     } catch (error) {
-      console.error('Error fetching listings:', error)
+      console.error('Error responding to request:', error)
     } finally {
-      setLoading(false)
+      setRespondingId(null)
     }
   }
 
@@ -81,6 +146,8 @@ export default function MyListingsPage() {
         return 'bg-green-100 text-green-800 border-green-200'
       case 'REJECTED':
         return 'bg-red-100 text-red-800 border-red-200'
+      case 'SOLD':
+        return 'bg-amber-100 text-amber-800 border-amber-200'
       default:
         return 'bg-gray-100 text-gray-800 border-gray-200'
     }
@@ -94,6 +161,8 @@ export default function MyListingsPage() {
         return '✅'
       case 'REJECTED':
         return '❌'
+      case 'SOLD':
+        return '💰'
       default:
         return '📋'
     }
@@ -209,6 +278,11 @@ export default function MyListingsPage() {
                         <span className={`px-3 py-1 rounded-full text-xs font-medium border ${getStatusColor(listing.status)}`}>
                           {getStatusIcon(listing.status)} {listing.status}
                         </span>
+                        {listing.listingType === 'SELL' && (
+                          <span className="px-3 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800 border-amber-200">
+                            💰 For Sale · {listing.quantitySold}/{listing.quantity} Sold
+                          </span>
+                        )}
                         {listing.currentlyRented > 0 && (
                           <span className="px-3 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800 border-blue-200">
                             🤝 {listing.currentlyRented}/{listing.quantity} Rented
@@ -220,13 +294,29 @@ export default function MyListingsPage() {
                       </p>
                     </div>
                     
-                    {/* ✅ CORRECT: Show 80% earnings */}
+                    {/* ✅ CORRECT: Owner earns their own rate, the fee is added on top */}
+                    {listing.listingType === 'SELL' ? (
+                      <div className="text-right">
+                        <div className="text-xl font-bold text-green-600">
+                          ₹{listing.salePrice}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          You earn
+                        </div>
+                        <div className="text-xs text-purple-600 mt-1">
+                          Buyer pays: ₹{listing.finalSalePrice}
+                        </div>
+                        <div className="text-xs text-orange-600">
+                          Platform fee: ₹{listing.saleFee}
+                        </div>
+                      </div>
+                    ) : (
                     <div className="text-right">
                       <div className="text-xl font-bold text-green-600">
                         ₹{listing.rentPerDay}/day
                       </div>
                       <div className="text-xs text-gray-500">
-                        You earn (80%)
+                        You earn
                       </div>
                       <div className="text-xs text-purple-600 mt-1">
                         Customer pays: ₹{listing.finalRent}
@@ -235,6 +325,7 @@ export default function MyListingsPage() {
                         Platform fee: ₹{listing.platformFee}
                       </div>
                     </div>
+                    )}
                   </div>
 
                   {/* Description */}
@@ -244,15 +335,22 @@ export default function MyListingsPage() {
 
                   {/* Details Grid */}
                   <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 text-sm mb-4">
-                    <div>
-                      <span className="text-gray-500">Security Deposit:</span>
-                      <p className="font-medium text-gray-900">
-                        {listing.securityDeposit ? `₹${listing.securityDeposit}` : 'None'}
-                      </p>
-                    </div>
+                    {listing.listingType === 'RENT' && (
+                      <div>
+                        <span className="text-gray-500">Security Deposit:</span>
+                        <p className="font-medium text-gray-900">
+                          {listing.securityDeposit ? `₹${listing.securityDeposit}` : 'None'}
+                        </p>
+                      </div>
+                    )}
                     <div>
                       <span className="text-gray-500">Platform Fee:</span>
-                      <p className="font-medium text-orange-900">₹{listing.platformFee}/day (20%)</p>
+                      <p className="font-medium text-orange-900">
+                        {listing.listingType === 'SELL' ? `₹${listing.saleFee}` : `₹${listing.platformFee}/day`}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {listing.feeRuleSet ? `Fee rules v${listing.feeRuleSet.version}` : 'Original 20% fee'}
+                      </p>
                     </div>
                     <div>
                       <span className="text-gray-500">Submitted:</span>
@@ -274,10 +372,26 @@ export default function MyListingsPage() {
                     </div>
                   )}
 
-                  {listing.status === 'LIVE' && listing.currentlyRented === 0 && (
+                  {listing.listingType === 'SELL' && listing.status === 'LIVE' && (
+                    <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+                      <p className="text-sm text-green-800">
+                        ✅ Your item is on sale! You will earn ₹{listing.salePrice} for each one sold. Sales and pickup codes are under My Purchases → Sold.
+                      </p>
+                    </div>
+                  )}
+
+                  {listing.status === 'SOLD' && (
+                    <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+                      <p className="text-sm text-amber-800">
+                        💰 Sold out. Hand the item over from My Purchases → Sold once the buyer&apos;s payment is verified.
+                      </p>
+                    </div>
+                  )}
+
+                  {listing.listingType === 'RENT' && listing.status === 'LIVE' && listing.currentlyRented === 0 && (
                     <div className="bg-green-50 border border-green-200 rounded-lg p-3">
                       <p className="text-sm text-green-800">
-                        ✅ Your listing is live! Customers can now rent this item. You will earn 80% of rent.
+                        ✅ Your listing is live! Customers can now rent this item. You will earn ₹{listing.rentPerDay}/day.
                       </p>
                     </div>
                   )}
@@ -286,11 +400,141 @@ export default function MyListingsPage() {
                     <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
                       <p className="text-sm text-blue-800">
                         🤝 {listing.currentlyRented} of {listing.quantity} items currently rented. 
-                        You will receive 80% of rent (₹{listing.rentPerDay}/day) after return.
+                        You will receive your rent (₹{listing.rentPerDay}/day) after return.
                       </p>
                     </div>
                   )}
 
+                  {/* Incoming requests and recent rentals - owner answers requests and reports damage here */}
+                  {listing.rentalTransactions.length > 0 && (
+                    <div className="border-t mt-4 pt-4 space-y-3">
+                      <h4 className="font-semibold text-sm text-gray-900">Rental Requests & Recent Rentals</h4>
+                      {listing.rentalTransactions.map(rental => rental.sellerApproval === 'PENDING' ? (
+                        <div key={rental.id} className="bg-indigo-50 border border-indigo-200 rounded-lg p-3">
+                          <p className="text-sm text-gray-700 mb-1">
+                            📥 <span className="font-medium text-gray-900">{rental.renterName}</span> wants to rent this for {rental.daysRented} day(s) from{' '}
+                            {new Date(rental.startDate).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })}
+                          </p>
+                          {rental.sellerApprovalDueAt && (
+                            <p className="text-xs text-gray-500 mb-2">
+                              Answer by {new Date(rental.sellerApprovalDueAt).toLocaleString('en-IN', {
+                                day: 'numeric',
+                                month: 'short',
+                                hour: '2-digit',
+                                minute: '2-digit'
+                              })} or it is declined automatically
+                            </p>
+                          )}
+                          {decliningId === rental.id ? (
+                            <div className="flex gap-2">
+                              <input
+                                type="text"
+                                value={declineReason}
+                                onChange={(e) => setDeclineReason(e.target.value)}
+                                placeholder="Reason (e.g. away that week)"
+                                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-900 text-sm"
+                              />
+                              <button
+                                onClick={() => respondToRequest(rental.id, 'DECLINE')}
+                                disabled={respondingId === rental.id || !declineReason.trim()}
+                                className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 disabled:opacity-50 text-sm font-medium"
+                              >
+                                Decline
+                              </button>
+                              <button
+                                onClick={() => setDecliningId(null)}
+                                className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 text-sm"
+                              >
+                                Cancel
+                              </button>
+                            </div>
+                          ) : (
+                            <div className="flex gap-2">
+                              <button
+                                onClick={() => respondToRequest(rental.id, 'ACCEPT')}
+                                disabled={respondingId === rental.id}
+                                className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm font-medium"
+                              >
+                                ✅ Accept
+                              </button>
+                              <button
+                                onClick={() => {
+                                  setDecliningId(rental.id)
+                                  setDeclineReason('')
+                                }}
+                                className="bg-white border border-red-300 text-red-700 px-4 py-2 rounded-lg hover:bg-red-50 text-sm font-medium"
+                              >
+                                ❌ Decline
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                      ) : (
+                        <div key={rental.id} className="bg-gray-50 rounded-lg p-3">
+                          <p className="text-sm text-gray-700 mb-2">
+                            <span className="font-medium text-gray-900">{rental.renterName}</span>
+                            {' · '}
+                            {rental.status === 'RETURNED' && rental.returnedAt
+                              ? `Returned ${new Date(rental.returnedAt).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })}`
+                              : rental.awaitingHandover
+                                ? `Pickup from ${new Date(rental.startDate).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })}`
+                                : `Rented since ${new Date(rental.startDate).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })}`}
+                          </p>
+                          {rental.awaitingHandover && (
+                            <div className="flex gap-2 mb-2">
+                              <input
+                                type="text"
+                                inputMode="numeric"
+                                maxLength={6}
+                                value={handoverCodes[rental.id] || ''}
+                                onChange={(e) => setHandoverCodes({ ...handoverCodes, [rental.id]: e.target.value.replace(/\D/g, '') })}
+                                placeholder="Renter's 6-digit handover code"
+                                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-900 font-mono text-sm"
+                              />
+                              <button
+                                onClick={() => confirmHandover(rental.id)}
+                                disabled={confirmingHandover === rental.id || (handoverCodes[rental.id] || '').length !== 6}
+                                className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm font-medium"
+                              >
+                                {confirmingHandover === rental.id ? 'Confirming...' : '🤝 Confirm Handover'}
+                              </button>
+                            </div>
+                          )}
+                          {rental.status === 'ACTIVE' && rental.returnCode && (
+                            <p className="text-sm text-gray-700 mb-2">
+                              Return code: <span className="font-mono font-bold text-blue-900 tracking-widest">{rental.returnCode}</span>
+                              <span className="text-xs text-gray-500"> (show it to the renter when you get the item back)</span>
+                            </p>
+                          )}
+                          <div className="flex flex-col gap-2 mb-2">
+                            {rental.status === 'ACTIVE' && (
+                              <ConditionReportForm
+                                rentalId={rental.id}
+                                stage="HANDOVER"
+                                existing={rental.conditionReports.find(r => r.stage === 'HANDOVER')}
+                                onSaved={fetchListings}
+                              />
+                            )}
+                            {!rental.awaitingHandover && (
+                              <ConditionReportForm
+                                rentalId={rental.id}
+                                stage="RETURN"
+                                existing={rental.conditionReports.find(r => r.stage === 'RETURN')}
+                                onSaved={fetchListings}
+                              />
+                            )}
+                          </div>
+                          <RentalDisputePanel
+                            rentalId={rental.id}
+                            disputes={rental.disputes}
+                            canOpen
+                            onChange={fetchListings}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
                   {listing.status === 'REJECTED' && listing.rejectionReason && (
                     <div className="bg-red-50 border border-red-200 rounded-lg p-3">
                       <p className="text-sm font-medium text-red-800 mb-1">
@@ -301,9 +545,25 @@ export default function MyListingsPage() {
                       </p>
                     </div>
                   )}
+
+                  {listing.status !== 'SOLD' && (
+                    <div className="flex justify-end mt-4">
+                      <button
+                        onClick={() => router.push(`/sell-rent/new?listingId=${listing.id}`)}
+                        className="text-sm bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 font-medium"
+                      >
+                        ✏️ {listing.status === 'REJECTED' ? 'Edit & Resubmit' : 'Edit Listing'}
+                      </button>
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
+            {hasMore && (
+              <div ref={sentinelRef} className="text-center py-4 text-sm text-gray-500">
+                {loadingMore ? 'Loading more listings...' : ''}
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,313 @@
+// FILE: src/app/my-purchases/page.tsx
+// Items the customer bought from other students, and items they sold
+'use client'
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useInfiniteList } from '@/hooks/useInfiniteList'
+
+interface Sale {
+  id: string
+  itemName: string
+  buyerName: string
+  buyerRoom: string | null
+  buyerPhone: string | null
+  sellerName: string
+  sellerRoom: string
+  sellerPhone: string
+  salePrice: number
+  platformFee: number
+  totalPaid: number
+  feePromotion: string | null
+  status: string
+  handoverCode: string | null
+  handedOverAt: string | null
+  amountOwedToSeller: number
+  sellerPaidOut: number
+  cancellationReason: string | null
+  refundAmount: number
+  refundedAt: string | null
+  createdAt: string
+}
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'PENDING':
+      return 'bg-yellow-100 text-yellow-800'
+    case 'PAID':
+      return 'bg-blue-100 text-blue-800'
+    case 'COMPLETED':
+      return 'bg-green-100 text-green-800'
+    default:
+      return 'bg-gray-100 text-gray-800'
+  }
+}
+
+export default function MyPurchasesPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [activeTab, setActiveTab] = useState<'bought' | 'sold'>('bought')
+  const [handoverCodes, setHandoverCodes] = useState<Record<string, string>>({})
+  const [confirmingHandover, setConfirmingHandover] = useState<string | null>(null)
+  const [cancelling, setCancelling] = useState<string | null>(null)
+
+  // Each tab pages through its own list; the first page carries both counts
+  const {
+    items: shown,
+    meta,
+    loading,
+    loadingMore,
+    hasMore,
+    reload: fetchSales,
+    sentinelRef
+  } = useInfiniteList<Sale, { counts: Record<'bought' | 'sold', number> }>(
+    session ? `/api/sales/my${activeTab === 'sold' ? '?role=seller' : ''}` : null
+  )
+  const counts = meta?.counts || { bought: 0, sold: 0 }
+
+  useEffect(() => {
+    if (status === 'loading') return
+    if (!session) {
+      router.push('/auth/signin')
+    }
+  }, [session, status, router])
+
+  const confirmHandover = async (saleId: string) => {
+    setConfirmingHandover(saleId)
+    try {
+      const response = await fetch(`/api/sales/${saleId}/handover`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: handoverCodes[saleId] })
+      })
+
+      const data = await response.json()
+      if (response.ok) {
+        alert(`Handover confirmed. You will be paid ₹${data.amountOwedToSeller}.`)
+        setHandoverCodes({ ...handoverCodes, [saleId]: '' })
+        fetchSales()
+      } else {
+        alert(data.error || 'Failed to confirm handover')
+      }
+    } catch (error) {
+      console.error('Error confirming handover:', error)
+      alert('Failed to confirm handover')
+    } finally {
+      setConfirmingHandover(null)
+    }
+  }
+
+  // Seller can't hand the item over after all: the buyer gets their money back
+  const cancelSale = async (sale: Sale) => {
+    const reason = prompt(`Cancel the sale of ${sale.itemName}? ${sale.buyerName} will be refunded. Reason:`)
+    if (reason === null) return
+
+    setCancelling(sale.id)
+    try {
+      const response = await fetch(`/api/sales/${sale.id}/cancel`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason })
+      })
+
+      if (response.ok) {
+        fetchSales()
+      } else {
+        const data = await response.json()
+        alert(data.error || 'Failed to cancel sale')
+      }
+    } catch (error) {
+      console.error('Error cancelling sale:', error)
+      alert('Failed to cancel sale')
+    } finally {
+      setCancelling(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <nav className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <button
+                onClick={() => router.push('/shop')}
+                className="text-blue-600 hover:text-blue-800 mr-4 font-medium"
+              >
+                ← Back to Shop
+              </button>
+              <h1 className="text-xl font-semibold text-gray-900">My Purchases</h1>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Tabs */}
+        <div className="bg-white rounded-lg shadow mb-6">
+          <div className="flex border-b">
+            <button
+              onClick={() => setActiveTab('bought')}
+              className={`px-6 py-3 font-medium ${activeTab === 'bought'
+                  ? 'border-b-2 border-amber-600 text-amber-600'
+                  : 'text-gray-600 hover:text-gray-900'
+                }`}
+            >
+              Bought ({counts.bought})
+            </button>
+            <button
+              onClick={() => setActiveTab('sold')}
+              className={`px-6 py-3 font-medium ${activeTab === 'sold'
+                  ? 'border-b-2 border-amber-600 text-amber-600'
+                  : 'text-gray-600 hover:text-gray-900'
+                }`}
+            >
+              Sold ({counts.sold})
+            </button>
+          </div>
+        </div>
+
+        {shown.length === 0 ? (
+          <div className="bg-white rounded-lg shadow p-12 text-center">
+            <div className="text-6xl mb-4">💰</div>
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">
+              {activeTab === 'bought' ? 'Nothing bought yet' : 'Nothing sold yet'}
+            </h3>
+            <button
+              onClick={() => router.push(activeTab === 'bought' ? '/shop' : '/sell-rent/new')}
+              className="mt-4 bg-amber-600 text-white px-6 py-3 rounded-lg hover:bg-amber-700 font-medium"
+            >
+              {activeTab === 'bought' ? 'Browse Items for Sale' : 'Sell an Item'}
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {shown.map(sale => (
+              <div key={sale.id} className="bg-white rounded-lg shadow border p-6">
+                <div className="flex justify-between items-start mb-4">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900">{sale.itemName}</h3>
+                    <div className="flex gap-2 mt-2">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(sale.status)}`}>
+                        {sale.status}
+                      </span>
+                      <span className="text-xs text-gray-500">
+                        {new Date(sale.createdAt).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })}
+                      </span>
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className="text-2xl font-bold text-amber-600">
+                      ₹{activeTab === 'bought' ? sale.totalPaid : sale.salePrice}
+                    </div>
+                    <div className="text-sm text-gray-500">
+                      {activeTab === 'bought' ? 'Paid' : 'You earn'}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="text-sm text-gray-700 mb-4">
+                  {activeTab === 'bought' ? (
+                    <p>Seller: {sale.sellerName} · Room {sale.sellerRoom} · {sale.sellerPhone}</p>
+                  ) : (
+                    <p>Buyer: {sale.buyerName} · Room {sale.buyerRoom || 'N/A'} · {sale.buyerPhone || 'N/A'}</p>
+                  )}
+                  {activeTab === 'bought' && sale.feePromotion && (
+                    <p className="text-xs text-green-700">🎉 {sale.feePromotion}: no platform fee</p>
+                  )}
+                </div>
+
+                {sale.status === 'PENDING' && (
+                  <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+                    ⏳ Waiting for admin to verify the payment
+                  </div>
+                )}
+
+                {/* Buyer shows the code at pickup; seller enters it */}
+                {sale.status === 'PAID' && activeTab === 'bought' && (
+                  <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-center">
+                    <p className="text-sm text-gray-700">Show this code to the seller when you pick up the item</p>
+                    <p className="text-3xl font-mono font-bold tracking-widest text-green-900 mt-2">{sale.handoverCode}</p>
+                  </div>
+                )}
+
+                {sale.status === 'PAID' && activeTab === 'sold' && (
+                  <div className="bg-gray-50 border rounded-lg p-4">
+                    <p className="text-sm text-gray-700 mb-2">
+                      Payment verified. Enter the buyer&apos;s code when you hand the item over.
+                    </p>
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        inputMode="numeric"
+                        maxLength={6}
+                        value={handoverCodes[sale.id] || ''}
+                        onChange={(e) => setHandoverCodes({ ...handoverCodes, [sale.id]: e.target.value.replace(/\D/g, '') })}
+                        placeholder="6-digit pickup code"
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-900 font-mono"
+                      />
+                      <button
+                        onClick={() => confirmHandover(sale.id)}
+                        disabled={confirmingHandover === sale.id || (handoverCodes[sale.id] || '').length !== 6}
+                        className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm font-medium"
+                      >
+                        {confirmingHandover === sale.id ? 'Confirming...' : '🤝 Confirm Handover'}
+                      </button>
+                    </div>
+                    <button
+                      onClick={() => cancelSale(sale)}
+                      disabled={cancelling === sale.id}
+                      className="mt-2 text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                    >
+                      Can&apos;t hand it over? Cancel the sale
+                    </button>
+                  </div>
+                )}
+
+                {sale.status === 'COMPLETED' && (
+                  <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-800">
+                    ✅ Handed over {sale.handedOverAt && new Date(sale.handedOverAt).toLocaleDateString('en-IN')}
+                    {activeTab === 'sold' && (
+                      <span>
+                        {' '}· Paid to you: ₹{sale.sellerPaidOut} of ₹{sale.amountOwedToSeller}
+                      </span>
+                    )}
+                  </div>
+                )}
+
+                {sale.status === 'CANCELLED' && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">
+                    ❌ Cancelled{sale.cancellationReason && `: ${sale.cancellationReason}`}
+                    {activeTab === 'bought' && sale.refundAmount > 0 && (
+                      <span>
+                        {' '}· {sale.refundedAt ? `₹${sale.refundAmount} refunded` : `Refund of ₹${sale.refundAmount} on its way`}
+                      </span>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+            {hasMore && (
+              <div ref={sentinelRef} className="text-center py-4 text-sm text-gray-500">
+                {loadingMore ? 'Loading more...' : ''}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -4,6 +4,34 @@
 import { useState, useEffect } from 'react'
 import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
+import { useInfiniteList } from '@/hooks/useInfiniteList'
+import RentalDisputePanel, { RentalDispute } from '@/components/RentalDisputePanel'
+import ConditionReportForm, { ConditionReport } from '@/components/ConditionReportForm'
+import { describePricingLine, getRentCharged, PricingLine } from '@/lib/rentalPricing'
+
+interface RentalExtension {
+  id: string
+  extraDays: number
+  amount: number
+  endDate: string
+  status: string
+  adminNotes: string | null
+}
+
+interface ExtensionQuote {
+  extraDays: number
+  total: number
+  lines: PricingLine[]
+}
+
+interface CancellationQuote {
+  stage: 'BEFORE_APPROVAL' | 'AFTER_APPROVAL'
+  refundPercent: number
+  rentPaid: number
+  rentRefund: number
+  cancellationFee: number
+  depositRefund: number
+}
 
 interface Rental {
   id: string
@@ -21,36 +49,201 @@ interface Rental {
   sellerRoom: string
   sellerPhone: string
   sellerId: string
+  dailyRate: number
+  pricedDays: number
+  pricedRent: number
+  pricedPlatformFee: number
+  pricingBreakdown: PricingLine[] | null
+  endDate: string | null
+  lateFeePerDay: number
+  lateFee: number
+  lateFeeFromDeposit: number
+  lateFeeDue: number
+  depositStatus: string
+  depositWithheld: number
+  depositWithheldReason: string | null
+  depositRefunded: number
+  depositRefundMethod: string | null
+  depositRefundReference: string | null
+  depositRefundedAt: string | null
+  handoverCode: string | null
+  handedOverAt: string | null
+  sellerApproval: 'NOT_REQUIRED' | 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'EXPIRED'
+  sellerApprovalDueAt: string | null
+  sellerDeclineReason: string | null
+  cancellationReason: string | null
+  cancellationFee: number
+  cancelledAt: string | null
+  refundAmount: number
+  refundReference: string | null
+  refundedAt: string | null
+  extensions: RentalExtension[]
+  disputes: RentalDispute[]
+  conditionReports: ConditionReport[]
+}
+
+const DEPOSIT_STATUS_LABELS: Record<string, string> = {
+  NONE: 'Not collected yet',
+  HELD: 'Held until return',
+  REFUND_DUE: 'Refund being processed',
+  REFUNDED: 'Refunded',
+  PARTIALLY_REFUNDED: 'Partly refunded',
+  WITHHELD: 'Withheld'
 }
 
 export default function MyRentalsPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
-  const [rentals, setRentals] = useState<Rental[]>([])
-  const [loading, setLoading] = useState(true)
   const [activeTab, setActiveTab] = useState<'active' | 'completed'>('active')
+  const [extendingId, setExtendingId] = useState<string | null>(null)
+  const [extraDays, setExtraDays] = useState(1)
+  const [extensionPin, setExtensionPin] = useState('')
+  const [extensionQuote, setExtensionQuote] = useState<ExtensionQuote | null>(null)
+  const [submittingExtension, setSubmittingExtension] = useState(false)
+  const [returnCodes, setReturnCodes] = useState<Record<string, string>>({})
+  const [confirmingReturn, setConfirmingReturn] = useState<string | null>(null)
+  const [cancellingId, setCancellingId] = useState<string | null>(null)
+  const [cancelQuote, setCancelQuote] = useState<CancellationQuote | null>(null)
+  const [cancelReason, setCancelReason] = useState('')
+  const [submittingCancel, setSubmittingCancel] = useState(false)
+
+  // Each tab pages through its own rentals; the first page carries both tab counts
+  const {
+    items: rentals,
+    meta,
+    loading,
+    loadingMore,
+    hasMore,
+    reload: fetchRentals,
+    sentinelRef
+  } = useInfiniteList<Rental, { counts: Record<'active' | 'completed', number> }>(
+    session ? `/api/rentals/my?view=${activeTab}` : null
+  )
+  const counts = meta?.counts || { active: 0, completed: 0 }
 
   useEffect(() => {
     if (status === 'unauthenticated') {
       router.push('/auth/signin')
-      return
     }
-    if (session) {
+  }, [status, router])
+
+  // Extra days are priced with the same monthly and weekly rates as the booking
+  useEffect(() => {
+    setExtensionQuote(null)
+    if (!extendingId) return
+
+    // A quote for days the renter has since changed is dropped
+    let current = true
+    const fetchQuote = async () => {
+      try {
+        const response = await fetch(`/api/rentals/${extendingId}/extend/quote?extraDays=${extraDays}`)
+        const data = await response.json()
+        if (current && response.ok) setExtensionQuote(data)
+      } catch (error) {
+        console.error('Error fetching extension quote:', error)
+      }
+    }
+
+    fetchQuote()
+    return () => { current = false }
+  }, [extendingId, extraDays])
+
+  const requestExtension = async (rentalId: string) => {
+    setSubmittingExtension(true)
+    try {
+      const response = await fetch(`/api/rentals/${rentalId}/extend`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ extraDays, paymentPin: extensionPin })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        alert(data.unavailableDates
+          ? `${data.error}: ${data.unavailableDates.join(', ')}`
+          : data.error || 'Failed to request extension')
+        return
+      }
+
+      alert('Extension requested! Admin will verify your payment.')
+      setExtendingId(null)
+      setExtraDays(1)
+      setExtensionPin('')
+      fetchRentals()
+    } catch (error) {
+      console.error('Error requesting extension:', error)
+    } finally {
+      setSubmittingExtension(false)
+    }
+  }
+
+  const confirmReturn = async (rentalId: string) => {
+    setConfirmingReturn(rentalId)
+    try {
+      const response = await fetch(`/api/rentals/${rentalId}/return`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: returnCodes[rentalId] || '' })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        alert(data.error || 'Failed to confirm return')
+        return
+      }
+
+      alert(data.lateCharge?.lateFee > 0
+        ? `Return confirmed. Late fee of ₹${data.lateCharge.lateFee.toFixed(2)} was charged.`
+        : 'Return confirmed. Thanks!')
       fetchRentals()
+    } catch (error) {
+      console.error('Error confirming return:', error)
+    } finally {
+      setConfirmingReturn(null)
     }
-  }, [status, session, router])
+  }
 
-  const fetchRentals = async () => {
+  const startCancel = async (rentalId: string) => {
     try {
-      const response = await fetch('/api/rentals/my')
-      if (response.ok) {
-        const data = await response.json()
-        setRentals(data)
+      const response = await fetch(`/api/rentals/${rentalId}/cancel`)
+      const data = await response.json()
+
+      if (!response.ok || !data.cancellable) {
+        alert(data.error || 'This rental can no longer be cancelled')
+        return
       }
+
+      setCancelQuote(data.quote)
+      setCancelReason('')
+      setCancellingId(rentalId)
     } catch (error) {
-      console.error('Error fetching rentals:', error)
+      console.error('Error fetching cancellation quote:', error)
+    }
+  }
+
+  const cancelRental = async (rentalId: string) => {
+    setSubmittingCancel(true)
+    try {
+      const response = await fetch(`/api/rentals/${rentalId}/cancel`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: cancelReason })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        alert(data.error || 'Failed to cancel rental')
+        return
+      }
+
+      alert('Rental cancelled. Your refund will be processed soon.')
+      setCancellingId(null)
+      setCancelQuote(null)
+      fetchRentals()
+    } catch (error) {
+      console.error('Error cancelling rental:', error)
     } finally {
-      setLoading(false)
+      setSubmittingCancel(false)
     }
   }
 
@@ -64,15 +257,24 @@ export default function MyRentalsPage() {
     return Math.max(0, diffDays)
   }
 
-  const calculateReturnDate = (startDate: string, daysRented: number) => {
+  const calculateReturnDate = (startDate: string, daysRented: number, endDate: string | null = null) => {
+    if (endDate) return new Date(endDate)
     const start = new Date(startDate)
     const returnDate = new Date(start)
     returnDate.setDate(start.getDate() + daysRented)
     return returnDate
   }
 
-  const activeRentals = rentals.filter(r => r.status === 'ACTIVE' || r.status === 'PENDING')
-  const completedRentals = rentals.filter(r => r.status === 'RETURNED' || r.status === 'CANCELLED')
+  // Whole UTC days past the return date; returning on the day itself is on time
+  const calculateDaysLate = (returnDate: Date) => {
+    const dueDay = Date.UTC(returnDate.getUTCFullYear(), returnDate.getUTCMonth(), returnDate.getUTCDate())
+    const now = new Date()
+    const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+    return Math.max(0, Math.round((today - dueDay) / (1000 * 60 * 60 * 24)))
+  }
+
+  const activeRentals = activeTab === 'active' ? rentals : []
+  const completedRentals = activeTab === 'completed' ? rentals : []
 
   if (loading) {
     return (
@@ -112,7 +314,7 @@ export default function MyRentalsPage() {
             <div className="flex items-center">
               <div className="text-3xl mr-4">🏷️</div>
               <div>
-                <div className="text-2xl font-bold text-blue-600">{activeRentals.length}</div>
+                <div className="text-2xl font-bold text-blue-600">{counts.active}</div>
                 <div className="text-sm text-gray-600">Active Rentals</div>
               </div>
             </div>
@@ -122,7 +324,7 @@ export default function MyRentalsPage() {
             <div className="flex items-center">
               <div className="text-3xl mr-4">✅</div>
               <div>
-                <div className="text-2xl font-bold text-green-600">{completedRentals.length}</div>
+                <div className="text-2xl font-bold text-green-600">{counts.completed}</div>
                 <div className="text-sm text-gray-600">Completed</div>
               </div>
             </div>
@@ -139,7 +341,7 @@ export default function MyRentalsPage() {
                   : 'text-gray-600 hover:text-gray-900'
                 }`}
             >
-              Active Rentals ({activeRentals.length})
+              Active Rentals ({counts.active})
             </button>
             <button
               onClick={() => setActiveTab('completed')}
@@ -148,7 +350,7 @@ export default function MyRentalsPage() {
                   : 'text-gray-600 hover:text-gray-900'
                 }`}
             >
-              Completed ({completedRentals.length})
+              Completed ({counts.completed})
             </button>
           </div>
         </div>
@@ -171,11 +373,14 @@ export default function MyRentalsPage() {
             ) : (
               activeRentals.map(rental => {
                 const daysElapsed = calculateDaysElapsed(rental.startDate)
-                const returnDate = calculateReturnDate(rental.startDate, rental.daysRented)
-                const isOverdue = daysElapsed >= rental.daysRented
+                const returnDate = calculateReturnDate(rental.startDate, rental.daysRented, rental.endDate)
+                const awaitingHandover = rental.status === 'ACTIVE' && !!rental.handoverCode && !rental.handedOverAt
+                const daysLate = awaitingHandover ? 0 : calculateDaysLate(returnDate)
+                const isOverdue = daysLate > 0
+                const pendingExtension = rental.extensions.find(e => e.status === 'PENDING')
                 
                 // Calculate what was paid
-                const totalRent = rental.rentPerDay * rental.daysRented
+                const totalRent = getRentCharged(rental)
 
                 return (
                   <div key={rental.id} className="bg-white rounded-lg shadow border">
@@ -203,6 +408,64 @@ export default function MyRentalsPage() {
                         </div>
                       </div>
 
+                      {/* Handover / return codes */}
+                      {awaitingHandover && (
+                        <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-4 text-center">
+                          <p className="text-sm text-gray-700">Show this code to the owner when you pick up the item</p>
+                          <p className="text-3xl font-mono font-bold tracking-widest text-green-900 mt-2">{rental.handoverCode}</p>
+                          <p className="text-xs text-gray-500 mt-2">Your rental days start counting from the handover</p>
+                        </div>
+                      )}
+
+                      {rental.status === 'ACTIVE' && rental.handedOverAt && (
+                        <div className="bg-gray-50 border rounded-lg p-4 mb-4">
+                          <p className="text-sm text-gray-700 mb-2">
+                            Handed over {new Date(rental.handedOverAt).toLocaleDateString('en-IN', {
+                              day: 'numeric',
+                              month: 'short'
+                            })}. Returning the item? Enter the code the owner shows you.
+                          </p>
+                          <div className="flex gap-2">
+                            <input
+                              type="text"
+                              inputMode="numeric"
+                              maxLength={6}
+                              value={returnCodes[rental.id] || ''}
+                              onChange={(e) => setReturnCodes({ ...returnCodes, [rental.id]: e.target.value.replace(/\D/g, '') })}
+                              placeholder="6-digit return code"
+                              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-900 font-mono"
+                            />
+                            <button
+                              onClick={() => confirmReturn(rental.id)}
+                              disabled={confirmingReturn === rental.id || (returnCodes[rental.id] || '').length !== 6}
+                              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm font-medium"
+                            >
+                              {confirmingReturn === rental.id ? 'Confirming...' : '📦 Confirm Return'}
+                            </button>
+                          </div>
+                        </div>
+                      )}
+
+                      {/* Condition photos, so any damage claim can be checked against them */}
+                      {rental.status === 'ACTIVE' && (
+                        <div className="flex flex-col gap-2 mb-4">
+                          <ConditionReportForm
+                            rentalId={rental.id}
+                            stage="HANDOVER"
+                            existing={rental.conditionReports.find(r => r.stage === 'HANDOVER')}
+                            onSaved={fetchRentals}
+                          />
+                          {!awaitingHandover && (
+                            <ConditionReportForm
+                              rentalId={rental.id}
+                              stage="RETURN"
+                              existing={rental.conditionReports.find(r => r.stage === 'RETURN')}
+                              onSaved={fetchRentals}
+                            />
+                          )}
+                        </div>
+                      )}
+
                       {/* Rental Timeline */}
                       <div className={`${isOverdue ? 'bg-red-50 border-red-200' : 'bg-blue-50 border-blue-200'} border rounded-lg p-4 mb-4`}>
                         <div className="flex justify-between items-center mb-3">
@@ -244,7 +507,10 @@ export default function MyRentalsPage() {
 
                         {isOverdue && (
                           <p className="text-xs text-red-700 mt-3 font-medium">
-                            ⚠️ Please return the item soon to avoid extra charges
+                            ⚠️ {daysLate} day(s) late. Please return the item soon to avoid extra charges
+                            {rental.lateFeePerDay > 0 && (
+                              <> (late fee ₹{rental.lateFeePerDay}/day, ₹{(daysLate * rental.lateFeePerDay).toFixed(2)} so far, taken from your deposit first)</>
+                            )}
                           </p>
                         )}
                       </div>
@@ -254,7 +520,9 @@ export default function MyRentalsPage() {
                         <h4 className="font-semibold text-sm text-gray-900 mb-3">Payment Breakdown:</h4>
                         <div className="space-y-2 text-sm">
                           <div className="flex justify-between">
-                            <span className="text-gray-600">Rent ({rental.daysRented} days):</span>
+                            <span className="text-gray-600">
+                              Rent ({rental.daysRented} days{rental.pricingBreakdown && `: ${rental.pricingBreakdown.map(describePricingLine).join(' + ')}`}):
+                            </span>
                             <span className="font-medium text-gray-900">₹{totalRent}</span>
                           </div>
                           {rental.securityDeposit && rental.securityDeposit > 0 && (
@@ -270,12 +538,100 @@ export default function MyRentalsPage() {
                         </div>
                         {rental.securityDeposit && rental.securityDeposit > 0 && (
                           <p className="text-xs text-gray-600 mt-3">
-                            💡 Security deposit will be refunded after return
+                            💡 Security deposit: {DEPOSIT_STATUS_LABELS[rental.depositStatus]}. It will be refunded after return
                           </p>
                         )}
                       </div>
 
-                      {rental.paymentStatus === 'PENDING' && (
+                      {/* Extension */}
+                      {rental.status === 'ACTIVE' && !awaitingHandover && (
+                        <div className="bg-purple-50 border border-purple-200 rounded-lg p-4 mb-4">
+                          {pendingExtension ? (
+                            <p className="text-sm text-purple-900">
+                              ⏳ Extension of {pendingExtension.extraDays} day(s) (₹{pendingExtension.amount}) awaiting payment verification
+                            </p>
+                          ) : extendingId === rental.id ? (
+                            <div className="space-y-3">
+                              <h4 className="font-semibold text-sm text-gray-900">Extend Rental</h4>
+                              <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                  <label className="block text-xs text-gray-600 mb-1">Extra days</label>
+                                  <input
+                                    type="number"
+                                    min="1"
+                                    value={extraDays}
+                                    onChange={(e) => setExtraDays(Math.max(1, parseInt(e.target.value) || 1))}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                                  />
+                                </div>
+                                <div>
+                                  <label className="block text-xs text-gray-600 mb-1">Last 4 digits of UPI ID</label>
+                                  <input
+                                    type="text"
+                                    value={extensionPin}
+                                    onChange={(e) => setExtensionPin(e.target.value.slice(0, 4))}
+                                    placeholder="1234"
+                                    maxLength={4}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                                  />
+                                </div>
+                              </div>
+                              <p className="text-sm text-gray-700">
+                                {extensionQuote
+                                  ? <>Pay ₹{extensionQuote.total} via UPI ({extensionQuote.lines.map(describePricingLine).join(' + ')})</>
+                                  : 'Working out the price...'}
+                              </p>
+                              <div className="flex gap-2">
+                                <button
+                                  onClick={() => requestExtension(rental.id)}
+                                  disabled={submittingExtension || !extensionPin || !extensionQuote}
+                                  className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 disabled:opacity-50 text-sm font-medium"
+                                >
+                                  {submittingExtension ? 'Submitting...' : 'Request Extension'}
+                                </button>
+                                <button
+                                  onClick={() => setExtendingId(null)}
+                                  className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 text-sm"
+                                >
+                                  Cancel
+                                </button>
+                              </div>
+                            </div>
+                          ) : (
+                            <button
+                              onClick={() => setExtendingId(rental.id)}
+                              className="text-sm text-purple-700 hover:text-purple-900 font-medium"
+                            >
+                              📆 Need it longer? Extend this rental
+                            </button>
+                          )}
+                        </div>
+                      )}
+
+                      {rental.status === 'ACTIVE' && (
+                        <div className="mb-4">
+                          <RentalDisputePanel
+                            rentalId={rental.id}
+                            disputes={rental.disputes}
+                            canOpen
+                            onChange={fetchRentals}
+                          />
+                        </div>
+                      )}
+
+                      {rental.sellerApproval === 'PENDING' ? (
+                        <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-3 mb-4">
+                          <p className="text-sm text-indigo-800">
+                            ⏳ Waiting for the owner to accept your request
+                            {rental.sellerApprovalDueAt && ` (by ${new Date(rental.sellerApprovalDueAt).toLocaleString('en-IN', {
+                              day: 'numeric',
+                              month: 'short',
+                              hour: '2-digit',
+                              minute: '2-digit'
+                            })})`}. You will be refunded in full if they decline
+                          </p>
+                        </div>
+                      ) : rental.paymentStatus === 'PENDING' && (
                         <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-4">
                           <p className="text-sm text-yellow-800">
                             ⏳ Payment verification pending
@@ -283,6 +639,62 @@ export default function MyRentalsPage() {
                         </div>
                       )}
 
+                      {/* Cancellation - only until the item is handed over */}
+                      {(rental.status === 'PENDING' || awaitingHandover) && (
+                        cancellingId === rental.id && cancelQuote ? (
+                          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4 space-y-3">
+                            <h4 className="font-semibold text-sm text-gray-900">Cancel Rental</h4>
+                            <div className="space-y-1 text-sm">
+                              <div className="flex justify-between">
+                                <span className="text-gray-600">Rent refund ({cancelQuote.refundPercent}% of ₹{cancelQuote.rentPaid}):</span>
+                                <span className="font-medium text-gray-900">₹{cancelQuote.rentRefund.toFixed(2)}</span>
+                              </div>
+                              {cancelQuote.depositRefund > 0 && (
+                                <div className="flex justify-between">
+                                  <span className="text-gray-600">Security deposit:</span>
+                                  <span className="font-medium text-gray-900">₹{cancelQuote.depositRefund.toFixed(2)}</span>
+                                </div>
+                              )}
+                              {cancelQuote.cancellationFee > 0 && (
+                                <div className="flex justify-between">
+                                  <span className="text-gray-600">Cancellation fee:</span>
+                                  <span className="font-medium text-red-800">₹{cancelQuote.cancellationFee.toFixed(2)}</span>
+                                </div>
+                              )}
+                            </div>
+                            <input
+                              type="text"
+                              value={cancelReason}
+                              onChange={(e) => setCancelReason(e.target.value)}
+                              placeholder="Reason (optional)"
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 text-sm"
+                            />
+                            <div className="flex gap-2">
+                              <button
+                                onClick={() => cancelRental(rental.id)}
+                                disabled={submittingCancel}
+                                className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 disabled:opacity-50 text-sm font-medium"
+                              >
+                                {submittingCancel ? 'Cancelling...' : 'Confirm Cancellation'}
+                              </button>
+                              <button
+                                onClick={() => setCancellingId(null)}
+                                className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 text-sm"
+                              >
+                                Keep Rental
+                              </button>
+                            </div>
+                          </div>
+                        ) : (
+                          <button
+                            onClick={() => startCancel(rental.id)}
+                            className="text-sm text-red-700 hover:text-red-900 font-medium mb-4"
+                          >
+                            🚫 Cancel this rental
+                          </button>
+                        )
+                      )}
+
                       {/* Owner Contact */}
                       <div className="bg-gray-50 rounded-lg p-4">
                         <h4 className="font-semibold text-gray-900 mb-2">Item Owner</h4>
@@ -360,11 +772,87 @@ export default function MyRentalsPage() {
                       </div>
                     </div>
 
-                    {rental.securityDeposit && rental.securityDeposit > 0 && rental.status === 'RETURNED' && (
-                      <div className="bg-green-50 border border-green-200 rounded-lg p-3">
-                        <p className="text-sm text-green-800">
-                          ✅ Security deposit of ₹{rental.securityDeposit} will be refunded
+                    {rental.status === 'CANCELLED' && (
+                      <div className="bg-gray-50 border rounded-lg p-3 mb-3 text-sm">
+                        <p className="text-gray-800">
+                          {rental.sellerApproval === 'DECLINED'
+                            ? `❌ The owner declined this request${rental.sellerDeclineReason ? `: ${rental.sellerDeclineReason}` : ''}`
+                            : rental.sellerApproval === 'EXPIRED'
+                              ? '⌛ The owner did not respond in time'
+                              : `🚫 You cancelled this rental${rental.cancellationReason ? `: ${rental.cancellationReason}` : ''}`}
                         </p>
+                        {rental.cancellationFee > 0 && (
+                          <p className="text-gray-600 mt-1">Cancellation fee: ₹{rental.cancellationFee.toFixed(2)}</p>
+                        )}
+                        {rental.paymentStatus === 'REFUND_DUE' && (
+                          <p className="text-yellow-800 mt-1">⏳ ₹{rental.refundAmount.toFixed(2)} will be refunded soon</p>
+                        )}
+                        {rental.paymentStatus === 'REFUNDED' && (
+                          <p className="text-green-800 mt-1">
+                            ✅ ₹{rental.refundAmount.toFixed(2)} refunded
+                            {rental.refundReference && ` (ref ${rental.refundReference})`}
+                          </p>
+                        )}
+                      </div>
+                    )}
+
+                    {rental.lateFee > 0 && (
+                      <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-3">
+                        <p className="text-sm text-red-800">
+                          ⏰ Late fee of ₹{rental.lateFee.toFixed(2)} (₹{rental.lateFeeFromDeposit.toFixed(2)} from deposit
+                          {rental.lateFeeDue > 0 && `, ₹${rental.lateFeeDue.toFixed(2)} still due`})
+                        </p>
+                      </div>
+                    )}
+
+                    {rental.status === 'RETURNED' && (
+                      <div className="mb-3">
+                        <ConditionReportForm
+                          rentalId={rental.id}
+                          stage="RETURN"
+                          existing={rental.conditionReports.find(r => r.stage === 'RETURN')}
+                          onSaved={fetchRentals}
+                        />
+                      </div>
+                    )}
+
+                    {rental.status === 'RETURNED' && (
+                      <div className="mb-3">
+                        <RentalDisputePanel
+                          rentalId={rental.id}
+                          disputes={rental.disputes}
+                          canOpen
+                          onChange={fetchRentals}
+                        />
+                      </div>
+                    )}
+
+                    {rental.securityDeposit && rental.securityDeposit > 0 && (rental.status === 'RETURNED' || rental.depositStatus !== 'NONE') && (
+                      <div className={`${rental.depositStatus === 'REFUND_DUE' ? 'bg-yellow-50 border-yellow-200' : 'bg-green-50 border-green-200'} border rounded-lg p-3 text-sm`}>
+                        <p className="font-medium text-gray-900">
+                          Security deposit (₹{rental.securityDeposit}): {DEPOSIT_STATUS_LABELS[rental.depositStatus]}
+                        </p>
+                        {rental.depositStatus === 'REFUND_DUE' && (
+                          <p className="text-gray-700 mt-1">
+                            ⏳ ₹{(rental.securityDeposit - rental.depositWithheld - rental.depositRefunded).toFixed(2)} will be refunded soon
+                          </p>
+                        )}
+                        {rental.depositRefunded > 0 && (
+                          <p className="text-green-800 mt-1">
+                            ✅ ₹{rental.depositRefunded.toFixed(2)} refunded via {rental.depositRefundMethod}
+                            {rental.depositRefundReference && ` (ref ${rental.depositRefundReference})`}
+                            {rental.depositRefundedAt && ` on ${new Date(rental.depositRefundedAt).toLocaleDateString('en-IN', {
+                              day: 'numeric',
+                              month: 'short',
+                              year: 'numeric'
+                            })}`}
+                          </p>
+                        )}
+                        {rental.depositWithheld > 0 && (
+                          <p className="text-red-700 mt-1">
+                            ₹{rental.depositWithheld.toFixed(2)} withheld: {rental.depositWithheldReason}
+                          </p>
+                        )}
                       </div>
                     )}
                   </div>
@@ -373,6 +861,12 @@ export default function MyRentalsPage() {
             )}
           </div>
         )}
+
+        {hasMore && (
+          <div ref={sentinelRef} className="text-center py-4 text-sm text-gray-500">
+            {loadingMore ? 'Loading more rentals...' : ''}
+          </div>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,326 @@
+// FILE: src/app/offers/page.tsx
+// Price negotiations: offers the customer made and offers on their listings
+'use client'
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useInfiniteList } from '@/hooks/useInfiniteList'
+
+interface Offer {
+  id: string
+  buyerName: string
+  amount: number
+  askingPrice: number
+  message: string | null
+  status: string
+  awaiting: 'BUYER' | 'SELLER'
+  counterCount: number
+  expiresAt: string
+  updatedAt: string
+  listing: {
+    id: string
+    itemName: string
+    listingType: string
+    images: string[]
+    status: string
+    sellerName: string
+  }
+}
+
+type OfferTab = 'made' | 'received'
+
+interface OfferListMeta {
+  counts: Record<OfferTab, number>
+  waiting: Record<OfferTab, number> // Pending offers the user has to answer
+}
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'PENDING':
+      return 'bg-yellow-100 text-yellow-800'
+    case 'ACCEPTED':
+      return 'bg-green-100 text-green-800'
+    case 'USED':
+      return 'bg-blue-100 text-blue-800'
+    case 'REJECTED':
+      return 'bg-red-100 text-red-800'
+    default:
+      return 'bg-gray-100 text-gray-800'
+  }
+}
+
+export default function OffersPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [activeTab, setActiveTab] = useState<OfferTab>('made')
+  const [updating, setUpdating] = useState<string | null>(null)
+  const [counteringId, setCounteringId] = useState<string | null>(null)
+  const [counterAmount, setCounterAmount] = useState('')
+
+  // Each tab pages through its own offers; the first page carries the tab badges
+  const {
+    items: shown,
+    meta,
+    loading,
+    loadingMore,
+    hasMore,
+    reload: fetchOffers,
+    sentinelRef
+  } = useInfiniteList<Offer, OfferListMeta>(
+    session ? `/api/offers${activeTab === 'received' ? '?role=seller' : ''}` : null
+  )
+  const counts = meta?.counts || { made: 0, received: 0 }
+  const waiting = meta?.waiting || { made: 0, received: 0 }
+
+  useEffect(() => {
+    if (status === 'loading') return
+    if (!session) {
+      router.push('/auth/signin')
+    }
+  }, [session, status, router])
+
+  const answerOffer = async (offerId: string, action: 'ACCEPT' | 'REJECT' | 'COUNTER' | 'WITHDRAW') => {
+    if (action === 'REJECT' && !confirm('Reject this offer?')) return
+    if (action === 'WITHDRAW' && !confirm('Withdraw your offer?')) return
+
+    setUpdating(offerId)
+    try {
+      const response = await fetch(`/api/offers/${offerId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, amount: action === 'COUNTER' ? counterAmount : undefined })
+      })
+
+      if (response.ok) {
+        setCounteringId(null)
+        setCounterAmount('')
+        fetchOffers()
+      } else {
+        const data = await response.json()
+        alert(data.error || 'Failed to update offer')
+        fetchOffers()
+      }
+    } catch (error) {
+      console.error('Error updating offer:', error)
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  const checkoutUrl = (offer: Offer) =>
+    offer.listing.listingType === 'SELL'
+      ? `/sale-checkout?listingId=${offer.listing.id}&offerId=${offer.id}`
+      : `/rental-checkout?listingId=${offer.listing.id}&offerId=${offer.id}`
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null
+  }
+
+  const myParty = activeTab === 'made' ? 'BUYER' : 'SELLER'
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <nav className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <button
+                onClick={() => router.push('/shop')}
+                className="text-blue-600 hover:text-blue-800 mr-4 font-medium"
+              >
+                ← Back to Shop
+              </button>
+              <h1 className="text-xl font-semibold text-gray-900">🤝 Offers</h1>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Tabs */}
+        <div className="bg-white rounded-lg shadow mb-6">
+          <div className="flex border-b">
+            <button
+              onClick={() => setActiveTab('made')}
+              className={`px-6 py-3 font-medium ${activeTab === 'made'
+                  ? 'border-b-2 border-amber-600 text-amber-600'
+                  : 'text-gray-600 hover:text-gray-900'
+                }`}
+            >
+              Offers I Made ({counts.made})
+              {waiting.made > 0 && (
+                <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-red-600 text-white">{waiting.made}</span>
+              )}
+            </button>
+            <button
+              onClick={() => setActiveTab('received')}
+              className={`px-6 py-3 font-medium ${activeTab === 'received'
+                  ? 'border-b-2 border-amber-600 text-amber-600'
+                  : 'text-gray-600 hover:text-gray-900'
+                }`}
+            >
+              On My Listings ({counts.received})
+              {waiting.received > 0 && (
+                <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-red-600 text-white">{waiting.received}</span>
+              )}
+            </button>
+          </div>
+        </div>
+
+        {shown.length === 0 ? (
+          <div className="bg-white rounded-lg shadow p-12 text-center">
+            <div className="text-6xl mb-4">🤝</div>
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">No offers yet</h3>
+            <p className="text-gray-600">
+              {activeTab === 'made'
+                ? 'Look for "Open to offers" in the shop to negotiate a price'
+                : 'Tick "Open to offers" on a listing to let people negotiate'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {shown.map(offer => {
+              const unit = offer.listing.listingType === 'RENT' ? '/day' : ''
+              const myTurn = offer.status === 'PENDING' && offer.awaiting === myParty
+
+              return (
+                <div key={offer.id} className="bg-white rounded-lg shadow border p-6">
+                  <div className="flex justify-between items-start mb-3">
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-900">{offer.listing.itemName}</h3>
+                      <div className="flex gap-2 mt-2 items-center">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(offer.status)}`}>
+                          {offer.status}
+                        </span>
+                        <span className="text-xs text-gray-500">
+                          {activeTab === 'made' ? `Owner: ${offer.listing.sellerName}` : `From: ${offer.buyerName}`}
+                        </span>
+                        {offer.counterCount > 0 && (
+                          <span className="text-xs text-gray-500">· {offer.counterCount} counter-offer(s)</span>
+                        )}
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <div className="text-2xl font-bold text-amber-600">₹{offer.amount}{unit}</div>
+                      <div className="text-xs text-gray-500">Asking ₹{offer.askingPrice}{unit}, before fee</div>
+                    </div>
+                  </div>
+
+                  {offer.message && (
+                    <p className="text-sm text-gray-700 bg-gray-50 rounded-lg p-3 mb-3">💬 {offer.message}</p>
+                  )}
+
+                  {offer.status === 'PENDING' && (
+                    <p className="text-xs text-gray-500 mb-3">
+                      {myTurn ? 'Your turn to answer' : `Waiting for the ${offer.awaiting === 'SELLER' ? 'owner' : 'buyer'}`}
+                      {' '}· expires {new Date(offer.expiresAt).toLocaleString('en-IN')}
+                    </p>
+                  )}
+
+                  {myTurn && (
+                    counteringId === offer.id ? (
+                      <div className="flex gap-2">
+                        <div className="relative flex-1">
+                          <span className="absolute left-3 top-2 text-gray-500">₹</span>
+                          <input
+                            type="number"
+                            value={counterAmount}
+                            onChange={(e) => setCounterAmount(e.target.value)}
+                            min="1"
+                            step="1"
+                            placeholder="Your price"
+                            className="w-full pl-7 pr-4 py-2 border border-gray-300 rounded-lg text-gray-900"
+                          />
+                        </div>
+                        <button
+                          onClick={() => answerOffer(offer.id, 'COUNTER')}
+                          disabled={updating === offer.id || !counterAmount}
+                          className="bg-amber-600 text-white px-4 py-2 rounded-lg hover:bg-amber-700 disabled:opacity-50 text-sm font-medium"
+                        >
+                          Send Counter
+                        </button>
+                        <button
+                          onClick={() => setCounteringId(null)}
+                          className="bg-gray-200 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-300 text-sm font-medium"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => answerOffer(offer.id, 'ACCEPT')}
+                          disabled={updating === offer.id}
+                          className="flex-1 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm font-medium"
+                        >
+                          ✅ Accept ₹{offer.amount}{unit}
+                        </button>
+                        <button
+                          onClick={() => {
+                            setCounteringId(offer.id)
+                            setCounterAmount('')
+                          }}
+                          className="flex-1 bg-amber-100 text-amber-800 px-4 py-2 rounded-lg hover:bg-amber-200 text-sm font-medium"
+                        >
+                          ↔️ Counter
+                        </button>
+                        <button
+                          onClick={() => answerOffer(offer.id, 'REJECT')}
+                          disabled={updating === offer.id}
+                          className="flex-1 bg-red-100 text-red-800 px-4 py-2 rounded-lg hover:bg-red-200 disabled:opacity-50 text-sm font-medium"
+                        >
+                          ❌ Reject
+                        </button>
+                      </div>
+                    )
+                  )}
+
+                  {offer.status === 'ACCEPTED' && (
+                    <div className="bg-green-50 border border-green-200 rounded-lg p-3 flex justify-between items-center">
+                      <p className="text-sm text-green-800">
+                        Price agreed. {activeTab === 'made' ? 'Check out' : 'The buyer can check out'} by{' '}
+                        {new Date(offer.expiresAt).toLocaleString('en-IN')}.
+                      </p>
+                      {activeTab === 'made' && (
+                        <button
+                          onClick={() => router.push(checkoutUrl(offer))}
+                          className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 text-sm font-medium"
+                        >
+                          {offer.listing.listingType === 'SELL' ? 'Buy Now' : 'Rent Now'}
+                        </button>
+                      )}
+                    </div>
+                  )}
+
+                  {activeTab === 'made' && (offer.status === 'PENDING' || offer.status === 'ACCEPTED') && (
+                    <button
+                      onClick={() => answerOffer(offer.id, 'WITHDRAW')}
+                      disabled={updating === offer.id}
+                      className="mt-3 text-sm text-gray-500 hover:text-gray-700"
+                    >
+                      Withdraw offer
+                    </button>
+                  )}
+                </div>
+              )
+            })}
+            {hasMore && (
+              <div ref={sentinelRef} className="text-center py-4 text-sm text-gray-500">
+                {loadingMore ? 'Loading more offers...' : ''}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
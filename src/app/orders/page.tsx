@@ -1,9 +1,10 @@
 // File: src/app/orders/page.tsx
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect } from 'react'
 import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
+import { useInfiniteList } from '@/hooks/useInfiniteList'
 import bgimg from '../bgimg.jpg'
 
 interface OrderItem {
@@ -46,36 +47,25 @@ interface StatusInfo {
 export default function OrdersPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
-  const [orders, setOrders] = useState<Order[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState('')
   const [cancelling, setCancelling] = useState<string | null>(null)
 
-  const fetchOrders = useCallback(async () => {
-    try {
-      setError('')
-      const response = await fetch('/api/orders')
-      if (!response.ok) {
-        throw new Error('Failed to fetch orders')
-      }
-      const ordersData: Order[] = await response.json()
-      setOrders(ordersData)
-    } catch (fetchError) {
-      console.error('Error fetching orders:', fetchError)
-      setError('Failed to load orders. Please try again.')
-    } finally {
-      setLoading(false)
-    }
-  }, [])
+  // Newest first; older orders load as the user scrolls down
+  const {
+    items: orders,
+    loading,
+    loadingMore,
+    hasMore,
+    error,
+    reload: fetchOrders,
+    sentinelRef
+  } = useInfiniteList<Order>(session ? '/api/orders' : null)
 
   useEffect(() => {
     if (status === 'loading') return
     if (!session) {
       router.push('/auth/signin')
-      return
     }
-    fetchOrders()
-  }, [session, status, router, fetchOrders])
+  }, [session, status, router])
 
   const cancelOrder = async (orderId: string) => {
     if (!confirm('Are you sure you want to cancel this order?')) {
@@ -270,7 +260,7 @@ export default function OrdersPage() {
       <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {error && (
           <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
-            <p className="text-red-700">{error}</p>
+            <p className="text-red-700">Failed to load orders. Please try again.</p>
             <button 
               onClick={fetchOrders}
               className="mt-2 text-red-600 underline hover:text-red-800"
@@ -439,6 +429,11 @@ export default function OrdersPage() {
                 </div>
               )
             })}
+            {hasMore && (
+              <div ref={sentinelRef} className="text-center py-4 text-sm text-gray-500">
+                {loadingMore ? 'Loading more orders...' : ''}
+              </div>
+            )}
           </div>
         )}
       </div>
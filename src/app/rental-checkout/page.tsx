@@ -4,13 +4,24 @@ import { useState, useEffect } from 'react'
 import { useSession } from 'next-auth/react'
 import { useRouter, useSearchParams } from 'next/navigation'
 import Image from 'next/image'
+import AvailabilityCalendar, { DayAvailability } from '@/components/AvailabilityCalendar'
+import MakeOfferForm from '@/components/MakeOfferForm'
+import { describePricingLine, getCustomerRate, getDurationError, priceRental } from '@/lib/rentalPricing'
+import { FeePromotion, FeeRules, LEGACY_FEE_RULES, resolveFeePolicy } from '@/lib/platformFees'
 
 interface Listing {
   id: string
   itemName: string
   description: string
+  rentPerDay: number
   finalRent: number
+  weeklyRent: number | null
+  monthlyRent: number | null
+  minRentalDays: number
+  maxRentalDays: number | null
   securityDeposit: number | null
+  acceptsOffers: boolean
+  feeRuleSet: FeeRules | null
   sellerName: string
   sellerRoom: string
   sellerPhone: string
@@ -20,26 +31,58 @@ interface Listing {
   }
 }
 
+interface AcceptedOffer {
+  id: string
+  amount: number
+  expiresAt: string
+}
+
 export default function RentalCheckoutPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
   const searchParams = useSearchParams()
   const listingId = searchParams?.get('listingId')
+  const offerId = searchParams?.get('offerId')
   
   const [listing, setListing] = useState<Listing | null>(null)
+  const [offer, setOffer] = useState<AcceptedOffer | null>(null)
+  // Current promotions, which apply whatever fee rules the listing was priced with
+  const [promotions, setPromotions] = useState<FeePromotion[]>([])
   const [loading, setLoading] = useState(true)
   const [rentalDays, setRentalDays] = useState(7)
   const [startDate, setStartDate] = useState(new Date().toISOString().split('T')[0])
   const [paymentPin, setPaymentPin] = useState('')
   const [submitting, setSubmitting] = useState(false)
   const [error, setError] = useState('')
+  const [availability, setAvailability] = useState<DayAvailability[]>([])
+  // One key per checkout so a double-tap or retry can't create a second rental
+  const [idempotencyKey] = useState(() => crypto.randomUUID())
 
   const fetchListing = async () => {
     try {
-      const response = await fetch(`/api/listings/${listingId}`)
+      const [response, feeRulesResponse] = await Promise.all([
+        fetch(`/api/listings/${listingId}`),
+        fetch('/api/fee-rules')
+      ])
+      if (feeRulesResponse.ok) {
+        setPromotions((await feeRulesResponse.json()).promotions)
+      }
       if (response.ok) {
         const data = await response.json()
         setListing(data)
+        // Keep the default period inside the owner's limits
+        setRentalDays(days => Math.min(Math.max(days, data.minRentalDays || 1), data.maxRentalDays || days))
+
+        // Checking out an accepted offer: the agreed daily rent replaces the listing's rates
+        if (offerId) {
+          const offerResponse = await fetch(`/api/offers/${offerId}`)
+          const offerData = await offerResponse.json()
+          if (offerResponse.ok && offerData.status === 'ACCEPTED' && offerData.listingId === data.id) {
+            setOffer(offerData)
+          } else {
+            setError('This offer is no longer available at checkout')
+          }
+        }
       } else {
         setError('Listing not found')
       }
@@ -51,6 +94,24 @@ export default function RentalCheckoutPage() {
     }
   }
 
+  const fetchAvailability = async () => {
+    try {
+      const response = await fetch(`/api/listings/${listingId}/availability`)
+      if (response.ok) {
+        const data = await response.json()
+        setAvailability(data.days)
+      }
+    } catch (err) {
+      console.error('Error fetching availability:', err)
+    }
+  }
+
+  useEffect(() => {
+    if (listing) {
+      fetchAvailability()
+    }
+  }, [listing?.id])
+
   useEffect(() => {
     if (status === 'loading') return
     if (!session) {
@@ -72,18 +133,27 @@ export default function RentalCheckoutPage() {
     try {
       const response = await fetch('/api/rentals/checkout', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': idempotencyKey
+        },
         body: JSON.stringify({
           listingId: listing?.id,
           rentalDays,
           paymentPin,
-          startDate
+          startDate,
+          offerId: offer?.id
         })
       })
 
       const data = await response.json()
 
       if (!response.ok) {
+        // Someone booked the same dates first - refresh the calendar
+        if (response.status === 409 && data.unavailableDates) {
+          fetchAvailability()
+          throw new Error(`${data.error}: ${data.unavailableDates.join(', ')}`)
+        }
         throw new Error(data.error || 'Failed to process rental')
       }
 
@@ -121,7 +191,25 @@ export default function RentalCheckoutPage() {
     )
   }
 
-  const totalRent = listing.finalRent * rentalDays
+  // Booked days [startDate, startDate + rentalDays) that have no free unit
+  const startIndex = availability.findIndex(day => day.date === startDate)
+  const conflictDates = startIndex === -1
+    ? []
+    : availability
+        .slice(startIndex, startIndex + rentalDays)
+        .filter(day => day.available <= 0)
+        .map(day => day.date)
+
+  // Same engine and fee rules the checkout API uses, so the total shown is the total charged
+  const feePolicy = resolveFeePolicy(listing.feeRuleSet || LEGACY_FEE_RULES, listing.category.id, {
+    promotions,
+    at: new Date()
+  })
+  const rates = offer ? { rentPerDay: offer.amount } : listing
+  const dailyRent = getCustomerRate(rates.rentPerDay, feePolicy)
+  const price = priceRental(rates, rentalDays, feePolicy)
+  const durationError = getDurationError(listing, rentalDays)
+  const totalRent = price.total
   const securityDeposit = listing.securityDeposit || 0
   const totalAmount = totalRent + securityDeposit
 
@@ -175,6 +263,17 @@ export default function RentalCheckoutPage() {
           {/* Rental Form */}
           <div className="bg-white rounded-lg shadow p-6">
             <h2 className="text-xl font-semibold text-gray-900 mb-4">Rental Details</h2>
+
+            {offer ? (
+              <div className="bg-green-50 border border-green-200 rounded-lg p-3 mb-6 text-sm text-green-800">
+                🤝 Offer accepted: ₹{offer.amount}/day to the owner. Check out by{' '}
+                {new Date(offer.expiresAt).toLocaleString('en-IN')}.
+              </div>
+            ) : listing.acceptsOffers && (
+              <div className="mb-6">
+                <MakeOfferForm listingId={listing.id} askingPrice={listing.rentPerDay} perDay />
+              </div>
+            )}
             
             <form onSubmit={handleRent} className="space-y-6">
               {/* Start Date */}
@@ -182,14 +281,20 @@ export default function RentalCheckoutPage() {
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Start Date *
                 </label>
-                <input
-                  type="date"
-                  value={startDate}
-                  onChange={(e) => setStartDate(e.target.value)}
-                  min={new Date().toISOString().split('T')[0]}
-                  required
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 text-gray-900"
+                <AvailabilityCalendar
+                  days={availability}
+                  selectedStart={startDate}
+                  rentalDays={rentalDays}
+                  onSelectStart={setStartDate}
                 />
+                <p className="text-sm text-gray-700 mt-2">
+                  Selected: <span className="font-medium">{startDate}</span>
+                </p>
+                {conflictDates.length > 0 && (
+                  <p className="text-sm text-red-600 mt-1">
+                    Fully booked on {conflictDates.join(', ')}. Pick another start date or fewer days.
+                  </p>
+                )}
               </div>
 
               {/* Rental Days */}
@@ -201,23 +306,40 @@ export default function RentalCheckoutPage() {
                   type="number"
                   value={rentalDays}
                   onChange={(e) => setRentalDays(Math.max(1, parseInt(e.target.value) || 1))}
-                  min="1"
+                  min={listing.minRentalDays}
+                  max={listing.maxRentalDays || undefined}
                   required
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 text-gray-900"
                 />
                 <p className="text-xs text-gray-500 mt-1">
-                  Minimum 1 day. You can extend later if needed.
+                  Minimum {listing.minRentalDays} day{listing.minRentalDays === 1 ? '' : 's'}
+                  {listing.maxRentalDays && `, maximum ${listing.maxRentalDays} days`}. You can extend later if needed.
                 </p>
+                {durationError && (
+                  <p className="text-sm text-red-600 mt-1">{durationError}</p>
+                )}
               </div>
 
               {/* Cost Breakdown */}
               <div className="bg-purple-50 border border-purple-200 rounded-lg p-4">
                 <h3 className="font-semibold text-purple-900 mb-3">Cost Breakdown</h3>
                 <div className="space-y-2 text-sm">
-                  <div className="flex justify-between">
-                    <span>Rent (₹{listing.finalRent}/day × {rentalDays} days):</span>
-                    <span className="font-medium">₹{totalRent}</span>
-                  </div>
+                  {price.lines.map(line => (
+                    <div key={line.unit} className="flex justify-between">
+                      <span>Rent ({describePricingLine(line)}):</span>
+                      <span className="font-medium">₹{line.amount}</span>
+                    </div>
+                  ))}
+                  {price.total < dailyRent * rentalDays - 0.01 && (
+                    <p className="text-xs text-green-700">
+                      💡 Cheaper than ₹{dailyRent}/day × {rentalDays} days (₹{(dailyRent * rentalDays).toFixed(2)})
+                    </p>
+                  )}
+                  {feePolicy.promotion && (
+                    <p className="text-xs text-green-700">
+                      🎉 {feePolicy.promotion}: no platform fee on this rental
+                    </p>
+                  )}
                   {securityDeposit > 0 && (
                     <div className="flex justify-between">
                       <span>Security Deposit (refundable):</span>
@@ -277,7 +399,7 @@ export default function RentalCheckoutPage() {
 
               <button
                 type="submit"
-                disabled={submitting}
+                disabled={submitting || conflictDates.length > 0 || !!durationError}
                 className="w-full bg-purple-600 text-white py-3 px-4 rounded-lg hover:bg-purple-700 font-medium disabled:opacity-50"
               >
                 {submitting ? 'Processing...' : `Rent for ₹${totalAmount}`}
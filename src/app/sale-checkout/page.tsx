@@ -0,0 +1,326 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Image from 'next/image'
+import MakeOfferForm from '@/components/MakeOfferForm'
+import { calculateSaleFee, FeePromotion, FeeRules, LEGACY_FEE_RULES, resolveFeePolicy } from '@/lib/platformFees'
+
+interface Listing {
+  id: string
+  listingType: string
+  itemName: string
+  description: string
+  salePrice: number | null
+  acceptsOffers: boolean
+  quantity: number
+  quantitySold: number
+  feeRuleSet: FeeRules | null
+  sellerName: string
+  sellerRoom: string
+  sellerPhone: string
+  category: {
+    id: string
+    name: string
+  }
+}
+
+interface AcceptedOffer {
+  id: string
+  amount: number
+  expiresAt: string
+}
+
+export default function SaleCheckoutPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const listingId = searchParams?.get('listingId')
+  const offerId = searchParams?.get('offerId')
+
+  const [listing, setListing] = useState<Listing | null>(null)
+  const [offer, setOffer] = useState<AcceptedOffer | null>(null)
+  // Current promotions, which apply whatever fee rules the listing was priced with
+  const [promotions, setPromotions] = useState<FeePromotion[]>([])
+  const [loading, setLoading] = useState(true)
+  const [paymentPin, setPaymentPin] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState('')
+  // One key per checkout so a double-tap or retry can't buy twice
+  const [idempotencyKey] = useState(() => crypto.randomUUID())
+
+  useEffect(() => {
+    if (status === 'loading') return
+    if (!session) {
+      router.push('/auth/signin')
+      return
+    }
+    if (!listingId) {
+      router.push('/shop')
+      return
+    }
+    fetchListing()
+  }, [session, status, listingId, router])
+
+  const fetchListing = async () => {
+    try {
+      const [response, feeRulesResponse] = await Promise.all([
+        fetch(`/api/listings/${listingId}`),
+        fetch('/api/fee-rules')
+      ])
+      if (feeRulesResponse.ok) {
+        setPromotions((await feeRulesResponse.json()).promotions)
+      }
+      const data = await response.json()
+      if (response.ok && data.listingType === 'SELL') {
+        setListing(data)
+
+        // Checking out an accepted offer: the agreed price replaces the listing price
+        if (offerId) {
+          const offerResponse = await fetch(`/api/offers/${offerId}`)
+          const offerData = await offerResponse.json()
+          if (offerResponse.ok && offerData.status === 'ACCEPTED' && offerData.listingId === data.id) {
+            setOffer(offerData)
+          } else {
+            setError('This offer is no longer available at checkout')
+          }
+        }
+      } else {
+        setError(data.error || 'Listing not found')
+      }
+    } catch (err) {
+      console.error('Error fetching listing:', err)
+      setError('Failed to load listing')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleBuy = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/sales/checkout', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': idempotencyKey
+        },
+        body: JSON.stringify({
+          listingId: listing?.id,
+          paymentPin,
+          offerId: offer?.id
+        })
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to process purchase')
+      }
+
+      alert(data.message)
+      router.push('/my-purchases')
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to process purchase'
+      setError(errorMessage)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (loading || status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    )
+  }
+
+  if (!listing || listing.salePrice === null) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-red-600 mb-4">{error || 'Listing not found'}</p>
+          <button
+            onClick={() => router.push('/shop')}
+            className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700"
+          >
+            Back to Shop
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  // Same fee rules the checkout API uses, so the total shown is the total charged
+  const feePolicy = resolveFeePolicy(listing.feeRuleSet || LEGACY_FEE_RULES, listing.category.id, {
+    promotions,
+    at: new Date()
+  })
+  const salePrice = offer ? offer.amount : listing.salePrice
+  const platformFee = calculateSaleFee(salePrice, feePolicy)
+  const totalAmount = salePrice + platformFee
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow-sm border-b">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16">
+            <button
+              onClick={() => router.back()}
+              className="text-blue-600 hover:text-blue-800 mr-4 font-medium"
+            >
+              ← Back
+            </button>
+            <h1 className="text-xl font-semibold text-gray-900">Buy: {listing.itemName}</h1>
+          </div>
+        </div>
+      </nav>
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {/* Item Details */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Item Details</h2>
+
+            <div className="space-y-4">
+              <div>
+                <span className="text-sm text-gray-500">Item Name:</span>
+                <p className="font-medium text-gray-900">{listing.itemName}</p>
+              </div>
+
+              <div>
+                <span className="text-sm text-gray-500">Category:</span>
+                <p className="font-medium text-gray-900">{listing.category.name}</p>
+              </div>
+
+              <div>
+                <span className="text-sm text-gray-500">Description:</span>
+                <p className="text-gray-700">{listing.description}</p>
+              </div>
+
+              <div className="pt-4 border-t">
+                <span className="text-sm text-gray-500">Seller:</span>
+                <p className="font-medium text-gray-900">{listing.sellerName}</p>
+                <p className="text-sm text-gray-600">Room: {listing.sellerRoom}</p>
+                <p className="text-sm text-gray-600">Phone: {listing.sellerPhone}</p>
+              </div>
+            </div>
+          </div>
+
+          {/* Purchase Form */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Payment</h2>
+
+            {offer ? (
+              <div className="bg-green-50 border border-green-200 rounded-lg p-3 mb-6 text-sm text-green-800">
+                🤝 Offer accepted: ₹{offer.amount} to the seller. Check out by{' '}
+                {new Date(offer.expiresAt).toLocaleString('en-IN')}.
+              </div>
+            ) : listing.acceptsOffers && (
+              <div className="mb-6">
+                <MakeOfferForm listingId={listing.id} askingPrice={listing.salePrice} />
+              </div>
+            )}
+
+            <form onSubmit={handleBuy} className="space-y-6">
+              {/* Cost Breakdown */}
+              <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+                <h3 className="font-semibold text-amber-900 mb-3">Cost Breakdown</h3>
+                <div className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span>{offer ? 'Agreed price:' : 'Price:'}</span>
+                    <span className="font-medium">
+                      {offer && <span className="text-gray-400 line-through mr-2">₹{listing.salePrice}</span>}
+                      ₹{salePrice}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Platform fee:</span>
+                    <span className="font-medium">₹{platformFee}</span>
+                  </div>
+                  {feePolicy.promotion && (
+                    <p className="text-xs text-green-700">
+                      🎉 {feePolicy.promotion}: no platform fee on this purchase
+                    </p>
+                  )}
+                  <div className="flex justify-between pt-2 border-t border-amber-300 font-bold text-base">
+                    <span>Total Amount:</span>
+                    <span className="text-amber-900">₹{totalAmount}</span>
+                  </div>
+                </div>
+              </div>
+
+              {/* Payment Info */}
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                <h3 className="font-semibold text-blue-900 mb-3">UPI Payment Instructions</h3>
+                <div className="text-center mb-4">
+                  <Image
+                    src="/QRCode.jpg"
+                    alt="UPI QR Code"
+                    width={192}
+                    height={192}
+                    className="mx-auto rounded-lg border"
+                  />
+                  <p className="text-sm font-semibold text-blue-800 mt-2">
+                    UPI ID: harshika.anand-1@okhdfcbank
+                  </p>
+                </div>
+                <div className="text-sm text-blue-800 space-y-1">
+                  <p>1. Pay exactly ₹{totalAmount} via UPI</p>
+                  <p>2. Enter last 4 digits of transaction ID below</p>
+                  <p>3. Admin will verify your payment and give you a pickup code</p>
+                </div>
+              </div>
+
+              {/* Payment PIN */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Last 4 digits of UPI Transaction ID *
+                </label>
+                <input
+                  type="text"
+                  value={paymentPin}
+                  onChange={(e) => setPaymentPin(e.target.value.slice(0, 4))}
+                  placeholder="1234"
+                  maxLength={4}
+                  required
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 text-gray-900"
+                />
+              </div>
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+                  {error}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={submitting}
+                className="w-full bg-amber-600 text-white py-3 px-4 rounded-lg hover:bg-amber-700 font-medium disabled:opacity-50"
+              >
+                {submitting ? 'Processing...' : `Buy for ₹${totalAmount}`}
+              </button>
+            </form>
+          </div>
+        </div>
+
+        {/* Important Notes */}
+        <div className="mt-8 bg-yellow-50 border border-yellow-200 rounded-lg p-6">
+          <h3 className="font-semibold text-yellow-900 mb-3">📋 Important Notes</h3>
+          <ul className="text-sm text-yellow-800 space-y-2">
+            <li>• Admin will verify your payment within a few hours</li>
+            <li>• Contact the seller directly to arrange pickup</li>
+            <li>• Show the seller your pickup code only once you have the item</li>
+            <li>• If your payment can&apos;t be found, the purchase is cancelled</li>
+          </ul>
+        </div>
+      </div>
+    </div>
+  )
+}
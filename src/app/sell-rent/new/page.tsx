@@ -2,18 +2,41 @@
 
 import { useState, useEffect } from 'react'
 import { useSession } from 'next-auth/react'
-import { useRouter } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { describePricingLine, getCustomerRate, getPlatformFee, priceRental } from '@/lib/rentalPricing'
+import { calculateSaleFee, describeFeePolicy, describeSaleFeePolicy, FeeRules, LEGACY_FEE_RULES, resolveFeePolicy } from '@/lib/platformFees'
+import { MAX_LISTING_IMAGES } from '@/lib/imageUrls'
+import ImageUploader from '@/components/ImageUploader'
 
 interface Category {
   id: string
   name: string
 }
 
+interface WantedPost {
+  id: string
+  title: string
+  description: string
+  listingType: 'RENT' | 'SELL'
+  budget: number
+  neededFrom: string | null
+  neededUntil: string | null
+  requesterName: string
+  category: Category
+}
+
 export default function NewListingPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
+  const searchParams = useSearchParams()
+  const wantedPostId = searchParams?.get('wantedPostId')
+  // Editing an existing listing instead of creating one
+  const listingId = searchParams?.get('listingId')
   
   const [categories, setCategories] = useState<Category[]>([])
+  const [wantedPost, setWantedPost] = useState<WantedPost | null>(null)
+  const [editingStatus, setEditingStatus] = useState<string | null>(null)
+  const [feeRules, setFeeRules] = useState<FeeRules>(LEGACY_FEE_RULES)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
   
@@ -21,8 +44,18 @@ export default function NewListingPage() {
     itemName: '',
     description: '',
     categoryId: '',
+    images: [] as string[],
+    listingType: 'RENT' as 'RENT' | 'SELL',
+    salePrice: '',
+    acceptsOffers: false,
     rentPerDay: '',
+    weeklyRent: '',
+    monthlyRent: '',
+    minRentalDays: '1',
+    maxRentalDays: '',
     securityDeposit: '',
+    lateFeePerDay: '',
+    requiresSellerApproval: false,
     quantity: '1'
   })
 
@@ -32,7 +65,14 @@ export default function NewListingPage() {
       return
     }
     fetchCategories()
-  }, [status, router])
+    fetchFeeRules()
+    if (wantedPostId) {
+      fetchWantedPost()
+    }
+    if (listingId) {
+      fetchListing()
+    }
+  }, [status, router, wantedPostId, listingId])
 
   const fetchCategories = async () => {
     try {
@@ -46,6 +86,73 @@ export default function NewListingPage() {
     }
   }
 
+  // Current fee rules, so the preview matches what the listing will be priced with
+  const fetchFeeRules = async () => {
+    try {
+      const response = await fetch('/api/fee-rules')
+      if (response.ok) {
+        setFeeRules(await response.json())
+      }
+    } catch (error) {
+      console.error('Error fetching fee rules:', error)
+    }
+  }
+
+  // Answering a wanted post: start from what the requester asked for
+  const fetchWantedPost = async () => {
+    try {
+      const response = await fetch(`/api/wanted/${wantedPostId}`)
+      if (response.ok) {
+        const post: WantedPost = await response.json()
+        setWantedPost(post)
+        setFormData(current => ({
+          ...current,
+          itemName: current.itemName || post.title,
+          categoryId: post.category.id,
+          listingType: post.listingType
+        }))
+      } else {
+        setError('This wanted post is no longer open')
+      }
+    } catch (error) {
+      console.error('Error fetching wanted post:', error)
+    }
+  }
+
+  // Start the edit form from the listing as it is now
+  const fetchListing = async () => {
+    try {
+      const response = await fetch(`/api/listings/${listingId}`)
+      if (!response.ok) {
+        setError('Listing not found')
+        return
+      }
+      const listing = await response.json()
+      const asText = (value: number | null) => value === null ? '' : String(value)
+      setEditingStatus(listing.status)
+      setFormData({
+        itemName: listing.itemName,
+        description: listing.description,
+        categoryId: listing.categoryId,
+        images: listing.images,
+        listingType: listing.listingType,
+        salePrice: asText(listing.salePrice),
+        acceptsOffers: listing.acceptsOffers,
+        rentPerDay: asText(listing.rentPerDay),
+        weeklyRent: asText(listing.weeklyRent),
+        monthlyRent: asText(listing.monthlyRent),
+        minRentalDays: String(listing.minRentalDays),
+        maxRentalDays: asText(listing.maxRentalDays),
+        securityDeposit: asText(listing.securityDeposit),
+        lateFeePerDay: asText(listing.lateFeePerDay),
+        requiresSellerApproval: listing.requiresSellerApproval,
+        quantity: String(listing.quantity)
+      })
+    } catch (error) {
+      console.error('Error fetching listing:', error)
+    }
+  }
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     setFormData({
       ...formData,
@@ -53,11 +160,30 @@ export default function NewListingPage() {
     })
   }
 
+  const feePolicy = resolveFeePolicy(feeRules, formData.categoryId)
+
   const calculateFees = () => {
     const rent = parseFloat(formData.rentPerDay) || 0
-    const platformFee = rent * 0.20
-    const finalRent = rent + platformFee
-    return { platformFee, finalRent }
+    return {
+      platformFee: getPlatformFee(rent, feePolicy),
+      finalRent: getCustomerRate(rent, feePolicy),
+      saleFee: calculateSaleFee(parseFloat(formData.salePrice) || 0, feePolicy)
+    }
+  }
+
+  // What a renter would pay for a few typical periods, using the same engine as checkout
+  const getSampleQuotes = () => {
+    const rates = {
+      rentPerDay: parseFloat(formData.rentPerDay) || 0,
+      weeklyRent: parseFloat(formData.weeklyRent) || null,
+      monthlyRent: parseFloat(formData.monthlyRent) || null
+    }
+    const minDays = parseInt(formData.minRentalDays) || 1
+    const maxDays = parseInt(formData.maxRentalDays) || null
+    const periods = Array.from(new Set([minDays, 7, 30, 120]))
+      .filter(days => days >= minDays && (!maxDays || days <= maxDays))
+      .sort((a, b) => a - b)
+    return periods.map(days => priceRental(rates, days, feePolicy))
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -66,12 +192,12 @@ export default function NewListingPage() {
     setError('')
 
     try {
-      const response = await fetch('/api/listings', {
-        method: 'POST',
+      const response = await fetch(listingId ? `/api/listings/${listingId}` : '/api/listings', {
+        method: listingId ? 'PATCH' : 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify(formData)
+        body: JSON.stringify({ ...formData, wantedPostId: wantedPost?.id })
       })
 
       const data = await response.json()
@@ -80,6 +206,14 @@ export default function NewListingPage() {
         throw new Error(data.error || 'Failed to submit listing')
       }
 
+      if (listingId) {
+        alert(data.status === 'PENDING' && editingStatus !== 'PENDING'
+          ? 'Changes saved. Your listing is back in review and will return to the shop once approved.'
+          : 'Changes saved!')
+        router.push('/my-listings')
+        return
+      }
+
       // Success - redirect to success page
       router.push('/sell-rent/pending')
     } catch (err) {
@@ -102,7 +236,7 @@ export default function NewListingPage() {
     return null
   }
 
-  const { platformFee, finalRent } = calculateFees()
+  const { platformFee, finalRent, saleFee } = calculateFees()
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -116,7 +250,9 @@ export default function NewListingPage() {
             >
               ← Back
             </button>
-            <h1 className="text-xl font-semibold text-gray-900">List Item for Rent</h1>
+            <h1 className="text-xl font-semibold text-gray-900">
+              {listingId ? 'Edit Listing' : formData.listingType === 'SELL' ? 'List Item for Sale' : 'List Item for Rent'}
+            </h1>
           </div>
         </div>
       </nav>
@@ -131,7 +267,53 @@ export default function NewListingPage() {
             </div>
           )}
 
+          {listingId && (
+            <div className="bg-purple-50 border border-purple-200 rounded-lg p-4 mb-6 text-sm text-purple-900">
+              ✏️ Name, description, quantity and rental rules update straight away. Changing the price,
+              deposit, late fee, category or images sends the listing back for review.
+              Rentals and sales already made keep the terms they were booked with.
+            </div>
+          )}
+
+          {wantedPost && (
+            <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-4 mb-6">
+              <p className="text-sm font-semibold text-indigo-900">
+                📣 Answering {wantedPost.requesterName}&apos;s request: {wantedPost.title}
+              </p>
+              <p className="text-sm text-indigo-800 mt-1">{wantedPost.description}</p>
+              <p className="text-xs text-indigo-700 mt-2">
+                Budget ₹{wantedPost.budget}{wantedPost.listingType === 'RENT' ? '/day' : ''}
+                {wantedPost.neededFrom && ` · needed from ${new Date(wantedPost.neededFrom).toLocaleDateString('en-IN')}`}
+                {wantedPost.neededUntil && ` until ${new Date(wantedPost.neededUntil).toLocaleDateString('en-IN')}`}
+                . They will be notified once your listing is approved.
+              </p>
+            </div>
+          )}
+
           <form onSubmit={handleSubmit} className="space-y-6">
+            {/* Listing Type */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                I want to *
+              </label>
+              <div className="grid grid-cols-2 gap-3">
+                {(['RENT', 'SELL'] as const).map(type => (
+                  <button
+                    key={type}
+                    type="button"
+                    onClick={() => setFormData({ ...formData, listingType: type })}
+                    disabled={!!listingId}
+                    className={`py-2 rounded-lg border font-medium transition disabled:cursor-not-allowed ${formData.listingType === type
+                      ? 'bg-blue-600 text-white border-blue-600'
+                      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50 disabled:opacity-50'
+                      }`}
+                  >
+                    {type === 'RENT' ? '🏷️ Rent it out' : '💰 Sell it'}
+                  </button>
+                ))}
+              </div>
+            </div>
+
             {/* Item Name */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -164,6 +346,21 @@ export default function NewListingPage() {
               />
             </div>
 
+            {/* Photos */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Photos
+              </label>
+              <ImageUploader
+                images={formData.images}
+                onChange={(images) => setFormData(current => ({ ...current, images }))}
+                max={MAX_LISTING_IMAGES}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Location data is removed from your photos before they are stored
+              </p>
+            </div>
+
             {/* Category */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -201,75 +398,277 @@ export default function NewListingPage() {
               <p className="text-xs text-gray-500 mt-1">How many of this item do you have available?</p>
             </div>
 
-            {/* Rent Per Day */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Your Expected Rent (per day) *
-              </label>
-              <div className="relative">
-                <span className="absolute left-4 top-2 text-gray-500">₹</span>
-                <input
-                  type="number"
-                  name="rentPerDay"
-                  value={formData.rentPerDay}
-                  onChange={handleChange}
-                  placeholder="50"
-                  min="1"
-                  step="1"
-                  required
-                  className="w-full pl-8 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
-                />
+            {formData.listingType === 'RENT' && (
+              <>
+              {/* Rent Per Day */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Your Expected Rent (per day) *
+                </label>
+                <div className="relative">
+                  <span className="absolute left-4 top-2 text-gray-500">₹</span>
+                  <input
+                    type="number"
+                    name="rentPerDay"
+                    value={formData.rentPerDay}
+                    onChange={handleChange}
+                    placeholder="50"
+                    min="1"
+                    step="1"
+                    required
+                    className="w-full pl-8 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+                  />
+                </div>
+                <p className="text-xs text-gray-500 mt-1">How much do you want to earn per day?</p>
               </div>
-              <p className="text-xs text-gray-500 mt-1">How much do you want to earn per day?</p>
-            </div>
 
-            {/* Security Deposit */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Security Deposit (Optional)
-              </label>
-              <div className="relative">
-                <span className="absolute left-4 top-2 text-gray-500">₹</span>
-                <input
-                  type="number"
-                  name="securityDeposit"
-                  value={formData.securityDeposit}
-                  onChange={handleChange}
-                  placeholder="500"
-                  min="0"
-                  step="1"
-                  className="w-full pl-8 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
-                />
+              {/* Weekly / Monthly Rates */}
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Weekly Rent (Optional)
+                  </label>
+                  <div className="relative">
+                    <span className="absolute left-4 top-2 text-gray-500">₹</span>
+                    <input
+                      type="number"
+                      name="weeklyRent"
+                      value={formData.weeklyRent}
+                      onChange={handleChange}
+                      placeholder="300"
+                      min="1"
+                      step="1"
+                      className="w-full pl-8 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Monthly Rent (Optional)
+                  </label>
+                  <div className="relative">
+                    <span className="absolute left-4 top-2 text-gray-500">₹</span>
+                    <input
+                      type="number"
+                      name="monthlyRent"
+                      value={formData.monthlyRent}
+                      onChange={handleChange}
+                      placeholder="1000"
+                      min="1"
+                      step="1"
+                      className="w-full pl-8 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+                    />
+                  </div>
+                </div>
               </div>
-              <p className="text-xs text-gray-500 mt-1">
-                Refundable amount to protect against damage/loss
+              <p className="text-xs text-gray-500 -mt-4">
+                Renters are charged the cheapest mix of monthly (30 days), weekly and daily rates
               </p>
-            </div>
 
-            {/* Price Breakdown */}
-            {formData.rentPerDay && parseFloat(formData.rentPerDay) > 0 && (
-              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                <h3 className="font-semibold text-blue-900 mb-3">Price Breakdown</h3>
-                <div className="space-y-2 text-sm">
-                  <div className="flex justify-between">
-                    <span className="text-blue-800">Your rent (per day):</span>
-                    <span className="font-semibold text-blue-900">₹{formData.rentPerDay}</span>
+              {/* Rental Duration */}
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Minimum Days
+                  </label>
+                  <input
+                    type="number"
+                    name="minRentalDays"
+                    value={formData.minRentalDays}
+                    onChange={handleChange}
+                    min="1"
+                    step="1"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Maximum Days (Optional)
+                  </label>
+                  <input
+                    type="number"
+                    name="maxRentalDays"
+                    value={formData.maxRentalDays}
+                    onChange={handleChange}
+                    placeholder="No limit"
+                    min="1"
+                    step="1"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+                  />
+                </div>
+              </div>
+
+              {/* Security Deposit */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Security Deposit (Optional)
+                </label>
+                <div className="relative">
+                  <span className="absolute left-4 top-2 text-gray-500">₹</span>
+                  <input
+                    type="number"
+                    name="securityDeposit"
+                    value={formData.securityDeposit}
+                    onChange={handleChange}
+                    placeholder="500"
+                    min="0"
+                    step="1"
+                    className="w-full pl-8 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+                  />
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Refundable amount to protect against damage/loss
+                </p>
+              </div>
+
+              {/* Late Fee */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Late Fee per Day (Optional)
+                </label>
+                <div className="relative">
+                  <span className="absolute left-4 top-2 text-gray-500">₹</span>
+                  <input
+                    type="number"
+                    name="lateFeePerDay"
+                    value={formData.lateFeePerDay}
+                    onChange={handleChange}
+                    placeholder="Category default"
+                    min="0"
+                    step="1"
+                    className="w-full pl-8 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+                  />
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Charged for each day the item comes back late, taken from the deposit first
+                </p>
+              </div>
+
+              {/* Seller Approval */}
+              <div>
+                <label className="flex items-start gap-3">
+                  <input
+                    type="checkbox"
+                    checked={formData.requiresSellerApproval}
+                    onChange={(e) => setFormData({ ...formData, requiresSellerApproval: e.target.checked })}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-700">Let me approve each rental request</span>
+                    <span className="block text-xs text-gray-500 mt-1">
+                      You get 48 hours to accept or decline. Requests you decline or miss are refunded in full
+                    </span>
+                  </span>
+                </label>
+              </div>
+
+              {/* Price Breakdown */}
+              {formData.rentPerDay && parseFloat(formData.rentPerDay) > 0 && (
+                <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                  <h3 className="font-semibold text-blue-900 mb-3">Price Breakdown</h3>
+                  <div className="space-y-2 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-blue-800">Your rent (per day):</span>
+                      <span className="font-semibold text-blue-900">₹{formData.rentPerDay}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-blue-800">Platform fee ({describeFeePolicy(feePolicy)}):</span>
+                      <span className="font-semibold text-blue-900">₹{platformFee.toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between border-t border-blue-300 pt-2 mt-2">
+                      <span className="text-blue-900 font-semibold">Customer pays (per day):</span>
+                      <span className="font-bold text-blue-900 text-lg">₹{finalRent.toFixed(2)}</span>
+                    </div>
                   </div>
-                  <div className="flex justify-between">
-                    <span className="text-blue-800">Platform fee (20%):</span>
-                    <span className="font-semibold text-blue-900">₹{platformFee.toFixed(2)}</span>
+                  <div className="border-t border-blue-300 mt-3 pt-3 space-y-1 text-sm">
+                    <p className="font-medium text-blue-900">Renters would pay:</p>
+                    {getSampleQuotes().map(quote => (
+                      <div key={quote.days} className="flex justify-between">
+                        <span className="text-blue-800">
+                          {quote.days} day{quote.days === 1 ? '' : 's'} ({quote.lines.map(describePricingLine).join(' + ')}):
+                        </span>
+                        <span className="font-semibold text-blue-900">₹{quote.total.toFixed(2)}</span>
+                      </div>
+                    ))}
                   </div>
-                  <div className="flex justify-between border-t border-blue-300 pt-2 mt-2">
-                    <span className="text-blue-900 font-semibold">Customer pays (per day):</span>
-                    <span className="font-bold text-blue-900 text-lg">₹{finalRent.toFixed(2)}</span>
+                  <p className="text-xs text-blue-700 mt-3">
+                    💡 You will receive ₹{formData.rentPerDay} per day when the item is rented
+                  </p>
+                </div>
+              )}
+              </>
+            )}
+
+            {formData.listingType === 'SELL' && (
+              <>
+                {/* Sale Price */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Your Price *
+                  </label>
+                  <div className="relative">
+                    <span className="absolute left-4 top-2 text-gray-500">₹</span>
+                    <input
+                      type="number"
+                      name="salePrice"
+                      value={formData.salePrice}
+                      onChange={handleChange}
+                      placeholder="400"
+                      min="1"
+                      step="1"
+                      required
+                      className="w-full pl-8 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+                    />
                   </div>
+                  <p className="text-xs text-gray-500 mt-1">How much do you want to get for each one?</p>
                 </div>
-                <p className="text-xs text-blue-700 mt-3">
-                  💡 You will receive ₹{formData.rentPerDay} per day when the item is rented
-                </p>
-              </div>
+
+                {/* Price Breakdown */}
+                {formData.salePrice && parseFloat(formData.salePrice) > 0 && (
+                  <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                    <h3 className="font-semibold text-blue-900 mb-3">Price Breakdown</h3>
+                    <div className="space-y-2 text-sm">
+                      <div className="flex justify-between">
+                        <span className="text-blue-800">Your price:</span>
+                        <span className="font-semibold text-blue-900">₹{formData.salePrice}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-blue-800">Platform fee ({describeSaleFeePolicy(feePolicy)}):</span>
+                        <span className="font-semibold text-blue-900">₹{saleFee.toFixed(2)}</span>
+                      </div>
+                      <div className="flex justify-between border-t border-blue-300 pt-2 mt-2">
+                        <span className="text-blue-900 font-semibold">Buyer pays:</span>
+                        <span className="font-bold text-blue-900 text-lg">₹{(parseFloat(formData.salePrice) + saleFee).toFixed(2)}</span>
+                      </div>
+                    </div>
+                    <p className="text-xs text-blue-700 mt-3">
+                      💡 You will receive ₹{formData.salePrice} once you hand the item over
+                    </p>
+                  </div>
+                )}
+              </>
             )}
 
+            {/* Offers */}
+            <div>
+              <label className="flex items-start gap-3">
+                <input
+                  type="checkbox"
+                  checked={formData.acceptsOffers}
+                  onChange={(e) => setFormData({ ...formData, acceptsOffers: e.target.checked })}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-700">Open to offers</span>
+                  <span className="block text-xs text-gray-500 mt-1">
+                    {formData.listingType === 'SELL'
+                      ? 'Buyers can offer a lower price; they can still pay your price straight away'
+                      : 'Renters can offer a lower daily rent; they can still book at your rates straight away'}
+                  </span>
+                </span>
+              </label>
+            </div>
+
             {/* Contact Info Display */}
             <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
               <h3 className="font-semibold text-gray-900 mb-3">Your Contact Information</h3>
@@ -280,7 +679,7 @@ export default function NewListingPage() {
                 <p><strong>Room:</strong> {session.user.roomNumber}</p>
               </div>
               <p className="text-xs text-gray-500 mt-3">
-                This information will be shared with customers who rent your item
+                This information will be shared with customers who rent or buy your item
               </p>
             </div>
 
@@ -298,7 +697,7 @@ export default function NewListingPage() {
                 disabled={loading}
                 className="flex-1 bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50"
               >
-                {loading ? 'Submitting...' : 'Submit for Review'}
+                {loading ? 'Submitting...' : listingId ? 'Save Changes' : 'Submit for Review'}
               </button>
             </div>
           </form>
@@ -4,6 +4,10 @@ import { useSession } from 'next-auth/react'
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { useCart } from '@/contexts/CartContext'
+import CartChangesNotice from '@/components/CartChangesNotice'
+import { getCustomerRate, DAYS_PER_MONTH, DAYS_PER_WEEK } from '@/lib/rentalPricing'
+import { calculateSaleFee, FeePromotion, FeeRules, LEGACY_FEE_RULES, resolveFeePolicy } from '@/lib/platformFees'
+import { getThumbnailUrl } from '@/lib/imageUrls'
 
 interface Product {
   id: string
@@ -20,23 +24,68 @@ interface Product {
 
 interface RentalListing {
   id: string
+  listingType: string
   itemName: string
   description: string
+  images: string[]
   finalRent: number
   rentPerDay: number
+  weeklyRent: number | null
+  monthlyRent: number | null
+  minRentalDays: number
   securityDeposit: number | null
+  acceptsOffers: boolean
   quantity: number
   status: string
   sellerName: string
   sellerRoom: string
   sellerPhone: string
   currentlyRented: number
+  feeRuleSet: FeeRules | null
   category: {
     id: string
     name: string
   }
 }
 
+// Student item for sale (listingType SELL)
+interface SaleListing {
+  id: string
+  listingType: string
+  itemName: string
+  description: string
+  images: string[]
+  salePrice: number
+  finalSalePrice: number
+  acceptsOffers: boolean
+  quantity: number
+  quantitySold: number
+  sellerName: string
+  sellerRoom: string
+  feeRuleSet: FeeRules | null
+  category: {
+    id: string
+    name: string
+  }
+}
+
+// Price under the listing's fee rules, with any zero-fee promotion running now
+function getSalePrice(item: SaleListing, promotions: FeePromotion[]) {
+  const policy = resolveFeePolicy(item.feeRuleSet || LEGACY_FEE_RULES, item.category.id, { promotions, at: new Date() })
+  return { promotion: policy.promotion, total: item.salePrice + calculateSaleFee(item.salePrice, policy) }
+}
+
+// Rates under the listing's fee rules, with any zero-fee promotion running now
+function getListingRates(rental: RentalListing, promotions: FeePromotion[]) {
+  const policy = resolveFeePolicy(rental.feeRuleSet || LEGACY_FEE_RULES, rental.category.id, { promotions, at: new Date() })
+  return {
+    promotion: policy.promotion,
+    daily: getCustomerRate(rental.rentPerDay, policy),
+    weekly: rental.weeklyRent ? getCustomerRate(rental.weeklyRent, policy, DAYS_PER_WEEK) : null,
+    monthly: rental.monthlyRent ? getCustomerRate(rental.monthlyRent, policy, DAYS_PER_MONTH) : null
+  }
+}
+
 interface Category {
   id: string
   name: string
@@ -47,15 +96,56 @@ interface ShopSettings {
   message?: string
 }
 
+type SearchResult =
+  | { type: 'PRODUCT'; item: Product }
+  | { type: 'RENT'; item: RentalListing }
+  | { type: 'SELL'; item: SaleListing }
+
+interface SearchFacets {
+  types: { PRODUCT: number; RENT: number; SELL: number }
+  categories: { id: string; name: string; count: number }[]
+  availability: { inStock: number; outOfStock: number }
+  price: { min: number | null; max: number | null }
+}
+
+const EMPTY_FACETS: SearchFacets = {
+  types: { PRODUCT: 0, RENT: 0, SELL: 0 },
+  categories: [],
+  availability: { inStock: 0, outOfStock: 0 },
+  price: { min: null, max: null }
+}
+
+const VIEW_MODE_TYPES = { all: '', buy: 'PRODUCT', rent: 'RENT', sale: 'SELL' }
+
+const SORT_OPTIONS = [
+  { value: 'relevance', label: 'Best match' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'price_asc', label: 'Price: low to high' },
+  { value: 'price_desc', label: 'Price: high to low' },
+  { value: 'name', label: 'Name' }
+]
+
+const PAGE_SIZE = 48
+
 export default function Shop() {
   const { data: session, status } = useSession()
   const router = useRouter()
-  const [products, setProducts] = useState<Product[]>([])
-  const [rentals, setRentals] = useState<RentalListing[]>([])
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [totalResults, setTotalResults] = useState(0)
+  const [facets, setFacets] = useState<SearchFacets>(EMPTY_FACETS)
+  const [promotions, setPromotions] = useState<FeePromotion[]>([])
+  const [searching, setSearching] = useState(false)
+  const [searchError, setSearchError] = useState('')
+  const [searchInput, setSearchInput] = useState('')
+  const [query, setQuery] = useState('')
+  const [sort, setSort] = useState('relevance')
+  const [minPrice, setMinPrice] = useState('')
+  const [maxPrice, setMaxPrice] = useState('')
+  const [inStockOnly, setInStockOnly] = useState(false)
   const [categories, setCategories] = useState<Category[]>([])
   const [shopSettings, setShopSettings] = useState<ShopSettings>({ isOpen: false })
   const [selectedCategory, setSelectedCategory] = useState<string>('all')
-  const [viewMode, setViewMode] = useState<'all' | 'buy' | 'rent'>('all')
+  const [viewMode, setViewMode] = useState<'all' | 'buy' | 'rent' | 'sale'>('all')
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string>('')
   const [showMobileFilters, setShowMobileFilters] = useState(false)
@@ -81,29 +171,33 @@ export default function Shop() {
     fetchData()
   }, [session, status, router])
 
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(searchInput.trim()), 300)
+    return () => clearTimeout(timer)
+  }, [searchInput])
+
+  useEffect(() => {
+    if (!session) return
+    fetchResults()
+  }, [session, query, viewMode, selectedCategory, sort, minPrice, maxPrice, inStockOnly])
+
   const fetchData = async () => {
     try {
       setError('')
-      const [productsRes, rentalsRes, categoriesRes, shopRes] = await Promise.all([
-        fetch('/api/shop/products'),
-        fetch('/api/listings?status=LIVE'),
+      const [categoriesRes, shopRes, feeRulesRes] = await Promise.all([
         fetch('/api/shop/categories'),
-        fetch('/api/admin/shop-settings')
+        fetch('/api/admin/shop-settings'),
+        fetch('/api/fee-rules')
       ])
 
-      if (!productsRes.ok || !categoriesRes.ok || !shopRes.ok) {
+      if (!categoriesRes.ok || !shopRes.ok || !feeRulesRes.ok) {
         throw new Error('Failed to fetch data')
       }
 
-      const productsData = await productsRes.json()
-      const rentalsData = rentalsRes.ok ? await rentalsRes.json() : []
-      const categoriesData = await categoriesRes.json()
-      const shopData = await shopRes.json()
-
-      setProducts(productsData)
-      setRentals(rentalsData)
-      setCategories(categoriesData)
-      setShopSettings(shopData)
+      setCategories(await categoriesRes.json())
+      setShopSettings(await shopRes.json())
+      setPromotions((await feeRulesRes.json()).promotions)
     } catch (error) {
       console.error('Error fetching data:', error)
       setError('Failed to load shop data. Please try again.')
@@ -112,21 +206,49 @@ export default function Shop() {
     }
   }
 
-  // Filter products based on category and view mode
-  const filteredProducts = products.filter(p => {
-    if (!p.isAvailable || p.stockQuantity <= 0) return false
-    if (viewMode === 'rent') return false // Don't show products in rent mode
-    if (selectedCategory === 'all') return true
-    return p.category.id === selectedCategory
-  })
-
-  // Filter rentals based on category and view mode
-  const filteredRentals = rentals.filter(r => {
-    if (r.quantity <= 0) return false
-    if (viewMode === 'buy') return false // Don't show rentals in buy mode
-    if (selectedCategory === 'all') return true
-    return r.category.id === selectedCategory
-  })
+  // Search with the current filters. Passing an offset appends the next page.
+  const fetchResults = async (offset = 0) => {
+    const params = new URLSearchParams({ sort, limit: String(PAGE_SIZE), offset: String(offset) })
+    if (query) params.set('q', query)
+    if (VIEW_MODE_TYPES[viewMode]) params.set('type', VIEW_MODE_TYPES[viewMode])
+    if (selectedCategory !== 'all') params.set('categoryId', selectedCategory)
+    if (minPrice) params.set('minPrice', minPrice)
+    if (maxPrice) params.set('maxPrice', maxPrice)
+    if (inStockOnly) params.set('inStock', 'true')
+
+    setSearching(true)
+    setSearchError('')
+    try {
+      const response = await fetch(`/api/shop/search?${params}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        setSearchError(data.error || 'Search failed')
+        return
+      }
+
+      setResults(offset === 0 ? data.results : [...results, ...data.results])
+      setTotalResults(data.total)
+      setFacets(data.facets)
+    } catch (error) {
+      console.error('Error searching shop:', error)
+      setSearchError('Search failed. Please try again.')
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  const clearFilters = () => {
+    setSearchInput('')
+    setSelectedCategory('all')
+    setMinPrice('')
+    setMaxPrice('')
+    setInStockOnly(false)
+  }
+
+  const hasFilters = !!searchInput || selectedCategory !== 'all' || !!minPrice || !!maxPrice || inStockOnly
+  const typeTotal = facets.types.PRODUCT + facets.types.RENT + facets.types.SELL
+  const categoryCount = (categoryId: string) => facets.categories.find(c => c.id === categoryId)?.count ?? 0
 
   const addToCart = (product: Product) => {
     addToCartContext({
@@ -203,7 +325,278 @@ export default function Shop() {
     )
   }
 
-  const totalItemsCount = filteredProducts.length + filteredRentals.length
+  const refineFilters = (
+    <div className="space-y-3">
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2">Price (₹)</p>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min="0"
+            placeholder={facets.price.min !== null ? `${Math.floor(facets.price.min)}` : 'Min'}
+            value={minPrice}
+            onChange={(e) => setMinPrice(e.target.value)}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm text-gray-900 placeholder-gray-400"
+          />
+          <span className="text-gray-400">–</span>
+          <input
+            type="number"
+            min="0"
+            placeholder={facets.price.max !== null ? `${Math.ceil(facets.price.max)}` : 'Max'}
+            value={maxPrice}
+            onChange={(e) => setMaxPrice(e.target.value)}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm text-gray-900 placeholder-gray-400"
+          />
+        </div>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={inStockOnly}
+          onChange={(e) => setInStockOnly(e.target.checked)}
+        />
+        Available now only ({facets.availability.inStock})
+      </label>
+    </div>
+  )
+
+  const renderProduct = (product: Product) => {
+    const cartItem = cart.find(item => item.productId === product.id)
+    const canAddMore = !cartItem || cartItem.quantity < product.stockQuantity
+
+    return (
+      <div key={product.id} className="bg-white rounded-lg shadow hover:shadow-md transition">
+        {product.imageUrl ? (
+          <img src={getThumbnailUrl(product.imageUrl)} alt={product.name} className="w-full aspect-square object-cover rounded-t-lg" />
+        ) : (
+          <div className="w-full aspect-square bg-gray-100 rounded-t-lg flex items-center justify-center text-4xl text-gray-300">
+            🛒
+          </div>
+        )}
+        <div className="p-4 sm:p-6">
+          <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start mb-3 gap-2">
+            <h3 className="text-base sm:text-lg font-semibold text-gray-900 flex-1">{product.name}</h3>
+            <span className="text-xs bg-gray-100 text-gray-600 px-2 py-1 rounded-full flex-shrink-0 self-start">
+              {product.category.name}
+            </span>
+          </div>
+
+          <div className="flex justify-between items-center mb-4">
+            <span className="text-xl sm:text-2xl font-bold text-green-600">₹{product.price}</span>
+            <span className={`text-sm ${product.stockQuantity < 5 ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+              {product.stockQuantity} left
+            </span>
+          </div>
+
+          {cartItem ? (
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => updateCartQuantity(product.id, cartItem.quantity - 1)}
+                  className="w-10 h-10 rounded-full bg-gray-200 text-gray-700 hover:bg-gray-300 flex items-center justify-center transition font-medium"
+                >
+                  -
+                </button>
+                <span className="font-semibold text-lg w-8 text-center text-gray-700">
+                  {cartItem.quantity}
+                </span>
+                <button
+                  onClick={() => updateCartQuantity(product.id, cartItem.quantity + 1)}
+                  disabled={!canAddMore}
+                  className="w-10 h-10 rounded-full bg-gray-200 text-gray-700 hover:bg-gray-300 flex items-center justify-center transition disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+                >
+                  +
+                </button>
+              </div>
+              <button
+                onClick={() => removeFromCart(product.id)}
+                className="text-red-600 hover:text-red-800 text-sm font-medium"
+              >
+                Remove
+              </button>
+            </div>
+          ) : product.stockQuantity <= 0 ? (
+            <button
+              disabled
+              className="w-full bg-gray-200 text-gray-500 py-3 px-4 rounded-lg font-medium cursor-not-allowed"
+            >
+              Out of Stock
+            </button>
+          ) : (
+            <button
+              onClick={() => addToCart(product)}
+              className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 transition font-medium"
+            >
+              Add to Cart
+            </button>
+          )}
+
+          {product.stockQuantity > 0 && product.stockQuantity < 3 && (
+            <p className="text-xs text-red-600 mt-2 font-medium">
+              ⚠️ Low stock - order soon!
+            </p>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  const renderRental = (rental: RentalListing) => {
+    const rates = getListingRates(rental, promotions)
+    return (
+      <div key={rental.id} className="bg-purple-50 border-2 border-purple-200 rounded-lg shadow hover:shadow-md transition">
+        {rental.images.length > 0 && (
+          <img src={getThumbnailUrl(rental.images[0])} alt={rental.itemName} className="w-full h-40 object-cover rounded-t-lg" />
+        )}
+        <div className="p-4 sm:p-6">
+          <div className="flex items-center gap-2 mb-2">
+            <span className="text-xs bg-purple-600 text-white px-2 py-1 rounded-full font-medium">
+              🏷️ RENTAL
+            </span>
+            <span className="text-xs bg-gray-100 text-gray-600 px-2 py-1 rounded-full">
+              {rental.category.name}
+            </span>
+            {rental.acceptsOffers && (
+              <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded-full">
+                Open to offers
+              </span>
+            )}
+          </div>
+
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-2">
+            {rental.itemName}
+          </h3>
+
+          <p className="text-sm text-gray-600 mb-3 line-clamp-2">
+            {rental.description}
+          </p>
+
+          <div className="flex justify-between items-center mb-3">
+            <div>
+              {rates.promotion && rates.daily < rental.finalRent && (
+                <span className="text-sm text-gray-400 line-through mr-1">₹{rental.finalRent}</span>
+              )}
+              <span className="text-xl sm:text-2xl font-bold text-purple-600">
+                ₹{rates.daily}
+              </span>
+              <span className="text-sm text-gray-500">/day</span>
+              {rates.promotion && (
+                <p className="text-xs text-green-700">🎉 {rates.promotion}: no platform fee</p>
+              )}
+            </div>
+            <span className="text-sm text-gray-600">
+              {rental.quantity} available
+            </span>
+          </div>
+
+          {(rental.weeklyRent || rental.monthlyRent || rental.minRentalDays > 1) && (
+            <p className="text-xs text-gray-600 mb-2">
+              {[
+                rates.weekly && `₹${rates.weekly}/week`,
+                rates.monthly && `₹${rates.monthly}/month`,
+                rental.minRentalDays > 1 && `min ${rental.minRentalDays} days`
+              ].filter(Boolean).join(' · ')}
+            </p>
+          )}
+
+          {rental.securityDeposit && rental.securityDeposit > 0 && (
+            <p className="text-xs text-gray-600 mb-3">
+              🔒 Security Deposit: ₹{rental.securityDeposit}
+            </p>
+          )}
+
+          <div className="bg-white border border-purple-200 rounded-lg p-3 mb-3 text-sm">
+            <p className="text-gray-700">
+              <strong>Owner:</strong> {rental.sellerName}
+            </p>
+            <p className="text-gray-700">
+              <strong>Room:</strong> {rental.sellerRoom}
+            </p>
+            <p className="text-gray-700">
+              <strong>Phone:</strong> {rental.sellerPhone}
+            </p>
+          </div>
+
+          <button
+            onClick={() => router.push(`/rental-checkout?listingId=${rental.id}`)}
+            className="w-full bg-purple-600 text-white py-3 px-4 rounded-lg hover:bg-purple-700 transition font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {rental.quantity - (rental.currentlyRented || 0) <= 0
+              ? '📅 Book for Later Dates'
+              : '🏷️ Rent This Item'
+            }
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  const renderSaleItem = (item: SaleListing) => {
+    const price = getSalePrice(item, promotions)
+    return (
+      <div key={item.id} className="bg-amber-50 border-2 border-amber-200 rounded-lg shadow hover:shadow-md transition">
+        {item.images.length > 0 && (
+          <img src={getThumbnailUrl(item.images[0])} alt={item.itemName} className="w-full h-40 object-cover rounded-t-lg" />
+        )}
+        <div className="p-4 sm:p-6">
+          <div className="flex items-center gap-2 mb-2">
+            <span className="text-xs bg-amber-600 text-white px-2 py-1 rounded-full font-medium">
+              💰 FOR SALE
+            </span>
+            <span className="text-xs bg-gray-100 text-gray-600 px-2 py-1 rounded-full">
+              {item.category.name}
+            </span>
+            {item.acceptsOffers && (
+              <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded-full">
+                Open to offers
+              </span>
+            )}
+          </div>
+
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-2">
+            {item.itemName}
+          </h3>
+
+          <p className="text-sm text-gray-600 mb-3 line-clamp-2">
+            {item.description}
+          </p>
+
+          <div className="flex justify-between items-center mb-3">
+            <div>
+              {price.promotion && price.total < item.finalSalePrice && (
+                <span className="text-sm text-gray-400 line-through mr-1">₹{item.finalSalePrice}</span>
+              )}
+              <span className="text-xl sm:text-2xl font-bold text-amber-600">
+                ₹{price.total}
+              </span>
+              {price.promotion && (
+                <p className="text-xs text-green-700">🎉 {price.promotion}: no platform fee</p>
+              )}
+            </div>
+            <span className="text-sm text-gray-600">
+              {item.quantity - item.quantitySold} available
+            </span>
+          </div>
+
+          <div className="bg-white border border-amber-200 rounded-lg p-3 mb-3 text-sm">
+            <p className="text-gray-700">
+              <strong>Seller:</strong> {item.sellerName}
+            </p>
+            <p className="text-gray-700">
+              <strong>Room:</strong> {item.sellerRoom}
+            </p>
+          </div>
+
+          <button
+            onClick={() => router.push(`/sale-checkout?listingId=${item.id}`)}
+            className="w-full bg-amber-600 text-white py-3 px-4 rounded-lg hover:bg-amber-700 transition font-medium"
+          >
+            💰 Buy This Item
+          </button>
+        </div>
+      </div>
+    )
+  }
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -242,7 +635,7 @@ export default function Shop() {
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
             <div>
               <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 mb-1 sm:mb-2">Shop</h1>
-              <p className="text-gray-600 text-sm sm:text-base">Browse products and rentals</p>
+              <p className="text-gray-600 text-sm sm:text-base">Browse products, rentals and items for sale</p>
             </div>
 
             {session.user.role === 'ADMIN' && (
@@ -264,8 +657,28 @@ export default function Shop() {
           </div>
         </div>
 
+        {/* Search and Sort */}
+        <div className="mb-4 flex flex-col sm:flex-row gap-2">
+          <input
+            type="search"
+            placeholder="Search products, rentals and items for sale..."
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className="flex-1 px-4 py-2.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900 placeholder-gray-400"
+          />
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value)}
+            className="px-3 py-2.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900 bg-white"
+          >
+            {SORT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
         {/* View Mode Toggle */}
-        <div className="mb-4 flex gap-2">
+        <div className="mb-4 flex flex-wrap gap-2">
           <button
             onClick={() => setViewMode('all')}
             className={`px-4 py-2 rounded-lg font-medium transition ${viewMode === 'all'
@@ -273,7 +686,7 @@ export default function Shop() {
                 : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
               }`}
           >
-            All ({products.filter(p => p.isAvailable && p.stockQuantity > 0).length + rentals.length})
+            All ({typeTotal})
           </button>
           <button
             onClick={() => setViewMode('buy')}
@@ -282,7 +695,7 @@ export default function Shop() {
                 : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
               }`}
           >
-            🛒 Buy ({products.filter(p => p.isAvailable && p.stockQuantity > 0).length})
+            🛒 Buy ({facets.types.PRODUCT})
           </button>
           <button
             onClick={() => setViewMode('rent')}
@@ -291,7 +704,16 @@ export default function Shop() {
                 : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
               }`}
           >
-            🏷️ Rent ({rentals.length})
+            🏷️ Rent ({facets.types.RENT})
+          </button>
+          <button
+            onClick={() => setViewMode('sale')}
+            className={`px-4 py-2 rounded-lg font-medium transition ${viewMode === 'sale'
+                ? 'bg-amber-600 text-white'
+                : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+              }`}
+          >
+            💰 For Sale ({facets.types.SELL})
           </button>
         </div>
 
@@ -322,29 +744,26 @@ export default function Shop() {
                       : 'hover:bg-gray-100 text-gray-700'
                     }`}
                 >
-                  All Items ({totalItemsCount})
+                  All Items ({facets.categories.reduce((sum, c) => sum + c.count, 0)})
                 </button>
-                {categories.map(category => {
-                  const categoryCount =
-                    (viewMode === 'rent' ? 0 : products.filter(p => p.isAvailable && p.stockQuantity > 0 && p.category.id === category.id).length) +
-                    (viewMode === 'buy' ? 0 : rentals.filter(r => r.category.id === category.id).length)
-
-                  return (
-                    <button
-                      key={category.id}
-                      onClick={() => {
-                        setSelectedCategory(category.id)
-                        setShowMobileFilters(false)
-                      }}
-                      className={`w-full text-left px-3 py-2 rounded transition ${selectedCategory === category.id
-                          ? 'bg-blue-100 text-blue-900 font-medium'
-                          : 'hover:bg-gray-100 text-gray-700'
-                        }`}
-                    >
-                      {category.name} ({categoryCount})
-                    </button>
-                  )
-                })}
+                {categories.map(category => (
+                  <button
+                    key={category.id}
+                    onClick={() => {
+                      setSelectedCategory(category.id)
+                      setShowMobileFilters(false)
+                    }}
+                    className={`w-full text-left px-3 py-2 rounded transition ${selectedCategory === category.id
+                        ? 'bg-blue-100 text-blue-900 font-medium'
+                        : 'hover:bg-gray-100 text-gray-700'
+                      }`}
+                  >
+                    {category.name} ({categoryCount(category.id)})
+                  </button>
+                ))}
+              </div>
+              <div className="border-t mt-3 pt-3">
+                {refineFilters}
               </div>
             </div>
           )}
@@ -390,29 +809,30 @@ export default function Shop() {
                       : 'hover:bg-gray-100 text-gray-700'
                     }`}
                 >
-                  All Items ({totalItemsCount})
+                  All Items ({facets.categories.reduce((sum, c) => sum + c.count, 0)})
                 </button>
-                {categories.map(category => {
-                  const categoryCount =
-                    (viewMode === 'rent' ? 0 : products.filter(p => p.isAvailable && p.stockQuantity > 0 && p.category.id === category.id).length) +
-                    (viewMode === 'buy' ? 0 : rentals.filter(r => r.category.id === category.id).length)
-
-                  return (
-                    <button
-                      key={category.id}
-                      onClick={() => setSelectedCategory(category.id)}
-                      className={`w-full text-left px-3 py-2 rounded transition ${selectedCategory === category.id
-                          ? 'bg-blue-100 text-blue-900 font-medium'
-                          : 'hover:bg-gray-100 text-gray-700'
-                        }`}
-                    >
-                      {category.name} ({categoryCount})
-                    </button>
-                  )
-                })}
+                {categories.map(category => (
+                  <button
+                    key={category.id}
+                    onClick={() => setSelectedCategory(category.id)}
+                    className={`w-full text-left px-3 py-2 rounded transition ${selectedCategory === category.id
+                        ? 'bg-blue-100 text-blue-900 font-medium'
+                        : 'hover:bg-gray-100 text-gray-700'
+                      }`}
+                  >
+                    {category.name} ({categoryCount(category.id)})
+                  </button>
+                ))}
               </div>
             </div>
 
+            <div className="bg-white rounded-lg shadow p-6 mb-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Refine</h3>
+              {refineFilters}
+            </div>
+
+            <CartChangesNotice />
+
             {cart.length > 0 && (
               <div className="bg-white rounded-lg shadow p-6">
                 <div className="flex items-center justify-between mb-4">
@@ -464,34 +884,44 @@ export default function Shop() {
           <div className="col-span-1 lg:col-span-3">
             <div className="mb-4 flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2">
               <p className="text-gray-600 text-sm">
-                {totalItemsCount} item{totalItemsCount !== 1 ? 's' : ''} found
+                {searching ? 'Searching...' : `${totalResults} item${totalResults !== 1 ? 's' : ''} found`}
               </p>
-              {selectedCategory !== 'all' && (
+              {hasFilters && (
                 <button
-                  onClick={() => setSelectedCategory('all')}
+                  onClick={clearFilters}
                   className="text-blue-600 hover:text-blue-800 text-sm font-medium text-left sm:text-right"
                 >
-                  Clear Filter
+                  Clear Filters
                 </button>
               )}
             </div>
 
-            {totalItemsCount === 0 ? (
+            {searchError && (
+              <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+                {searchError}
+              </div>
+            )}
+
+            {results.length === 0 ? (
               <div className="text-center py-12">
                 <div className="text-gray-400 text-4xl sm:text-6xl mb-4">
-                  {viewMode === 'rent' ? '🏷️' : '🛒'}
+                  {viewMode === 'rent' ? '🏷️' : viewMode === 'sale' ? '💰' : '🛒'}
                 </div>
                 <p className="text-gray-500 text-base sm:text-lg">
-                  {viewMode === 'rent'
-                    ? 'No rental items available in this category'
-                    : viewMode === 'buy'
-                      ? 'No products available in this category'
-                      : 'No items available in this category'
+                  {query
+                    ? `Nothing matches "${query}"`
+                    : viewMode === 'rent'
+                      ? 'No rental items available in this category'
+                      : viewMode === 'buy'
+                        ? 'No products available in this category'
+                        : viewMode === 'sale'
+                          ? 'No items for sale in this category'
+                          : 'No items available in this category'
                   }
                 </p>
-                {selectedCategory !== 'all' && (
+                {hasFilters && (
                   <button
-                    onClick={() => setSelectedCategory('all')}
+                    onClick={clearFilters}
                     className="mt-4 text-blue-600 hover:text-blue-800 font-medium"
                   >
                     View All Items
@@ -500,141 +930,25 @@ export default function Shop() {
               </div>
             ) : (
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-2 xl:grid-cols-3 gap-4 sm:gap-6">
-                {/* Display Products (Buy) */}
-                {viewMode !== 'rent' && filteredProducts.map(product => {
-                  const cartItem = cart.find(item => item.productId === product.id)
-                  const canAddMore = !cartItem || cartItem.quantity < product.stockQuantity
-
-                  return (
-                    <div key={product.id} className="bg-white rounded-lg shadow hover:shadow-md transition">
-                      <div className="p-4 sm:p-6">
-                        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start mb-3 gap-2">
-                          <h3 className="text-base sm:text-lg font-semibold text-gray-900 flex-1">{product.name}</h3>
-                          <span className="text-xs bg-gray-100 text-gray-600 px-2 py-1 rounded-full flex-shrink-0 self-start">
-                            {product.category.name}
-                          </span>
-                        </div>
-
-                        <div className="flex justify-between items-center mb-4">
-                          <span className="text-xl sm:text-2xl font-bold text-green-600">₹{product.price}</span>
-                          <span className={`text-sm ${product.stockQuantity < 5 ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
-                            {product.stockQuantity} left
-                          </span>
-                        </div>
-
-                        {cartItem ? (
-                          <div className="flex items-center justify-between">
-                            <div className="flex items-center space-x-3">
-                              <button
-                                onClick={() => updateCartQuantity(product.id, cartItem.quantity - 1)}
-                                className="w-10 h-10 rounded-full bg-gray-200 text-gray-700 hover:bg-gray-300 flex items-center justify-center transition font-medium"
-                              >
-                                -
-                              </button>
-                              <span className="font-semibold text-lg w-8 text-center text-gray-700">
-                                {cartItem.quantity}
-                              </span>
-                              <button
-                                onClick={() => updateCartQuantity(product.id, cartItem.quantity + 1)}
-                                disabled={!canAddMore}
-                                className="w-10 h-10 rounded-full bg-gray-200 text-gray-700 hover:bg-gray-300 flex items-center justify-center transition disabled:opacity-50 disabled:cursor-not-allowed font-medium"
-                              >
-                                +
-                              </button>
-                            </div>
-                            <button
-                              onClick={() => removeFromCart(product.id)}
-                              className="text-red-600 hover:text-red-800 text-sm font-medium"
-                            >
-                              Remove
-                            </button>
-                          </div>
-                        ) : (
-                          <button
-                            onClick={() => addToCart(product)}
-                            className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 transition font-medium"
-                          >
-                            Add to Cart
-                          </button>
-                        )}
-
-                        {product.stockQuantity < 3 && (
-                          <p className="text-xs text-red-600 mt-2 font-medium">
-                            ⚠️ Low stock - order soon!
-                          </p>
-                        )}
-                      </div>
-                    </div>
-                  )
-                })}
-
-                {/* Display Rentals */}
-                {viewMode !== 'buy' && filteredRentals.map(rental => (
-                  <div key={rental.id} className="bg-purple-50 border-2 border-purple-200 rounded-lg shadow hover:shadow-md transition">
-                    <div className="p-4 sm:p-6">
-                      <div className="flex items-center gap-2 mb-2">
-                        <span className="text-xs bg-purple-600 text-white px-2 py-1 rounded-full font-medium">
-                          🏷️ RENTAL
-                        </span>
-                        <span className="text-xs bg-gray-100 text-gray-600 px-2 py-1 rounded-full">
-                          {rental.category.name}
-                        </span>
-                      </div>
-
-                      <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-2">
-                        {rental.itemName}
-                      </h3>
-
-                      <p className="text-sm text-gray-600 mb-3 line-clamp-2">
-                        {rental.description}
-                      </p>
-
-                      <div className="flex justify-between items-center mb-3">
-                        <div>
-                          <span className="text-xl sm:text-2xl font-bold text-purple-600">
-                            ₹{rental.finalRent}
-                          </span>
-                          <span className="text-sm text-gray-500">/day</span>
-                        </div>
-                        <span className="text-sm text-gray-600">
-                          {rental.quantity} available
-                        </span>
-                      </div>
-
-                      {rental.securityDeposit && rental.securityDeposit > 0 && (
-                        <p className="text-xs text-gray-600 mb-3">
-                          🔒 Security Deposit: ₹{rental.securityDeposit}
-                        </p>
-                      )}
-
-                      <div className="bg-white border border-purple-200 rounded-lg p-3 mb-3 text-sm">
-                        <p className="text-gray-700">
-                          <strong>Owner:</strong> {rental.sellerName}
-                        </p>
-                        <p className="text-gray-700">
-                          <strong>Room:</strong> {rental.sellerRoom}
-                        </p>
-                        <p className="text-gray-700">
-                          <strong>Phone:</strong> {rental.sellerPhone}
-                        </p>
-                      </div>
+                {results.map(result =>
+                  result.type === 'PRODUCT'
+                    ? renderProduct(result.item)
+                    : result.type === 'RENT'
+                      ? renderRental(result.item)
+                      : renderSaleItem(result.item)
+                )}
+              </div>
+            )}
 
-                      <button
-        onClick={() => {
-          console.log('Rental ID:', rental.id) // Debug log
-          router.push(`/rental-checkout?listingId=${rental.id}`)
-        }}
-        disabled={rental.quantity - (rental.currentlyRented || 0) <= 0}
-        className="w-full bg-purple-600 text-white py-3 px-4 rounded-lg hover:bg-purple-700 transition font-medium disabled:opacity-50 disabled:cursor-not-allowed"
-      >
-        {rental.quantity - (rental.currentlyRented || 0) <= 0 
-          ? '❌ Currently Unavailable' 
-          : '🏷️ Rent This Item'
-        }
-      </button>
-                    </div>
-                  </div>
-                ))}
+            {results.length < totalResults && (
+              <div className="text-center mt-6">
+                <button
+                  onClick={() => fetchResults(results.length)}
+                  disabled={searching}
+                  className="bg-white border border-gray-300 text-gray-700 px-6 py-2.5 rounded-lg hover:bg-gray-50 transition font-medium disabled:opacity-50"
+                >
+                  {searching ? 'Loading...' : `Show More (${totalResults - results.length} left)`}
+                </button>
               </div>
             )}
           </div>
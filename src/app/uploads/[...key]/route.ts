@@ -0,0 +1,26 @@
+// src/app/uploads/[...key]/route.ts
+// Serves images stored by the local storage backend
+import { NextRequest, NextResponse } from "next/server"
+import { readLocalUpload } from "@/lib/storage"
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string[] }> }
+) {
+  const { key } = await params
+
+  // Only processed images are ever stored
+  const file = key[key.length - 1].endsWith('.webp') ? await readLocalUpload(key.join('/')) : null
+
+  if (!file) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  // Keys are content hashes, so a URL never points at different bytes
+  return new NextResponse(new Uint8Array(file), {
+    headers: {
+      'Content-Type': 'image/webp',
+      'Cache-Control': 'public, max-age=31536000, immutable'
+    }
+  })
+}
@@ -0,0 +1,469 @@
+// FILE: src/app/wanted/page.tsx
+// Wanted board: requests for items nobody has listed yet
+'use client'
+import { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useInfiniteList } from '@/hooks/useInfiniteList'
+
+interface Category {
+  id: string
+  name: string
+}
+
+interface WantedPost {
+  id: string
+  requesterId: string
+  requesterName: string
+  requesterRoom: string | null
+  title: string
+  description: string
+  listingType: 'RENT' | 'SELL'
+  neededFrom: string | null
+  neededUntil: string | null
+  budget: number
+  status: string
+  rejectionReason: string | null
+  submittedAt: string
+  category: Category
+  _count?: { listings: number }
+  listings?: {
+    id: string
+    itemName: string
+    listingType: string
+    status: string
+    finalRent: number
+    finalSalePrice: number | null
+    sellerName: string
+    sellerRoom: string
+  }[]
+}
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'PENDING':
+      return 'bg-yellow-100 text-yellow-800'
+    case 'LIVE':
+      return 'bg-green-100 text-green-800'
+    case 'FULFILLED':
+      return 'bg-blue-100 text-blue-800'
+    case 'REJECTED':
+      return 'bg-red-100 text-red-800'
+    default:
+      return 'bg-gray-100 text-gray-800'
+  }
+}
+
+const formatDates = (post: WantedPost) => {
+  const format = (date: string) => new Date(date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })
+  if (post.neededFrom && post.neededUntil) return `${format(post.neededFrom)} – ${format(post.neededUntil)}`
+  if (post.neededFrom) return `From ${format(post.neededFrom)}`
+  if (post.neededUntil) return `By ${format(post.neededUntil)}`
+  return 'Any time'
+}
+
+export default function WantedPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [categories, setCategories] = useState<Category[]>([])
+  const [selectedCategory, setSelectedCategory] = useState('all')
+  const [activeTab, setActiveTab] = useState<'board' | 'mine'>('board')
+  const [showForm, setShowForm] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [formData, setFormData] = useState({
+    title: '',
+    description: '',
+    categoryId: '',
+    listingType: 'RENT' as 'RENT' | 'SELL',
+    neededFrom: '',
+    neededUntil: '',
+    budget: ''
+  })
+
+  // The board is filtered by category on the server; the first page carries both tab counts
+  const postsUrl = activeTab === 'mine'
+    ? '/api/wanted?mine=true'
+    : `/api/wanted${selectedCategory === 'all' ? '' : `?categoryId=${encodeURIComponent(selectedCategory)}`}`
+  const {
+    items: posts,
+    meta,
+    loading,
+    loadingMore,
+    hasMore,
+    reload: fetchPosts,
+    sentinelRef
+  } = useInfiniteList<WantedPost, { counts: Record<'board' | 'mine', number> }>(session ? postsUrl : null)
+  const counts = meta?.counts || { board: 0, mine: 0 }
+
+  useEffect(() => {
+    if (status === 'loading') return
+    if (!session) {
+      router.push('/auth/signin')
+      return
+    }
+    fetchCategories()
+  }, [session, status, router])
+
+  const fetchCategories = async () => {
+    try {
+      const response = await fetch('/api/categories')
+      if (response.ok) {
+        setCategories(await response.json())
+      }
+    } catch (error) {
+      console.error('Error fetching categories:', error)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    try {
+      const response = await fetch('/api/wanted', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData)
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        alert('Request submitted! It will appear on the board once an admin approves it.')
+        setShowForm(false)
+        setFormData({ ...formData, title: '', description: '', neededFrom: '', neededUntil: '', budget: '' })
+        setActiveTab('mine')
+        fetchPosts()
+      } else {
+        alert(data.error || 'Failed to submit request')
+      }
+    } catch (error) {
+      console.error('Error submitting wanted post:', error)
+      alert('Failed to submit request')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const closePost = async (postId: string, newStatus: 'FULFILLED' | 'CLOSED') => {
+    if (!confirm(newStatus === 'FULFILLED' ? 'Mark as found? The post leaves the board.' : 'Take this request down?')) return
+
+    try {
+      const response = await fetch(`/api/wanted/${postId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: newStatus })
+      })
+      if (response.ok) {
+        fetchPosts()
+      } else {
+        const data = await response.json()
+        alert(data.error || 'Failed to update request')
+      }
+    } catch (error) {
+      console.error('Error closing wanted post:', error)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null
+  }
+
+  const boardPosts = activeTab === 'board' ? posts : []
+  const myPosts = activeTab === 'mine' ? posts : []
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <nav className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <button
+                onClick={() => router.push('/shop')}
+                className="text-blue-600 hover:text-blue-800 mr-4 font-medium"
+              >
+                ← Back to Shop
+              </button>
+              <h1 className="text-xl font-semibold text-gray-900">📣 Wanted</h1>
+            </div>
+            <div className="flex items-center">
+              <button
+                onClick={() => setShowForm(!showForm)}
+                className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 text-sm font-medium"
+              >
+                {showForm ? 'Cancel' : '+ Post a Request'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* New Request */}
+        {showForm && (
+          <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 mb-6 space-y-4">
+            <h2 className="text-lg font-semibold text-gray-900">What do you need?</h2>
+            <input
+              type="text"
+              value={formData.title}
+              onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+              placeholder="e.g. Lab drafter, formal blazer (size M)"
+              required
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg text-gray-900"
+            />
+            <textarea
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              placeholder="Any details that help: size, model, condition..."
+              rows={3}
+              required
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg text-gray-900"
+            />
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <select
+                value={formData.categoryId}
+                onChange={(e) => setFormData({ ...formData, categoryId: e.target.value })}
+                required
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-900"
+              >
+                <option value="">Select a category</option>
+                {categories.map(category => (
+                  <option key={category.id} value={category.id}>{category.name}</option>
+                ))}
+              </select>
+              <div className="grid grid-cols-2 gap-2">
+                {(['RENT', 'SELL'] as const).map(type => (
+                  <button
+                    key={type}
+                    type="button"
+                    onClick={() => setFormData({ ...formData, listingType: type })}
+                    className={`py-2 rounded-lg border font-medium text-sm ${formData.listingType === type
+                      ? 'bg-indigo-600 text-white border-indigo-600'
+                      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                      }`}
+                  >
+                    {type === 'RENT' ? '🏷️ Borrow it' : '💰 Buy it'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <label className="text-sm text-gray-700">
+                Needed from
+                <input
+                  type="date"
+                  value={formData.neededFrom}
+                  onChange={(e) => setFormData({ ...formData, neededFrom: e.target.value })}
+                  className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg text-gray-900"
+                />
+              </label>
+              <label className="text-sm text-gray-700">
+                Needed until
+                <input
+                  type="date"
+                  value={formData.neededUntil}
+                  onChange={(e) => setFormData({ ...formData, neededUntil: e.target.value })}
+                  className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg text-gray-900"
+                />
+              </label>
+              <label className="text-sm text-gray-700">
+                Budget (₹{formData.listingType === 'RENT' ? ' per day' : ''}) *
+                <input
+                  type="number"
+                  value={formData.budget}
+                  onChange={(e) => setFormData({ ...formData, budget: e.target.value })}
+                  min="1"
+                  step="1"
+                  required
+                  className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg text-gray-900"
+                />
+              </label>
+            </div>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="w-full bg-indigo-600 text-white py-3 rounded-lg hover:bg-indigo-700 disabled:opacity-50 font-medium"
+            >
+              {submitting ? 'Submitting...' : 'Submit for Review'}
+            </button>
+          </form>
+        )}
+
+        {/* Tabs */}
+        <div className="bg-white rounded-lg shadow mb-6">
+          <div className="flex border-b">
+            <button
+              onClick={() => setActiveTab('board')}
+              className={`px-6 py-3 font-medium ${activeTab === 'board'
+                  ? 'border-b-2 border-indigo-600 text-indigo-600'
+                  : 'text-gray-600 hover:text-gray-900'
+                }`}
+            >
+              Board ({counts.board})
+            </button>
+            <button
+              onClick={() => setActiveTab('mine')}
+              className={`px-6 py-3 font-medium ${activeTab === 'mine'
+                  ? 'border-b-2 border-indigo-600 text-indigo-600'
+                  : 'text-gray-600 hover:text-gray-900'
+                }`}
+            >
+              My Requests ({counts.mine})
+            </button>
+          </div>
+        </div>
+
+        {activeTab === 'board' && (
+          <>
+            <div className="mb-4">
+              <select
+                value={selectedCategory}
+                onChange={(e) => setSelectedCategory(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md text-gray-900"
+              >
+                <option value="all">All categories</option>
+                {categories.map(category => (
+                  <option key={category.id} value={category.id}>{category.name}</option>
+                ))}
+              </select>
+            </div>
+
+            {boardPosts.length === 0 ? (
+              <div className="bg-white rounded-lg shadow p-12 text-center">
+                <div className="text-6xl mb-4">📣</div>
+                <p className="text-gray-600">Nobody is looking for anything right now</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {boardPosts.map(post => (
+                  <div key={post.id} className="bg-indigo-50 border-2 border-indigo-200 rounded-lg shadow p-4 sm:p-6">
+                    <div className="flex items-center gap-2 mb-2">
+                      <span className="text-xs bg-indigo-600 text-white px-2 py-1 rounded-full font-medium">
+                        {post.listingType === 'RENT' ? '🏷️ TO BORROW' : '💰 TO BUY'}
+                      </span>
+                      <span className="text-xs bg-gray-100 text-gray-600 px-2 py-1 rounded-full">
+                        {post.category.name}
+                      </span>
+                    </div>
+                    <h3 className="text-lg font-semibold text-gray-900 mb-1">{post.title}</h3>
+                    <p className="text-sm text-gray-600 mb-3 line-clamp-3">{post.description}</p>
+                    <div className="text-sm text-gray-700 space-y-1 mb-4">
+                      <p>💸 Up to ₹{post.budget}{post.listingType === 'RENT' ? '/day' : ''}</p>
+                      <p>📅 {formatDates(post)}</p>
+                      <p>👤 {post.requesterName}{post.requesterRoom && ` · Room ${post.requesterRoom}`}</p>
+                      {!!post._count?.listings && (
+                        <p className="text-xs text-indigo-700">{post._count.listings} listing(s) already offered</p>
+                      )}
+                    </div>
+                    {post.requesterId !== session.user.id && (
+                      <button
+                        onClick={() => router.push(`/sell-rent/new?wantedPostId=${post.id}`)}
+                        className="w-full bg-indigo-600 text-white py-2 rounded-lg hover:bg-indigo-700 font-medium"
+                      >
+                        🙋 I Have This
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+
+        {activeTab === 'mine' && (
+          myPosts.length === 0 ? (
+            <div className="bg-white rounded-lg shadow p-12 text-center">
+              <p className="text-gray-600">You haven&apos;t asked for anything yet</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {myPosts.map(post => (
+                <div key={post.id} className="bg-white rounded-lg shadow border p-6">
+                  <div className="flex justify-between items-start mb-3">
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-900">{post.title}</h3>
+                      <div className="flex gap-2 mt-2 items-center">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(post.status)}`}>
+                          {post.status}
+                        </span>
+                        <span className="text-xs text-gray-500">
+                          {post.category.name} · {formatDates(post)} · up to ₹{post.budget}{post.listingType === 'RENT' ? '/day' : ''}
+                        </span>
+                      </div>
+                    </div>
+                    {(post.status === 'PENDING' || post.status === 'LIVE') && (
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => closePost(post.id, 'FULFILLED')}
+                          className="bg-green-100 text-green-800 px-3 py-1 rounded-lg hover:bg-green-200 text-sm font-medium"
+                        >
+                          ✅ Found It
+                        </button>
+                        <button
+                          onClick={() => closePost(post.id, 'CLOSED')}
+                          className="bg-gray-100 text-gray-700 px-3 py-1 rounded-lg hover:bg-gray-200 text-sm font-medium"
+                        >
+                          Take Down
+                        </button>
+                      </div>
+                    )}
+                  </div>
+
+                  {post.status === 'REJECTED' && post.rejectionReason && (
+                    <p className="text-sm text-red-700 bg-red-50 rounded-lg p-3">❌ {post.rejectionReason}</p>
+                  )}
+
+                  {post.listings && post.listings.length > 0 ? (
+                    <div className="border-t pt-3 mt-3 space-y-2">
+                      <h4 className="text-sm font-semibold text-gray-900">Responses</h4>
+                      {post.listings.map(listing => (
+                        <div key={listing.id} className="flex justify-between items-center bg-indigo-50 rounded-lg p-3">
+                          <div className="text-sm">
+                            <p className="font-medium text-gray-900">{listing.itemName}</p>
+                            <p className="text-gray-600">
+                              {listing.sellerName} · Room {listing.sellerRoom} ·{' '}
+                              {listing.listingType === 'SELL' ? `₹${listing.finalSalePrice}` : `₹${listing.finalRent}/day`}
+                            </p>
+                          </div>
+                          {listing.status === 'LIVE' ? (
+                            <button
+                              onClick={() => router.push(
+                                listing.listingType === 'SELL'
+                                  ? `/sale-checkout?listingId=${listing.id}`
+                                  : `/rental-checkout?listingId=${listing.id}`
+                              )}
+                              className="bg-indigo-600 text-white px-3 py-1 rounded-lg hover:bg-indigo-700 text-sm font-medium"
+                            >
+                              {listing.listingType === 'SELL' ? 'Buy' : 'Rent'}
+                            </button>
+                          ) : (
+                            <span className="text-xs text-gray-500">{listing.status}</span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  ) : post.status === 'LIVE' && (
+                    <p className="text-sm text-gray-500 mt-2">No responses yet. We&apos;ll email you when someone lists one.</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )
+        )}
+
+        {hasMore && (
+          <div ref={sentinelRef} className="text-center py-4 text-sm text-gray-500">
+            {loadingMore ? 'Loading more requests...' : ''}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
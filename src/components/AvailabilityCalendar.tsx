@@ -0,0 +1,108 @@
+// File: src/components/AvailabilityCalendar.tsx
+'use client'
+
+export interface DayAvailability {
+  date: string // YYYY-MM-DD
+  booked: number
+  available: number
+}
+
+interface AvailabilityCalendarProps {
+  days: DayAvailability[]
+  selectedStart: string
+  rentalDays: number
+  onSelectStart: (date: string) => void
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// Adds whole days to a YYYY-MM-DD string
+const shiftDate = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+export default function AvailabilityCalendar({
+  days,
+  selectedStart,
+  rentalDays,
+  onSelectStart
+}: AvailabilityCalendarProps) {
+  const selectedEnd = shiftDate(selectedStart, rentalDays)
+
+  // Group days by month so each month renders as its own grid
+  const months = days.reduce<{ key: string; label: string; days: DayAvailability[] }[]>((acc, day) => {
+    const key = day.date.slice(0, 7)
+    let month = acc.find(m => m.key === key)
+    if (!month) {
+      month = {
+        key,
+        label: new Date(`${day.date}T00:00:00Z`).toLocaleDateString('en-IN', {
+          month: 'long',
+          year: 'numeric',
+          timeZone: 'UTC'
+        }),
+        days: []
+      }
+      acc.push(month)
+    }
+    month.days.push(day)
+    return acc
+  }, [])
+
+  const getDayClass = (day: DayAvailability) => {
+    const inRange = day.date >= selectedStart && day.date < selectedEnd
+
+    if (day.available <= 0) {
+      return inRange
+        ? 'bg-red-100 text-red-400 line-through cursor-not-allowed'
+        : 'bg-gray-100 text-gray-300 cursor-not-allowed'
+    }
+    if (day.date === selectedStart) return 'bg-purple-600 text-white font-semibold'
+    if (inRange) return 'bg-purple-100 text-purple-900'
+    return 'text-gray-800 hover:bg-purple-50'
+  }
+
+  if (days.length === 0) {
+    return <p className="text-sm text-gray-500">Loading availability...</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      {months.map(month => {
+        const offset = new Date(`${month.days[0].date}T00:00:00Z`).getUTCDay()
+
+        return (
+          <div key={month.key}>
+            <p className="text-sm font-semibold text-gray-900 mb-2">{month.label}</p>
+            <div className="grid grid-cols-7 gap-1 text-center text-xs">
+              {WEEKDAYS.map(weekday => (
+                <div key={weekday} className="text-gray-500 font-medium py-1">{weekday}</div>
+              ))}
+              {Array.from({ length: offset }).map((_, i) => (
+                <div key={`blank-${i}`} />
+              ))}
+              {month.days.map(day => (
+                <button
+                  key={day.date}
+                  type="button"
+                  disabled={day.available <= 0}
+                  onClick={() => onSelectStart(day.date)}
+                  title={day.available <= 0 ? 'Fully booked' : `${day.available} available`}
+                  className={`py-2 rounded ${getDayClass(day)}`}
+                >
+                  {Number(day.date.slice(8))}
+                </button>
+              ))}
+            </div>
+          </div>
+        )
+      })}
+      <div className="flex gap-4 text-xs text-gray-600">
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-purple-600 inline-block" /> Selected</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-gray-100 border inline-block" /> Fully booked</span>
+      </div>
+    </div>
+  )
+}
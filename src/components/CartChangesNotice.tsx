@@ -0,0 +1,49 @@
+// File: src/components/CartChangesNotice.tsx
+'use client'
+
+import { useCart } from '@/contexts/CartContext'
+import type { CartLine } from '@/lib/cart'
+
+const describeChange = (line: CartLine) => {
+  const parts: string[] = []
+  if (line.previousPrice !== undefined) {
+    parts.push(`price changed from ₹${line.previousPrice} to ₹${line.price}`)
+  }
+  if (line.requestedQuantity !== undefined) {
+    parts.push(`only ${line.quantity} left, you had ${line.requestedQuantity}`)
+  }
+  return `${line.name}: ${parts.join('; ')}`
+}
+
+// What the last cart check changed: new prices, quantities cut to stock, products dropped
+export default function CartChangesNotice() {
+  const { cartChanges, dismissCartChanges } = useCart()
+
+  if (!cartChanges) return null
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6 text-left">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <p className="text-yellow-800 font-medium">Your cart was updated</p>
+          <ul className="text-yellow-700 text-sm mt-1 space-y-1">
+            {cartChanges.changed.map(line => (
+              <li key={line.productId}>{describeChange(line)}</li>
+            ))}
+            {cartChanges.removed.map(line => (
+              <li key={line.productId}>
+                {line.name}: {line.reason === 'OUT_OF_STOCK' ? 'out of stock' : 'no longer sold'}, removed
+              </li>
+            ))}
+          </ul>
+        </div>
+        <button
+          onClick={dismissCartChanges}
+          className="text-yellow-700 hover:text-yellow-900 text-sm font-medium"
+        >
+          Dismiss
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+// File: src/components/ConditionReportComparison.tsx
+'use client'
+
+import { CONDITION_CHECKLIST, ConditionReport } from './ConditionReportForm'
+
+interface ConditionReportComparisonProps {
+  reports: ConditionReport[]
+}
+
+const STAGES: { stage: ConditionReport['stage']; label: string }[] = [
+  { stage: 'HANDOVER', label: '🤝 At Handover' },
+  { stage: 'RETURN', label: '📦 At Return' }
+]
+
+const formatTimestamp = (value: string) =>
+  new Date(value).toLocaleString('en-IN', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+
+// Handover and return reports side by side so changes in condition stand out
+export default function ConditionReportComparison({ reports }: ConditionReportComparisonProps) {
+  if (reports.length === 0) {
+    return <p className="text-xs text-gray-500">No condition photos recorded</p>
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {STAGES.map(({ stage, label }) => {
+        const stageReports = reports.filter(r => r.stage === stage)
+
+        return (
+          <div key={stage} className="bg-gray-50 border rounded-lg p-3">
+            <h5 className="font-semibold text-sm text-gray-900 mb-2">{label}</h5>
+            {stageReports.length === 0 ? (
+              <p className="text-xs text-gray-500">Nothing recorded</p>
+            ) : (
+              <div className="space-y-3">
+                {stageReports.map(report => (
+                  <div key={report.id} className="text-sm">
+                    <p className="text-xs text-gray-500 mb-1">
+                      By {report.uploadedBy === 'RENTER' ? 'renter' : 'owner'} · {formatTimestamp(report.updatedAt)}
+                    </p>
+                    <ul className="text-xs space-y-0.5 mb-2">
+                      {CONDITION_CHECKLIST.map(item => (
+                        <li key={item} className={
+                          report.checklist[item] === true ? 'text-green-800'
+                            : report.checklist[item] === false ? 'text-red-700'
+                              : 'text-gray-400'
+                        }>
+                          {report.checklist[item] === true ? '✓' : report.checklist[item] === false ? '✗' : '–'} {item}
+                        </li>
+                      ))}
+                    </ul>
+                    {report.photos.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mb-1">
+                        {report.photos.map(photo => (
+                          <a key={photo} href={photo} target="_blank" rel="noopener noreferrer">
+                            <img src={photo} alt={`${stage.toLowerCase()} condition`} className="w-20 h-20 object-cover rounded border" />
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                    {report.notes && (
+                      <p className="text-xs text-gray-700 whitespace-pre-wrap">{report.notes}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,134 @@
+// File: src/components/ConditionReportForm.tsx
+'use client'
+
+import { useState } from 'react'
+
+export interface ConditionReport {
+  id: string
+  stage: 'HANDOVER' | 'RETURN'
+  uploadedBy: 'RENTER' | 'SELLER'
+  photos: string[]
+  checklist: Record<string, boolean>
+  notes: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+interface ConditionReportFormProps {
+  rentalId: string
+  stage: ConditionReport['stage']
+  existing?: ConditionReport
+  onSaved: () => void
+}
+
+// Must match CONDITION_CHECKLIST in src/lib/rentalCondition.ts
+export const CONDITION_CHECKLIST = [
+  'Works as expected',
+  'No new scratches, dents or cracks',
+  'All parts and accessories included',
+  'Clean'
+]
+
+export default function ConditionReportForm({
+  rentalId,
+  stage,
+  existing,
+  onSaved
+}: ConditionReportFormProps) {
+  const [open, setOpen] = useState(false)
+  const [photoUrls, setPhotoUrls] = useState(existing?.photos.join('\n') || '')
+  const [checklist, setChecklist] = useState<Record<string, boolean>>(existing?.checklist || {})
+  const [notes, setNotes] = useState(existing?.notes || '')
+  const [saving, setSaving] = useState(false)
+
+  const label = stage === 'HANDOVER' ? 'pickup' : 'return'
+
+  const save = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/rentals/${rentalId}/condition`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          stage,
+          photos: photoUrls.split(/[\n,]/).map(url => url.trim()).filter(Boolean),
+          checklist,
+          notes
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        alert(data.error || 'Failed to save condition report')
+        return
+      }
+
+      setOpen(false)
+      onSaved()
+    } catch (error) {
+      console.error('Error saving condition report:', error)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="text-sm text-teal-700 hover:text-teal-900 font-medium"
+      >
+        📸 {existing ? `Update ${label} condition photos (saved)` : `Record item condition at ${label}`}
+      </button>
+    )
+  }
+
+  return (
+    <div className="bg-teal-50 border border-teal-200 rounded-lg p-4 space-y-3">
+      <h4 className="font-semibold text-sm text-gray-900">
+        Item condition at {label}
+      </h4>
+      <div className="space-y-1">
+        {CONDITION_CHECKLIST.map(item => (
+          <label key={item} className="flex items-center gap-2 text-sm text-gray-800">
+            <input
+              type="checkbox"
+              checked={checklist[item] === true}
+              onChange={(e) => setChecklist({ ...checklist, [item]: e.target.checked })}
+            />
+            {item}
+          </label>
+        ))}
+      </div>
+      <textarea
+        value={photoUrls}
+        onChange={(e) => setPhotoUrls(e.target.value)}
+        placeholder="Photo URLs, one per line"
+        rows={2}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 text-sm"
+      />
+      <textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        placeholder="Anything worth noting (existing scratches, missing charger...)"
+        rows={2}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 text-sm"
+      />
+      <div className="flex gap-2">
+        <button
+          onClick={save}
+          disabled={saving}
+          className="bg-teal-600 text-white px-4 py-2 rounded-lg hover:bg-teal-700 disabled:opacity-50 text-sm font-medium"
+        >
+          {saving ? 'Saving...' : 'Save Condition Report'}
+        </button>
+        <button
+          onClick={() => setOpen(false)}
+          className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 text-sm"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
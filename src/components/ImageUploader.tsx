@@ -0,0 +1,143 @@
+// File: src/components/ImageUploader.tsx
+'use client'
+
+import { useRef, useState } from 'react'
+import { getThumbnailUrl } from '@/lib/imageUrls'
+
+interface ImageUploaderProps {
+  images: string[]
+  onChange: (images: string[]) => void
+  max: number
+  purpose?: 'listing' | 'product'
+}
+
+// Drop or pick photos; they upload straight away and can be dragged into order.
+// The first image is the cover shown in the shop.
+export default function ImageUploader({ images, onChange, max, purpose = 'listing' }: ImageUploaderProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [uploading, setUploading] = useState(false)
+  const [error, setError] = useState('')
+  const [dragOver, setDragOver] = useState(false)
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null)
+
+  const upload = async (fileList: FileList | null) => {
+    const files = Array.from(fileList || [])
+    if (files.length === 0) return
+
+    const room = max - images.length
+    if (room <= 0) {
+      setError(`You can add at most ${max} images`)
+      return
+    }
+
+    setUploading(true)
+    setError(files.length > room ? `Only the first ${room} image(s) were added (limit ${max})` : '')
+    try {
+      const body = new FormData()
+      body.append('purpose', purpose)
+      files.slice(0, room).forEach(file => body.append('files', file))
+
+      const response = await fetch('/api/uploads', { method: 'POST', body })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Upload failed')
+        return
+      }
+
+      onChange([...images, ...data.images.map((image: { url: string }) => image.url)])
+    } catch (err) {
+      console.error('Error uploading images:', err)
+      setError('Upload failed')
+    } finally {
+      setUploading(false)
+      if (inputRef.current) inputRef.current.value = ''
+    }
+  }
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= images.length || from === to) return
+    const next = [...images]
+    const [moved] = next.splice(from, 1)
+    next.splice(to, 0, moved)
+    onChange(next)
+  }
+
+  return (
+    <div>
+      {images.length > 0 && (
+        <div className="grid grid-cols-3 sm:grid-cols-4 gap-3 mb-3">
+          {images.map((image, index) => (
+            <div
+              key={image}
+              draggable
+              onDragStart={() => setDraggedIndex(index)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault()
+                e.stopPropagation()
+                if (draggedIndex !== null) move(draggedIndex, index)
+                setDraggedIndex(null)
+              }}
+              onDragEnd={() => setDraggedIndex(null)}
+              className={`relative group rounded-lg overflow-hidden border-2 cursor-move ${draggedIndex === index ? 'opacity-50 border-blue-400' : 'border-gray-200'}`}
+            >
+              <img src={getThumbnailUrl(image)} alt={`Photo ${index + 1}`} className="w-full aspect-square object-cover" />
+              {index === 0 && (
+                <span className="absolute top-1 left-1 text-xs bg-blue-600 text-white px-2 py-0.5 rounded-full">
+                  Cover
+                </span>
+              )}
+              <div className="absolute bottom-0 inset-x-0 flex justify-between bg-black/50 text-white text-sm opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition">
+                <button type="button" onClick={() => move(index, index - 1)} disabled={index === 0} className="px-2 py-1 disabled:opacity-30">
+                  ←
+                </button>
+                <button type="button" onClick={() => onChange(images.filter((_, i) => i !== index))} className="px-2 py-1">
+                  ✕
+                </button>
+                <button type="button" onClick={() => move(index, index + 1)} disabled={index === images.length - 1} className="px-2 py-1 disabled:opacity-30">
+                  →
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {images.length < max && (
+        <div
+          onClick={() => inputRef.current?.click()}
+          onDragOver={(e) => {
+            e.preventDefault()
+            setDragOver(true)
+          }}
+          onDragLeave={() => setDragOver(false)}
+          onDrop={(e) => {
+            e.preventDefault()
+            setDragOver(false)
+            upload(e.dataTransfer.files)
+          }}
+          className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition ${dragOver ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-gray-400'}`}
+        >
+          <p className="text-sm text-gray-700">
+            {uploading ? 'Uploading...' : '📷 Drag photos here or click to choose'}
+          </p>
+          <p className="text-xs text-gray-500 mt-1">
+            JPEG, PNG or WebP, up to 8 MB each · {images.length}/{max} added
+          </p>
+          <input
+            ref={inputRef}
+            type="file"
+            accept="image/jpeg,image/png,image/webp"
+            multiple
+            onChange={(e) => upload(e.target.files)}
+            disabled={uploading}
+            className="hidden"
+          />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  )
+}
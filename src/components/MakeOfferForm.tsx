@@ -0,0 +1,102 @@
+// File: src/components/MakeOfferForm.tsx
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+interface MakeOfferFormProps {
+  listingId: string
+  askingPrice: number // Seller side, before the platform fee
+  perDay?: boolean
+}
+
+export default function MakeOfferForm({ listingId, askingPrice, perDay = false }: MakeOfferFormProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [amount, setAmount] = useState('')
+  const [message, setMessage] = useState('')
+  const [sending, setSending] = useState(false)
+
+  const unit = perDay ? '/day' : ''
+
+  const send = async () => {
+    setSending(true)
+    try {
+      const response = await fetch('/api/offers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ listingId, amount, message })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        alert('Offer sent! The owner has 48 hours to answer.')
+        router.push('/offers')
+      } else {
+        alert(data.error || 'Failed to send offer')
+      }
+    } catch (error) {
+      console.error('Error sending offer:', error)
+      alert('Failed to send offer')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="w-full bg-white border border-amber-400 text-amber-700 py-2 px-4 rounded-lg hover:bg-amber-50 font-medium"
+      >
+        🤝 Make an Offer
+      </button>
+    )
+  }
+
+  return (
+    <div className="border border-amber-200 bg-amber-50 rounded-lg p-4 space-y-3">
+      <p className="text-sm text-amber-900">
+        Asking ₹{askingPrice}{unit} before the platform fee. Offer what you would like the owner to get;
+        the fee is added on top at checkout.
+      </p>
+      <div className="relative">
+        <span className="absolute left-3 top-2 text-gray-500">₹</span>
+        <input
+          type="number"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder={String(Math.floor(askingPrice * 0.8))}
+          min="1"
+          step="1"
+          className="w-full pl-7 pr-4 py-2 border border-gray-300 rounded-lg text-gray-900"
+        />
+      </div>
+      <textarea
+        value={message}
+        onChange={(e) => setMessage(e.target.value)}
+        placeholder="Message to the owner (optional)"
+        rows={2}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 text-sm"
+      />
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={send}
+          disabled={sending || !amount || parseFloat(amount) <= 0 || parseFloat(amount) >= askingPrice}
+          className="flex-1 bg-amber-600 text-white py-2 px-4 rounded-lg hover:bg-amber-700 disabled:opacity-50 font-medium"
+        >
+          {sending ? 'Sending...' : `Offer ₹${amount || 0}${unit}`}
+        </button>
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          className="bg-gray-200 text-gray-800 py-2 px-4 rounded-lg hover:bg-gray-300 font-medium"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -83,6 +83,33 @@ export default function Navigation() {
                 >
                   My Rentals
                 </Link>
+                <Link
+                  href="/my-purchases"
+                  className={`px-3 py-2 rounded-md text-sm font-medium transition ${isActive('/my-purchases')
+                    ? 'text-amber-600 bg-amber-50'
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                    }`}
+                >
+                  My Purchases
+                </Link>
+                <Link
+                  href="/offers"
+                  className={`px-3 py-2 rounded-md text-sm font-medium transition ${isActive('/offers')
+                    ? 'text-amber-600 bg-amber-50'
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                    }`}
+                >
+                  Offers
+                </Link>
+                <Link
+                  href="/wanted"
+                  className={`px-3 py-2 rounded-md text-sm font-medium transition ${isActive('/wanted')
+                    ? 'text-indigo-600 bg-indigo-50'
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                    }`}
+                >
+                  Wanted
+                </Link>
                 <Link
                   href="/my-listings"
                   className={`px-3 py-2 rounded-md text-sm font-medium transition ${isActive('/my-listings')
@@ -100,7 +127,7 @@ export default function Navigation() {
                     : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
                     }`}
                 >
-                  🏷️ Rent Your Items
+                  🏷️ Rent or Sell Your Items
                 </Link>
               </div>
             )}
@@ -267,6 +294,36 @@ export default function Navigation() {
                   >
                     🏷️ My Rentals
                   </Link>
+                  <Link
+                    href="/my-purchases"
+                    onClick={closeMobileMenu}
+                    className={`block px-3 py-2 rounded-md text-base font-medium ${isActive('/my-purchases')
+                      ? 'text-amber-600 bg-amber-50'
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                      }`}
+                  >
+                    💰 My Purchases
+                  </Link>
+                  <Link
+                    href="/offers"
+                    onClick={closeMobileMenu}
+                    className={`block px-3 py-2 rounded-md text-base font-medium ${isActive('/offers')
+                      ? 'text-amber-600 bg-amber-50'
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                      }`}
+                  >
+                    🤝 Offers
+                  </Link>
+                  <Link
+                    href="/wanted"
+                    onClick={closeMobileMenu}
+                    className={`block px-3 py-2 rounded-md text-base font-medium ${isActive('/wanted')
+                      ? 'text-indigo-600 bg-indigo-50'
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                      }`}
+                  >
+                    📣 Wanted
+                  </Link>
                   <Link
                     href="/my-listings"
                     onClick={closeMobileMenu}
@@ -285,7 +342,7 @@ export default function Navigation() {
                       : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
                       }`}
                   >
-                    🏷️ Rent Your Items
+                    🏷️ Rent or Sell Your Items
                   </Link>
 
                   {/* Mobile cart info */}
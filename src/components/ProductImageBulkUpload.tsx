@@ -0,0 +1,140 @@
+// File: src/components/ProductImageBulkUpload.tsx
+'use client'
+
+import { useState } from 'react'
+
+interface ProductImageBulkUploadProps {
+  categories: { id: string; name: string }[]
+  onClose: () => void
+  onAssigned: () => void
+}
+
+interface BulkAssignResult {
+  assigned: { fileName: string; productName: string }[]
+  unmatched: string[]
+  ambiguous: string[]
+  skipped: string[]
+  failed: { fileName: string; error: string }[]
+}
+
+// Pick a folder's worth of photos named after products ("Maggi Noodles.jpg")
+// and each one is attached to the product with that name
+export default function ProductImageBulkUpload({ categories, onClose, onAssigned }: ProductImageBulkUploadProps) {
+  const [files, setFiles] = useState<File[]>([])
+  const [categoryId, setCategoryId] = useState('')
+  const [overwrite, setOverwrite] = useState(false)
+  const [uploading, setUploading] = useState(false)
+  const [result, setResult] = useState<BulkAssignResult | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (files.length === 0) return
+
+    setUploading(true)
+    try {
+      const body = new FormData()
+      files.forEach(file => body.append('files', file))
+      body.append('categoryId', categoryId)
+      body.append('overwrite', String(overwrite))
+
+      const response = await fetch('/api/admin/products/images', { method: 'POST', body })
+      const data = await response.json()
+
+      if (!response.ok) {
+        alert(data.error || 'Failed to upload images')
+        return
+      }
+
+      setResult(data)
+      setFiles([])
+      if (data.assigned.length > 0) onAssigned()
+    } catch (error) {
+      console.error('Error uploading product images:', error)
+      alert('Failed to upload images')
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 p-4">
+      <div className="relative top-4 mx-auto border shadow-lg rounded-lg bg-white max-w-md w-full">
+        <div className="p-4 sm:p-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-1">Bulk Product Images</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Name each file after its product, e.g. <span className="font-mono">Maggi Noodles.jpg</span>.
+            Case, spaces, dashes and underscores don&apos;t matter.
+          </p>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <select
+              value={categoryId}
+              onChange={(e) => setCategoryId(e.target.value)}
+              className="w-full px-3 py-2.5 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-900"
+            >
+              <option value="">Match products in any category</option>
+              {categories.map(category => (
+                <option key={category.id} value={category.id}>
+                  Only {category.name}
+                </option>
+              ))}
+            </select>
+            <input
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              multiple
+              onChange={(e) => setFiles(Array.from(e.target.files || []))}
+              className="w-full text-sm text-gray-700"
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={overwrite}
+                onChange={(e) => setOverwrite(e.target.checked)}
+              />
+              Replace images products already have
+            </label>
+
+            {result && (
+              <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm space-y-1 max-h-60 overflow-y-auto">
+                <p className="font-medium text-gray-900">{result.assigned.length} image(s) assigned</p>
+                {result.assigned.map(a => (
+                  <p key={a.fileName} className="text-green-700">✅ {a.fileName} → {a.productName}</p>
+                ))}
+                {result.unmatched.map(name => (
+                  <p key={name} className="text-gray-600">❓ {name}: no product with this name</p>
+                ))}
+                {result.ambiguous.map(name => (
+                  <p key={name} className="text-amber-700">⚠️ {name}: matches more than one product</p>
+                ))}
+                {result.skipped.map(name => (
+                  <p key={name} className="text-gray-600">⏭️ {name}: product already has an image</p>
+                ))}
+                {result.failed.map(f => (
+                  <p key={f.fileName} className="text-red-700">❌ {f.error}</p>
+                ))}
+              </div>
+            )}
+
+            <div className="flex flex-col sm:flex-row gap-3 pt-4">
+              <button
+                type="submit"
+                disabled={uploading || files.length === 0}
+                className="flex-1 bg-blue-600 text-white py-3 px-4 rounded-md hover:bg-blue-700 font-medium disabled:opacity-50"
+              >
+                {uploading ? 'Uploading...' : `Upload ${files.length || ''} Image${files.length === 1 ? '' : 's'}`}
+              </button>
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 bg-gray-300 text-gray-700 py-3 px-4 rounded-md hover:bg-gray-400 font-medium"
+              >
+                Close
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,21 +1,9 @@
 // File: src/components/RentalChat.tsx
 'use client'
 
-import { useState, useEffect, useRef } from 'react'
+import { useState, useRef } from 'react'
 import { useSession } from 'next-auth/react'
-
-interface Message {
-  id: string
-  message: string
-  senderRole: string
-  createdAt: string
-  isRead: boolean
-  sender: {
-    id: string
-    name: string
-    role: string
-  }
-}
+import { useChatMessages } from '@/hooks/useChatMessages'
 
 interface RentalChatProps {
   rentalId: string
@@ -24,13 +12,21 @@ interface RentalChatProps {
 
 export default function RentalChat({ rentalId, ownerName }: RentalChatProps) {
   const { data: session } = useSession()
-  const [messages, setMessages] = useState<Message[]>([])
+  const {
+    messages,
+    total,
+    loading,
+    loadingOlder,
+    hasOlder,
+    olderSentinelRef,
+    listRef,
+    onListScroll,
+    fetchNewer
+  } = useChatMessages(`/api/rentals/${rentalId}/messages`, session?.user?.id)
   const [newMessage, setNewMessage] = useState('')
-  const [loading, setLoading] = useState(true)
   const [sending, setSending] = useState(false)
   const [error, setError] = useState('')
   const [showQuickReplies, setShowQuickReplies] = useState(false)
-  const messagesEndRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLTextAreaElement>(null)
 
   const isOwner = session?.user?.role === 'SELLER'
@@ -52,33 +48,6 @@ export default function RentalChat({ rentalId, ownerName }: RentalChatProps) {
         "Thanks! 😊"
       ]
 
-  // Scroll to bottom of messages
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }
-
-  // Fetch messages
-  const fetchMessages = async () => {
-    try {
-      const response = await fetch(`/api/rentals/${rentalId}/messages`)
-      if (response.ok) {
-        const data = await response.json()
-        setMessages(data)
-        
-        // Mark messages as read
-        if (data.some((m: Message) => !m.isRead && m.sender.id !== session?.user?.id)) {
-          await fetch(`/api/rentals/${rentalId}/messages`, {
-            method: 'PATCH'
-          })
-        }
-      }
-    } catch (err) {
-      console.error('Error fetching messages:', err)
-    } finally {
-      setLoading(false)
-    }
-  }
-
   // Send message
   const sendMessage = async (text?: string) => {
     const messageText = text || newMessage.trim()
@@ -97,13 +66,13 @@ export default function RentalChat({ rentalId, ownerName }: RentalChatProps) {
       if (response.ok) {
         setNewMessage('')
         setShowQuickReplies(false)
-        await fetchMessages()
+        await fetchNewer()
         inputRef.current?.focus()
       } else {
         const data = await response.json()
         setError(data.error || 'Failed to send message')
       }
-    } catch (err) {
+    } catch {
       setError('Failed to send message')
     } finally {
       setSending(false)
@@ -119,22 +88,6 @@ export default function RentalChat({ rentalId, ownerName }: RentalChatProps) {
     sendMessage(reply)
   }
 
-  // Initial load
-  useEffect(() => {
-    fetchMessages()
-  }, [rentalId])
-
-  // Poll for new messages every 5 seconds
-  useEffect(() => {
-    const interval = setInterval(fetchMessages, 5000)
-    return () => clearInterval(interval)
-  }, [rentalId])
-
-  // Scroll to bottom when messages change
-  useEffect(() => {
-    scrollToBottom()
-  }, [messages])
-
   // Format time
   const formatTime = (dateString: string) => {
     const date = new Date(dateString)
@@ -165,13 +118,13 @@ export default function RentalChat({ rentalId, ownerName }: RentalChatProps) {
             <p className="text-purple-100 text-sm">Rental #{rentalId.slice(-8)}</p>
           </div>
           <div className="text-xs bg-purple-500 px-3 py-1 rounded-full">
-            💬 {messages.length} messages
+            💬 {total} messages
           </div>
         </div>
       </div>
 
       {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-gray-50">
+      <div ref={listRef} onScroll={onListScroll} className="flex-1 overflow-y-auto p-4 space-y-4 bg-gray-50">
         {messages.length === 0 ? (
           <div className="text-center py-8">
             <div className="text-gray-400 text-4xl mb-3">💬</div>
@@ -182,6 +135,11 @@ export default function RentalChat({ rentalId, ownerName }: RentalChatProps) {
           </div>
         ) : (
           <>
+            {hasOlder && (
+              <div ref={olderSentinelRef} className="text-center py-2 text-sm text-gray-500">
+                {loadingOlder ? 'Loading earlier messages...' : ''}
+              </div>
+            )}
             {messages.map((msg) => {
               const isMine = msg.sender.id === session?.user?.id
               return (
@@ -217,7 +175,6 @@ export default function RentalChat({ rentalId, ownerName }: RentalChatProps) {
                 </div>
               )
             })}
-            <div ref={messagesEndRef} />
           </>
         )}
       </div>
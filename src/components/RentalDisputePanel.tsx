@@ -0,0 +1,232 @@
+// File: src/components/RentalDisputePanel.tsx
+'use client'
+
+import { useState } from 'react'
+
+export interface RentalDispute {
+  id: string
+  openedBy: 'RENTER' | 'SELLER'
+  description: string
+  photos: string[]
+  claimedAmount: number
+  status: 'OPEN' | 'INFO_REQUESTED' | 'RESOLVED'
+  infoRequest: string | null
+  infoResponse: string | null
+  sellerAward: number
+  renterRefund: number
+  resolutionNotes: string | null
+  createdAt: string
+  resolvedAt: string | null
+}
+
+interface RentalDisputePanelProps {
+  rentalId: string
+  disputes: RentalDispute[]
+  canOpen: boolean
+  onChange: () => void
+}
+
+const STATUS_STYLES: Record<RentalDispute['status'], string> = {
+  OPEN: 'bg-orange-100 text-orange-800',
+  INFO_REQUESTED: 'bg-yellow-100 text-yellow-800',
+  RESOLVED: 'bg-green-100 text-green-800'
+}
+
+// One URL per line or comma separated
+const parsePhotoUrls = (value: string) =>
+  value.split(/[\n,]/).map(url => url.trim()).filter(Boolean)
+
+export default function RentalDisputePanel({
+  rentalId,
+  disputes,
+  canOpen,
+  onChange
+}: RentalDisputePanelProps) {
+  const [showForm, setShowForm] = useState(false)
+  const [description, setDescription] = useState('')
+  const [claimedAmount, setClaimedAmount] = useState('')
+  const [photoUrls, setPhotoUrls] = useState('')
+  const [response, setResponse] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  const hasOpenClaim = disputes.some(d => d.status !== 'RESOLVED')
+
+  const openClaim = async () => {
+    setSubmitting(true)
+    try {
+      const res = await fetch(`/api/rentals/${rentalId}/disputes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          description,
+          claimedAmount: parseFloat(claimedAmount) || 0,
+          photos: parsePhotoUrls(photoUrls)
+        })
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        alert(data.error || 'Failed to open claim')
+        return
+      }
+
+      alert('Claim submitted. An admin will review it.')
+      setShowForm(false)
+      setDescription('')
+      setClaimedAmount('')
+      setPhotoUrls('')
+      onChange()
+    } catch (error) {
+      console.error('Error opening claim:', error)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const sendResponse = async (disputeId: string) => {
+    setSubmitting(true)
+    try {
+      const res = await fetch(`/api/rentals/${rentalId}/disputes/${disputeId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ infoResponse: response })
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        alert(data.error || 'Failed to send response')
+        return
+      }
+
+      setResponse('')
+      onChange()
+    } catch (error) {
+      console.error('Error responding to claim:', error)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (disputes.length === 0 && !canOpen) {
+    return null
+  }
+
+  return (
+    <div className="space-y-3">
+      {disputes.map(dispute => (
+        <div key={dispute.id} className="bg-orange-50 border border-orange-200 rounded-lg p-4 text-sm">
+          <div className="flex justify-between items-start mb-2">
+            <p className="font-semibold text-gray-900">
+              ⚠️ Damage claim by {dispute.openedBy === 'RENTER' ? 'renter' : 'owner'} · ₹{dispute.claimedAmount}
+            </p>
+            <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[dispute.status]}`}>
+              {dispute.status.replace('_', ' ')}
+            </span>
+          </div>
+          <p className="text-gray-700 whitespace-pre-wrap">{dispute.description}</p>
+
+          {dispute.photos.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-2">
+              {dispute.photos.map(photo => (
+                <a key={photo} href={photo} target="_blank" rel="noopener noreferrer">
+                  <img src={photo} alt="Claim photo" className="w-16 h-16 object-cover rounded border" />
+                </a>
+              ))}
+            </div>
+          )}
+
+          {dispute.infoRequest && (
+            <p className="text-yellow-900 mt-2">
+              <span className="font-medium">Admin asked:</span> {dispute.infoRequest}
+            </p>
+          )}
+          {dispute.infoResponse && (
+            <p className="text-gray-700 mt-1 whitespace-pre-wrap">{dispute.infoResponse}</p>
+          )}
+
+          {dispute.status === 'INFO_REQUESTED' && (
+            <div className="flex gap-2 mt-3">
+              <input
+                type="text"
+                value={response}
+                onChange={(e) => setResponse(e.target.value)}
+                placeholder="Your answer"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+              />
+              <button
+                onClick={() => sendResponse(dispute.id)}
+                disabled={submitting || !response.trim()}
+                className="bg-yellow-600 text-white px-4 py-2 rounded-lg hover:bg-yellow-700 disabled:opacity-50 font-medium"
+              >
+                Send
+              </button>
+            </div>
+          )}
+
+          {dispute.status === 'RESOLVED' && (
+            <div className="border-t border-orange-200 mt-3 pt-2 text-gray-800">
+              <p>
+                Resolved: ₹{dispute.sellerAward} of the deposit to the owner, ₹{dispute.renterRefund} back to the renter
+              </p>
+              {dispute.resolutionNotes && (
+                <p className="text-gray-600 mt-1">{dispute.resolutionNotes}</p>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+
+      {canOpen && !hasOpenClaim && (
+        showForm ? (
+          <div className="bg-gray-50 border rounded-lg p-4 space-y-3">
+            <h4 className="font-semibold text-sm text-gray-900">Report Damage or a Problem</h4>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What happened?"
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+            />
+            <input
+              type="number"
+              min="0"
+              value={claimedAmount}
+              onChange={(e) => setClaimedAmount(e.target.value)}
+              placeholder="Amount claimed (₹)"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+            />
+            <textarea
+              value={photoUrls}
+              onChange={(e) => setPhotoUrls(e.target.value)}
+              placeholder="Photo URLs, one per line"
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+            />
+            <div className="flex gap-2">
+              <button
+                onClick={openClaim}
+                disabled={submitting || !description.trim()}
+                className="bg-orange-600 text-white px-4 py-2 rounded-lg hover:bg-orange-700 disabled:opacity-50 text-sm font-medium"
+              >
+                {submitting ? 'Submitting...' : 'Submit Claim'}
+              </button>
+              <button
+                onClick={() => setShowForm(false)}
+                className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 text-sm"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => setShowForm(true)}
+            className="text-sm text-orange-700 hover:text-orange-900 font-medium"
+          >
+            ⚠️ Report damage or a problem
+          </button>
+        )
+      )}
+    </div>
+  )
+}
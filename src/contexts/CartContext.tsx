@@ -1,7 +1,10 @@
 // File: src/contexts/CartContext.tsx
 'use client'
 
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react'
+import { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react'
+import { useSession } from 'next-auth/react'
+import type { CartLine, CartView, RemovedCartLine } from '@/lib/cart'
+import type { StockShortage } from '@/lib/inventory'
 
 interface CartItem {
   productId: string
@@ -11,14 +14,24 @@ interface CartItem {
   stockQuantity: number
 }
 
+// What the server changed on its last read of the cart
+export interface CartChanges {
+  changed: CartLine[]
+  removed: RemovedCartLine[]
+}
+
 interface CartContextType {
   cart: CartItem[]
   addToCart: (item: Omit<CartItem, 'quantity'> & { quantity?: number }) => void
   removeFromCart: (productId: string) => void
   updateQuantity: (productId: string, quantity: number) => void
   clearCart: () => void
+  applyStockShortages: (shortages: StockShortage[]) => void
   getCartTotal: () => number
   getCartCount: () => number
+  refreshCart: () => Promise<void>
+  cartChanges: CartChanges | null
+  dismissCartChanges: () => void
   isLoading: boolean
 }
 
@@ -38,9 +51,34 @@ const getInitialCart = (): CartItem[] => {
   }
 }
 
+// Account the stored cart was last synced with; missing for a cart built while signed out
+const CART_OWNER_KEY = 'hostel-mart-cart-owner'
+
+// Only what the server needs; names and stock come from the products
+const toCartPayload = (cart: CartItem[]) => JSON.stringify({
+  items: cart.map(({ productId, quantity, price }) => ({ productId, quantity, price }))
+})
+
 export function CartProvider({ children }: { children: ReactNode }) {
   const [cart, setCart] = useState<CartItem[]>(getInitialCart)
   const [isLoading, setIsLoading] = useState(true)
+  const { data: session, status } = useSession()
+  const userId = session?.user?.id ?? null
+  // Signed-in user whose saved cart this one mirrors; null keeps it on this device only
+  const [syncedUserId, setSyncedUserId] = useState<string | null>(null)
+  const [cartChanges, setCartChanges] = useState<CartChanges | null>(null)
+
+  const cartRef = useRef(cart)
+  const savedPayload = useRef('') // Last copy the server has, so it is not sent back
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const pendingSave = useRef<Promise<void> | null>(null)
+  // Signed-in user the cart is being read and saved for. A reply that comes
+  // back after the user changed belongs to the old account and is dropped.
+  const activeUserId = useRef<string | null>(null)
+
+  useEffect(() => {
+    cartRef.current = cart
+  }, [cart])
 
   // Initialize cart from localStorage only once on mount
   useEffect(() => {
@@ -56,6 +94,139 @@ export function CartProvider({ children }: { children: ReactNode }) {
     }
   }, [cart, isLoading])
 
+  // Take the server's copy of the cart and keep note of anything it changed
+  const applyServerCart = useCallback((view: CartView) => {
+    const items = view.items.map(({ productId, name, price, quantity, stockQuantity }) =>
+      ({ productId, name, price, quantity, stockQuantity }))
+    savedPayload.current = toCartPayload(items)
+    setCart(items)
+
+    const changed = view.items.filter(line => line.previousPrice !== undefined || line.requestedQuantity !== undefined)
+    if (changed.length > 0 || view.removed.length > 0) {
+      setCartChanges({ changed, removed: view.removed })
+    }
+  }, [])
+
+  const saveCart = useCallback(async (payload: string) => {
+    const owner = activeUserId.current
+    try {
+      const response = await fetch('/api/cart', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: payload
+      })
+      if (!response.ok) {
+        throw new Error('Failed to save cart')
+      }
+      if (activeUserId.current !== owner) return
+      savedPayload.current = payload
+      const view: CartView = await response.json()
+      // Edits made while saving win; they are saved next
+      if (toCartPayload(cartRef.current) === payload) {
+        applyServerCart(view)
+      }
+    } catch (error) {
+      console.error('Error saving cart:', error)
+    }
+  }, [applyServerCart])
+
+  // Sign-in folds a signed-out cart into the saved one, otherwise the saved
+  // cart wins. Signing out leaves the cart with the account, not the device.
+  useEffect(() => {
+    if (isLoading || status === 'loading') return
+
+    // A save queued for the previous user must not go out under this one
+    if (userId !== activeUserId.current) {
+      activeUserId.current = userId
+      if (saveTimer.current) clearTimeout(saveTimer.current)
+      saveTimer.current = null
+      pendingSave.current = null
+    }
+
+    if (userId && userId !== syncedUserId) {
+      const isSignedOutCart = !localStorage.getItem(CART_OWNER_KEY)
+      const loadSavedCart = async () => {
+        try {
+          const response = isSignedOutCart
+            ? await fetch('/api/cart/merge', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: toCartPayload(cartRef.current)
+              })
+            : await fetch('/api/cart')
+          if (!response.ok) {
+            throw new Error('Failed to load saved cart')
+          }
+          const view: CartView = await response.json()
+          if (activeUserId.current !== userId) return
+          applyServerCart(view)
+          localStorage.setItem(CART_OWNER_KEY, userId)
+          setSyncedUserId(userId)
+        } catch (error) {
+          console.error('Error loading saved cart:', error)
+        }
+      }
+      loadSavedCart()
+    } else if (!userId && (syncedUserId || localStorage.getItem(CART_OWNER_KEY))) {
+      localStorage.removeItem(CART_OWNER_KEY)
+      setSyncedUserId(null)
+      savedPayload.current = ''
+      setCart([])
+      setCartChanges(null)
+    }
+  }, [isLoading, status, userId, syncedUserId, applyServerCart])
+
+  // Send local edits to the server, batching quick taps on +/-
+  useEffect(() => {
+    if (isLoading || !syncedUserId || syncedUserId !== userId) return
+
+    const payload = toCartPayload(cart)
+    if (payload === savedPayload.current) return
+
+    if (saveTimer.current) clearTimeout(saveTimer.current)
+    saveTimer.current = setTimeout(() => {
+      saveTimer.current = null
+      const save = saveCart(payload).finally(() => {
+        if (pendingSave.current === save) pendingSave.current = null
+      })
+      pendingSave.current = save
+    }, 500)
+  }, [cart, isLoading, syncedUserId, userId, saveCart])
+
+  // Re-read the saved cart for current prices, stock and edits from other devices
+  const refreshCart = useCallback(async () => {
+    if (!syncedUserId) return
+
+    // Let local edits land first so the read does not undo them
+    if (saveTimer.current) {
+      clearTimeout(saveTimer.current)
+      saveTimer.current = null
+      await saveCart(toCartPayload(cartRef.current))
+    }
+    if (pendingSave.current) {
+      await pendingSave.current
+    }
+
+    try {
+      const response = await fetch('/api/cart')
+      if (response.ok) {
+        const view: CartView = await response.json()
+        if (activeUserId.current === syncedUserId) {
+          applyServerCart(view)
+        }
+      }
+    } catch (error) {
+      console.error('Error refreshing cart:', error)
+    }
+  }, [syncedUserId, saveCart, applyServerCart])
+
+  // Coming back to the tab may mean the cart changed on another device
+  useEffect(() => {
+    if (!syncedUserId) return
+    window.addEventListener('focus', refreshCart)
+    return () => window.removeEventListener('focus', refreshCart)
+  }, [syncedUserId, refreshCart])
+
   const addToCart = (item: Omit<CartItem, 'quantity'> & { quantity?: number }) => {
     const quantity = item.quantity || 1
     setCart(prevCart => {
@@ -98,6 +269,23 @@ export function CartProvider({ children }: { children: ReactNode }) {
     setCart([])
   }
 
+  // Cap quantities at what the server says is left, dropping sold-out lines
+  const applyStockShortages = (shortages: StockShortage[]) => {
+    setCart(prevCart =>
+      prevCart
+        .map(item => {
+          const shortage = shortages.find(s => s.productId === item.productId)
+          if (!shortage) return item
+          return {
+            ...item,
+            quantity: Math.min(item.quantity, shortage.available),
+            stockQuantity: shortage.available
+          }
+        })
+        .filter(item => item.quantity > 0)
+    )
+  }
+
   const getCartTotal = () => {
     return cart.reduce((total, item) => total + (item.price * item.quantity), 0)
   }
@@ -106,14 +294,22 @@ export function CartProvider({ children }: { children: ReactNode }) {
     return cart.reduce((total, item) => total + item.quantity, 0)
   }
 
+  const dismissCartChanges = () => {
+    setCartChanges(null)
+  }
+
   const value: CartContextType = {
     cart,
     addToCart,
     removeFromCart,
     updateQuantity,
     clearCart,
+    applyStockShortages,
     getCartTotal,
     getCartCount,
+    refreshCart,
+    cartChanges,
+    dismissCartChanges,
     isLoading
   }
 
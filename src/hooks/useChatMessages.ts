@@ -0,0 +1,113 @@
+// src/hooks/useChatMessages.ts
+'use client'
+
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react'
+import { fetchAllPages } from '@/lib/pagination'
+import { useInfiniteList } from './useInfiniteList'
+
+export interface ChatMessage {
+  id: string
+  message: string
+  senderRole: string
+  createdAt: string
+  isRead: boolean
+  sender: {
+    id: string
+    name: string
+    role: string
+  }
+}
+
+const POLL_INTERVAL_MS = 5000
+
+// One chat's messages, oldest first. Opens on the newest page and loads older
+// ones when olderSentinelRef (above the list) scrolls into view. New messages
+// are polled for, asking only for what came after the newest one held.
+// Put listRef and onListScroll on the scrolling element around the list.
+export function useChatMessages(url: string, viewerId: string | undefined) {
+  const history = useInfiniteList<ChatMessage, { total: number }>(`${url}?order=newest`)
+  const [newer, setNewer] = useState<ChatMessage[]>([])
+
+  // A poll still running when the chat changes belongs to the old one
+  const currentUrl = useRef(url)
+  useEffect(() => {
+    currentUrl.current = url
+    setNewer([])
+  }, [url])
+
+  // history is newest first; newer is oldest first
+  const newestId = newer.length > 0 ? newer[newer.length - 1].id : history.items[0]?.id ?? null
+
+  const markRead = useCallback(async (received: ChatMessage[]) => {
+    if (received.some(m => !m.isRead && m.sender.id !== viewerId)) {
+      await fetch(url, { method: 'PATCH' })
+    }
+  }, [url, viewerId])
+
+  useEffect(() => {
+    if (!history.loading) markRead(history.items)
+  }, [history.loading, history.items, markRead])
+
+  const fetchNewer = useCallback(async () => {
+    if (history.loading) return
+
+    try {
+      const received = await fetchAllPages<ChatMessage>(url, newestId)
+      if (received.length === 0 || currentUrl.current !== url) return
+
+      // A send and a poll can fetch the same messages
+      setNewer(current => {
+        const held = new Set(current.map(m => m.id))
+        return [...current, ...received.filter(m => !held.has(m.id))]
+      })
+      await markRead(received)
+    } catch (error) {
+      console.error('Error fetching messages:', error)
+    }
+  }, [url, newestId, history.loading, markRead])
+
+  useEffect(() => {
+    const interval = setInterval(fetchNewer, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [fetchNewer])
+
+  const oldestFirst = [...history.items].reverse()
+  const held = new Set(oldestFirst.map(m => m.id))
+  const messages = [...oldestFirst, ...newer.filter(m => !held.has(m.id))]
+
+  const listRef = useRef<HTMLDivElement>(null)
+  const distanceFromBottom = useRef(0)
+  const lastShownId = useRef<string | null>(null)
+  const firstId = messages[0]?.id ?? null
+  const lastId = messages[messages.length - 1]?.id ?? null
+
+  // Follow new messages to the bottom; when older ones load above, keep the
+  // view where it was
+  useLayoutEffect(() => {
+    const list = listRef.current
+    if (!list) return
+    if (lastId !== lastShownId.current) {
+      lastShownId.current = lastId
+      list.scrollTop = list.scrollHeight
+    } else {
+      list.scrollTop = list.scrollHeight - distanceFromBottom.current
+    }
+  }, [firstId, lastId])
+
+  const onListScroll = useCallback(() => {
+    const list = listRef.current
+    if (list) distanceFromBottom.current = list.scrollHeight - list.scrollTop
+  }, [])
+
+  return {
+    messages,
+    total: (history.meta?.total ?? 0) + messages.length - history.items.length,
+    loading: history.loading,
+    loadingOlder: history.loadingMore,
+    hasOlder: history.hasMore,
+    olderSentinelRef: history.sentinelRef,
+    listRef,
+    onListScroll,
+    fetchNewer
+  }
+}
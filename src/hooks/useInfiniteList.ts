@@ -0,0 +1,89 @@
+// src/hooks/useInfiniteList.ts
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Page } from '@/lib/pagination'
+
+// Pages through a list route as the user scrolls. Put sentinelRef on an
+// element below the list; the next page loads when it comes into view.
+// Anything else the first page returns (counts, summaries) is kept in meta.
+// A new url starts again from the first page.
+export function useInfiniteList<T, M = Record<string, unknown>>(url: string | null) {
+  const [items, setItems] = useState<T[]>([])
+  const [meta, setMeta] = useState<M | null>(null)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [error, setError] = useState('')
+
+  // Responses for an earlier url or reload are dropped
+  const requestId = useRef(0)
+  const observer = useRef<IntersectionObserver | null>(null)
+
+  const fetchPage = useCallback(async (cursor: string | null) => {
+    if (!url) return
+
+    const id = cursor ? requestId.current : ++requestId.current
+    if (cursor) {
+      setLoadingMore(true)
+    } else {
+      setLoading(true)
+    }
+    setError('')
+
+    try {
+      const separator = url.includes('?') ? '&' : '?'
+      const response = await fetch(cursor ? `${url}${separator}cursor=${encodeURIComponent(cursor)}` : url)
+      const data: Page<T> & M = await response.json()
+      if (id !== requestId.current) return
+
+      if (!response.ok) {
+        setError((data as { error?: string }).error || 'Failed to load')
+        return
+      }
+
+      const { items: pageItems, nextCursor: pageCursor, ...rest } = data
+      setItems(current => cursor ? [...current, ...pageItems] : pageItems)
+      setNextCursor(pageCursor)
+      if (!cursor) setMeta(rest as unknown as M)
+    } catch (err) {
+      console.error('Error loading list:', err)
+      if (id === requestId.current) setError('Failed to load')
+    } finally {
+      if (id === requestId.current) {
+        setLoading(false)
+        setLoadingMore(false)
+      }
+    }
+  }, [url])
+
+  useEffect(() => {
+    fetchPage(null)
+  }, [fetchPage])
+
+  const loadMore = useCallback(() => {
+    if (nextCursor && !loading && !loadingMore) fetchPage(nextCursor)
+  }, [fetchPage, nextCursor, loading, loadingMore])
+
+  // Re-attached whenever loadMore changes so it never calls a stale cursor
+  const sentinelRef = useCallback((node: HTMLElement | null) => {
+    observer.current?.disconnect()
+    if (!node) return
+    observer.current = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) loadMore()
+    }, { rootMargin: '200px' })
+    observer.current.observe(node)
+  }, [loadMore])
+
+  return {
+    items,
+    setItems,
+    meta,
+    loading,
+    loadingMore,
+    hasMore: nextCursor !== null,
+    error,
+    reload: () => fetchPage(null),
+    sentinelRef
+  }
+}
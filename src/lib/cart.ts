@@ -0,0 +1,195 @@
+// src/lib/cart.ts
+import { Prisma } from "@prisma/client"
+import { prisma } from "./prisma"
+
+export const MAX_CART_LINES = 100
+
+export class CartInputError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CartInputError'
+  }
+}
+
+export interface CartInputLine {
+  productId: string
+  quantity: number
+  price: number | null // What the client showed; null to take the current price
+}
+
+export interface CartLine {
+  productId: string
+  name: string
+  price: number
+  quantity: number
+  stockQuantity: number
+  previousPrice?: number // Set when the price changed since the user last saw it
+  requestedQuantity?: number // Set when the quantity was cut to the stock left
+}
+
+export interface RemovedCartLine {
+  productId: string
+  name: string
+  reason: 'UNAVAILABLE' | 'OUT_OF_STOCK'
+}
+
+export interface CartView {
+  items: CartLine[]
+  removed: RemovedCartLine[] // Lines dropped by this read
+}
+
+// Validate { items: [{ productId, quantity, price? }] }. A repeated product keeps its last line.
+export function parseCartLines(body: Record<string, unknown>): CartInputLine[] {
+  if (!Array.isArray(body.items)) {
+    throw new CartInputError('Cart items are required')
+  }
+  if (body.items.length > MAX_CART_LINES) {
+    throw new CartInputError(`A cart can hold at most ${MAX_CART_LINES} products`)
+  }
+
+  const lines = new Map<string, CartInputLine>()
+  for (const item of body.items) {
+    const productId = typeof item?.productId === 'string' ? item.productId : ''
+    const quantity = Number(item?.quantity)
+    const price = item?.price === undefined || item?.price === null ? null : Number(item.price)
+
+    if (!productId) {
+      throw new CartInputError('Every cart item needs a product')
+    }
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new CartInputError('Invalid item quantity')
+    }
+    if (price !== null && (!Number.isFinite(price) || price < 0)) {
+      throw new CartInputError('Invalid item price')
+    }
+
+    lines.set(productId, { productId, quantity, price })
+  }
+
+  return Array.from(lines.values())
+}
+
+// The user's cart checked against current prices and stock. Unavailable and
+// sold-out products are dropped, quantities are cut to what is left and new
+// prices are taken, each flagged in the result. The changes are saved, so
+// each one is reported once.
+export async function getCart(userId: string): Promise<CartView> {
+  const cart = await prisma.cart.findUnique({
+    where: { userId },
+    include: {
+      items: {
+        include: { product: true },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+      }
+    }
+  })
+
+  const view: CartView = { items: [], removed: [] }
+  if (!cart) return view
+
+  const removedIds: string[] = []
+  const writes: Prisma.PrismaPromise<unknown>[] = []
+
+  for (const item of cart.items) {
+    const { product } = item
+
+    if (!product.isAvailable || product.stockQuantity <= 0) {
+      removedIds.push(item.id)
+      view.removed.push({
+        productId: product.id,
+        name: product.name,
+        reason: product.isAvailable ? 'OUT_OF_STOCK' : 'UNAVAILABLE'
+      })
+      continue
+    }
+
+    const line: CartLine = {
+      productId: product.id,
+      name: product.name,
+      price: product.price,
+      quantity: Math.min(item.quantity, product.stockQuantity),
+      stockQuantity: product.stockQuantity
+    }
+    if (Math.abs(product.price - item.price) > 0.001) {
+      line.previousPrice = item.price
+    }
+    if (line.quantity < item.quantity) {
+      line.requestedQuantity = item.quantity
+    }
+
+    if (line.previousPrice !== undefined || line.requestedQuantity !== undefined) {
+      writes.push(prisma.cartItem.update({
+        where: { id: item.id },
+        data: { quantity: line.quantity, price: line.price }
+      }))
+    }
+    view.items.push(line)
+  }
+
+  if (removedIds.length > 0) {
+    writes.push(prisma.cartItem.deleteMany({ where: { id: { in: removedIds } } }))
+  }
+  if (writes.length > 0) {
+    await prisma.$transaction(writes)
+  }
+
+  return view
+}
+
+// Replace the user's cart with these lines. Unknown products are skipped;
+// stock is left to the next read.
+export async function saveCart(userId: string, lines: CartInputLine[]) {
+  const products = await prisma.product.findMany({
+    where: { id: { in: lines.map(line => line.productId) } },
+    select: { id: true, price: true }
+  })
+  const currentPrices = new Map(products.map(product => [product.id, product.price]))
+  const knownLines = lines.filter(line => currentPrices.has(line.productId))
+
+  await prisma.$transaction(async (tx) => {
+    const cart = await tx.cart.upsert({
+      where: { userId },
+      create: { userId },
+      update: {}
+    })
+
+    await tx.cartItem.deleteMany({
+      where: {
+        cartId: cart.id,
+        productId: { notIn: knownLines.map(line => line.productId) }
+      }
+    })
+
+    for (const line of knownLines) {
+      const price = line.price ?? currentPrices.get(line.productId) ?? 0
+      await tx.cartItem.upsert({
+        where: { cartId_productId: { cartId: cart.id, productId: line.productId } },
+        create: { cartId: cart.id, productId: line.productId, quantity: line.quantity, price },
+        update: { quantity: line.quantity, price }
+      })
+    }
+  })
+}
+
+// Fold the cart kept on a device before sign-in into the saved one. The
+// device copy is often an older copy of this same cart, so a product in both
+// keeps the larger quantity instead of adding the two up.
+export async function mergeCart(userId: string, lines: CartInputLine[]) {
+  const savedItems = await prisma.cartItem.findMany({
+    where: { cart: { userId } },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+  })
+
+  const merged = new Map<string, CartInputLine>(savedItems.map(item => [
+    item.productId,
+    { productId: item.productId, quantity: item.quantity, price: item.price }
+  ]))
+  for (const line of lines) {
+    const saved = merged.get(line.productId)
+    merged.set(line.productId, saved
+      ? { ...saved, quantity: Math.max(saved.quantity, line.quantity) }
+      : line)
+  }
+
+  await saveCart(userId, Array.from(merged.values()))
+}
@@ -145,4 +145,82 @@ export async function sendOrderConfirmationEmail(
     console.error('❌ Error sending order confirmation:', error)
     return { success: false, error }
   }
-}
\ No newline at end of file
+}
+
+// Posts, listings and names are typed by users, so escape them before they go into HTML
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+export async function sendWantedResponseEmail(
+  email: string,
+  details: {
+    requesterName: string
+    postTitle: string
+    itemName: string
+    sellerName: string
+    price: string
+    listingUrl: string
+  }
+) {
+  const safe = {
+    requesterName: escapeHtml(details.requesterName),
+    postTitle: escapeHtml(details.postTitle),
+    itemName: escapeHtml(details.itemName),
+    sellerName: escapeHtml(details.sellerName),
+    price: escapeHtml(details.price),
+    listingUrl: escapeHtml(details.listingUrl)
+  }
+
+  try {
+    const data = await resend.emails.send({
+      from: 'Hostel Mart <hanand_be23@thapar.edu>',
+      to: [email],
+      subject: `Someone has what you wanted: ${details.postTitle}`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+          <head>
+            <meta charset="utf-8">
+            <title>Response to your wanted post</title>
+          </head>
+          <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+              <h1 style="color: white; margin: 0;">📣 Your request got a response</h1>
+            </div>
+
+            <div style="background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px;">
+              <p>Hi ${safe.requesterName}! 👋</p>
+
+              <p>${safe.sellerName} listed <strong>${safe.itemName}</strong> for ${safe.price} in response to your wanted post "${safe.postTitle}".</p>
+
+              <div style="text-align: center; margin: 30px 0;">
+                <a href="${safe.listingUrl}"
+                   style="background: #667eea; color: white; padding: 14px 30px; text-decoration: none; border-radius: 5px; font-weight: bold; display: inline-block;">
+                  View Listing
+                </a>
+              </div>
+
+              <p style="color: #666; font-size: 14px;">Found what you needed? Mark your post as fulfilled on the Wanted board so others stop responding.</p>
+            </div>
+
+            <div style="text-align: center; margin-top: 20px; color: #999; font-size: 12px;">
+              <p>© 2024 Hostel Mart. All rights reserved.</p>
+            </div>
+          </body>
+        </html>
+      `
+    })
+
+    console.log('✅ Wanted response email sent:', data)
+    return { success: true, data }
+  } catch (error) {
+    console.error('❌ Error sending wanted response email:', error)
+    return { success: false, error }
+  }
+}
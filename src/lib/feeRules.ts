@@ -0,0 +1,172 @@
+// src/lib/feeRules.ts
+import { Prisma } from "@prisma/client"
+import { prisma } from "./prisma"
+import { FeeCategoryRule, FeePromotion, LEGACY_FEE_RULES } from "./platformFees"
+
+export class FeeRuleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FeeRuleError'
+  }
+}
+
+export const FEE_RULES_INCLUDE = {
+  categoryRules: true,
+  promotions: { orderBy: { startsAt: 'asc' } }
+} satisfies Prisma.PlatformFeeRuleSetInclude
+
+// The version new listings are priced with. Starts out as the old flat 20%.
+export async function getCurrentFeeRuleSet() {
+  const latest = await prisma.platformFeeRuleSet.findFirst({
+    orderBy: { version: 'desc' },
+    include: FEE_RULES_INCLUDE
+  })
+  if (latest) return latest
+
+  return prisma.platformFeeRuleSet.upsert({
+    where: { version: 1 },
+    create: {
+      version: 1,
+      defaultPercent: LEGACY_FEE_RULES.defaultPercent,
+      minFeePerDay: LEGACY_FEE_RULES.minFeePerDay,
+      maxFeePerDay: LEGACY_FEE_RULES.maxFeePerDay,
+      note: 'Flat fee from before fee rules'
+    },
+    update: {},
+    include: FEE_RULES_INCLUDE
+  })
+}
+
+export interface FeeRulesInput {
+  defaultPercent: number
+  minFeePerDay: number
+  maxFeePerDay: number | null
+  note: string | null
+  categoryRules: FeeCategoryRule[]
+  promotions: (FeePromotion & { startsAt: Date; endsAt: Date })[]
+}
+
+function parseAmount(value: unknown): number | null {
+  return value !== undefined && value !== null && value !== '' ? parseFloat(String(value)) : null
+}
+
+function checkPercent(percent: number | null, label: string): number {
+  if (percent === null || isNaN(percent) || percent < 0 || percent > 100) {
+    throw new FeeRuleError(`${label} must be between 0 and 100`)
+  }
+  return percent
+}
+
+function checkCaps(min: number | null, max: number | null, label: string) {
+  if ((min !== null && (isNaN(min) || min < 0)) || (max !== null && (isNaN(max) || max < 0))) {
+    throw new FeeRuleError(`${label} fee caps must be zero or more`)
+  }
+  if (min !== null && max !== null && max < min) {
+    throw new FeeRuleError(`${label} maximum fee must be at least the minimum`)
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Validate an admin's edit of the fee rules
+export function parseFeeRulesInput(body: unknown): FeeRulesInput {
+  if (!isPlainObject(body)) {
+    throw new FeeRuleError('Invalid fee rules')
+  }
+
+  const defaultPercent = checkPercent(parseAmount(body.defaultPercent), 'Default fee')
+  const minFeePerDay = parseAmount(body.minFeePerDay) ?? 0
+  const maxFeePerDay = parseAmount(body.maxFeePerDay)
+  checkCaps(minFeePerDay, maxFeePerDay, 'Default')
+
+  const rawCategoryRules = Array.isArray(body.categoryRules) ? body.categoryRules : []
+  const categoryRules: FeeCategoryRule[] = rawCategoryRules.map((rule: unknown) => {
+    if (!isPlainObject(rule) || typeof rule.categoryId !== 'string' || !rule.categoryId) {
+      throw new FeeRuleError('Each category override needs a category')
+    }
+    const min = parseAmount(rule.minFeePerDay)
+    const max = parseAmount(rule.maxFeePerDay)
+    checkCaps(min, max, 'Category')
+    return {
+      categoryId: rule.categoryId,
+      percent: checkPercent(parseAmount(rule.percent), 'Category fee'),
+      minFeePerDay: min,
+      maxFeePerDay: max
+    }
+  })
+
+  if (new Set(categoryRules.map(rule => rule.categoryId)).size !== categoryRules.length) {
+    throw new FeeRuleError('A category can only have one override')
+  }
+
+  const rawPromotions = Array.isArray(body.promotions) ? body.promotions : []
+  const promotions = rawPromotions.map((promotion: unknown) => {
+    if (!isPlainObject(promotion)) {
+      throw new FeeRuleError('Each promotion needs a name')
+    }
+    const name = typeof promotion.name === 'string' ? promotion.name.trim() : ''
+    const startsAt = new Date(String(promotion.startsAt))
+    const endsAt = new Date(String(promotion.endsAt))
+
+    if (!name) {
+      throw new FeeRuleError('Each promotion needs a name')
+    }
+    if (isNaN(startsAt.getTime()) || isNaN(endsAt.getTime()) || endsAt <= startsAt) {
+      throw new FeeRuleError(`Promotion "${name}" must end after it starts`)
+    }
+
+    return {
+      name,
+      categoryId: typeof promotion.categoryId === 'string' && promotion.categoryId ? promotion.categoryId : null,
+      startsAt,
+      endsAt
+    }
+  })
+
+  return {
+    defaultPercent,
+    minFeePerDay,
+    maxFeePerDay,
+    note: typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null,
+    categoryRules,
+    promotions
+  }
+}
+
+// Publish the rules as the next version. Earlier versions stay untouched,
+// so listings and rentals priced with them keep their fees.
+export async function publishFeeRuleSet(input: FeeRulesInput, createdById: string) {
+  const categoryIds = [...new Set([
+    ...input.categoryRules.map(rule => rule.categoryId),
+    ...input.promotions.flatMap(promotion => promotion.categoryId ? [promotion.categoryId] : [])
+  ])]
+  const knownCategories = await prisma.category.count({ where: { id: { in: categoryIds } } })
+  if (knownCategories !== categoryIds.length) {
+    throw new FeeRuleError('Unknown category in fee rules')
+  }
+
+  const current = await getCurrentFeeRuleSet()
+
+  try {
+    return await prisma.platformFeeRuleSet.create({
+      data: {
+        version: current.version + 1,
+        defaultPercent: input.defaultPercent,
+        minFeePerDay: input.minFeePerDay,
+        maxFeePerDay: input.maxFeePerDay,
+        note: input.note,
+        createdById,
+        categoryRules: { create: input.categoryRules },
+        promotions: { create: input.promotions }
+      },
+      include: FEE_RULES_INCLUDE
+    })
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new FeeRuleError('The fee rules were just changed by someone else. Reload and try again.')
+    }
+    throw error
+  }
+}
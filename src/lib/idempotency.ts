@@ -0,0 +1,35 @@
+// src/lib/idempotency.ts
+import { NextRequest, NextResponse } from "next/server"
+
+// How long a replayed key returns the original record
+export const IDEMPOTENCY_WINDOW_MS = 24 * 60 * 60 * 1000
+
+const MAX_KEY_LENGTH = 255
+
+// Read the Idempotency-Key header. Returns null when absent,
+// or false when the header is present but unusable.
+export function getIdempotencyKey(request: NextRequest): string | null | false {
+  const key = request.headers.get('Idempotency-Key')?.trim()
+
+  if (!key) {
+    return null
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return false
+  }
+
+  return key
+}
+
+export function isWithinIdempotencyWindow(createdAt: Date): boolean {
+  return Date.now() - createdAt.getTime() < IDEMPOTENCY_WINDOW_MS
+}
+
+// Same body and status as the first request, flagged as a replay
+export function idempotentReplay(body: unknown, status: number) {
+  return NextResponse.json(body, {
+    status,
+    headers: { 'Idempotent-Replayed': 'true' }
+  })
+}
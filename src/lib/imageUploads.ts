@@ -0,0 +1,127 @@
+// src/lib/imageUploads.ts
+import { createHash } from "crypto"
+import sharp from "sharp"
+import { getStorage } from "./storage"
+
+export class UploadError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UploadError'
+  }
+}
+
+// The whole upload was bigger than its files are allowed to add up to
+export class UploadTooLargeError extends UploadError {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UploadTooLargeError'
+  }
+}
+
+export const MAX_UPLOAD_BYTES = 8 * 1024 * 1024
+export const MAX_FILES_PER_UPLOAD = 8
+
+// Room for multipart boundaries, part headers and the small text fields
+const FORM_OVERHEAD_BYTES = 64 * 1024
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp']
+
+// Formats as sharp reads them from the file itself, not the browser's claim
+const ACCEPTED_FORMATS = ['jpeg', 'png', 'webp']
+
+const WEB_MAX_SIZE = 1600
+const THUMBNAIL_SIZE = 400
+
+export interface UploadOptions {
+  folder: string // Key prefix, e.g. "listings"
+  squareThumbnail?: boolean // Crop thumbnails to a square for grid layouts
+}
+
+export interface UploadedImage {
+  url: string // Web-sized, at most 1600px on the long side
+  thumbnailUrl: string
+  width: number
+  height: number
+}
+
+// Parse a multipart upload of at most maxFiles images, refusing a body bigger
+// than they could add up to before it is buffered. Content-Length is checked
+// first; the body is also counted as it streams in, since the header can be
+// missing or wrong. Resolves to null when the body is not valid form data.
+export async function readUploadForm(request: Request, maxFiles: number): Promise<FormData | null> {
+  const limit = maxFiles * MAX_UPLOAD_BYTES + FORM_OVERHEAD_BYTES
+  const tooLarge = new UploadTooLargeError(
+    `Upload at most ${maxFiles * MAX_UPLOAD_BYTES / 1024 / 1024} MB at a time`
+  )
+
+  if (Number(request.headers.get('content-length')) > limit) {
+    throw tooLarge
+  }
+  if (!request.body) {
+    return null
+  }
+
+  let received = 0
+  let exceeded = false
+  const body = request.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      received += chunk.byteLength
+      if (received > limit) {
+        exceeded = true
+        controller.error(tooLarge)
+        return
+      }
+      controller.enqueue(chunk)
+    }
+  }))
+
+  const formData = await new Response(body, {
+    headers: { 'Content-Type': request.headers.get('content-type') || '' }
+  }).formData().catch(() => null)
+
+  if (exceeded) {
+    throw tooLarge
+  }
+  return formData
+}
+
+// Validate, clean and store one image. Re-encoding drops all metadata,
+// including EXIF GPS location; orientation is applied to the pixels first.
+// Files are keyed by content hash, so the same image always gets the same URLs.
+export async function processImageUpload(file: File, { folder, squareThumbnail = false }: UploadOptions): Promise<UploadedImage> {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    throw new UploadError(`${file.name}: only JPEG, PNG and WebP images are accepted`)
+  }
+
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new UploadError(`${file.name}: images must be ${MAX_UPLOAD_BYTES / 1024 / 1024} MB or smaller`)
+  }
+
+  const input = Buffer.from(await file.arrayBuffer())
+
+  const metadata = await sharp(input).metadata().catch(() => null)
+  if (!metadata?.format || !ACCEPTED_FORMATS.includes(metadata.format)) {
+    throw new UploadError(`${file.name}: not a valid image`)
+  }
+
+  const hash = createHash('sha256').update(input).digest('hex').slice(0, 32)
+
+  const web = await sharp(input)
+    .rotate()
+    .resize(WEB_MAX_SIZE, WEB_MAX_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .webp({ quality: 82 })
+    .toBuffer({ resolveWithObject: true })
+
+  const thumbnail = await sharp(input)
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, squareThumbnail
+      ? { fit: 'cover', position: sharp.strategy.attention }
+      : { fit: 'inside', withoutEnlargement: true })
+    .webp({ quality: 75 })
+    .toBuffer()
+
+  const storage = getStorage()
+  const url = await storage.put(`${folder}/${hash}/web.webp`, web.data, 'image/webp')
+  const thumbnailUrl = await storage.put(`${folder}/${hash}/thumb.webp`, thumbnail, 'image/webp')
+
+  return { url, thumbnailUrl, width: web.info.width, height: web.info.height }
+}
@@ -0,0 +1,10 @@
+// src/lib/imageUrls.ts
+// Safe to import from client components
+
+export const MAX_LISTING_IMAGES = 8
+
+// Uploaded images sit next to their thumbnail (see imageUploads.ts).
+// Links pasted in before uploads existed have no thumbnail and are used as is.
+export function getThumbnailUrl(url: string): string {
+  return url.replace(/\/web\.webp$/, '/thumb.webp')
+}
@@ -0,0 +1,91 @@
+// src/lib/inventory.ts
+import { Prisma } from "@prisma/client"
+
+export interface StockLine {
+  productId: string
+  quantity: number
+}
+
+export interface StockShortage {
+  productId: string
+  productName: string
+  requested: number
+  available: number
+  shortBy: number
+}
+
+export class StockShortageError extends Error {
+  shortages: StockShortage[]
+
+  constructor(shortages: StockShortage[]) {
+    super(`Insufficient stock for ${shortages.map(s => s.productName).join(', ')}`)
+    this.name = 'StockShortageError'
+    this.shortages = shortages
+  }
+}
+
+// Combine repeated cart lines for the same product
+function mergeLines(lines: StockLine[]): StockLine[] {
+  const merged = new Map<string, number>()
+  for (const line of lines) {
+    merged.set(line.productId, (merged.get(line.productId) || 0) + line.quantity)
+  }
+  return Array.from(merged, ([productId, quantity]) => ({ productId, quantity }))
+}
+
+// Decrement stock for every line inside the caller's transaction.
+// Each decrement is conditional on enough stock being left, so concurrent
+// checkouts can never push a product below zero. If any line is short the
+// whole reservation fails with the exact shortfall per product.
+export async function reserveStock(tx: Prisma.TransactionClient, lines: StockLine[]) {
+  const shortages: StockShortage[] = []
+
+  for (const line of mergeLines(lines)) {
+    const { count } = await tx.product.updateMany({
+      where: {
+        id: line.productId,
+        isAvailable: true,
+        stockQuantity: { gte: line.quantity }
+      },
+      data: {
+        stockQuantity: {
+          decrement: line.quantity
+        }
+      }
+    })
+
+    if (count === 0) {
+      const product = await tx.product.findUnique({
+        where: { id: line.productId },
+        select: { name: true, stockQuantity: true, isAvailable: true }
+      })
+      const available = product?.isAvailable ? Math.max(0, product.stockQuantity) : 0
+
+      shortages.push({
+        productId: line.productId,
+        productName: product?.name || 'Unknown product',
+        requested: line.quantity,
+        available,
+        shortBy: line.quantity - available
+      })
+    }
+  }
+
+  if (shortages.length > 0) {
+    throw new StockShortageError(shortages)
+  }
+}
+
+// Put stock back, e.g. when an order is cancelled
+export async function releaseStock(tx: Prisma.TransactionClient, lines: StockLine[]) {
+  for (const line of mergeLines(lines)) {
+    await tx.product.update({
+      where: { id: line.productId },
+      data: {
+        stockQuantity: {
+          increment: line.quantity
+        }
+      }
+    })
+  }
+}
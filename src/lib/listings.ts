@@ -0,0 +1,245 @@
+// src/lib/listings.ts
+import { ItemListing, Prisma } from "@prisma/client"
+import { MAX_LISTING_IMAGES } from "./imageUrls"
+import { calculateSaleFee, FeePolicy } from "./platformFees"
+import { getCustomerRate, getPlatformFee } from "./rentalPricing"
+
+export class ListingInputError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ListingInputError'
+  }
+}
+
+export interface ListingTerms {
+  itemName: string
+  description: string
+  categoryId: string
+  images: string[]
+  acceptsOffers: boolean
+  quantity: number
+  salePrice: number | null
+  rentPerDay: number
+  weeklyRent: number | null
+  monthlyRent: number | null
+  minRentalDays: number
+  maxRentalDays: number | null
+  securityDeposit: number | null
+  lateFeePerDay: number | null
+  requiresSellerApproval: boolean
+}
+
+// Fields a seller can change after submitting. The type is fixed at creation.
+export const EDITABLE_LISTING_FIELDS = [
+  'itemName',
+  'description',
+  'categoryId',
+  'images',
+  'acceptsOffers',
+  'quantity',
+  'salePrice',
+  'rentPerDay',
+  'weeklyRent',
+  'monthlyRent',
+  'minRentalDays',
+  'maxRentalDays',
+  'securityDeposit',
+  'lateFeePerDay',
+  'requiresSellerApproval'
+] as const satisfies readonly (keyof ListingTerms)[]
+
+// Anything a customer pays, plus category (which sets the fee) and images,
+// has to be looked at again. Other edits go live straight away.
+export const REVIEWED_LISTING_FIELDS: readonly (keyof ListingTerms)[] = [
+  'categoryId',
+  'images',
+  'salePrice',
+  'rentPerDay',
+  'weeklyRent',
+  'monthlyRent',
+  'securityDeposit',
+  'lateFeePerDay'
+]
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === ''
+
+// Optional number: blank means not set
+const parseOptional = (value: unknown) => isBlank(value) ? null : parseFloat(String(value))
+
+// Validate the seller's side of a listing
+export function parseListingTerms(body: Record<string, unknown>, listingType: string): ListingTerms {
+  const isSale = listingType === 'SELL'
+  const itemName = typeof body.itemName === 'string' ? body.itemName.trim() : ''
+  const description = typeof body.description === 'string' ? body.description.trim() : ''
+  const categoryId = typeof body.categoryId === 'string' ? body.categoryId : ''
+
+  if (!itemName || !description || !categoryId || (isSale ? isBlank(body.salePrice) : isBlank(body.rentPerDay))) {
+    throw new ListingInputError('Missing required fields')
+  }
+
+  const quantity = isBlank(body.quantity) ? 1 : parseInt(String(body.quantity))
+  if (isNaN(quantity) || quantity < 1) {
+    throw new ListingInputError('Quantity must be at least 1')
+  }
+
+  const images = Array.isArray(body.images)
+    ? body.images.filter((image): image is string => typeof image === 'string' && image.trim() !== '')
+    : []
+  if (images.length > MAX_LISTING_IMAGES) {
+    throw new ListingInputError(`A listing can have at most ${MAX_LISTING_IMAGES} images`)
+  }
+
+  const common = {
+    itemName,
+    description,
+    categoryId,
+    images,
+    acceptsOffers: body.acceptsOffers === true,
+    quantity
+  }
+
+  if (isSale) {
+    const salePrice = parseFloat(String(body.salePrice))
+    if (isNaN(salePrice) || salePrice <= 0) {
+      throw new ListingInputError('Sale price must be more than zero')
+    }
+
+    // Rent fields stay at their defaults on SELL listings
+    return {
+      ...common,
+      salePrice,
+      rentPerDay: 0,
+      weeklyRent: null,
+      monthlyRent: null,
+      minRentalDays: 1,
+      maxRentalDays: null,
+      securityDeposit: null,
+      lateFeePerDay: null,
+      requiresSellerApproval: false
+    }
+  }
+
+  const rentPerDay = parseFloat(String(body.rentPerDay))
+  if (isNaN(rentPerDay) || rentPerDay <= 0) {
+    throw new ListingInputError('Rent per day must be more than zero')
+  }
+
+  // Blank late fee falls back to the category default
+  const lateFeePerDay = parseOptional(body.lateFeePerDay)
+  if (lateFeePerDay !== null && (isNaN(lateFeePerDay) || lateFeePerDay < 0)) {
+    throw new ListingInputError('Late fee must be zero or more')
+  }
+
+  // Weekly and monthly rates are optional; blank means daily pricing only
+  const weeklyRent = parseOptional(body.weeklyRent)
+  const monthlyRent = parseOptional(body.monthlyRent)
+  if ([weeklyRent, monthlyRent].some(rate => rate !== null && (isNaN(rate) || rate <= 0))) {
+    throw new ListingInputError('Weekly and monthly rates must be more than zero')
+  }
+
+  const minRentalDays = isBlank(body.minRentalDays) ? 1 : parseInt(String(body.minRentalDays))
+  const maxRentalDays = isBlank(body.maxRentalDays) ? null : parseInt(String(body.maxRentalDays))
+  if (isNaN(minRentalDays) || minRentalDays < 1 ||
+    (maxRentalDays !== null && (isNaN(maxRentalDays) || maxRentalDays < minRentalDays))) {
+    throw new ListingInputError('Maximum rental days must be at least the minimum')
+  }
+
+  const securityDeposit = parseOptional(body.securityDeposit) || null
+  if (securityDeposit !== null && (isNaN(securityDeposit) || securityDeposit < 0)) {
+    throw new ListingInputError('Security deposit must be zero or more')
+  }
+
+  return {
+    ...common,
+    salePrice: null,
+    rentPerDay,
+    weeklyRent,
+    monthlyRent,
+    minRentalDays,
+    maxRentalDays,
+    securityDeposit,
+    lateFeePerDay,
+    requiresSellerApproval: body.requiresSellerApproval === true
+  }
+}
+
+// Platform fee and customer price for the seller's price under a fee policy.
+// A sale is charged the fee once; rent fields stay at zero.
+export function priceListing(terms: Pick<ListingTerms, 'salePrice' | 'rentPerDay'>, feePolicy: FeePolicy) {
+  if (terms.salePrice !== null) {
+    const saleFee = calculateSaleFee(terms.salePrice, feePolicy)
+    return {
+      saleFee,
+      finalSalePrice: terms.salePrice + saleFee,
+      platformFee: 0,
+      finalRent: 0
+    }
+  }
+
+  return {
+    saleFee: null,
+    finalSalePrice: null,
+    platformFee: getPlatformFee(terms.rentPerDay, feePolicy),
+    finalRent: getCustomerRate(terms.rentPerDay, feePolicy)
+  }
+}
+
+// What a version records: the editable fields and what the customer pays
+export function snapshotListing(listing: ItemListing): Prisma.InputJsonObject {
+  const snapshot: Record<string, Prisma.InputJsonValue | null> = {}
+  for (const field of EDITABLE_LISTING_FIELDS) {
+    snapshot[field] = listing[field]
+  }
+  snapshot.finalRent = listing.finalRent
+  snapshot.finalSalePrice = listing.finalSalePrice
+  return snapshot
+}
+
+// Editable fields whose value differs between the listing and the new terms
+export function getChangedListingFields(listing: ItemListing, terms: ListingTerms): (keyof ListingTerms)[] {
+  return EDITABLE_LISTING_FIELDS.filter(field =>
+    JSON.stringify(listing[field]) !== JSON.stringify(terms[field])
+  )
+}
+
+// Append a version. Listings from before version history get the state they
+// were in before this edit recorded as version 1 first.
+export async function recordListingVersion(
+  tx: Prisma.TransactionClient,
+  before: ItemListing | null,
+  after: ItemListing,
+  editedById: string,
+  changedFields: string[] = [],
+  requiresReview: boolean = false
+) {
+  const latest = await tx.listingVersion.findFirst({
+    where: { listingId: after.id },
+    orderBy: { version: 'desc' },
+    select: { version: true }
+  })
+
+  let version = latest?.version ?? 0
+
+  if (!latest && before) {
+    version = 1
+    await tx.listingVersion.create({
+      data: {
+        listingId: before.id,
+        version,
+        snapshot: snapshotListing(before),
+        editedById: before.sellerId
+      }
+    })
+  }
+
+  return tx.listingVersion.create({
+    data: {
+      listingId: after.id,
+      version: version + 1,
+      snapshot: snapshotListing(after),
+      changedFields,
+      requiresReview,
+      editedById
+    }
+  })
+}
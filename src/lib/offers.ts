@@ -0,0 +1,226 @@
+// src/lib/offers.ts
+import { ItemListing, ListingOffer, OfferParty, Prisma } from "@prisma/client"
+import { prisma } from "./prisma"
+
+export class OfferError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'OfferError'
+  }
+}
+
+// How long the other side has to answer an offer or counter-offer
+export const OFFER_RESPONSE_WINDOW_HOURS = 48
+
+// How long the buyer has to check out once a price is agreed
+export const ACCEPTED_OFFER_CHECKOUT_HOURS = 48
+
+const MAX_OFFER_ATTEMPTS = 3
+
+// Offers still being negotiated or waiting for checkout
+export const OPEN_OFFER_STATUSES = ['PENDING', 'ACCEPTED'] as const
+
+function hoursFrom(now: Date, hours: number): Date {
+  return new Date(now.getTime() + hours * 60 * 60 * 1000)
+}
+
+// Seller-side price the offer is compared against: the sale price on SELL
+// listings, the daily rent on RENT listings
+export function getAskingPrice(listing: Pick<ItemListing, 'listingType' | 'salePrice' | 'rentPerDay'>): number {
+  return listing.listingType === 'SELL' ? listing.salePrice ?? 0 : listing.rentPerDay
+}
+
+export function parseOfferAmount(value: unknown): number | null {
+  const amount = typeof value === 'number' ? value : parseFloat(String(value))
+  if (isNaN(amount) || amount <= 0) {
+    return null
+  }
+  return Math.round(amount * 100) / 100
+}
+
+// Expire every offer whose deadline has passed. Safe to call on any read.
+export async function expireOffers(now: Date = new Date()): Promise<number> {
+  const { count } = await prisma.listingOffer.updateMany({
+    where: {
+      status: { in: [...OPEN_OFFER_STATUSES] },
+      expiresAt: { lte: now }
+    },
+    data: { status: 'EXPIRED' }
+  })
+  return count
+}
+
+// Buyer or renter opens a negotiation on a listing
+export async function makeOffer(
+  listing: ItemListing,
+  buyer: { id: string; name: string },
+  amount: number,
+  message: string | null,
+  now: Date = new Date()
+) {
+  if (listing.status !== 'LIVE' || !listing.acceptsOffers) {
+    throw new OfferError('This listing is not taking offers')
+  }
+
+  if (listing.sellerId === buyer.id) {
+    throw new OfferError('You cannot make an offer on your own listing')
+  }
+
+  const askingPrice = getAskingPrice(listing)
+  if (amount >= askingPrice) {
+    throw new OfferError(`Offer must be below the asking price of ₹${askingPrice}`)
+  }
+
+  await expireOffers(now)
+
+  // Serializable, so of two offers sent at once only one gets past the check;
+  // the other is retried (P2034) and then sees the first
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const open = await tx.listingOffer.findFirst({
+          where: {
+            listingId: listing.id,
+            buyerId: buyer.id,
+            status: { in: [...OPEN_OFFER_STATUSES] }
+          }
+        })
+
+        if (open) {
+          throw new OfferError('You already have an open offer on this listing')
+        }
+
+        return tx.listingOffer.create({
+          data: {
+            listingId: listing.id,
+            buyerId: buyer.id,
+            buyerName: buyer.name,
+            sellerId: listing.sellerId,
+            amount,
+            askingPrice,
+            message,
+            status: 'PENDING',
+            awaiting: 'SELLER',
+            expiresAt: hoursFrom(now, OFFER_RESPONSE_WINDOW_HOURS)
+          }
+        })
+      }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable })
+    } catch (error) {
+      const isWriteConflict = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034'
+      if (attempt >= MAX_OFFER_ATTEMPTS || !isWriteConflict) {
+        throw error
+      }
+    }
+  }
+}
+
+export type OfferAction = 'ACCEPT' | 'REJECT' | 'COUNTER'
+
+// The side whose turn it is accepts, rejects or counters. A counter replaces
+// the amount, restarts the clock and hands the turn to the other side.
+export async function respondToOffer(
+  offer: ListingOffer,
+  party: OfferParty,
+  action: OfferAction,
+  counterAmount: number | null = null,
+  now: Date = new Date()
+) {
+  if (offer.status !== 'PENDING' || offer.expiresAt <= now) {
+    throw new OfferError('This offer is no longer open')
+  }
+
+  if (offer.awaiting !== party) {
+    throw new OfferError('Waiting for the other side to answer')
+  }
+
+  let data: Prisma.ListingOfferUpdateManyMutationInput
+  switch (action) {
+    case 'ACCEPT':
+      data = {
+        status: 'ACCEPTED',
+        expiresAt: hoursFrom(now, ACCEPTED_OFFER_CHECKOUT_HOURS)
+      }
+      break
+    case 'REJECT':
+      data = { status: 'REJECTED' }
+      break
+    case 'COUNTER':
+      if (counterAmount === null) {
+        throw new OfferError('A counter-offer needs an amount')
+      }
+      if (counterAmount === offer.amount) {
+        throw new OfferError('Counter with a different amount, or accept the offer')
+      }
+      data = {
+        amount: counterAmount,
+        awaiting: party === 'SELLER' ? 'BUYER' : 'SELLER',
+        counterCount: { increment: 1 },
+        expiresAt: hoursFrom(now, OFFER_RESPONSE_WINDOW_HOURS)
+      }
+      break
+  }
+
+  // Guard against both sides answering at once
+  const { count } = await prisma.listingOffer.updateMany({
+    where: { id: offer.id, status: 'PENDING', awaiting: party, amount: offer.amount },
+    data: { ...data, respondedAt: now }
+  })
+
+  if (count === 0) {
+    throw new OfferError('The offer just changed. Reload and try again.')
+  }
+
+  return prisma.listingOffer.findUniqueOrThrow({ where: { id: offer.id } })
+}
+
+// Buyer pulls out of a negotiation or an agreed price they no longer want
+export async function withdrawOffer(offer: ListingOffer, now: Date = new Date()) {
+  const { count } = await prisma.listingOffer.updateMany({
+    where: { id: offer.id, status: { in: [...OPEN_OFFER_STATUSES] } },
+    data: { status: 'WITHDRAWN', respondedAt: now }
+  })
+
+  if (count === 0) {
+    throw new OfferError('This offer is no longer open')
+  }
+
+  return prisma.listingOffer.findUniqueOrThrow({ where: { id: offer.id } })
+}
+
+// Accepted offer the buyer is checking out with; its amount replaces the
+// listing price
+export async function findCheckoutOffer(
+  offerId: string,
+  buyerId: string,
+  listingId: string,
+  now: Date = new Date()
+): Promise<ListingOffer> {
+  const offer = await prisma.listingOffer.findUnique({ where: { id: offerId } })
+
+  if (!offer || offer.buyerId !== buyerId || offer.listingId !== listingId) {
+    throw new OfferError('Offer not found')
+  }
+
+  if (offer.status !== 'ACCEPTED' || offer.expiresAt <= now) {
+    throw new OfferError('This offer is no longer available at checkout')
+  }
+
+  return offer
+}
+
+// Mark the offer used inside the checkout transaction, so it can't pay for
+// two checkouts
+export async function claimAcceptedOffer(
+  tx: Prisma.TransactionClient,
+  offer: ListingOffer,
+  now: Date = new Date()
+) {
+  const { count } = await tx.listingOffer.updateMany({
+    where: { id: offer.id, status: 'ACCEPTED', expiresAt: { gt: now } },
+    data: { status: 'USED', usedAt: now }
+  })
+
+  if (count === 0) {
+    throw new OfferError('This offer is no longer available at checkout')
+  }
+}
@@ -0,0 +1,114 @@
+// src/lib/orderLifecycle.ts
+import { NextResponse } from "next/server"
+import { Order, OrderStatus, Prisma } from "@prisma/client"
+import { releaseStock } from "./inventory"
+
+// Allowed next states for every order status.
+// PENDING → CONFIRMED → READY → COMPLETED, and any non-terminal order can be cancelled.
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING]: [OrderStatus.CONFIRMED, OrderStatus.CANCELLED],
+  [OrderStatus.CONFIRMED]: [OrderStatus.READY, OrderStatus.CANCELLED],
+  [OrderStatus.READY]: [OrderStatus.COMPLETED, OrderStatus.CANCELLED],
+  [OrderStatus.COMPLETED]: [],
+  [OrderStatus.CANCELLED]: []
+}
+
+export class OrderTransitionError extends Error {
+  from: OrderStatus
+  to: OrderStatus
+  allowed: OrderStatus[]
+
+  constructor(from: OrderStatus, to: OrderStatus) {
+    super(`Cannot move order from ${from} to ${to}`)
+    this.name = 'OrderTransitionError'
+    this.from = from
+    this.to = to
+    this.allowed = ORDER_TRANSITIONS[from]
+  }
+}
+
+export function getAllowedTransitions(status: OrderStatus): OrderStatus[] {
+  return ORDER_TRANSITIONS[status]
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from].includes(to)
+}
+
+export function isTerminalStatus(status: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[status].length === 0
+}
+
+// Timestamps set when an order enters a status (existing ones are kept)
+export function getTransitionTimestamps(
+  order: Pick<Order, 'confirmedAt' | 'readyAt'>,
+  to: OrderStatus
+): Pick<Prisma.OrderUpdateManyMutationInput, 'confirmedAt' | 'readyAt' | 'completedAt'> {
+  const now = new Date()
+
+  switch (to) {
+    case OrderStatus.CONFIRMED:
+      return order.confirmedAt ? {} : { confirmedAt: now }
+    case OrderStatus.READY:
+      return order.readyAt ? {} : { readyAt: now }
+    case OrderStatus.COMPLETED:
+    case OrderStatus.CANCELLED:
+      return { completedAt: now }
+    default:
+      return {}
+  }
+}
+
+// Move an order to a new status inside a transaction.
+// Validates the transition, sets timestamps and runs side effects
+// (restoring stock on cancel). Extra fields are written in the same update.
+export async function transitionOrder(
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  to: OrderStatus,
+  data: Prisma.OrderUpdateManyMutationInput = {}
+) {
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    include: { orderItems: true }
+  })
+
+  if (!order) {
+    throw new Error(`Order ${orderId} not found`)
+  }
+
+  if (!canTransition(order.status, to)) {
+    throw new OrderTransitionError(order.status, to)
+  }
+
+  // Guard against a concurrent transition from the same state
+  const { count } = await tx.order.updateMany({
+    where: { id: orderId, status: order.status },
+    data: {
+      ...getTransitionTimestamps(order, to),
+      ...data,
+      status: to
+    }
+  })
+
+  if (count === 0) {
+    const latest = await tx.order.findUnique({ where: { id: orderId } })
+    throw new OrderTransitionError(latest?.status ?? order.status, to)
+  }
+
+  if (to === OrderStatus.CANCELLED) {
+    await releaseStock(tx, order.orderItems)
+  }
+
+  return order
+}
+
+// 409 response for an illegal status move
+export function orderTransitionErrorResponse(error: OrderTransitionError) {
+  return NextResponse.json({
+    error: error.message,
+    currentStatus: error.from,
+    requestedStatus: error.to,
+    allowedStatuses: error.allowed
+  }, { status: 409 })
+}
@@ -0,0 +1,67 @@
+// src/lib/pagination.ts
+// Safe to import from client components
+
+export const DEFAULT_PAGE_SIZE = 20
+export const MAX_PAGE_SIZE = 100
+
+export interface PageParams {
+  limit: number
+  cursor: string | null // Id of the last item on the previous page
+}
+
+export interface Page<T> {
+  items: T[]
+  nextCursor: string | null // Null on the last page
+}
+
+// ?limit=&cursor= from a list request. A bad or missing limit falls back to the default.
+export function getPageParams(searchParams: URLSearchParams, defaultLimit = DEFAULT_PAGE_SIZE): PageParams {
+  const limit = parseInt(searchParams.get('limit') || '')
+  return {
+    limit: isNaN(limit) || limit < 1 ? defaultLimit : Math.min(limit, MAX_PAGE_SIZE),
+    cursor: searchParams.get('cursor') || null
+  }
+}
+
+// One page of a findMany. Spread the args into the query; its orderBy must
+// end on id so rows with equal sort keys never repeat or go missing between pages.
+export async function findPage<T extends { id: string }>(
+  { limit, cursor }: PageParams,
+  findMany: (args: { take: number; skip?: number; cursor?: { id: string } }) => Promise<T[]>
+): Promise<Page<T>> {
+  // One extra row tells us whether there is another page
+  const rows = await findMany({
+    take: limit + 1,
+    ...(cursor && { cursor: { id: cursor }, skip: 1 })
+  })
+
+  const items = rows.slice(0, limit)
+  return {
+    items,
+    nextCursor: rows.length > limit ? items[items.length - 1].id : null
+  }
+}
+
+// Follow nextCursor to the end of the list. Pass the id of the last item
+// already held to fetch only what comes after it.
+export async function fetchAllPages<T>(url: string, after: string | null = null): Promise<T[]> {
+  const items: T[] = []
+  let cursor = after
+
+  do {
+    const separator = url.includes('?') ? '&' : '?'
+    const response: Response = await fetch(
+      `${url}${separator}limit=${MAX_PAGE_SIZE}${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ''}`
+    )
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load')
+    }
+
+    items.push(...data.items)
+    cursor = data.nextCursor
+  } while (cursor)
+
+  return items
+}
@@ -0,0 +1,118 @@
+// src/lib/platformFees.ts
+// Pure platform fee rules, shared by the listing form, checkout page and API routes
+
+export interface FeeCategoryRule {
+  categoryId: string
+  percent: number
+  minFeePerDay: number | null // Null uses the rule set's cap
+  maxFeePerDay: number | null
+}
+
+export interface FeePromotion {
+  name: string
+  categoryId: string | null // Null applies to every category
+  startsAt: Date | string
+  endsAt: Date | string
+}
+
+// One version of the fee rules, as stored in PlatformFeeRuleSet
+export interface FeeRules {
+  version: number
+  defaultPercent: number
+  minFeePerDay: number
+  maxFeePerDay: number | null
+  categoryRules: FeeCategoryRule[]
+  promotions: FeePromotion[]
+}
+
+// Fee that applies to one listing at one moment
+export interface FeePolicy {
+  percent: number
+  minFeePerDay: number
+  maxFeePerDay: number | null
+  promotion: string | null // Name of the zero-fee promotion, if one is running
+}
+
+// The flat 20% charged before fee rules existed. Listings without a rule
+// version were priced with it and keep it.
+export const LEGACY_FEE_RULES: FeeRules = {
+  version: 0,
+  defaultPercent: 20,
+  minFeePerDay: 0,
+  maxFeePerDay: null,
+  categoryRules: [],
+  promotions: []
+}
+
+export const LEGACY_FEE_POLICY: FeePolicy = {
+  percent: LEGACY_FEE_RULES.defaultPercent,
+  minFeePerDay: 0,
+  maxFeePerDay: null,
+  promotion: null
+}
+
+// Promotions to check at checkout, and the moment to check them at
+export interface RunningPromotions {
+  promotions: FeePromotion[]
+  at: Date
+}
+
+export function getActivePromotion(promotions: FeePromotion[], categoryId: string, at: Date): FeePromotion | null {
+  return promotions.find(promotion =>
+    (promotion.categoryId === null || promotion.categoryId === categoryId) &&
+    new Date(promotion.startsAt) <= at &&
+    at < new Date(promotion.endsAt)
+  ) || null
+}
+
+// Fee for a listing in `categoryId` under the rules it was priced with.
+// Promotions only count when `running` is given: a listing's stored price is
+// its regular price, and a promotion running at checkout waives the fee on
+// that rental. Pass the current rule set's promotions, so one published after
+// the listing was priced still applies to it.
+export function resolveFeePolicy(rules: FeeRules, categoryId: string, running?: RunningPromotions): FeePolicy {
+  const promotion = running ? getActivePromotion(running.promotions, categoryId, running.at) : null
+  if (promotion) {
+    return { percent: 0, minFeePerDay: 0, maxFeePerDay: 0, promotion: promotion.name }
+  }
+
+  const categoryRule = rules.categoryRules.find(rule => rule.categoryId === categoryId)
+  return {
+    percent: categoryRule ? categoryRule.percent : rules.defaultPercent,
+    minFeePerDay: categoryRule?.minFeePerDay ?? rules.minFeePerDay,
+    maxFeePerDay: categoryRule?.maxFeePerDay ?? rules.maxFeePerDay,
+    promotion: null
+  }
+}
+
+// Percentage of the seller's amount, kept between the caps. Caps are per
+// day, so a weekly rate (days = 7) gets seven times the daily caps.
+export function calculateFee(sellerAmount: number, policy: FeePolicy, days: number = 1): number {
+  let fee = sellerAmount * policy.percent / 100
+  fee = Math.max(fee, policy.minFeePerDay * days)
+  if (policy.maxFeePerDay !== null) {
+    fee = Math.min(fee, policy.maxFeePerDay * days)
+  }
+  return Math.round(fee * 100) / 100
+}
+
+// Fee on a one-off sale: the percentage alone. The min/max caps are per
+// day of rent and mean nothing for a sale price.
+export function calculateSaleFee(salePrice: number, policy: FeePolicy): number {
+  return Math.round(salePrice * policy.percent) / 100
+}
+
+export function describeSaleFeePolicy(policy: FeePolicy): string {
+  return policy.promotion ? `No fee (${policy.promotion})` : `${policy.percent}%`
+}
+
+export function describeFeePolicy(policy: FeePolicy): string {
+  if (policy.promotion) return `No fee (${policy.promotion})`
+
+  const caps = [
+    policy.minFeePerDay > 0 && `min ₹${policy.minFeePerDay}/day`,
+    policy.maxFeePerDay !== null && `max ₹${policy.maxFeePerDay}/day`
+  ].filter(Boolean)
+
+  return caps.length > 0 ? `${policy.percent}% (${caps.join(', ')})` : `${policy.percent}%`
+}
@@ -0,0 +1,90 @@
+// src/lib/productImages.ts
+import { prisma } from "./prisma"
+import { processImageUpload, UploadError, UploadOptions } from "./imageUploads"
+
+// Square thumbnails so the shop grid lines up
+export const PRODUCT_IMAGE_UPLOAD: UploadOptions = { folder: 'products', squareThumbnail: true }
+
+// "Lays_Magic-Masala.JPG" and "Lay's Magic Masala" both become "lays magic masala"
+export function normalizeImageName(name: string): string {
+  return name
+    .replace(/\.[a-z0-9]+$/i, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+export interface ProductImageAssignment {
+  fileName: string
+  productId: string
+  productName: string
+  imageUrl: string
+}
+
+export interface BulkAssignResult {
+  assigned: ProductImageAssignment[]
+  unmatched: string[] // No product with that name
+  ambiguous: string[] // More than one product with that name
+  skipped: string[] // Product already has an image and overwrite was off
+  failed: { fileName: string; error: string }[] // Matched, but not a usable image
+}
+
+// Match files to products by name and store each matched image. Files that
+// match nothing are not stored. Limit to one category when seeding it.
+export async function assignProductImagesByName(
+  files: File[],
+  { categoryId, overwrite = false }: { categoryId?: string; overwrite?: boolean } = {}
+): Promise<BulkAssignResult> {
+  const products = await prisma.product.findMany({
+    where: categoryId ? { categoryId } : {},
+    select: { id: true, name: true, imageUrl: true }
+  })
+
+  const productsByName = new Map<string, typeof products>()
+  for (const product of products) {
+    const key = normalizeImageName(product.name)
+    productsByName.set(key, [...(productsByName.get(key) || []), product])
+  }
+
+  const result: BulkAssignResult = { assigned: [], unmatched: [], ambiguous: [], skipped: [], failed: [] }
+
+  for (const file of files) {
+    const matches = productsByName.get(normalizeImageName(file.name)) || []
+
+    if (matches.length === 0) {
+      result.unmatched.push(file.name)
+      continue
+    }
+    if (matches.length > 1) {
+      result.ambiguous.push(file.name)
+      continue
+    }
+
+    const [product] = matches
+    if (product.imageUrl && !overwrite) {
+      result.skipped.push(file.name)
+      continue
+    }
+
+    let url: string
+    try {
+      ({ url } = await processImageUpload(file, PRODUCT_IMAGE_UPLOAD))
+    } catch (error) {
+      if (!(error instanceof UploadError)) throw error
+      result.failed.push({ fileName: file.name, error: error.message })
+      continue
+    }
+
+    await prisma.product.update({
+      where: { id: product.id },
+      data: { imageUrl: url }
+    })
+    // A second file for the same product only replaces this one when overwriting
+    product.imageUrl = url
+
+    result.assigned.push({ fileName: file.name, productId: product.id, productName: product.name, imageUrl: url })
+  }
+
+  return result
+}
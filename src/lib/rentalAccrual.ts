@@ -0,0 +1,123 @@
+// src/lib/rentalAccrual.ts
+import { Prisma, RentalTransaction } from "@prisma/client"
+import { prisma } from "./prisma"
+import { addDays, daysBetween, getBookedEnd, startOfUtcDay } from "./rentalAvailability"
+import { getOverdueSince } from "./rentalLateFees"
+import { getRentCharged } from "./rentalPricing"
+
+export interface AccrualSummary {
+  processed: number
+  accrued: number
+  daysAccrued: number
+  amountAccrued: number
+  exhaustedRentalIds: string[]
+  overdueRentalIds: string[]
+}
+
+// Days an item has been held as of `now`. The return day itself is not charged.
+export function getDaysHeld(startDate: Date, now: Date = new Date()): number {
+  return Math.max(0, daysBetween(startDate, now))
+}
+
+// Rent the renter prepaid at checkout (security deposit excluded)
+export function getPrepaidRent(rental: Pick<RentalTransaction, 'totalPaid' | 'securityDeposit'>): number {
+  return rental.totalPaid - (rental.securityDeposit || 0)
+}
+
+// Bring one ACTIVE rental up to date. Charging is based on days held versus
+// days already charged, so running twice on the same day changes nothing.
+// With a late fee, days past the booked end are left to the late fee at return.
+export async function accrueRental(tx: Prisma.TransactionClient, rental: RentalTransaction, now: Date) {
+  const daysHeld = getDaysHeld(rental.startDate, now)
+  const chargeableDays = rental.lateFeePerDay > 0
+    ? Math.min(daysHeld, daysBetween(rental.startDate, getBookedEnd(rental)))
+    : daysHeld
+  const extraDays = Math.max(0, chargeableDays - rental.daysRented)
+  const newDaysRented = rental.daysRented + extraDays
+
+  const renterCharge = extraDays * rental.dailyRate
+  const sellerShare = extraDays * rental.sellerEarning
+  const exhausted = getRentCharged(rental, newDaysRented) > getPrepaidRent(rental) + 0.01
+  const overdueSince = getOverdueSince(rental, now)
+
+  // lastCalculated acts as a version check against overlapping runs
+  const { count } = await tx.rentalTransaction.updateMany({
+    where: {
+      id: rental.id,
+      status: 'ACTIVE',
+      lastCalculated: rental.lastCalculated
+    },
+    data: {
+      daysRented: newDaysRented,
+      amountOwedToSeller: { increment: sellerShare },
+      prepaidExhausted: exhausted,
+      overdueSince,
+      lastCalculated: now,
+      // Keep the booked end for rentals created before endDate was recorded
+      endDate: getBookedEnd(rental)
+    }
+  })
+
+  if (count === 0 || extraDays === 0) {
+    return { applied: count > 0, extraDays: 0, renterCharge: 0, exhausted, overdue: overdueSince !== null }
+  }
+
+  await tx.rentalLedgerEntry.create({
+    data: {
+      rentalId: rental.id,
+      type: 'ACCRUAL',
+      days: extraDays,
+      amount: renterCharge,
+      sellerAmount: sellerShare,
+      periodStart: addDays(startOfUtcDay(rental.startDate), rental.daysRented),
+      periodEnd: addDays(startOfUtcDay(rental.startDate), newDaysRented),
+      note: `Accrued ${extraDays} day(s) at ₹${rental.dailyRate}/day`
+    }
+  })
+
+  return { applied: true, extraDays, renterCharge, exhausted, overdue: overdueSince !== null }
+}
+
+// Daily accrual over every ACTIVE rental. Safe to re-run at any time.
+export async function runRentalAccrual(now: Date = new Date()): Promise<AccrualSummary> {
+  const rentals = await prisma.rentalTransaction.findMany({
+    where: {
+      status: 'ACTIVE',
+      startDate: { lte: now },
+      // Days only count once the item has changed hands (no code = legacy rental)
+      OR: [
+        { handedOverAt: { not: null } },
+        { handoverCode: null }
+      ]
+    }
+  })
+
+  const summary: AccrualSummary = {
+    processed: 0,
+    accrued: 0,
+    daysAccrued: 0,
+    amountAccrued: 0,
+    exhaustedRentalIds: [],
+    overdueRentalIds: []
+  }
+
+  for (const rental of rentals) {
+    const result = await prisma.$transaction(tx => accrueRental(tx, rental, now))
+    if (!result.applied) continue
+
+    summary.processed += 1
+    if (result.extraDays > 0) {
+      summary.accrued += 1
+      summary.daysAccrued += result.extraDays
+      summary.amountAccrued += result.renterCharge
+    }
+    if (result.exhausted) {
+      summary.exhaustedRentalIds.push(rental.id)
+    }
+    if (result.overdue) {
+      summary.overdueRentalIds.push(rental.id)
+    }
+  }
+
+  return summary
+}
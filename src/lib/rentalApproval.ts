@@ -0,0 +1,76 @@
+// src/lib/rentalApproval.ts
+import { Prisma, RentalTransaction } from "@prisma/client"
+import { prisma } from "./prisma"
+
+// How long the owner has to accept or decline a rental request
+export const SELLER_APPROVAL_WINDOW_HOURS = 48
+
+export function getSellerApprovalDueAt(requestedAt: Date = new Date()): Date {
+  return new Date(requestedAt.getTime() + SELLER_APPROVAL_WINDOW_HOURS * 60 * 60 * 1000)
+}
+
+export function isSellerApprovalExpired(
+  rental: Pick<RentalTransaction, 'sellerApproval' | 'sellerApprovalDueAt'>,
+  now: Date = new Date()
+): boolean {
+  return rental.sellerApproval === 'PENDING' &&
+    rental.sellerApprovalDueAt !== null &&
+    rental.sellerApprovalDueAt <= now
+}
+
+// Cancel a request the owner declined or let lapse: the unit goes back on the
+// shelf and the whole upfront payment is queued for refund.
+// Returns false if the request was already answered.
+export async function releaseRentalRequest(
+  tx: Prisma.TransactionClient,
+  rental: Pick<RentalTransaction, 'id' | 'listingId' | 'totalPaid'>,
+  outcome: 'DECLINED' | 'EXPIRED',
+  reason: string | null = null,
+  now: Date = new Date()
+): Promise<boolean> {
+  const { count } = await tx.rentalTransaction.updateMany({
+    where: { id: rental.id, status: 'PENDING', sellerApproval: 'PENDING' },
+    data: {
+      status: 'CANCELLED',
+      paymentStatus: 'REFUND_DUE',
+      sellerApproval: outcome,
+      sellerRespondedAt: outcome === 'DECLINED' ? now : null,
+      sellerDeclineReason: reason,
+      refundAmount: rental.totalPaid,
+      cancelledAt: now
+    }
+  })
+
+  if (count === 0) {
+    return false
+  }
+
+  await tx.itemListing.update({
+    where: { id: rental.listingId },
+    data: { currentlyRented: { decrement: 1 } }
+  })
+
+  return true
+}
+
+// Expire every request whose window has passed. Safe to call on any read.
+export async function expireSellerApprovals(now: Date = new Date()): Promise<string[]> {
+  const lapsed = await prisma.rentalTransaction.findMany({
+    where: {
+      status: 'PENDING',
+      sellerApproval: 'PENDING',
+      sellerApprovalDueAt: { lte: now }
+    },
+    select: { id: true, listingId: true, totalPaid: true }
+  })
+
+  const expiredIds: string[] = []
+  for (const rental of lapsed) {
+    const released = await prisma.$transaction(tx => releaseRentalRequest(tx, rental, 'EXPIRED', null, now))
+    if (released) {
+      expiredIds.push(rental.id)
+    }
+  }
+
+  return expiredIds
+}
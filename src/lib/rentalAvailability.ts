@@ -0,0 +1,139 @@
+// src/lib/rentalAvailability.ts
+import { Prisma, PrismaClient, RentalStatus } from "@prisma/client"
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Rentals in these states hold a unit for their booked dates
+export const BLOCKING_RENTAL_STATUSES: RentalStatus[] = ['PENDING', 'ACTIVE']
+
+// Longest window the availability endpoint will compute in one go
+export const MAX_AVAILABILITY_RANGE_DAYS = 180
+
+export interface DayAvailability {
+  date: string // YYYY-MM-DD
+  booked: number
+  available: number
+}
+
+interface BookedRange {
+  startDate: Date
+  endDate: Date | null
+  daysRented: number
+  status: RentalStatus
+}
+
+export class RentalUnavailableError extends Error {
+  unavailableDates: string[]
+
+  constructor(unavailableDates: string[]) {
+    super(`Item is fully booked on ${unavailableDates.join(', ')}`)
+    this.name = 'RentalUnavailableError'
+    this.unavailableDates = unavailableDates
+  }
+}
+
+// All rental dates are whole days in UTC
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS)
+}
+
+export function daysBetween(from: Date, to: Date): number {
+  return Math.round((startOfUtcDay(to).getTime() - startOfUtcDay(from).getTime()) / DAY_MS)
+}
+
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+// Accepts YYYY-MM-DD (or a full ISO string) and returns that day at 00:00 UTC
+export function parseDateKey(value: string | null | undefined): Date | null {
+  if (!value) return null
+  const parsed = new Date(value)
+  return isNaN(parsed.getTime()) ? null : startOfUtcDay(parsed)
+}
+
+// Exclusive end of the period the renter booked (and paid for)
+export function getBookedEnd(rental: Pick<BookedRange, 'startDate' | 'endDate' | 'daysRented'>): Date {
+  return rental.endDate
+    ? startOfUtcDay(rental.endDate)
+    : addDays(startOfUtcDay(rental.startDate), Math.max(1, rental.daysRented))
+}
+
+// Exclusive end of the days a rental occupies.
+// An ACTIVE rental that runs past its booked end keeps holding the unit until it is returned.
+export function getBookingEnd(rental: BookedRange, now: Date = new Date()): Date {
+  const bookedEnd = getBookedEnd(rental)
+
+  if (rental.status === 'ACTIVE') {
+    const tomorrow = addDays(startOfUtcDay(now), 1)
+    return bookedEnd > tomorrow ? bookedEnd : tomorrow
+  }
+
+  return bookedEnd
+}
+
+// Free units for every day in [from, to).
+// excludeRentalId leaves one rental out, e.g. when checking its own extension.
+export async function getDailyAvailability(
+  db: Db,
+  listing: { id: string; quantity: number },
+  from: Date,
+  to: Date,
+  excludeRentalId?: string
+): Promise<DayAvailability[]> {
+  const rangeStart = startOfUtcDay(from)
+  const rangeEnd = startOfUtcDay(to)
+
+  const rentals = await db.rentalTransaction.findMany({
+    where: {
+      listingId: listing.id,
+      status: { in: BLOCKING_RENTAL_STATUSES },
+      ...(excludeRentalId && { id: { not: excludeRentalId } }),
+      startDate: { lt: rangeEnd }
+    },
+    select: {
+      startDate: true,
+      endDate: true,
+      daysRented: true,
+      status: true
+    }
+  })
+
+  const ranges = rentals
+    .map(rental => ({ start: startOfUtcDay(rental.startDate), end: getBookingEnd(rental) }))
+    .filter(range => range.end > rangeStart)
+
+  const days: DayAvailability[] = []
+  for (let day = rangeStart; day < rangeEnd; day = addDays(day, 1)) {
+    const booked = ranges.filter(range => range.start <= day && day < range.end).length
+    days.push({
+      date: toDateKey(day),
+      booked,
+      available: Math.max(0, listing.quantity - booked)
+    })
+  }
+
+  return days
+}
+
+// Throws RentalUnavailableError listing every fully booked day in [from, to)
+export async function assertUnitAvailable(
+  db: Db,
+  listing: { id: string; quantity: number },
+  from: Date,
+  to: Date,
+  excludeRentalId?: string
+) {
+  const days = await getDailyAvailability(db, listing, from, to, excludeRentalId)
+  const fullyBooked = days.filter(day => day.available <= 0).map(day => day.date)
+
+  if (fullyBooked.length > 0) {
+    throw new RentalUnavailableError(fullyBooked)
+  }
+}
@@ -0,0 +1,133 @@
+// src/lib/rentalCancellation.ts
+import { RentalTransaction } from "@prisma/client"
+import { prisma } from "./prisma"
+import { releaseDepositOnReturn } from "./rentalDeposits"
+import { isAwaitingHandover } from "./rentalHandover"
+import { getCancellationSellerShare } from "./rentalPayout"
+
+export class RentalCancellationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RentalCancellationError'
+  }
+}
+
+function readPercent(value: string | undefined, fallback: number): number {
+  const parsed = value === undefined ? NaN : parseFloat(value)
+  return isNaN(parsed) ? fallback : Math.min(100, Math.max(0, parsed))
+}
+
+// Percentage of the rent refunded when the renter cancels, by how far the
+// rental got. The security deposit is always refunded in full. Once the
+// item has been handed over the rental can only be returned.
+export const CANCELLATION_POLICY = {
+  beforeApproval: readPercent(process.env.RENTAL_CANCEL_REFUND_PERCENT_BEFORE_APPROVAL, 100),
+  afterApproval: readPercent(process.env.RENTAL_CANCEL_REFUND_PERCENT_AFTER_APPROVAL, 50)
+}
+
+export interface CancellationQuote {
+  stage: 'BEFORE_APPROVAL' | 'AFTER_APPROVAL'
+  refundPercent: number
+  rentPaid: number
+  rentRefund: number
+  cancellationFee: number
+  depositRefund: number
+}
+
+type QuoteFields = Pick<RentalTransaction,
+  'status' | 'totalPaid' | 'securityDeposit' | 'handoverCode' | 'handedOverAt'>
+
+// What the renter gets back if they cancel now, or null if they can't cancel
+export function getCancellationQuote(rental: QuoteFields): CancellationQuote | null {
+  let stage: CancellationQuote['stage']
+  if (rental.status === 'PENDING') {
+    stage = 'BEFORE_APPROVAL'
+  } else if (isAwaitingHandover(rental)) {
+    stage = 'AFTER_APPROVAL'
+  } else {
+    return null
+  }
+
+  const refundPercent = stage === 'BEFORE_APPROVAL'
+    ? CANCELLATION_POLICY.beforeApproval
+    : CANCELLATION_POLICY.afterApproval
+  const depositRefund = Math.min(rental.securityDeposit || 0, rental.totalPaid)
+  const rentPaid = Math.max(0, rental.totalPaid - depositRefund)
+  const rentRefund = Math.round(rentPaid * refundPercent) / 100
+
+  return {
+    stage,
+    refundPercent,
+    rentPaid,
+    rentRefund,
+    cancellationFee: rentPaid - rentRefund,
+    depositRefund
+  }
+}
+
+// Cancel a rental for the renter: free the unit, keep the cancellation fee
+// for the seller and queue the rest for refund.
+export async function cancelRental(rental: RentalTransaction, reason: string | null, now: Date = new Date()) {
+  const quote = getCancellationQuote(rental)
+  if (!quote) {
+    throw new RentalCancellationError(
+      rental.status === 'ACTIVE'
+        ? 'The item has already been handed over. Return it instead.'
+        : `Rental is already ${rental.status.toLowerCase()}`
+    )
+  }
+
+  const sellerShare = getCancellationSellerShare({ ...rental, cancellationFee: quote.cancellationFee })
+  // Before approval the deposit goes back with the rest of the submitted payment,
+  // which the admin settles like a declined request (see releaseRentalRequest);
+  // afterwards it is held and goes through the deposit refund queue
+  const refundAmount = quote.stage === 'BEFORE_APPROVAL'
+    ? quote.rentRefund + quote.depositRefund
+    : quote.rentRefund
+
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.rentalTransaction.updateMany({
+      where: quote.stage === 'BEFORE_APPROVAL'
+        ? { id: rental.id, status: 'PENDING' }
+        : { id: rental.id, status: 'ACTIVE', handedOverAt: null },
+      data: {
+        status: 'CANCELLED',
+        paymentStatus: quote.stage === 'BEFORE_APPROVAL' || refundAmount > 0.01 ? 'REFUND_DUE' : 'REFUNDED',
+        cancellationReason: reason,
+        cancellationFee: quote.cancellationFee,
+        refundAmount,
+        amountOwedToSeller: sellerShare,
+        daysRented: 0,
+        cancelledAt: now
+      }
+    })
+
+    if (count === 0) {
+      throw new RentalCancellationError('Rental was already updated')
+    }
+
+    if (quote.stage === 'AFTER_APPROVAL') {
+      await releaseDepositOnReturn(tx, rental, { daysLate: 0, fromDeposit: 0 })
+    }
+
+    if (quote.cancellationFee > 0) {
+      await tx.rentalLedgerEntry.create({
+        data: {
+          rentalId: rental.id,
+          type: 'CANCELLATION_FEE',
+          amount: quote.cancellationFee,
+          sellerAmount: sellerShare,
+          note: `Cancelled by renter, ${100 - quote.refundPercent}% of the rent kept`
+        }
+      })
+    }
+
+    await tx.itemListing.update({
+      where: { id: rental.listingId },
+      data: { currentlyRented: { decrement: 1 } }
+    })
+
+    const updatedRental = await tx.rentalTransaction.findUniqueOrThrow({ where: { id: rental.id } })
+    return { updatedRental, quote }
+  })
+}
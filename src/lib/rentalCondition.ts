@@ -0,0 +1,89 @@
+// src/lib/rentalCondition.ts
+import { ConditionStage, Prisma, PrismaClient, RentalParty } from "@prisma/client"
+
+type Db = PrismaClient | Prisma.TransactionClient
+
+export const MAX_CONDITION_PHOTOS = 8
+
+// Same checks at handover and return so the two can be compared line by line
+export const CONDITION_CHECKLIST = [
+  'Works as expected',
+  'No new scratches, dents or cracks',
+  'All parts and accessories included',
+  'Clean'
+] as const
+
+export interface ConditionReportInput {
+  photos: string[]
+  checklist: Record<string, boolean>
+  notes: string | null
+}
+
+// Photos are image URLs; returns null if the list is malformed
+export function parsePhotoUrls(photos: unknown, max: number): string[] | null {
+  if (photos === undefined || photos === null) return []
+  if (!Array.isArray(photos) || photos.length > max) return null
+
+  const urls = photos.map(photo => (typeof photo === 'string' ? photo.trim() : ''))
+  return urls.every(url => /^(https?:\/\/|\/)/.test(url)) ? urls : null
+}
+
+// Validates a { photos, checklist, notes } body; returns an error message or the cleaned report
+export function parseConditionReport(body: unknown): ConditionReportInput | string {
+  const { photos, checklist, notes } = (body || {}) as Record<string, unknown>
+
+  const photoUrls = parsePhotoUrls(photos, MAX_CONDITION_PHOTOS)
+  if (!photoUrls) {
+    return `Photos must be up to ${MAX_CONDITION_PHOTOS} image URLs`
+  }
+
+  const checks: Record<string, boolean> = {}
+  if (checklist !== undefined && checklist !== null) {
+    if (typeof checklist !== 'object' || Array.isArray(checklist)) {
+      return 'Checklist must map checklist items to true or false'
+    }
+    for (const [item, value] of Object.entries(checklist)) {
+      if (!(CONDITION_CHECKLIST as readonly string[]).includes(item) || typeof value !== 'boolean') {
+        return `Unknown checklist item: ${item}`
+      }
+      checks[item] = value
+    }
+  }
+
+  if (photoUrls.length === 0 && Object.keys(checks).length === 0 && !notes) {
+    return 'Add at least one photo, checklist answer or note'
+  }
+
+  return {
+    photos: photoUrls,
+    checklist: checks,
+    notes: typeof notes === 'string' && notes.trim() ? notes.trim() : null
+  }
+}
+
+// One report per party per stage; saving again replaces it
+export async function saveConditionReport(
+  db: Db,
+  rentalId: string,
+  stage: ConditionStage,
+  party: RentalParty,
+  uploadedById: string,
+  report: ConditionReportInput
+) {
+  return db.rentalConditionReport.upsert({
+    where: {
+      rentalId_stage_uploadedBy: { rentalId, stage, uploadedBy: party }
+    },
+    create: {
+      rentalId,
+      stage,
+      uploadedBy: party,
+      uploadedById,
+      ...report
+    },
+    update: {
+      uploadedById,
+      ...report
+    }
+  })
+}
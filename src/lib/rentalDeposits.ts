@@ -0,0 +1,114 @@
+// src/lib/rentalDeposits.ts
+import { DepositStatus, Prisma, RentalTransaction } from "@prisma/client"
+
+export const DEPOSIT_REFUND_METHODS = ['UPI', 'CASH', 'BANK_TRANSFER'] as const
+
+type DepositFields = Pick<RentalTransaction, 'securityDeposit' | 'depositWithheld' | 'depositRefunded'>
+
+// Part of the deposit neither withheld nor refunded yet
+export function getDepositBalance(rental: DepositFields): number {
+  return Math.max(0, (rental.securityDeposit || 0) - rental.depositWithheld - rental.depositRefunded)
+}
+
+export function appendReason(existing: string | null, reason: string): string {
+  return existing ? `${existing}; ${reason}` : reason
+}
+
+// Final status once the deposit has been settled
+export function getSettledDepositStatus(withheld: number, refunded: number): DepositStatus {
+  if (refunded <= 0.01) return 'WITHHELD'
+  return withheld > 0.01 ? 'PARTIALLY_REFUNDED' : 'REFUNDED'
+}
+
+// Record the deposit as held once the rental payment is verified
+export async function holdDeposit(
+  tx: Prisma.TransactionClient,
+  rental: Pick<RentalTransaction, 'id' | 'securityDeposit'>
+) {
+  const deposit = rental.securityDeposit || 0
+  if (deposit <= 0) return
+
+  await tx.rentalTransaction.update({
+    where: { id: rental.id },
+    data: { depositStatus: 'HELD' }
+  })
+
+  await tx.rentalLedgerEntry.create({
+    data: {
+      rentalId: rental.id,
+      type: 'DEPOSIT_HELD',
+      amount: deposit,
+      note: `Security deposit of ₹${deposit} held`
+    }
+  })
+}
+
+// On return, take any late fee out of the deposit and queue the rest for refund
+export async function releaseDepositOnReturn(
+  tx: Prisma.TransactionClient,
+  rental: DepositFields & Pick<RentalTransaction, 'id' | 'depositStatus' | 'depositWithheldReason'>,
+  lateCharge: { daysLate: number; fromDeposit: number }
+) {
+  const deposit = rental.securityDeposit || 0
+  // NONE here means an active rental activated before deposits were tracked
+  if (deposit <= 0 || (rental.depositStatus !== 'HELD' && rental.depositStatus !== 'NONE')) return
+
+  const withheld = lateCharge.fromDeposit
+  const balance = getDepositBalance(rental) - withheld
+
+  await tx.rentalTransaction.update({
+    where: { id: rental.id },
+    data: {
+      depositStatus: balance > 0.01 ? 'REFUND_DUE' : 'WITHHELD',
+      depositWithheld: { increment: withheld },
+      depositWithheldReason: withheld > 0
+        ? appendReason(rental.depositWithheldReason, `Late fee (${lateCharge.daysLate} day(s) late)`)
+        : rental.depositWithheldReason
+    }
+  })
+
+  if (withheld > 0) {
+    await tx.rentalLedgerEntry.create({
+      data: {
+        rentalId: rental.id,
+        type: 'DEPOSIT_WITHHELD',
+        amount: withheld,
+        note: `₹${withheld} of the deposit put towards the late fee`
+      }
+    })
+  }
+}
+
+// Pay part of the deposit to the seller, e.g. for a resolved damage claim.
+// Whatever is left stays with the renter and is refunded through the deposit queue.
+export async function awardDepositToSeller(
+  tx: Prisma.TransactionClient,
+  rental: DepositFields & Pick<RentalTransaction, 'id' | 'depositStatus' | 'depositWithheldReason'>,
+  amount: number,
+  reason: string
+) {
+  if (amount <= 0) return
+
+  const remaining = getDepositBalance(rental) - amount
+
+  await tx.rentalTransaction.update({
+    where: { id: rental.id },
+    data: {
+      depositWithheld: { increment: amount },
+      depositWithheldReason: appendReason(rental.depositWithheldReason, reason),
+      damageAward: { increment: amount },
+      amountOwedToSeller: { increment: amount },
+      ...(rental.depositStatus === 'REFUND_DUE' && remaining <= 0.01 && { depositStatus: 'WITHHELD' as const })
+    }
+  })
+
+  await tx.rentalLedgerEntry.create({
+    data: {
+      rentalId: rental.id,
+      type: 'DAMAGE_AWARD',
+      amount,
+      sellerAmount: amount,
+      note: `₹${amount} of the deposit awarded to the seller: ${reason}`
+    }
+  })
+}
@@ -0,0 +1,7 @@
+// src/lib/rentalDisputes.ts
+import { RentalStatus } from "@prisma/client"
+
+export const MAX_DISPUTE_PHOTOS = 6
+
+// Claims can be raised while the item is out or after it comes back
+export const DISPUTABLE_RENTAL_STATUSES: RentalStatus[] = ['ACTIVE', 'RETURNED']
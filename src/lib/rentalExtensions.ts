@@ -0,0 +1,41 @@
+// src/lib/rentalExtensions.ts
+import { RentalTransaction } from "@prisma/client"
+import { prisma } from "./prisma"
+import { FEE_RULES_INCLUDE, getCurrentFeeRuleSet } from "./feeRules"
+import { LEGACY_FEE_RULES, resolveFeePolicy } from "./platformFees"
+import { priceRental, RentalPriceBreakdown } from "./rentalPricing"
+
+export const MAX_EXTENSION_DAYS = 90
+
+type ExtensionPricingFields = Pick<RentalTransaction, 'listingId' | 'offerId' | 'sellerEarning' | 'feeRuleSetId' | 'pricedDays'>
+
+// Extra days are priced like a booking of their own: the cheapest mix of the
+// listing's monthly, weekly and daily rates under the rental's fee rules.
+// A rental booked through an offer keeps the agreed daily rent, and one from
+// before tiered pricing keeps its daily rate, as that is what it is charged.
+export async function priceExtension(
+  rental: ExtensionPricingFields,
+  extraDays: number,
+  now: Date = new Date()
+): Promise<RentalPriceBreakdown> {
+  const [listing, feeRuleSet, currentRules] = await Promise.all([
+    prisma.itemListing.findUniqueOrThrow({
+      where: { id: rental.listingId },
+      select: { categoryId: true, weeklyRent: true, monthlyRent: true }
+    }),
+    rental.feeRuleSetId
+      ? prisma.platformFeeRuleSet.findUnique({ where: { id: rental.feeRuleSetId }, include: FEE_RULES_INCLUDE })
+      : null,
+    getCurrentFeeRuleSet()
+  ])
+
+  const feePolicy = resolveFeePolicy(feeRuleSet || LEGACY_FEE_RULES, listing.categoryId, {
+    promotions: currentRules.promotions,
+    at: now
+  })
+  const rates = rental.offerId || rental.pricedDays <= 0
+    ? { rentPerDay: rental.sellerEarning }
+    : { rentPerDay: rental.sellerEarning, weeklyRent: listing.weeklyRent, monthlyRent: listing.monthlyRent }
+
+  return priceRental(rates, extraDays, feePolicy)
+}
@@ -0,0 +1,78 @@
+// src/lib/rentalHandover.ts
+import { randomInt } from "crypto"
+import { RentalParty, RentalTransaction } from "@prisma/client"
+import { prisma } from "./prisma"
+
+type CodeFields = Pick<RentalTransaction, 'renterId' | 'sellerId' | 'handoverCode' | 'returnCode'>
+
+// Which side of the rental a user is on, or null if neither
+export function getRentalParty(
+  rental: { renterId: string; sellerId: string },
+  userId: string
+): RentalParty | null {
+  if (rental.renterId === userId) return 'RENTER'
+  if (rental.sellerId === userId) return 'SELLER'
+  return null
+}
+
+// Six digits, easy to read out in person
+export function generateConfirmationCode(): string {
+  return randomInt(0, 1_000_000).toString().padStart(6, '0')
+}
+
+// Tries at a code before entry locks; at 5 per 15 minutes six digits take years to guess
+export const MAX_CODE_ATTEMPTS = 5
+export const CODE_LOCKOUT_MINUTES = 15
+
+export const CODE_LOCKED_MESSAGE = `Too many incorrect codes. Try again in ${CODE_LOCKOUT_MINUTES} minutes`
+
+// Count one try at the code under `key` before it is compared, so parallel
+// guesses cannot slip past the limit. The last try also starts the lockout.
+// Returns false while entry is locked.
+export async function reserveCodeAttempt(key: string, now: Date = new Date()): Promise<boolean> {
+  await prisma.confirmationCodeAttempt.createMany({ data: [{ key }], skipDuplicates: true })
+
+  // A lockout that has run out starts a fresh set of tries
+  await prisma.confirmationCodeAttempt.updateMany({
+    where: { key, lockedUntil: { lte: now } },
+    data: { attempts: 0, lockedUntil: null }
+  })
+
+  const { count } = await prisma.confirmationCodeAttempt.updateMany({
+    where: { key, lockedUntil: null, attempts: { lt: MAX_CODE_ATTEMPTS - 1 } },
+    data: { attempts: { increment: 1 } }
+  })
+  if (count > 0) return true
+
+  const { count: lastTry } = await prisma.confirmationCodeAttempt.updateMany({
+    where: { key, lockedUntil: null, attempts: MAX_CODE_ATTEMPTS - 1 },
+    data: {
+      attempts: MAX_CODE_ATTEMPTS,
+      lockedUntil: new Date(now.getTime() + CODE_LOCKOUT_MINUTES * 60 * 1000)
+    }
+  })
+  return lastTry > 0
+}
+
+// Forget the tries once the right code is in
+export async function clearCodeAttempts(key: string) {
+  await prisma.confirmationCodeAttempt.deleteMany({ where: { key } })
+}
+
+// Payment verified but the seller has not confirmed handing the item over.
+// Rentals activated before handover codes existed have no code and count as handed over.
+export function isAwaitingHandover(rental: Pick<RentalTransaction, 'status' | 'handoverCode' | 'handedOverAt'>): boolean {
+  return rental.status === 'ACTIVE' && rental.handoverCode !== null && rental.handedOverAt === null
+}
+
+// Each code is only shown to the party that hands it over: the renter
+// proves they received the item, the seller proves they got it back
+export function redactRentalCodes<T extends CodeFields>(rental: T, viewerId: string, isAdmin = false): T {
+  if (isAdmin) return rental
+
+  return {
+    ...rental,
+    handoverCode: rental.renterId === viewerId ? rental.handoverCode : null,
+    returnCode: rental.sellerId === viewerId ? rental.returnCode : null
+  }
+}
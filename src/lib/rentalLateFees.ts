@@ -0,0 +1,42 @@
+// src/lib/rentalLateFees.ts
+import { RentalTransaction } from "@prisma/client"
+import { addDays, daysBetween, getBookedEnd } from "./rentalAvailability"
+
+type LateFields = Pick<RentalTransaction, 'startDate' | 'endDate' | 'daysRented'>
+
+// Listing setting wins over the category default; no fee if neither is set
+export function resolveLateFeePerDay(
+  listing: { lateFeePerDay: number | null },
+  category: { lateFeePerDay: number | null } | null
+): number {
+  return listing.lateFeePerDay ?? category?.lateFeePerDay ?? 0
+}
+
+// Whole days past the booked end. Returning on the end date itself is on time.
+export function getDaysLate(rental: LateFields, at: Date = new Date()): number {
+  return Math.max(0, daysBetween(getBookedEnd(rental), at))
+}
+
+// First late day, or null while the rental is still within its booked period
+export function getOverdueSince(rental: LateFields, at: Date = new Date()): Date | null {
+  return getDaysLate(rental, at) > 0 ? addDays(getBookedEnd(rental), 1) : null
+}
+
+// Late charge at return time, taken from the security deposit first.
+// Late days the accrual already charged as rent are not charged again.
+export function calculateLateCharge(
+  rental: LateFields & Pick<RentalTransaction, 'lateFeePerDay' | 'securityDeposit'>,
+  returnedAt: Date
+) {
+  const accruedPastEnd = Math.max(0, rental.daysRented - daysBetween(rental.startDate, getBookedEnd(rental)))
+  const daysLate = Math.max(0, getDaysLate(rental, returnedAt) - accruedPastEnd)
+  const lateFee = daysLate * rental.lateFeePerDay
+  const fromDeposit = Math.min(lateFee, rental.securityDeposit || 0)
+
+  return {
+    daysLate,
+    lateFee,
+    fromDeposit,
+    due: lateFee - fromDeposit
+  }
+}
@@ -0,0 +1,55 @@
+// src/lib/rentalPayout.ts
+import { Prisma, RentalTransaction } from "@prisma/client"
+import { prisma } from "./prisma"
+import { getPlatformCutCharged, getRentCharged } from "./rentalPricing"
+
+type PayoutFields = Pick<RentalTransaction,
+  'rentPerDay' | 'platformFee' | 'daysRented' | 'dailyRate' | 'pricedDays' | 'pricedRent' | 'pricedPlatformFee' |
+  'lateFee' | 'lateFeeDue' | 'damageAward' | 'cancellationFee'>
+
+// Seller's part of a cancellation fee, split like the rent it replaces
+export function getCancellationSellerShare(
+  rental: Pick<PayoutFields, 'rentPerDay' | 'platformFee' | 'pricedRent' | 'pricedPlatformFee' | 'cancellationFee'>
+) {
+  const [rent, fee] = rental.pricedRent > 0
+    ? [rental.pricedRent, rental.pricedPlatformFee]
+    : [rental.rentPerDay, rental.platformFee]
+  if (rent <= 0) return 0
+  return rental.cancellationFee * (rent - fee) / rent
+}
+
+// Seller's share of a rental: rent for every charged day (tiered price for
+// the booked period, daily rate after that) minus the platform fee, plus the
+// late fee collected, deposit awarded for damage and share of a cancellation fee.
+// The rest of the security deposit goes back to the renter.
+export function calculateSellerPayout(rental: PayoutFields) {
+  const totalRent = getRentCharged(rental)
+  const platformCut = getPlatformCutCharged(rental)
+  const cancellationShare = getCancellationSellerShare(rental)
+  const lateFee = rental.lateFee - rental.lateFeeDue
+  const sellerEarning = totalRent - platformCut + lateFee + rental.damageAward + cancellationShare
+
+  return {
+    totalRent,
+    platformCut,
+    lateFee,
+    damageAward: rental.damageAward,
+    cancellationShare,
+    sellerEarning
+  }
+}
+
+// Returned or cancelled rentals whose seller has not been fully paid.
+// Each payout lowers amountOwedToSeller to what is left, so settled rentals drop out.
+export const PENDING_PAYOUT_WHERE = {
+  status: { in: ['RETURNED', 'CANCELLED'] },
+  OR: [
+    { amountOwedToSeller: { gt: 0 } },
+    {
+      AND: [
+        { amountOwedToSeller: { lte: 0 } },
+        { sellerPaidOut: { lt: prisma.rentalTransaction.fields.amountOwedToSeller } }
+      ]
+    }
+  ]
+} satisfies Prisma.RentalTransactionWhereInput
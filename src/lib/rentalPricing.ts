@@ -0,0 +1,169 @@
+// src/lib/rentalPricing.ts
+// Pure pricing helpers, shared by the listing form, checkout page and API routes
+import { calculateFee, FeePolicy, LEGACY_FEE_POLICY } from "./platformFees"
+
+export const DAYS_PER_WEEK = 7
+export const DAYS_PER_MONTH = 30
+
+// Longest booking for any listing, whatever its own maximum. Keeps pricing
+// and the day-by-day availability check bounded.
+export const MAX_RENTAL_DAYS = 365
+
+export type PricingUnit = 'MONTH' | 'WEEK' | 'DAY'
+
+// Seller-side rates of a listing; weekly and monthly rates are optional
+export interface ListingRates {
+  rentPerDay: number
+  weeklyRent?: number | null
+  monthlyRent?: number | null
+}
+
+export interface ListingDurationLimits {
+  minRentalDays: number
+  maxRentalDays?: number | null
+}
+
+// A type rather than an interface so the lines can be stored as JSON
+export type PricingLine = {
+  unit: PricingUnit
+  count: number
+  sellerRate: number // Per unit, before the platform fee
+  customerRate: number // Per unit, what the renter pays
+  amount: number // count × customerRate
+}
+
+export interface RentalPriceBreakdown {
+  days: number
+  lines: PricingLine[]
+  sellerTotal: number
+  platformFee: number
+  total: number // What the renter pays for the period
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+// `days` is how many days the amount covers, for the per-day fee caps
+export function getPlatformFee(sellerAmount: number, policy: FeePolicy = LEGACY_FEE_POLICY, days: number = 1): number {
+  return calculateFee(sellerAmount, policy, days)
+}
+
+export function getCustomerRate(sellerRate: number, policy: FeePolicy = LEGACY_FEE_POLICY, days: number = 1): number {
+  return roundMoney(sellerRate + getPlatformFee(sellerRate, policy, days))
+}
+
+// Cheapest mix of months, weeks and days covering at least `days` days.
+// A week can be cheaper than five single days, so overshooting is allowed.
+export function priceRental(
+  rates: ListingRates,
+  days: number,
+  policy: FeePolicy = LEGACY_FEE_POLICY
+): RentalPriceBreakdown {
+  const customer: Record<PricingUnit, number | null> = {
+    MONTH: rates.monthlyRent ? getCustomerRate(rates.monthlyRent, policy, DAYS_PER_MONTH) : null,
+    WEEK: rates.weeklyRent ? getCustomerRate(rates.weeklyRent, policy, DAYS_PER_WEEK) : null,
+    DAY: getCustomerRate(rates.rentPerDay, policy)
+  }
+
+  let best: { months: number; weeks: number; singleDays: number; cost: number } | null = null
+  const maxMonths = customer.MONTH !== null ? Math.ceil(days / DAYS_PER_MONTH) : 0
+
+  for (let months = 0; months <= maxMonths; months++) {
+    const afterMonths = Math.max(0, days - months * DAYS_PER_MONTH)
+
+    // Cost is linear in whole weeks up to the remaining days, so the best
+    // week count is none, as many full weeks as fit, or one more to overshoot
+    const weekCounts = customer.WEEK !== null
+      ? [0, Math.floor(afterMonths / DAYS_PER_WEEK), Math.ceil(afterMonths / DAYS_PER_WEEK)]
+      : [0]
+
+    for (const weeks of weekCounts) {
+      const singleDays = Math.max(0, afterMonths - weeks * DAYS_PER_WEEK)
+      const cost = roundMoney(
+        months * (customer.MONTH || 0) + weeks * (customer.WEEK || 0) + singleDays * customer.DAY!
+      )
+
+      // Ties go to the combination with fewer units
+      if (!best || cost < best.cost - 0.001 ||
+        (Math.abs(cost - best.cost) <= 0.001 && months + weeks + singleDays < best.months + best.weeks + best.singleDays)) {
+        best = { months, weeks, singleDays, cost }
+      }
+    }
+  }
+
+  const counts: Record<PricingUnit, number> = {
+    MONTH: best?.months || 0,
+    WEEK: best?.weeks || 0,
+    DAY: best?.singleDays || 0
+  }
+  const sellerRates: Record<PricingUnit, number> = {
+    MONTH: rates.monthlyRent || 0,
+    WEEK: rates.weeklyRent || 0,
+    DAY: rates.rentPerDay
+  }
+
+  const lines: PricingLine[] = (['MONTH', 'WEEK', 'DAY'] as PricingUnit[])
+    .filter(unit => counts[unit] > 0)
+    .map(unit => ({
+      unit,
+      count: counts[unit],
+      sellerRate: sellerRates[unit],
+      customerRate: customer[unit]!,
+      amount: roundMoney(counts[unit] * customer[unit]!)
+    }))
+
+  const sellerTotal = roundMoney(lines.reduce((sum, line) => sum + line.count * line.sellerRate, 0))
+  const total = roundMoney(lines.reduce((sum, line) => sum + line.amount, 0))
+
+  return {
+    days,
+    lines,
+    sellerTotal,
+    platformFee: roundMoney(total - sellerTotal),
+    total
+  }
+}
+
+export function getDurationError(limits: ListingDurationLimits, days: number): string | null {
+  if (days > MAX_RENTAL_DAYS) {
+    return `Rentals can be booked for at most ${MAX_RENTAL_DAYS} days`
+  }
+  if (days < limits.minRentalDays) {
+    return `This item must be rented for at least ${limits.minRentalDays} day(s)`
+  }
+  if (limits.maxRentalDays && days > limits.maxRentalDays) {
+    return `This item can be rented for at most ${limits.maxRentalDays} day(s)`
+  }
+  return null
+}
+
+export function describePricingLine(line: Pick<PricingLine, 'unit' | 'count' | 'customerRate'>): string {
+  const label = line.unit === 'MONTH' ? 'month' : line.unit === 'WEEK' ? 'week' : 'day'
+  return `${line.count} ${label}${line.count === 1 ? '' : 's'} × ₹${line.customerRate}`
+}
+
+// Fields of a RentalTransaction priced at checkout.
+// Rentals from before tiered pricing have pricedDays = 0.
+export interface PricedRental {
+  daysRented: number
+  dailyRate: number
+  platformFee: number // Per extra day
+  pricedDays: number
+  pricedRent: number
+  pricedPlatformFee: number
+}
+
+// Rent charged for `days` days. Days past the priced period (extensions,
+// late days) are charged at the daily rate.
+export function getRentCharged(rental: PricedRental, days: number = rental.daysRented): number {
+  if (rental.pricedDays <= 0) return days * rental.dailyRate
+  if (days < rental.pricedDays) return rental.pricedRent * days / rental.pricedDays
+  return rental.pricedRent + (days - rental.pricedDays) * rental.dailyRate
+}
+
+export function getPlatformCutCharged(rental: PricedRental, days: number = rental.daysRented): number {
+  if (rental.pricedDays <= 0) return days * rental.platformFee
+  if (days < rental.pricedDays) return rental.pricedPlatformFee * days / rental.pricedDays
+  return rental.pricedPlatformFee + (days - rental.pricedDays) * rental.platformFee
+}
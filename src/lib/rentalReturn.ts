@@ -0,0 +1,84 @@
+// src/lib/rentalReturn.ts
+import { RentalTransaction } from "@prisma/client"
+import { prisma } from "./prisma"
+import { accrueRental } from "./rentalAccrual"
+import { releaseDepositOnReturn } from "./rentalDeposits"
+import { isAwaitingHandover } from "./rentalHandover"
+import { calculateLateCharge } from "./rentalLateFees"
+
+export class RentalReturnError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RentalReturnError'
+  }
+}
+
+// Close an ACTIVE rental: charge rent up to the return, work out the late fee,
+// move the deposit to the refund queue and free the unit
+export async function completeRentalReturn(rental: RentalTransaction, returnedAt: Date = new Date()) {
+  if (rental.status !== 'ACTIVE') {
+    throw new RentalReturnError(`Only active rentals can be returned (rental is ${rental.status.toLowerCase()})`)
+  }
+
+  // The item never changed hands, so there is no rent or late fee to add
+  const neverHandedOver = isAwaitingHandover(rental)
+
+  return prisma.$transaction(async (tx) => {
+    if (!neverHandedOver) {
+      // Charge rent for any days held past the last accrual run
+      await accrueRental(tx, rental, returnedAt)
+    }
+
+    const current = await tx.rentalTransaction.findUniqueOrThrow({ where: { id: rental.id } })
+    const lateCharge = neverHandedOver
+      ? { daysLate: 0, lateFee: 0, fromDeposit: 0, due: 0 }
+      : calculateLateCharge(current, returnedAt)
+
+    // Late fee comes out of the deposit first; the rest waits in the refund queue
+    await releaseDepositOnReturn(tx, current, lateCharge)
+
+    const { count } = await tx.rentalTransaction.updateMany({
+      where: { id: rental.id, status: 'ACTIVE' },
+      data: {
+        status: 'RETURNED',
+        returnedAt,
+        overdueSince: null,
+        lateFee: lateCharge.lateFee,
+        lateFeeFromDeposit: lateCharge.fromDeposit,
+        lateFeeDue: lateCharge.due,
+        // The seller gets the late fee collected so far on top of the rent share
+        amountOwedToSeller: { increment: lateCharge.fromDeposit }
+      }
+    })
+
+    if (count === 0) {
+      throw new RentalReturnError('Rental was already returned')
+    }
+
+    if (lateCharge.lateFee > 0) {
+      await tx.rentalLedgerEntry.create({
+        data: {
+          rentalId: rental.id,
+          type: 'LATE_FEE',
+          days: lateCharge.daysLate,
+          amount: lateCharge.lateFee,
+          sellerAmount: lateCharge.fromDeposit,
+          periodStart: current.overdueSince || returnedAt,
+          periodEnd: returnedAt,
+          note: `Returned ${lateCharge.daysLate} day(s) late at ₹${current.lateFeePerDay}/day. ` +
+            `₹${lateCharge.fromDeposit} taken from deposit, ₹${lateCharge.due} still due`
+        }
+      })
+    }
+
+    // Free up inventory
+    await tx.itemListing.update({
+      where: { id: rental.listingId },
+      data: { currentlyRented: { decrement: 1 } }
+    })
+
+    const updatedRental = await tx.rentalTransaction.findUniqueOrThrow({ where: { id: rental.id } })
+
+    return { updatedRental, lateCharge }
+  })
+}
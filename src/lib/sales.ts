@@ -0,0 +1,187 @@
+// src/lib/sales.ts
+import { Prisma, SaleTransaction } from "@prisma/client"
+import { prisma } from "./prisma"
+import { clearCodeAttempts, CODE_LOCKED_MESSAGE, generateConfirmationCode, reserveCodeAttempt } from "./rentalHandover"
+
+export class SaleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SaleError'
+  }
+}
+
+// Too many wrong handover codes; try again later
+export class SaleCodeLockedError extends SaleError {
+  constructor() {
+    super(CODE_LOCKED_MESSAGE)
+    this.name = 'SaleCodeLockedError'
+  }
+}
+
+export class SaleCodeIncorrectError extends SaleError {
+  constructor() {
+    super('Incorrect handover code')
+    this.name = 'SaleCodeIncorrectError'
+  }
+}
+
+// Hold one unit of a SELL listing for a buyer. Units stay held while the
+// payment is verified; the listing shows as SOLD once every unit is taken.
+export async function reserveSaleUnit(tx: Prisma.TransactionClient, listingId: string) {
+  const { count } = await tx.itemListing.updateMany({
+    where: {
+      id: listingId,
+      listingType: 'SELL',
+      status: 'LIVE',
+      quantity: { gt: tx.itemListing.fields.quantitySold }
+    },
+    data: { quantitySold: { increment: 1 } }
+  })
+
+  if (count === 0) {
+    throw new SaleError('This item is sold out')
+  }
+
+  await tx.itemListing.updateMany({
+    where: { id: listingId, quantity: { lte: tx.itemListing.fields.quantitySold } },
+    data: { status: 'SOLD' }
+  })
+}
+
+// Put a unit back on sale after a purchase falls through
+export async function releaseSaleUnit(tx: Prisma.TransactionClient, listingId: string) {
+  await tx.itemListing.update({
+    where: { id: listingId },
+    data: { quantitySold: { decrement: 1 } }
+  })
+
+  await tx.itemListing.updateMany({
+    where: { id: listingId, status: 'SOLD' },
+    data: { status: 'LIVE' }
+  })
+}
+
+// Admin found the buyer's payment: the buyer gets a code to show at pickup
+export async function verifySalePayment(sale: SaleTransaction, now: Date = new Date()) {
+  const { count } = await prisma.saleTransaction.updateMany({
+    where: { id: sale.id, status: 'PENDING' },
+    data: {
+      status: 'PAID',
+      paidAt: now,
+      handoverCode: generateConfirmationCode()
+    }
+  })
+
+  if (count === 0) {
+    throw new SaleError(`Sale is already ${sale.status.toLowerCase()}`)
+  }
+
+  return prisma.saleTransaction.findUniqueOrThrow({ where: { id: sale.id } })
+}
+
+// Admin could not find the payment: cancel and put the unit back on sale
+export async function rejectSalePayment(sale: SaleTransaction, reason: string | null, now: Date = new Date()) {
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.saleTransaction.updateMany({
+      where: { id: sale.id, status: 'PENDING' },
+      data: {
+        status: 'CANCELLED',
+        cancellationReason: reason,
+        cancelledAt: now
+      }
+    })
+
+    if (count === 0) {
+      throw new SaleError(`Sale is already ${sale.status.toLowerCase()}`)
+    }
+
+    await releaseSaleUnit(tx, sale.listingId)
+
+    return tx.saleTransaction.findUniqueOrThrow({ where: { id: sale.id } })
+  })
+}
+
+// The item never changed hands after the payment was verified: cancel, put
+// the unit back on sale and queue the buyer's whole payment for refund
+export async function cancelPaidSale(sale: SaleTransaction, reason: string | null, now: Date = new Date()) {
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.saleTransaction.updateMany({
+      where: { id: sale.id, status: 'PAID', handedOverAt: null },
+      data: {
+        status: 'CANCELLED',
+        cancellationReason: reason,
+        cancelledAt: now,
+        refundAmount: sale.totalPaid,
+        handoverCode: null
+      }
+    })
+
+    if (count === 0) {
+      throw new SaleError('This sale is not waiting for a handover')
+    }
+
+    await releaseSaleUnit(tx, sale.listingId)
+
+    return tx.saleTransaction.findUniqueOrThrow({ where: { id: sale.id } })
+  })
+}
+
+// Admin returned a cancelled sale's payment to the buyer
+export async function markSaleRefunded(sale: SaleTransaction, reference: string | null, now: Date = new Date()) {
+  const { count } = await prisma.saleTransaction.updateMany({
+    where: { id: sale.id, status: 'CANCELLED', refundAmount: { gt: 0 }, refundedAt: null },
+    data: {
+      refundReference: reference,
+      refundedAt: now
+    }
+  })
+
+  if (count === 0) {
+    throw new SaleError('No refund is due on this sale')
+  }
+
+  return prisma.saleTransaction.findUniqueOrThrow({ where: { id: sale.id } })
+}
+
+// Seller enters the buyer's code at pickup; the seller's price is then owed to them
+export async function confirmSaleHandover(sale: SaleTransaction, code: unknown, now: Date = new Date()) {
+  if (sale.status !== 'PAID') {
+    throw new SaleError('This sale is not waiting for a handover')
+  }
+
+  const attemptKey = `sale-handover:${sale.id}`
+  if (!await reserveCodeAttempt(attemptKey, now)) {
+    throw new SaleCodeLockedError()
+  }
+
+  if (typeof code !== 'string' || code.trim() !== sale.handoverCode) {
+    throw new SaleCodeIncorrectError()
+  }
+
+  await clearCodeAttempts(attemptKey)
+
+  const { count } = await prisma.saleTransaction.updateMany({
+    where: { id: sale.id, status: 'PAID' },
+    data: {
+      status: 'COMPLETED',
+      handedOverAt: now,
+      amountOwedToSeller: sale.salePrice
+    }
+  })
+
+  if (count === 0) {
+    throw new SaleError('Handover was already confirmed')
+  }
+
+  return prisma.saleTransaction.findUniqueOrThrow({ where: { id: sale.id } })
+}
+
+// The handover code is only shown to the buyer
+export function redactSaleCode<T extends Pick<SaleTransaction, 'buyerId' | 'handoverCode'>>(
+  sale: T,
+  viewerId: string,
+  isAdmin = false
+): T {
+  if (isAdmin || sale.buyerId === viewerId) return sale
+  return { ...sale, handoverCode: null }
+}
@@ -0,0 +1,300 @@
+// src/lib/search.ts
+import { Prisma } from "@prisma/client"
+import { prisma } from "./prisma"
+import { FEE_RULES_INCLUDE } from "./feeRules"
+
+export class SearchInputError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SearchInputError'
+  }
+}
+
+// Shop products, rental listings and student items for sale
+export const SEARCH_ITEM_TYPES = ['PRODUCT', 'RENT', 'SELL'] as const
+export type SearchItemType = typeof SEARCH_ITEM_TYPES[number]
+
+export const SEARCH_SORTS = ['relevance', 'newest', 'price_asc', 'price_desc', 'name'] as const
+export type SearchSort = typeof SEARCH_SORTS[number]
+
+export const DEFAULT_SEARCH_LIMIT = 48
+export const MAX_SEARCH_LIMIT = 100
+
+// How close a misspelt word has to be to a name ("noodels" vs "Noodles" is 0.5).
+// Set as pg_trgm's word similarity threshold, which the <% operator uses.
+const FUZZY_MATCH_THRESHOLD = 0.45
+
+export interface SearchFilters {
+  q: string
+  types: SearchItemType[] // Empty means every type
+  categoryIds: string[] // Empty means every category
+  minPrice: number | null
+  maxPrice: number | null
+  inStockOnly: boolean
+  sort: SearchSort
+  limit: number
+  offset: number
+}
+
+type FacetName = 'type' | 'category' | 'availability' | 'price'
+
+const parsePrice = (value: string | null, label: string) => {
+  if (value === null || value.trim() === '') return null
+  const price = parseFloat(value)
+  if (isNaN(price) || price < 0) {
+    throw new SearchInputError(`${label} must be zero or more`)
+  }
+  return price
+}
+
+// Query string to filters. Types and categories can be repeated or comma separated.
+export function parseSearchParams(searchParams: URLSearchParams): SearchFilters {
+  const list = (name: string) => searchParams.getAll(name).flatMap(value => value.split(',')).filter(Boolean)
+
+  const types = list('type')
+  const unknownType = types.find(type => !SEARCH_ITEM_TYPES.includes(type as SearchItemType))
+  if (unknownType) {
+    throw new SearchInputError(`Unknown type "${unknownType}"`)
+  }
+
+  const sort = searchParams.get('sort') || 'relevance'
+  if (!SEARCH_SORTS.includes(sort as SearchSort)) {
+    throw new SearchInputError(`Unknown sort "${sort}"`)
+  }
+
+  const minPrice = parsePrice(searchParams.get('minPrice'), 'Minimum price')
+  const maxPrice = parsePrice(searchParams.get('maxPrice'), 'Maximum price')
+  if (minPrice !== null && maxPrice !== null && minPrice > maxPrice) {
+    throw new SearchInputError('Minimum price cannot be more than the maximum')
+  }
+
+  const limit = parseInt(searchParams.get('limit') || String(DEFAULT_SEARCH_LIMIT))
+  const offset = parseInt(searchParams.get('offset') || '0')
+  if (isNaN(limit) || limit < 1 || isNaN(offset) || offset < 0) {
+    throw new SearchInputError('Invalid limit or offset')
+  }
+
+  return {
+    q: (searchParams.get('q') || '').trim(),
+    types: types as SearchItemType[],
+    categoryIds: list('categoryId'),
+    minPrice,
+    maxPrice,
+    inStockOnly: searchParams.get('inStock') === 'true',
+    sort: sort as SearchSort,
+    limit: Math.min(limit, MAX_SEARCH_LIMIT),
+    offset
+  }
+}
+
+// "maggi nood" becomes "maggi:* & nood:*" so words match as they are typed
+function toPrefixQuery(q: string): string {
+  return q
+    .toLowerCase()
+    .split(/\s+/)
+    .map(word => word.replace(/[^\p{L}\p{N}]/gu, ''))
+    .filter(Boolean)
+    .map(word => `${word}:*`)
+    .join(' & ')
+}
+
+// Words match the stored search document by prefix; a name that is close
+// enough to the whole query matches too, so small typos still find it. Both
+// tests are written against the indexed columns so the GIN indexes are used.
+function textMatch(document: string, title: string, q: string, prefixQuery: string): Prisma.Sql {
+  return Prisma.sql`AND (
+    ${Prisma.raw(document)} @@ to_tsquery('english', ${prefixQuery})
+    OR ${q} <% ${Prisma.raw(title)}
+  )`
+}
+
+// Everything a customer can see in the shop, one row per item, narrowed to
+// the text when there is one. Sold-out sale items are gone for good; rentals
+// that are all out can still be booked for later, so they stay but are not
+// in stock. Prices are what the customer paid at listing time, before any
+// promotion running now.
+function catalog(q: string, prefixQuery: string): Prisma.Sql {
+  return Prisma.sql`
+    SELECT
+      'PRODUCT' AS item_type,
+      p.id,
+      p.category_id,
+      p.price,
+      p.stock_quantity > 0 AS in_stock,
+      p.created_at,
+      p.name AS title,
+      p.search_document AS document
+    FROM products p
+    WHERE p.is_available
+      ${prefixQuery ? textMatch('p.search_document', 'p.name', q, prefixQuery) : Prisma.empty}
+    UNION ALL
+    SELECT
+      l.listing_type,
+      l.id,
+      l.category_id,
+      CASE WHEN l.listing_type = 'SELL' THEN l.final_sale_price ELSE l.final_rent END,
+      l.listing_type = 'SELL' OR l.quantity > l.currently_rented,
+      COALESCE(l.listed_at, l.submitted_at),
+      l.item_name,
+      l.search_document
+    FROM item_listings l
+    WHERE l.status = 'LIVE'
+      AND l.is_available
+      AND (l.listing_type <> 'SELL' OR l.quantity > l.quantity_sold)
+      ${prefixQuery ? textMatch('l.search_document', 'l.item_name', q, prefixQuery) : Prisma.empty}
+  `
+}
+
+// Catalog rows matching the text, with a relevance rank
+function matchedItems(q: string): Prisma.Sql {
+  const prefixQuery = toPrefixQuery(q)
+  if (!prefixQuery) {
+    return Prisma.sql`SELECT catalog.*, 0::float AS rank FROM (${catalog(q, prefixQuery)}) catalog`
+  }
+
+  return Prisma.sql`
+    SELECT
+      catalog.*,
+      ts_rank(catalog.document, to_tsquery('english', ${prefixQuery})) + word_similarity(${q}, catalog.title) AS rank
+    FROM (${catalog(q, prefixQuery)}) catalog
+  `
+}
+
+// Each facet is counted with every filter except its own, so picking a
+// category still shows how many results the other categories have
+function whereFilters(filters: SearchFilters, except?: FacetName): Prisma.Sql {
+  const conditions: Prisma.Sql[] = []
+
+  if (except !== 'type' && filters.types.length > 0) {
+    conditions.push(Prisma.sql`item_type IN (${Prisma.join(filters.types)})`)
+  }
+  if (except !== 'category' && filters.categoryIds.length > 0) {
+    conditions.push(Prisma.sql`category_id IN (${Prisma.join(filters.categoryIds)})`)
+  }
+  if (except !== 'availability' && filters.inStockOnly) {
+    conditions.push(Prisma.sql`in_stock`)
+  }
+  if (except !== 'price' && filters.minPrice !== null) {
+    conditions.push(Prisma.sql`price >= ${filters.minPrice}`)
+  }
+  if (except !== 'price' && filters.maxPrice !== null) {
+    conditions.push(Prisma.sql`price <= ${filters.maxPrice}`)
+  }
+
+  return conditions.length > 0
+    ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}`
+    : Prisma.empty
+}
+
+const ORDER_BY: Record<SearchSort, Prisma.Sql> = {
+  relevance: Prisma.sql`rank DESC, created_at DESC, id`,
+  newest: Prisma.sql`created_at DESC, id`,
+  price_asc: Prisma.sql`price ASC, id`,
+  price_desc: Prisma.sql`price DESC, id`,
+  name: Prisma.sql`lower(title) ASC, id`
+}
+
+const LISTING_INCLUDE = {
+  category: {
+    select: {
+      id: true,
+      name: true
+    }
+  },
+  feeRuleSet: {
+    include: FEE_RULES_INCLUDE
+  }
+} satisfies Prisma.ItemListingInclude
+
+type SearchResult =
+  | { type: 'PRODUCT'; item: Prisma.ProductGetPayload<{ include: { category: true } }> }
+  | { type: 'RENT' | 'SELL'; item: Prisma.ItemListingGetPayload<{ include: typeof LISTING_INCLUDE }> }
+
+export interface SearchFacets {
+  types: Record<SearchItemType, number>
+  categories: { id: string; name: string; count: number }[]
+  availability: { inStock: number; outOfStock: number }
+  price: { min: number | null; max: number | null }
+}
+
+export async function searchCatalog(filters: SearchFilters) {
+  const matched = matchedItems(filters.q)
+
+  // One transaction, so the similarity threshold set first applies to every query
+  const [, page, [{ total }], typeCounts, categoryCounts, stockCounts, [priceRange]] = await prisma.$transaction([
+    prisma.$queryRaw`
+      SELECT set_config('pg_trgm.word_similarity_threshold', ${String(FUZZY_MATCH_THRESHOLD)}, true)
+    `,
+    prisma.$queryRaw<{ item_type: SearchItemType; id: string }[]>`
+      SELECT item_type, id FROM (${matched}) matched
+      ${whereFilters(filters)}
+      ORDER BY ${ORDER_BY[filters.sort]}
+      LIMIT ${filters.limit} OFFSET ${filters.offset}
+    `,
+    prisma.$queryRaw<{ total: number }[]>`
+      SELECT COUNT(*)::int AS total FROM (${matched}) matched ${whereFilters(filters)}
+    `,
+    prisma.$queryRaw<{ item_type: SearchItemType; count: number }[]>`
+      SELECT item_type, COUNT(*)::int AS count FROM (${matched}) matched
+      ${whereFilters(filters, 'type')}
+      GROUP BY item_type
+    `,
+    prisma.$queryRaw<{ id: string; name: string; count: number }[]>`
+      SELECT c.id, c.name, COUNT(*)::int AS count
+      FROM (SELECT category_id FROM (${matched}) matched ${whereFilters(filters, 'category')}) filtered
+      JOIN categories c ON c.id = filtered.category_id
+      GROUP BY c.id, c.name
+      ORDER BY c.name
+    `,
+    prisma.$queryRaw<{ in_stock: boolean; count: number }[]>`
+      SELECT in_stock, COUNT(*)::int AS count FROM (${matched}) matched
+      ${whereFilters(filters, 'availability')}
+      GROUP BY in_stock
+    `,
+    prisma.$queryRaw<{ min: number | null; max: number | null }[]>`
+      SELECT MIN(price) AS min, MAX(price) AS max FROM (${matched}) matched
+      ${whereFilters(filters, 'price')}
+    `
+  ])
+
+  // Load the page's items in full, then put them back in ranked order
+  const productIds = page.filter(row => row.item_type === 'PRODUCT').map(row => row.id)
+  const listingIds = page.filter(row => row.item_type !== 'PRODUCT').map(row => row.id)
+
+  const [products, listings] = await Promise.all([
+    productIds.length > 0
+      ? prisma.product.findMany({ where: { id: { in: productIds } }, include: { category: true } })
+      : [],
+    listingIds.length > 0
+      ? prisma.itemListing.findMany({ where: { id: { in: listingIds } }, include: LISTING_INCLUDE })
+      : []
+  ])
+
+  const productsById = new Map(products.map(product => [product.id, product]))
+  const listingsById = new Map(listings.map(listing => [listing.id, listing]))
+
+  const results: SearchResult[] = []
+  for (const row of page) {
+    if (row.item_type === 'PRODUCT') {
+      const product = productsById.get(row.id)
+      if (product) results.push({ type: 'PRODUCT', item: product })
+    } else {
+      const listing = listingsById.get(row.id)
+      if (listing) results.push({ type: row.item_type, item: listing })
+    }
+  }
+
+  const typeCount = (type: SearchItemType) => typeCounts.find(row => row.item_type === type)?.count ?? 0
+
+  const facets: SearchFacets = {
+    types: { PRODUCT: typeCount('PRODUCT'), RENT: typeCount('RENT'), SELL: typeCount('SELL') },
+    categories: categoryCounts,
+    availability: {
+      inStock: stockCounts.find(row => row.in_stock)?.count ?? 0,
+      outOfStock: stockCounts.find(row => !row.in_stock)?.count ?? 0
+    },
+    price: { min: priceRange?.min ?? null, max: priceRange?.max ?? null }
+  }
+
+  return { results, total, facets }
+}
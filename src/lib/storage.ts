@@ -0,0 +1,133 @@
+// src/lib/storage.ts
+import { createHash, createHmac } from "crypto"
+import { mkdir, readFile, stat, writeFile } from "fs/promises"
+import path from "path"
+
+// Where uploaded files end up. Keys are relative paths like "listings/ab12/web.webp".
+export interface StorageBackend {
+  // Store the file and return the URL it is served from
+  put(key: string, body: Buffer, contentType: string): Promise<string>
+}
+
+// Local disk, served by src/app/uploads/[...key]/route.ts. Files added to
+// public/ after a build are not served by `next start`, so they live outside it.
+export const LOCAL_UPLOAD_DIR = process.env.UPLOAD_DIR || path.join(process.cwd(), 'uploads')
+export const LOCAL_UPLOAD_URL_PREFIX = '/uploads'
+
+export function resolveLocalUploadPath(key: string): string | null {
+  const filePath = path.resolve(LOCAL_UPLOAD_DIR, key)
+  return filePath.startsWith(path.resolve(LOCAL_UPLOAD_DIR) + path.sep) ? filePath : null
+}
+
+class LocalStorage implements StorageBackend {
+  async put(key: string, body: Buffer): Promise<string> {
+    const filePath = resolveLocalUploadPath(key)
+    if (!filePath) {
+      throw new Error(`Invalid upload key: ${key}`)
+    }
+
+    // Keys are content hashes, so an existing file is already the same image
+    const exists = await stat(filePath).then(() => true, () => false)
+    if (!exists) {
+      await mkdir(path.dirname(filePath), { recursive: true })
+      await writeFile(filePath, body)
+    }
+
+    return `${LOCAL_UPLOAD_URL_PREFIX}/${key}`
+  }
+}
+
+export async function readLocalUpload(key: string): Promise<Buffer | null> {
+  const filePath = resolveLocalUploadPath(key)
+  if (!filePath) return null
+  return readFile(filePath).catch(() => null)
+}
+
+interface S3Config {
+  bucket: string
+  region: string
+  endpoint: string
+  accessKeyId: string
+  secretAccessKey: string
+  publicUrl: string
+}
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex')
+const hmac = (key: string | Buffer, data: string) => createHmac('sha256', key).update(data).digest()
+
+// Any S3-compatible service (AWS, R2, MinIO...). Path-style PUT signed with
+// AWS Signature Version 4, so no SDK is needed for the one call we make.
+class S3Storage implements StorageBackend {
+  constructor(private config: S3Config) {}
+
+  async put(key: string, body: Buffer, contentType: string): Promise<string> {
+    const { bucket, region, endpoint, accessKeyId, secretAccessKey, publicUrl } = this.config
+    const url = new URL(`${endpoint}/${bucket}/${key}`)
+
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '')
+    const dateStamp = amzDate.slice(0, 8)
+    const payloadHash = sha256(body)
+
+    const headers: Record<string, string> = {
+      'cache-control': 'public, max-age=31536000, immutable',
+      'content-type': contentType,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate
+    }
+    // fetch sets Host itself, but it still has to be signed
+    const signed: Record<string, string> = { ...headers, host: url.host }
+    const signedHeaders = Object.keys(signed).sort().join(';')
+    const canonicalHeaders = Object.keys(signed).sort().map(name => `${name}:${signed[name]}\n`).join('')
+
+    const canonicalRequest = ['PUT', url.pathname, '', canonicalHeaders, signedHeaders, payloadHash].join('\n')
+    const scope = `${dateStamp}/${region}/s3/aws4_request`
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n')
+
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${secretAccessKey}`, dateStamp), region), 's3'), 'aws4_request')
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex')
+
+    const response = await fetch(url, {
+      method: 'PUT',
+      headers: {
+        ...headers,
+        authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+      },
+      body: new Uint8Array(body)
+    })
+
+    if (!response.ok) {
+      throw new Error(`S3 upload failed (${response.status}): ${await response.text()}`)
+    }
+
+    return `${publicUrl}/${key}`
+  }
+}
+
+let storage: StorageBackend | null = null
+
+// STORAGE_DRIVER=s3 with the S3_* variables set; local disk otherwise
+export function getStorage(): StorageBackend {
+  if (storage) return storage
+
+  if (process.env.STORAGE_DRIVER === 's3') {
+    const { S3_BUCKET, S3_REGION, S3_ENDPOINT, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY, S3_PUBLIC_URL } = process.env
+    if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error('STORAGE_DRIVER=s3 needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY')
+    }
+    const region = S3_REGION || 'us-east-1'
+    const endpoint = (S3_ENDPOINT || `https://s3.${region}.amazonaws.com`).replace(/\/$/, '')
+
+    storage = new S3Storage({
+      bucket: S3_BUCKET,
+      region,
+      endpoint,
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+      publicUrl: (S3_PUBLIC_URL || `${endpoint}/${S3_BUCKET}`).replace(/\/$/, '')
+    })
+  } else {
+    storage = new LocalStorage()
+  }
+
+  return storage
+}
@@ -0,0 +1,108 @@
+// src/lib/wanted.ts
+import { prisma } from "./prisma"
+import { parseDateKey, startOfUtcDay } from "./rentalAvailability"
+import { sendWantedResponseEmail } from "./email"
+
+export class WantedPostError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WantedPostError'
+  }
+}
+
+export interface WantedPostInput {
+  title: string
+  description: string
+  categoryId: string
+  listingType: 'RENT' | 'SELL'
+  neededFrom: Date | null
+  neededUntil: Date | null
+  budget: number
+}
+
+// Validate a new wanted post
+export function parseWantedPostInput(body: Record<string, unknown>, now: Date = new Date()): WantedPostInput {
+  const title = typeof body.title === 'string' ? body.title.trim() : ''
+  const description = typeof body.description === 'string' ? body.description.trim() : ''
+  const categoryId = typeof body.categoryId === 'string' ? body.categoryId : ''
+
+  if (!title || !description || !categoryId) {
+    throw new WantedPostError('Title, description and category are required')
+  }
+
+  const listingType = body.listingType === 'SELL' ? 'SELL' : 'RENT'
+
+  const budget = parseFloat(String(body.budget))
+  if (isNaN(budget) || budget <= 0) {
+    throw new WantedPostError('Budget must be more than zero')
+  }
+
+  const neededFrom = body.neededFrom ? parseDateKey(String(body.neededFrom)) : null
+  const neededUntil = body.neededUntil ? parseDateKey(String(body.neededUntil)) : null
+
+  if ((body.neededFrom && !neededFrom) || (body.neededUntil && !neededUntil)) {
+    throw new WantedPostError('Invalid date')
+  }
+  if (neededFrom && neededFrom < startOfUtcDay(now)) {
+    throw new WantedPostError('Needed-from date cannot be in the past')
+  }
+  if (neededFrom && neededUntil && neededUntil < neededFrom) {
+    throw new WantedPostError('Needed-until date must be on or after the needed-from date')
+  }
+
+  return { title, description, categoryId, listingType, neededFrom, neededUntil, budget }
+}
+
+// Close posts whose dates have passed. Safe to call on any read.
+export async function closeLapsedWantedPosts(now: Date = new Date()): Promise<number> {
+  const { count } = await prisma.wantedPost.updateMany({
+    where: {
+      status: { in: ['PENDING', 'LIVE'] },
+      OR: [
+        { neededUntil: { lt: startOfUtcDay(now) } },
+        { neededUntil: null, neededFrom: { lt: startOfUtcDay(now) } }
+      ]
+    },
+    data: { status: 'CLOSED', closedAt: now }
+  })
+  return count
+}
+
+// Tell the requester once a listing answering their post goes live.
+// Email failures are logged, not thrown: the listing is approved regardless.
+export async function notifyWantedPostResponse(listingId: string) {
+  const listing = await prisma.itemListing.findUnique({
+    where: { id: listingId },
+    include: {
+      wantedPost: {
+        include: {
+          requester: {
+            select: { email: true }
+          }
+        }
+      }
+    }
+  })
+
+  if (!listing?.wantedPost || listing.status !== 'LIVE') {
+    return
+  }
+
+  const checkoutPath = listing.listingType === 'SELL' ? '/sale-checkout' : '/rental-checkout'
+
+  await sendWantedResponseEmail(listing.wantedPost.requester.email, {
+    requesterName: listing.wantedPost.requesterName,
+    postTitle: listing.wantedPost.title,
+    itemName: listing.itemName,
+    sellerName: listing.sellerName,
+    price: listing.listingType === 'SELL'
+      ? `₹${listing.finalSalePrice}`
+      : `₹${listing.finalRent}/day`,
+    listingUrl: `${process.env.NEXTAUTH_URL || 'http://localhost:3000'}${checkoutPath}?listingId=${listing.id}`
+  })
+
+  console.log('📣 Wanted post requester notified:', {
+    wantedPostId: listing.wantedPost.id,
+    listingId: listing.id
+  })
+}